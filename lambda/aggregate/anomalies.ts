@@ -0,0 +1,228 @@
+import { GetCommand, PutCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBRecord } from 'aws-lambda';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { AnomalySettings, Baseline, getThreshold, scoreReading, updateBaseline } from '../shared/anomaly-detection';
+import { DocumentStore } from '../shared/storage';
+import { expandReadings } from '../shared/readings';
+import { logger } from '../shared/observability';
+import { SensorEvent } from './service';
+
+// Types
+// Rolling baseline of one sensor
+export interface AnomalyState extends Baseline {
+  sensor_id: string;
+  last_timestamp: string; // Last reading folded into the baseline
+  last_value?: number;
+  last_score?: number;
+  version: number;
+}
+
+export interface Anomaly {
+  sensor_id: string;
+  timestamp: string; // Sort key: time of the anomalous reading
+  value: number;
+  score: number;
+  threshold: number;
+  baseline_mean: number;
+  baseline_stddev: number;
+  type: string;
+  location: string;
+  unit?: string;
+  detected_at: string;
+  environment: string;
+}
+
+export interface ReadingScore {
+  score: number;
+  anomalous: boolean;
+  state: AnomalyState;
+  anomaly?: Anomaly;
+  out_of_order?: boolean; // Scored without being folded into the baseline
+}
+
+export interface AnomalyDetectorConfig {
+  docClient: DocumentStore;
+  stateTableName: string;
+  anomaliesTableName: string;
+  environment: string;
+  settings: AnomalySettings;
+}
+
+/**
+ * Scores every new reading against its sensor's rolling baseline, see
+ * shared/anomaly-detection. Runs in the aggregate Lambda after the reading
+ * has been aggregated, so the events stream keeps two consumers.
+ */
+export class AnomalyDetector {
+  constructor(private config: AnomalyDetectorConfig) {}
+
+  /**
+   * Current baseline of a sensor
+   */
+  async getState(sensor_id: string): Promise<AnomalyState> {
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.stateTableName,
+      Key: { sensor_id },
+      ConsistentRead: true
+    }));
+
+    return (result.Item as AnomalyState | undefined) || {
+      sensor_id,
+      mean: 0,
+      variance: 0,
+      count: 0,
+      last_timestamp: '',
+      version: 0
+    };
+  }
+
+  /**
+   * Score a reading against the sensor's baseline and fold it in. Nothing
+   * is flagged until the baseline has seen 'warmup' readings.
+   */
+  score(state: AnomalyState, sensorEvent: SensorEvent, now = new Date()): ReadingScore {
+    const { alpha, warmup } = this.config.settings;
+    const threshold = getThreshold(this.config.settings, sensorEvent.type);
+    const score = scoreReading(state, sensorEvent.value);
+    const anomalous = state.count >= warmup && score >= threshold;
+
+    const next: AnomalyState = {
+      ...state,
+      ...updateBaseline(state, sensorEvent.value, alpha),
+      last_timestamp: sensorEvent.timestamp,
+      last_value: sensorEvent.value,
+      last_score: score
+    };
+
+    return {
+      score,
+      anomalous,
+      state: next,
+      anomaly: anomalous ? {
+        sensor_id: sensorEvent.sensor_id,
+        timestamp: sensorEvent.timestamp,
+        value: sensorEvent.value,
+        score,
+        threshold,
+        baseline_mean: state.mean,
+        baseline_stddev: Math.sqrt(state.variance),
+        type: sensorEvent.type,
+        location: sensorEvent.location,
+        unit: sensorEvent.unit,
+        detected_at: now.toISOString(),
+        environment: this.config.environment
+      } : undefined
+    };
+  }
+
+  /**
+   * Persist the new baseline, and the anomaly when the reading was one, in
+   * one transaction. The state write is conditioned on the version read, so
+   * concurrent scoring of the same sensor cannot be lost.
+   */
+  async saveScore(previous: AnomalyState, result: ReadingScore): Promise<void> {
+    const transactItems: any[] = [{
+      Put: {
+        TableName: this.config.stateTableName,
+        Item: { ...result.state, version: previous.version + 1 },
+        ConditionExpression: previous.version === 0 ? 'attribute_not_exists(sensor_id)' : 'version = :version',
+        ExpressionAttributeValues: previous.version === 0 ? undefined : { ':version': previous.version }
+      }
+    }];
+
+    if (result.anomaly) {
+      transactItems.push({
+        Put: {
+          TableName: this.config.anomaliesTableName,
+          Item: withoutUndefined(result.anomaly)
+        }
+      });
+    }
+
+    await this.config.docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+  }
+
+  /**
+   * Store the anomaly of a reading scored out of order. The baseline is left
+   * as it is, and an anomaly already stored for the reading is kept, so a
+   * retried record cannot replace it with a score against a later baseline.
+   */
+  async saveLateAnomaly(anomaly: Anomaly): Promise<void> {
+    try {
+      await this.config.docClient.send(new PutCommand({
+        TableName: this.config.anomaliesTableName,
+        Item: withoutUndefined(anomaly),
+        ConditionExpression: 'attribute_not_exists(sensor_id)'
+      }));
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Score a reading. Readings newer than the last one scored of their
+   * sensor are folded into the baseline, so each is folded in once. Late
+   * and out-of-order readings are scored against the current baseline
+   * without changing it. Edits of older readings (not 'inserted') and the
+   * last reading scored, seen again on a stream retry, are skipped.
+   */
+  async processSensorEvent(sensorEvent: SensorEvent, inserted = true): Promise<ReadingScore | undefined> {
+    const state = await this.getState(sensorEvent.sensor_id);
+    const inOrder = !state.last_timestamp || sensorEvent.timestamp > state.last_timestamp;
+    if (!inOrder && (!inserted || sensorEvent.timestamp === state.last_timestamp)) {
+      return undefined;
+    }
+
+    let result = this.score(state, sensorEvent);
+    if (inOrder) {
+      await this.saveScore(state, result);
+    } else {
+      result = { ...result, state, out_of_order: true };
+      if (result.anomaly) {
+        await this.saveLateAnomaly(result.anomaly);
+      }
+    }
+
+    if (result.anomalous) {
+      logger.info('Anomalous reading', {
+        sensor_id: sensorEvent.sensor_id,
+        timestamp: sensorEvent.timestamp,
+        value: sensorEvent.value,
+        score: result.score,
+        out_of_order: result.out_of_order
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Score the reading in a stream record, or each metric of a multi-metric
+   * reading against the baseline of its series. Removals carry no new
+   * reading, and edits are not scored again.
+   */
+  async processRecord(record: DynamoDBRecord): Promise<ReadingScore[]> {
+    if (record.eventName === 'REMOVE' || !record.dynamodb?.NewImage) {
+      return [];
+    }
+
+    const results: ReadingScore[] = [];
+    for (const sensorEvent of expandReadings(unmarshall(record.dynamodb.NewImage as Record<string, any>) as SensorEvent)) {
+      if (!sensorEvent.sensor_id || !sensorEvent.timestamp || typeof sensorEvent.value !== 'number') {
+        continue;
+      }
+
+      const result = await this.processSensorEvent(sensorEvent, record.eventName === 'INSERT');
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+}
+
+// Attributes left undefined are dropped rather than written
+function withoutUndefined<T extends object>(item: T): Record<string, any> {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,52 @@
+import { Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { AggregateBackfill, BackfillReport, parseBackfillRequest } from './backfill';
+import { parseResolutions } from '../shared/buckets';
+import { logger } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const SENSOR_EVENTS_TABLE = process.env.SENSOR_EVENTS_TABLE!;
+const SENSOR_AGGREGATES_TABLE = process.env.SENSOR_AGGREGATES_TABLE!;
+const SENSORS_TABLE = process.env.SENSORS_TABLE;
+const AGGREGATE_RESOLUTIONS = parseResolutions(process.env.AGGREGATE_RESOLUTIONS);
+
+// No new sensor is started with less time than this left
+const STOP_MARGIN_MS = 2 * 60 * 1000;
+
+const backfill = new AggregateBackfill({
+  docClient,
+  tableName: SENSOR_AGGREGATES_TABLE,
+  eventsTableName: SENSOR_EVENTS_TABLE,
+  sensorsTableName: SENSORS_TABLE,
+  resolutions: AGGREGATE_RESOLUTIONS
+});
+
+/**
+ * Backfill job, invoked directly with a backfill request:
+ *   { "from": "...", "to": "...", "sensor_ids": [...], "dry_run": true }
+ *
+ * Sensors are processed until the invocation is close to its timeout; the
+ * ones left are returned as remaining_sensor_ids, to be passed as sensor_ids
+ * to the next invocation.
+ */
+export const handler = async (event: any, context: Context): Promise<BackfillReport> => {
+  logger.info('Received backfill request', { request: event });
+
+  const request = parseBackfillRequest(event);
+  const report = await backfill.run(request, () => context.getRemainingTimeInMillis() < STOP_MARGIN_MS);
+
+  logger.info('Completed backfill', {
+    dry_run: report.dry_run,
+    sensors: report.sensors,
+    differences: report.differences.length,
+    written: report.written,
+    deleted: report.deleted,
+    remaining: report.remaining_sensor_ids?.length ?? 0
+  });
+  return report;
+};
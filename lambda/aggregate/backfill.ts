@@ -0,0 +1,519 @@
+/**
+ * Rebuilds SensorAggregates rows from the raw SensorEvents table.
+ *
+ * The stream only delivers new writes, so aggregates that drifted (a lost
+ * batch, a fix to the aggregation logic) can only be repaired from the raw
+ * readings. For every sensor, the readings of every bucket overlapping the
+ * requested range are read in full, the buckets are recomputed in memory at
+ * every configured resolution and compared with the stored rows. Rows that
+ * differ are overwritten, rows without readings are deleted.
+ *
+ * Runs are idempotent: a rewritten row holds exactly what a second run
+ * computes. Each write is conditioned on the stored row being unchanged since
+ * it was read; when the live pipeline updates a sensor meanwhile, that sensor
+ * is recomputed from scratch. Readings still in flight in the stream when
+ * their bucket is rewritten are counted again once applied, so ranges that
+ * are still receiving readings are best left until they have settled.
+ *
+ * Each metric of a multi-metric sensor is rebuilt as its own series (see
+ * shared/readings). Only series with readings in the range are found, so
+ * rows of a metric whose raw readings are all gone are left as they are.
+ *
+ * Location and type rollups (GroupAggregates) are not rebuilt.
+ */
+import { DeleteCommand, PutCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { RESOLUTIONS, Resolution, getBucketEnd, getBucketKey, getBucketStart } from '../shared/buckets';
+import { Sketch, emptySketch, getSketchBin } from '../shared/statistics';
+import { DocumentStore } from '../shared/storage';
+import { expandReadings } from '../shared/readings';
+import { logger } from '../shared/observability';
+import { SensorAggregate, SensorEvent } from './service';
+
+export interface BackfillRequest {
+  sensor_ids?: string[]; // Every registered sensor when omitted
+  from: string;
+  to: string;
+  dry_run: boolean;
+}
+
+export type AggregateChange = 'create' | 'update' | 'delete';
+
+export interface AggregateDifference {
+  sensor_id: string;
+  hour_bucket: string;
+  change: AggregateChange;
+  fields: string[]; // Attributes whose stored value differs
+  stored?: Pick<SensorAggregate, 'count' | 'sum' | 'min' | 'max'>;
+  recomputed?: Pick<SensorAggregate, 'count' | 'sum' | 'min' | 'max'>;
+}
+
+export interface SensorBackfillResult {
+  sensor_id: string;
+  events: number;
+  buckets: number;
+  differences: AggregateDifference[];
+  written: number;
+  deleted: number;
+}
+
+export interface BackfillReport {
+  dry_run: boolean;
+  from: string;
+  to: string;
+  resolutions: Resolution[];
+  sensors: number;
+  events: number;
+  buckets: number;
+  written: number;
+  deleted: number;
+  differences: AggregateDifference[];
+  remaining_sensor_ids?: string[]; // Not processed before the run had to stop
+}
+
+export interface AggregateBackfillConfig {
+  docClient: DocumentStore;
+  tableName: string;
+  eventsTableName: string;
+  sensorsTableName?: string; // Source of the sensor list when none is given
+  resolutions: Resolution[];
+}
+
+const MAX_BACKFILL_ATTEMPTS = 3;
+
+// Attributes compared between stored and recomputed rows. last_updated is
+// rewritten but not compared: the stream sets it from the most recently
+// applied reading, which need not be the most recently received one.
+const COMPARED_FIELDS: (keyof SensorAggregate)[] = [
+  'count', 'sum', 'min', 'max', 'shift', 'sum_dev', 'sum_sq_dev', 'sketch',
+  'resolution', 'bucket_start', 'sensor_type', 'location', 'unit', 'metric'
+];
+
+interface SeriesComparison {
+  stored: Map<string, SensorAggregate>;
+  recomputed: Map<string, SensorAggregate>;
+  buckets: number;
+  differences: AggregateDifference[];
+}
+
+// Sums recomputed in another order differ in the last bits
+const RELATIVE_TOLERANCE = 1e-9;
+
+/**
+ * Validate a backfill request from the CLI or the job payload
+ */
+export function parseBackfillRequest(input: any): BackfillRequest {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid backfill request. Expected from, to and optionally sensor_ids and dry_run');
+  }
+
+  const from = new Date(input.from);
+  const to = new Date(input.to);
+  if (typeof input.from !== 'string' || typeof input.to !== 'string' || isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error('Invalid backfill request. from and to must be ISO 8601 timestamps');
+  }
+  if (from >= to) {
+    throw new Error('Invalid backfill request. from must be before to');
+  }
+
+  if (input.sensor_ids !== undefined && (
+    !Array.isArray(input.sensor_ids) ||
+    input.sensor_ids.length === 0 ||
+    input.sensor_ids.some((sensor_id: any) => typeof sensor_id !== 'string' || sensor_id.trim() === '')
+  )) {
+    throw new Error('Invalid backfill request. sensor_ids must be a non-empty list of sensor ids');
+  }
+
+  return {
+    sensor_ids: input.sensor_ids,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    dry_run: input.dry_run === true
+  };
+}
+
+function numbersEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Sketch without empty bins; removals leave bins at zero
+ */
+function compactSketch(sketch: Sketch | undefined): Sketch | undefined {
+  if (!sketch) {
+    return undefined;
+  }
+  const compact = (bins: Record<string, number> = {}) =>
+    Object.fromEntries(Object.entries(bins).filter(([, count]) => count !== 0).sort(([a], [b]) => a.localeCompare(b)));
+  return { pos: compact(sketch.pos), neg: compact(sketch.neg), zero: sketch.zero || 0 };
+}
+
+function valuesEqual(field: keyof SensorAggregate, stored: any, recomputed: any): boolean {
+  if (field === 'sketch') {
+    return JSON.stringify(compactSketch(stored)) === JSON.stringify(compactSketch(recomputed));
+  }
+  if (typeof stored === 'number' && typeof recomputed === 'number') {
+    return numbersEqual(stored, recomputed);
+  }
+  return stored === recomputed;
+}
+
+function summarize(row: SensorAggregate): Pick<SensorAggregate, 'count' | 'sum' | 'min' | 'max'> {
+  return { count: row.count, sum: row.sum, min: row.min, max: row.max };
+}
+
+export class AggregateBackfill {
+  private resolutions: Resolution[];
+
+  constructor(private config: AggregateBackfillConfig) {
+    this.resolutions = RESOLUTIONS.filter(resolution => config.resolutions.includes(resolution));
+  }
+
+  /**
+   * Start of the first and end of the last bucket, at every resolution, that
+   * overlaps the range. All resolutions nest, so the coarsest one bounds the
+   * readings every affected bucket is rebuilt from.
+   */
+  getBucketRange(from: string, to: string, resolution: Resolution): { start: Date; end: Date } {
+    const lastInstant = new Date(new Date(to).getTime() - 1);
+    return {
+      start: getBucketStart(from, resolution),
+      end: getBucketEnd(getBucketStart(lastInstant, resolution), resolution)
+    };
+  }
+
+  /**
+   * Recompute the buckets of a sensor's readings. Statistics are kept
+   * against the stored row's shift where there is one, so rows that are
+   * already correct compare equal.
+   */
+  buildAggregates(events: SensorEvent[], shifts: Map<string, number> = new Map()): Map<string, SensorAggregate> {
+    const rows = new Map<string, SensorAggregate>();
+    const latest = new Map<string, string>();
+    const ordered = [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    for (const event of ordered) {
+      const receivedAt = event.received_at || event.timestamp;
+
+      for (const resolution of this.resolutions) {
+        const hour_bucket = getBucketKey(event.timestamp, resolution);
+        let row = rows.get(hour_bucket);
+        if (!row) {
+          row = {
+            sensor_id: event.sensor_id,
+            hour_bucket,
+            resolution,
+            bucket_start: getBucketStart(event.timestamp, resolution).toISOString(),
+            sum: 0,
+            min: event.value,
+            max: event.value,
+            count: 0,
+            last_updated: receivedAt,
+            sensor_type: event.type,
+            location: event.location,
+            shift: shifts.get(hour_bucket) ?? event.value,
+            sum_dev: 0,
+            sum_sq_dev: 0,
+            sketch: emptySketch(),
+            ...(event.metric !== undefined ? { metric: event.metric } : {})
+          };
+          rows.set(hour_bucket, row);
+        }
+
+        row.count += 1;
+        row.sum += event.value;
+        row.min = Math.min(row.min, event.value);
+        row.max = Math.max(row.max, event.value);
+        row.sum_dev! += event.value - row.shift!;
+        row.sum_sq_dev! += (event.value - row.shift!) ** 2;
+
+        const bin = getSketchBin(event.value);
+        if (bin.store === 'zero') {
+          row.sketch!.zero += 1;
+        } else {
+          row.sketch![bin.store][bin.index] = (row.sketch![bin.store][bin.index] || 0) + 1;
+        }
+
+        // Metadata follows the most recently received reading, as it does
+        // when the stream applies readings in arrival order
+        if (receivedAt >= (latest.get(hour_bucket) || '')) {
+          latest.set(hour_bucket, receivedAt);
+          row.last_updated = receivedAt;
+          row.sensor_type = event.type;
+          row.location = event.location;
+          if (event.unit !== undefined) {
+            row.unit = event.unit;
+          } else {
+            delete row.unit;
+          }
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Compare a stored row with its recomputed value
+   */
+  compare(sensor_id: string, hour_bucket: string, stored?: SensorAggregate, recomputed?: SensorAggregate): AggregateDifference | undefined {
+    if (!stored && !recomputed) {
+      return undefined;
+    }
+    if (!stored) {
+      return { sensor_id, hour_bucket, change: 'create', fields: [], recomputed: summarize(recomputed!) };
+    }
+    if (!recomputed) {
+      return { sensor_id, hour_bucket, change: 'delete', fields: [], stored: summarize(stored) };
+    }
+
+    const fields = COMPARED_FIELDS.filter(field => !valuesEqual(field, stored[field], recomputed[field]));
+    return fields.length > 0
+      ? { sensor_id, hour_bucket, change: 'update', fields, stored: summarize(stored), recomputed: summarize(recomputed) }
+      : undefined;
+  }
+
+  /**
+   * All readings of a sensor in a time range, with multi-metric readings
+   * expanded into one reading per metric series
+   */
+  async getEvents(sensor_id: string, start: Date, end: Date): Promise<SensorEvent[]> {
+    const events: SensorEvent[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.config.docClient.send(new QueryCommand({
+        TableName: this.config.eventsTableName,
+        KeyConditionExpression: 'sensor_id = :sensor_id AND #ts BETWEEN :from AND :to',
+        ExpressionAttributeNames: { '#ts': 'timestamp' },
+        ExpressionAttributeValues: {
+          ':sensor_id': sensor_id,
+          ':from': start.toISOString(),
+          ':to': new Date(end.getTime() - 1).toISOString()
+        },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      events.push(...((result.Items || []) as SensorEvent[])
+        .flatMap(event => expandReadings(event))
+        .filter(event => typeof event.value === 'number'));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return events;
+  }
+
+  /**
+   * Stored rows of a sensor at one resolution, keyed by sort key
+   */
+  async getStoredAggregates(sensor_id: string, resolution: Resolution, start: Date, end: Date): Promise<Map<string, SensorAggregate>> {
+    const rows = new Map<string, SensorAggregate>();
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.config.docClient.send(new QueryCommand({
+        TableName: this.config.tableName,
+        KeyConditionExpression: 'sensor_id = :sensor_id AND hour_bucket BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':sensor_id': sensor_id,
+          ':from': getBucketKey(start, resolution),
+          ':to': getBucketKey(new Date(end.getTime() - 1), resolution)
+        },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      for (const row of (result.Items || []) as SensorAggregate[]) {
+        rows.set(row.hour_bucket, row);
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return rows;
+  }
+
+  /**
+   * Sensors to backfill when the request names none: every registered sensor
+   */
+  async getSensorIds(): Promise<string[]> {
+    if (!this.config.sensorsTableName) {
+      throw new Error('Invalid backfill request. sensor_ids is required when no sensor registry is configured');
+    }
+
+    const sensorIds: string[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const result = await this.config.docClient.send(new ScanCommand({
+        TableName: this.config.sensorsTableName,
+        ProjectionExpression: 'sensor_id',
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      sensorIds.push(...(result.Items || []).map(item => item.sensor_id));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return sensorIds.sort();
+  }
+
+  /**
+   * Condition that a row is still as it was read: every reading the stream
+   * applies changes its count, sum or last_updated
+   */
+  private unchangedCondition(stored: SensorAggregate) {
+    const names: Record<string, string> = {};
+    const values: Record<string, any> = {};
+    const conditions = (['count', 'sum', 'last_updated'] as const).map(field => {
+      names[`#${field}`] = field;
+      if (stored[field] === undefined) {
+        return `attribute_not_exists(#${field})`;
+      }
+      values[`:${field}`] = stored[field];
+      return `#${field} = :${field}`;
+    });
+
+    return {
+      ConditionExpression: conditions.join(' AND '),
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined
+    };
+  }
+
+  /**
+   * Overwrite or delete one row, provided it has not changed since it was read
+   */
+  async writeDifference(difference: AggregateDifference, stored?: SensorAggregate, recomputed?: SensorAggregate): Promise<void> {
+    const key = { sensor_id: difference.sensor_id, hour_bucket: difference.hour_bucket };
+
+    if (difference.change === 'delete') {
+      await this.config.docClient.send(new DeleteCommand({ TableName: this.config.tableName, Key: key, ...this.unchangedCondition(stored!) }));
+      return;
+    }
+
+    await this.config.docClient.send(new PutCommand({
+      TableName: this.config.tableName,
+      Item: recomputed,
+      ...(stored
+        ? this.unchangedCondition(stored)
+        : { ConditionExpression: 'attribute_not_exists(sensor_id)' })
+    }));
+  }
+
+  /**
+   * Recompute the buckets of one series over the bucket ranges and compare
+   * them with the stored rows
+   */
+  async compareSeries(
+    series_id: string,
+    events: SensorEvent[],
+    ranges: { resolution: Resolution; start: Date; end: Date }[]
+  ): Promise<SeriesComparison> {
+    const stored = new Map<string, SensorAggregate>();
+    for (const { resolution, start, end } of ranges) {
+      (await this.getStoredAggregates(series_id, resolution, start, end)).forEach((row, hour_bucket) => stored.set(hour_bucket, row));
+    }
+
+    const shifts = new Map(Array.from(stored.values())
+      .filter(row => typeof row.shift === 'number')
+      .map(row => [row.hour_bucket, row.shift!]));
+    const recomputed = this.buildAggregates(events, shifts);
+
+    // Only buckets overlapping the requested range are rewritten
+    const inRange = (hour_bucket: string) => ranges.some(({ resolution, start, end }) =>
+      hour_bucket >= getBucketKey(start, resolution) && hour_bucket < getBucketKey(end, resolution) && hour_bucket.startsWith(`${resolution}#`));
+    const buckets = Array.from(new Set([...stored.keys(), ...recomputed.keys()])).filter(inRange).sort();
+    const differences = buckets
+      .map(hour_bucket => this.compare(series_id, hour_bucket, stored.get(hour_bucket), recomputed.get(hour_bucket)))
+      .filter((difference): difference is AggregateDifference => difference !== undefined);
+
+    return { stored, recomputed, buckets: buckets.length, differences };
+  }
+
+  /**
+   * Recompute one sensor's buckets over the range and, unless it is a dry
+   * run, write the rows that differ. A sensor whose rows change while they
+   * are rewritten is recomputed again. The sensor's own series is always
+   * compared, so its rows are deleted once its readings are gone.
+   */
+  async backfillSensor(sensor_id: string, from: string, to: string, dryRun: boolean): Promise<SensorBackfillResult> {
+    const ranges = this.resolutions.map(resolution => ({ resolution, ...this.getBucketRange(from, to, resolution) }));
+    const coarsest = ranges[ranges.length - 1];
+
+    for (let attempt = 1; ; attempt++) {
+      const events = await this.getEvents(sensor_id, coarsest.start, coarsest.end);
+      const series = new Map<string, SensorEvent[]>([[sensor_id, []]]);
+      for (const event of events) {
+        series.set(event.sensor_id, [...(series.get(event.sensor_id) || []), event]);
+      }
+
+      const comparisons: SeriesComparison[] = [];
+      for (const [series_id, seriesEvents] of series) {
+        comparisons.push(await this.compareSeries(series_id, seriesEvents, ranges));
+      }
+
+      const result: SensorBackfillResult = {
+        sensor_id,
+        events: events.length,
+        buckets: comparisons.reduce((total, comparison) => total + comparison.buckets, 0),
+        differences: comparisons.flatMap(comparison => comparison.differences),
+        written: 0,
+        deleted: 0
+      };
+      if (dryRun) {
+        return result;
+      }
+
+      try {
+        for (const { stored, recomputed, differences } of comparisons) {
+          for (const difference of differences) {
+            await this.writeDifference(difference, stored.get(difference.hour_bucket), recomputed.get(difference.hour_bucket));
+            if (difference.change === 'delete') {
+              result.deleted++;
+            } else {
+              result.written++;
+            }
+          }
+        }
+        return result;
+      } catch (error) {
+        if (!(error instanceof Error) || error.name !== 'ConditionalCheckFailedException' || attempt === MAX_BACKFILL_ATTEMPTS) {
+          throw error;
+        }
+        logger.info('Aggregates changed during backfill, recomputing', { sensor_id, attempt });
+      }
+    }
+  }
+
+  /**
+   * Backfill every requested sensor. `shouldStop` is checked before each
+   * sensor; sensors left when it returns true are reported as remaining, so
+   * the caller can continue with them.
+   */
+  async run(request: BackfillRequest, shouldStop: () => boolean = () => false): Promise<BackfillReport> {
+    const sensorIds = request.sensor_ids || await this.getSensorIds();
+    const report: BackfillReport = {
+      dry_run: request.dry_run,
+      from: request.from,
+      to: request.to,
+      resolutions: this.resolutions,
+      sensors: 0,
+      events: 0,
+      buckets: 0,
+      written: 0,
+      deleted: 0,
+      differences: []
+    };
+
+    for (let i = 0; i < sensorIds.length; i++) {
+      if (shouldStop()) {
+        report.remaining_sensor_ids = sensorIds.slice(i);
+        break;
+      }
+
+      const result = await this.backfillSensor(sensorIds[i], request.from, request.to, request.dry_run);
+      report.sensors++;
+      report.events += result.events;
+      report.buckets += result.buckets;
+      report.written += result.written;
+      report.deleted += result.deleted;
+      report.differences.push(...result.differences);
+    }
+
+    return report;
+  }
+}
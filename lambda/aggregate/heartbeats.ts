@@ -0,0 +1,189 @@
+import { GetCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBRecord } from 'aws-lambda';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { SensorHeartbeat, StatusTransition } from '../shared/heartbeats';
+import { DocumentStore } from '../shared/storage';
+import { Metrics, logger } from '../shared/observability';
+
+export interface HeartbeatTrackerConfig {
+  docClient: DocumentStore;
+  tableName: string;
+  transitionsTableName: string;
+  environment: string;
+  metrics?: Metrics;
+}
+
+// A reading a sensor was heard from
+export interface SensorSighting {
+  sensor_id: string;
+  seen_at: string;
+  type?: string;
+  location?: string;
+}
+
+const MAX_HEARTBEAT_ATTEMPTS = 3;
+
+/**
+ * Keeps each sensor's last_seen up to date from the events stream, see
+ * shared/heartbeats. Runs in the aggregate Lambda with the anomaly detector.
+ * A sensor that is new or was marked offline comes online with its reading.
+ */
+export class HeartbeatTracker {
+  constructor(private config: HeartbeatTrackerConfig) {}
+
+  /**
+   * Current heartbeat of a sensor, if it has been seen
+   */
+  async getHeartbeat(sensor_id: string): Promise<SensorHeartbeat | undefined> {
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: { sensor_id },
+      ConsistentRead: true
+    }));
+    return result.Item as SensorHeartbeat | undefined;
+  }
+
+  /**
+   * Move last_seen forward for an online sensor. Fails its condition when
+   * the sensor is unknown, offline, or was already seen later.
+   */
+  async touch(sighting: SensorSighting): Promise<boolean> {
+    const names: Record<string, string> = { '#status': 'status' };
+    const values: Record<string, any> = { ':seen': sighting.seen_at, ':online': 'online' };
+    const sets = ['last_seen = :seen'];
+    for (const field of ['type', 'location'] as const) {
+      if (sighting[field] !== undefined) {
+        names[`#${field}`] = field;
+        values[`:${field}`] = sighting[field];
+        sets.push(`#${field} = :${field}`);
+      }
+    }
+
+    try {
+      await this.config.docClient.send(new UpdateCommand({
+        TableName: this.config.tableName,
+        Key: { sensor_id: sighting.sensor_id },
+        UpdateExpression: `SET ${sets.join(', ')}`,
+        ConditionExpression: '#status = :online AND last_seen < :seen',
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values
+      }));
+      return true;
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Bring a new or offline sensor online and record the transition, in one
+   * transaction conditioned on the heartbeat version read
+   */
+  async markOnline(previous: SensorHeartbeat | undefined, sighting: SensorSighting): Promise<SensorHeartbeat> {
+    const heartbeat: SensorHeartbeat = {
+      sensor_id: sighting.sensor_id,
+      last_seen: sighting.seen_at,
+      type: sighting.type ?? previous?.type,
+      location: sighting.location ?? previous?.location,
+      status: 'online',
+      status_changed_at: sighting.seen_at,
+      version: (previous?.version ?? 0) + 1
+    };
+
+    const transition: StatusTransition = {
+      sensor_id: sighting.sensor_id,
+      changed_at: sighting.seen_at,
+      status: 'online',
+      ...(previous ? { previous_status: previous.status, last_seen: previous.last_seen } : {}),
+      environment: this.config.environment
+    };
+
+    await this.config.docClient.send(new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: this.config.tableName,
+            // Dropped rather than written as undefined
+            Item: Object.fromEntries(Object.entries(heartbeat).filter(([, value]) => value !== undefined)),
+            ConditionExpression: previous ? 'version = :version' : 'attribute_not_exists(sensor_id)',
+            ExpressionAttributeValues: previous ? { ':version': previous.version } : undefined
+          }
+        },
+        {
+          Put: {
+            TableName: this.config.transitionsTableName,
+            Item: transition
+          }
+        }
+      ]
+    }));
+
+    return heartbeat;
+  }
+
+  /**
+   * Record that a sensor was heard from. Most readings only move last_seen
+   * forward; readings at or before the last one seen (stream retries, edits)
+   * change nothing.
+   */
+  async recordSighting(sighting: SensorSighting): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_HEARTBEAT_ATTEMPTS; attempt++) {
+      if (await this.touch(sighting)) {
+        return;
+      }
+
+      const previous = await this.getHeartbeat(sighting.sensor_id);
+      if (previous && previous.last_seen >= sighting.seen_at) {
+        return;
+      }
+      if (previous?.status === 'online') {
+        // Marked online by another reading since the update was tried
+        continue;
+      }
+
+      try {
+        await this.markOnline(previous, sighting);
+        logger.info('Sensor online', {
+          sensor_id: sighting.sensor_id,
+          previous_status: previous?.status,
+          last_seen: previous?.last_seen
+        });
+        this.config.metrics?.count('SensorsOnline');
+        return;
+      } catch (error: any) {
+        const conditionFailed = error.name === 'TransactionCanceledException'
+          && (error.CancellationReasons || []).some((reason: any) => reason?.Code === 'ConditionalCheckFailed');
+        if (!conditionFailed || attempt === MAX_HEARTBEAT_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+
+    // Every attempt lost to another reading; the stream retries the record
+    throw new Error(`Heartbeat of ${sighting.sensor_id} kept changing after ${MAX_HEARTBEAT_ATTEMPTS} attempts`);
+  }
+
+  /**
+   * Record the sensor of the reading in a stream record as seen at the
+   * reading's receive time. Removals carry no new reading.
+   */
+  async processRecord(record: DynamoDBRecord): Promise<void> {
+    if (record.eventName === 'REMOVE' || !record.dynamodb?.NewImage) {
+      return;
+    }
+
+    const image = unmarshall(record.dynamodb.NewImage as Record<string, any>);
+    if (typeof image.sensor_id !== 'string' || typeof image.timestamp !== 'string') {
+      return;
+    }
+
+    await this.recordSighting({
+      sensor_id: image.sensor_id,
+      seen_at: typeof image.received_at === 'string' ? image.received_at : image.timestamp,
+      type: typeof image.type === 'string' ? image.type : undefined,
+      location: typeof image.location === 'string' ? image.location : undefined
+    });
+  }
+}
@@ -1,43 +1,177 @@
-import { DynamoDBStreamEvent } from 'aws-lambda';
+import { DynamoDBBatchItemFailure, DynamoDBBatchResponse, DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import { AggregateService } from './service';
+import { AnomalyDetector } from './anomalies';
+import { HeartbeatTracker } from './heartbeats';
+import { RecordMarkers } from './markers';
+import { createFailedRecordMessage } from './redrive';
+import { parseResolutions } from '../shared/buckets';
+import { parseAnomalyThresholds } from '../shared/anomaly-detection';
+import { Metrics, logger, withLogContext } from '../shared/observability';
 
 // Initialize AWS clients
 const dynamoClient = new DynamoDBClient({});
 const docClient = DynamoDBDocumentClient.from(dynamoClient);
 const secretsClient = new SecretsManagerClient({});
+const sqsClient = new SQSClient({});
 
 // Environment variables
 const SENSOR_AGGREGATES_TABLE = process.env.SENSOR_AGGREGATES_TABLE!;
+const SENSOR_EVENTS_TABLE = process.env.SENSOR_EVENTS_TABLE!;
+const GROUP_AGGREGATES_TABLE = process.env.GROUP_AGGREGATES_TABLE;
+const ANOMALY_STATE_TABLE = process.env.ANOMALY_STATE_TABLE;
+const ANOMALIES_TABLE = process.env.ANOMALIES_TABLE;
+const HEARTBEATS_TABLE = process.env.HEARTBEATS_TABLE;
+const STATUS_TRANSITIONS_TABLE = process.env.STATUS_TRANSITIONS_TABLE;
+const APPLIED_RECORDS_TABLE = process.env.APPLIED_RECORDS_TABLE;
+const AGGREGATE_DLQ_URL = process.env.AGGREGATE_DLQ_URL;
+const MAX_RECORD_ATTEMPTS = Number(process.env.MAX_RECORD_ATTEMPTS || 3);
 const SECRET_ARN = process.env.SECRET_ARN!;
 const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const AGGREGATE_RESOLUTIONS = parseResolutions(process.env.AGGREGATE_RESOLUTIONS);
+const ANOMALY_EWMA_ALPHA = Number(process.env.ANOMALY_EWMA_ALPHA || 0.05);
+const ANOMALY_WARMUP_READINGS = Number(process.env.ANOMALY_WARMUP_READINGS || 30);
+
+const metrics = new Metrics({ dimensions: { Environment: ENVIRONMENT } });
+
+// Applied records are marked when their table is configured
+const markers = APPLIED_RECORDS_TABLE
+  ? new RecordMarkers({ docClient, tableName: APPLIED_RECORDS_TABLE })
+  : undefined;
 
 // Initialize service
 const aggregateService = new AggregateService({
   docClient,
   secretsClient,
   tableName: SENSOR_AGGREGATES_TABLE,
+  eventsTableName: SENSOR_EVENTS_TABLE,
   secretArn: SECRET_ARN,
-  environment: ENVIRONMENT
+  environment: ENVIRONMENT,
+  resolutions: AGGREGATE_RESOLUTIONS,
+  groupsTableName: GROUP_AGGREGATES_TABLE,
+  markers,
+  metrics
 });
 
+// Anomaly detection runs when its tables are configured
+const anomalyDetector = ANOMALY_STATE_TABLE && ANOMALIES_TABLE
+  ? new AnomalyDetector({
+    docClient,
+    stateTableName: ANOMALY_STATE_TABLE,
+    anomaliesTableName: ANOMALIES_TABLE,
+    environment: ENVIRONMENT,
+    settings: {
+      alpha: ANOMALY_EWMA_ALPHA,
+      warmup: ANOMALY_WARMUP_READINGS,
+      thresholds: parseAnomalyThresholds(process.env.ANOMALY_THRESHOLDS)
+    }
+  })
+  : undefined;
+
+// Heartbeats are tracked when their tables are configured
+const heartbeatTracker = HEARTBEATS_TABLE && STATUS_TRANSITIONS_TABLE
+  ? new HeartbeatTracker({
+    docClient,
+    tableName: HEARTBEATS_TABLE,
+    transitionsTableName: STATUS_TRANSITIONS_TABLE,
+    environment: ENVIRONMENT,
+    metrics
+  })
+  : undefined;
+
 /**
- * Main Lambda handler
+ * Count a failed attempt at a record and, once it has had MAX_RECORD_ATTEMPTS,
+ * send it to the dead-letter queue with its keys and images. Returns whether
+ * it was dead-lettered, so the stream can move past it.
  */
-export const handler = async (event: DynamoDBStreamEvent): Promise<void> => {
-  console.log('Received DynamoDB Stream event:', JSON.stringify(event, null, 2));
+async function deadLetterRecord(record: DynamoDBRecord, error: unknown): Promise<boolean> {
+  if (!markers || !AGGREGATE_DLQ_URL || !record.eventID) {
+    return false;
+  }
 
   try {
-    // Process each record in the batch
-    const promises = event.Records.map(record => aggregateService.processRecord(record));
-    await Promise.allSettled(promises);
+    const attempts = await markers.countFailure(record.eventID);
+    if (attempts < MAX_RECORD_ATTEMPTS) {
+      return false;
+    }
 
-    console.log(`Successfully processed ${event.Records.length} records`);
+    await sqsClient.send(new SendMessageCommand({
+      QueueUrl: AGGREGATE_DLQ_URL,
+      MessageBody: JSON.stringify(createFailedRecordMessage(record, attempts, error))
+    }));
+    logger.warn('Sent record to the dead-letter queue', { attempts });
+    metrics.count('RecordsDeadLettered');
+    return true;
+  } catch (deadLetterError) {
+    logger.error('Error dead-lettering record', { error: deadLetterError });
+    return false;
+  }
+}
 
-  } catch (error) {
-    console.error('Error processing DynamoDB Stream event:', error);
-    throw error; // This will cause the Lambda to retry
+/**
+ * Main Lambda handler. Each record is aggregated, scored for anomalies and
+ * then moves its sensor's heartbeat forward. Readings of one sensor are
+ * handled in stream order, since each updates the baseline the next one is
+ * scored against; different sensors are handled concurrently.
+ *
+ * Failed records are reported as batchItemFailures so only they (and the
+ * records after them in the shard) are retried; the rest of a failed
+ * sensor's readings are skipped until then. A record that fails
+ * MAX_RECORD_ATTEMPTS times is sent to the dead-letter queue instead, and
+ * the sensor's later readings go ahead. Records that succeed again on a
+ * retry or a redrive are not double-counted: each aggregate transaction
+ * marks its record applied (see markers.ts), readings already scored are
+ * skipped, and heartbeats only move forward.
+ *
+ * Each record is logged under the correlation ID of the ingest request that
+ * stored its reading.
+ */
+export const handler = async (event: DynamoDBStreamEvent): Promise<DynamoDBBatchResponse> => {
+  logger.info('Received DynamoDB Stream event', { records: event.Records.length });
+
+  const recordsBySensor = new Map<string, DynamoDBRecord[]>();
+  for (const record of event.Records) {
+    const sensor_id = record.dynamodb?.Keys?.sensor_id?.S || '';
+    recordsBySensor.set(sensor_id, [...(recordsBySensor.get(sensor_id) || []), record]);
   }
+
+  const batchItemFailures: DynamoDBBatchItemFailure[] = [];
+  await Promise.all(Array.from(recordsBySensor.values()).map(async records => {
+    for (const record of records) {
+      const image = record.dynamodb?.NewImage || record.dynamodb?.OldImage;
+      const failed = await withLogContext({
+        correlation_id: image?.correlation_id?.S,
+        event_id: record.eventID,
+        sensor_id: record.dynamodb?.Keys?.sensor_id?.S
+      }, async () => {
+        try {
+          await aggregateService.processRecord(record);
+          await anomalyDetector?.processRecord(record);
+          await heartbeatTracker?.processRecord(record);
+          return false;
+        } catch (error) {
+          logger.error('Error processing record', { event_name: record.eventName, timestamp: record.dynamodb?.Keys?.timestamp?.S, error });
+          return !(await deadLetterRecord(record, error));
+        }
+      });
+
+      if (failed) {
+        batchItemFailures.push({ itemIdentifier: record.dynamodb?.SequenceNumber || '' });
+        return;
+      }
+    }
+  }));
+
+  // Failed records are retried by the stream, with the records after them
+  metrics.count('RecordsRetried', batchItemFailures.length);
+  metrics.flush();
+
+  logger.info('Processed DynamoDB Stream event', {
+    records: event.Records.length,
+    failed: batchItemFailures.length
+  });
+  return { batchItemFailures };
 };
@@ -0,0 +1,62 @@
+import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentStore } from '../shared/storage';
+
+export interface RecordMarkersConfig {
+  docClient: DocumentStore;
+  tableName: string;
+}
+
+// Longer than the dead-letter queue keeps messages, so a redriven record
+// still finds its marker
+export const MARKER_RETENTION_SECONDS = 15 * 24 * 60 * 60;
+
+/**
+ * Markers of the stream records applied to the aggregates, keyed by the
+ * record's eventID (and series, for multi-metric readings).
+ *
+ * A marker is written in the transaction that applies its record, on the
+ * condition that it does not exist yet, so a record applied before is
+ * recognised however late it comes back: a stream retry after the 10
+ * minutes a ClientRequestToken is remembered, or a dead-lettered record
+ * redriven days later. The same table counts the failed attempts of each
+ * record, so the aggregate Lambda can dead-letter it once they run out.
+ */
+export class RecordMarkers {
+  constructor(private config: RecordMarkersConfig) {}
+
+  /**
+   * Transaction item that marks a record applied
+   */
+  getMarkerPut(record_id: string, now = Date.now()) {
+    return {
+      Put: {
+        TableName: this.config.tableName,
+        Item: { record_id, expires_at: Math.floor(now / 1000) + MARKER_RETENTION_SECONDS },
+        ConditionExpression: 'attribute_not_exists(record_id)'
+      }
+    };
+  }
+
+  /**
+   * Whether a transaction was cancelled because the marker at the given
+   * position already exists
+   */
+  isAlreadyApplied(error: any, markerIndex: number): boolean {
+    return error.name === 'TransactionCanceledException'
+      && error.CancellationReasons?.[markerIndex]?.Code === 'ConditionalCheckFailed';
+  }
+
+  /**
+   * Count a failed attempt at a record. Returns the attempts so far.
+   */
+  async countFailure(eventID: string, now = Date.now()): Promise<number> {
+    const result = await this.config.docClient.send(new UpdateCommand({
+      TableName: this.config.tableName,
+      Key: { record_id: `failed#${eventID}` },
+      UpdateExpression: 'ADD attempts :one SET expires_at = :expires_at',
+      ExpressionAttributeValues: { ':one': 1, ':expires_at': Math.floor(now / 1000) + MARKER_RETENTION_SECONDS },
+      ReturnValues: 'ALL_NEW'
+    }));
+    return result.Attributes?.attempts ?? 1;
+  }
+}
@@ -0,0 +1,237 @@
+import { DynamoDBRecord } from 'aws-lambda';
+import { DeleteMessageCommand, Message, ReceiveMessageCommand, SQSClient } from '@aws-sdk/client-sqs';
+import {
+  DynamoDBStreamsClient,
+  GetRecordsCommand,
+  GetShardIteratorCommand
+} from '@aws-sdk/client-dynamodb-streams';
+import { AggregateService } from './service';
+import { AnomalyDetector } from './anomalies';
+import { HeartbeatTracker } from './heartbeats';
+import { logger } from '../shared/observability';
+
+// Types
+/**
+ * Batch description Lambda writes to the on-failure destination of a
+ * DynamoDB stream event source once retries are exhausted
+ */
+export interface StreamBatchInfo {
+  shardId: string;
+  startSequenceNumber: string;
+  endSequenceNumber: string;
+  streamArn: string;
+  batchSize?: number;
+}
+
+/**
+ * Message the aggregate Lambda sends to the dead-letter queue for a record
+ * that still fails after its attempts. It carries the record itself, so it
+ * can be replayed after the stream has dropped it.
+ */
+export interface FailedRecordMessage {
+  source: 'aggregate';
+  eventID: string;
+  eventName: string;
+  sensor_id?: string;
+  timestamp?: string;
+  attempts: number;
+  error: string;
+  failed_at: string;
+  record: DynamoDBRecord;
+}
+
+export interface FailedSensorEvent {
+  eventID: string;
+  eventName: string;
+  sensor_id?: string;
+  timestamp?: string;
+  sequenceNumber: string;
+}
+
+export interface RedriveResult {
+  messagesProcessed: number;
+  messagesFailed: number;
+  recordsRedriven: number;
+  events: FailedSensorEvent[];
+}
+
+export interface DlqRedriveServiceConfig {
+  sqsClient: SQSClient;
+  streamsClient: DynamoDBStreamsClient;
+  aggregateService: AggregateService;
+  anomalyDetector?: AnomalyDetector;
+  heartbeatTracker?: HeartbeatTracker;
+  queueUrl: string;
+}
+
+/**
+ * Dead-letter message for a record that failed its last attempt
+ */
+export function createFailedRecordMessage(record: DynamoDBRecord, attempts: number, error: unknown, now = new Date()): FailedRecordMessage {
+  const keys = record.dynamodb?.Keys || {};
+
+  return {
+    source: 'aggregate',
+    eventID: record.eventID || '',
+    eventName: record.eventName || '',
+    sensor_id: keys.sensor_id?.S,
+    timestamp: keys.timestamp?.S,
+    attempts,
+    error: error instanceof Error ? error.message : String(error),
+    failed_at: now.toISOString(),
+    record
+  };
+}
+
+/**
+ * Replays dead-lettered stream records. The queue holds two kinds of
+ * message: failed records sent by the aggregate Lambda itself, and the batch
+ * info Lambda sends when an invocation fails as a whole (e.g. it times out),
+ * whose records are read back from the stream. Records of a batch that were
+ * applied before are skipped by their markers (see markers.ts), so only the
+ * ones that failed change the aggregates.
+ */
+export class DlqRedriveService {
+  constructor(private config: DlqRedriveServiceConfig) {}
+
+  /**
+   * Parse the stream batch info from a DLQ message body
+   */
+  parseBatchInfo(message: Message): StreamBatchInfo {
+    const body = JSON.parse(message.Body || '{}');
+    const batchInfo = body.DDBStreamBatchInfo;
+
+    if (!batchInfo?.shardId || !batchInfo.startSequenceNumber || !batchInfo.endSequenceNumber || !batchInfo.streamArn) {
+      throw new Error(`DLQ message ${message.MessageId} does not contain DDBStreamBatchInfo`);
+    }
+
+    return batchInfo;
+  }
+
+  /**
+   * Read the failed records back from the stream. Stream records are kept for
+   * 24 hours, so messages older than that can no longer be resolved.
+   */
+  async fetchRecords(batchInfo: StreamBatchInfo): Promise<DynamoDBRecord[]> {
+    const iterator = await this.config.streamsClient.send(new GetShardIteratorCommand({
+      StreamArn: batchInfo.streamArn,
+      ShardId: batchInfo.shardId,
+      ShardIteratorType: 'AT_SEQUENCE_NUMBER',
+      SequenceNumber: batchInfo.startSequenceNumber
+    }));
+
+    const end = BigInt(batchInfo.endSequenceNumber);
+    const records: DynamoDBRecord[] = [];
+    let shardIterator = iterator.ShardIterator;
+
+    while (shardIterator) {
+      const result = await this.config.streamsClient.send(new GetRecordsCommand({ ShardIterator: shardIterator }));
+      const batch = (result.Records || []) as DynamoDBRecord[];
+
+      for (const record of batch) {
+        if (BigInt(record.dynamodb?.SequenceNumber || '0') > end) {
+          return records;
+        }
+        records.push(record);
+      }
+
+      // An empty page with an iterator means we caught up with an open shard
+      if (batch.length === 0) {
+        break;
+      }
+      shardIterator = result.NextShardIterator;
+    }
+
+    return records;
+  }
+
+  /**
+   * The records of a DLQ message: the failed record itself, or the batch
+   * read back from the stream
+   */
+  async readRecords(message: Message): Promise<DynamoDBRecord[]> {
+    const body = JSON.parse(message.Body || '{}');
+    if (body.source === 'aggregate' && body.record) {
+      return [(body as FailedRecordMessage).record];
+    }
+    return this.fetchRecords(this.parseBatchInfo(message));
+  }
+
+  /**
+   * Identify the sensor event behind a stream record
+   */
+  describeRecord(record: DynamoDBRecord): FailedSensorEvent {
+    const keys = record.dynamodb?.Keys || {};
+
+    return {
+      eventID: record.eventID || '',
+      eventName: record.eventName || '',
+      sensor_id: keys.sensor_id?.S,
+      timestamp: keys.timestamp?.S,
+      sequenceNumber: record.dynamodb?.SequenceNumber || ''
+    };
+  }
+
+  /**
+   * Feed one DLQ message back through AggregateService, and the anomaly
+   * detector and heartbeat tracker when configured. The message is only deleted when every record
+   * in it was applied.
+   */
+  async redriveMessage(message: Message, dryRun = false): Promise<FailedSensorEvent[]> {
+    const records = await this.readRecords(message);
+    const events = records.map(record => this.describeRecord(record));
+
+    if (dryRun) {
+      return events;
+    }
+
+    for (const record of records) {
+      await this.config.aggregateService.processRecord(record);
+      await this.config.anomalyDetector?.processRecord(record);
+      await this.config.heartbeatTracker?.processRecord(record);
+    }
+
+    await this.config.sqsClient.send(new DeleteMessageCommand({
+      QueueUrl: this.config.queueUrl,
+      ReceiptHandle: message.ReceiptHandle
+    }));
+
+    return events;
+  }
+
+  /**
+   * Drain up to maxMessages messages from the DLQ
+   */
+  async redrive(maxMessages = 100, dryRun = false): Promise<RedriveResult> {
+    const result: RedriveResult = { messagesProcessed: 0, messagesFailed: 0, recordsRedriven: 0, events: [] };
+
+    while (result.messagesProcessed + result.messagesFailed < maxMessages) {
+      const response = await this.config.sqsClient.send(new ReceiveMessageCommand({
+        QueueUrl: this.config.queueUrl,
+        MaxNumberOfMessages: Math.min(10, maxMessages - result.messagesProcessed - result.messagesFailed),
+        WaitTimeSeconds: 1,
+        // Keep messages hidden while a dry run lists them so each appears once
+        VisibilityTimeout: dryRun ? 60 : 300
+      }));
+
+      const messages = response.Messages || [];
+      if (messages.length === 0) {
+        break;
+      }
+
+      for (const message of messages) {
+        try {
+          const events = await this.redriveMessage(message, dryRun);
+          result.events.push(...events);
+          result.recordsRedriven += dryRun ? 0 : events.length;
+          result.messagesProcessed++;
+        } catch (error) {
+          logger.error('Error redriving dead-letter message', { message_id: message.MessageId, error });
+          result.messagesFailed++;
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -1,7 +1,21 @@
-import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
-import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import {
+  DeleteCommand,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import { DynamoDBRecord } from 'aws-lambda';
+import { createHash } from 'crypto';
 import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { RESOLUTIONS, Resolution, getBucketEnd, getBucketKey, getBucketStart } from '../shared/buckets';
+import { Sketch, emptySketch, getSketchBin } from '../shared/statistics';
+import { expandReadings, getSeriesSensorId } from '../shared/readings';
+import { DocumentStore, SecretStore } from '../shared/storage';
+import { Metrics, logger } from '../shared/observability';
+import { GroupAggregator } from './groups';
+import { RecordMarkers } from './markers';
 
 // Types
 export interface SensorEvent {
@@ -10,33 +24,93 @@ export interface SensorEvent {
   type: string;
   value: number;
   location: string;
+  unit?: string; // Registered unit, see shared/sensor-registry
+  received_at?: string;
+  timestamp_source?: 'device' | 'server';
+  late?: boolean;
+  correlation_id?: string; // Ingest request that stored the reading
   environment: string;
+  metric?: string; // Set for a metric of a multi-metric reading, whose sensor_id is then its series id
 }
 
 export interface SensorAggregate {
   sensor_id: string;
-  hour_bucket: string;
-  avg: number;
+  hour_bucket: string; // Sort key: `${resolution}#${bucket}`
+  resolution: Resolution;
+  bucket_start: string;
+  sum: number; // Exact running total; avg is derived on read as sum / count
   min: number;
   max: number;
   count: number;
-  last_updated: string;
+  last_updated: string; // Receive time of the most recently applied reading
   sensor_type: string;
   location: string;
+  unit?: string;
+  metric?: string; // Multi-metric series, see shared/readings
+  // Spread and percentile state, see shared/statistics
+  shift?: number;
+  sum_dev?: number;
+  sum_sq_dev?: number;
+  sketch?: Sketch;
+}
+
+// A reading added to (+1) or removed from (-1) the aggregates
+export interface SensorEventChange {
+  sensorEvent: SensorEvent;
+  sign: 1 | -1;
+}
+
+interface BucketDelta {
+  sensor_id: string;
+  hour_bucket: string;
+  resolution: Resolution;
+  count: number;
+  sum: number;
+  removed: boolean;
+  added?: SensorEvent;
+  values: { value: number; sign: 1 | -1 }[];
+  shift?: number; // Shift the statistics are kept against, see prepareStatistics
+  newStatistics?: boolean; // The row has no statistics state yet; the transaction creates it
 }
 
 export interface AggregateServiceConfig {
-  docClient: DynamoDBDocumentClient;
-  secretsClient: SecretsManagerClient;
+  docClient: DocumentStore;
+  secretsClient: SecretStore;
   tableName: string;
+  eventsTableName: string;
   secretArn: string;
   environment: string;
+  resolutions?: Resolution[];
+  groupsTableName?: string; // Location and type rollups, see shared/groups
+  markers?: RecordMarkers; // Records already applied, see markers.ts
+  metrics?: Metrics;
 }
 
+const MAX_RECOMPUTE_ATTEMPTS = 3;
+
 export class AggregateService {
   private cachedSecrets: any = null;
 
-  constructor(private config: AggregateServiceConfig) {}
+  private resolutions: Resolution[];
+
+  private groups?: GroupAggregator;
+
+  constructor(private config: AggregateServiceConfig) {
+    const resolutions = config.resolutions && config.resolutions.length > 0 ? config.resolutions : ['hour'];
+    // Finest first: coarser extremes are recomputed from the finer buckets
+    this.resolutions = RESOLUTIONS.filter(resolution => resolutions.includes(resolution));
+
+    if (config.groupsTableName) {
+      this.groups = new GroupAggregator({
+        docClient: config.docClient,
+        tableName: config.groupsTableName,
+        aggregatesTableName: config.tableName,
+        resolutions: this.resolutions,
+        markers: config.markers,
+        metrics: config.metrics
+      });
+    }
+  }
 
   /**
    * Get secrets from AWS Secrets Manager with caching
@@ -55,177 +129,573 @@ export class AggregateService {
       this.cachedSecrets = JSON.parse(response.SecretString || '{}');
       return this.cachedSecrets;
     } catch (error) {
-      console.error('Error retrieving secrets:', error);
+      logger.error('Error retrieving secrets', { error });
       return {};
     }
   }
 
   /**
-   * Truncate timestamp to hour bucket
+   * Get the aggregate sort key for a timestamp at the given resolution
    */
-  getHourBucket(timestamp: string): string {
-    const date = new Date(timestamp);
-    date.setMinutes(0, 0, 0); // Set minutes, seconds, and milliseconds to 0
-    return date.toISOString().slice(0, 16) + ':00'; // Format: YYYY-MM-DDTHH:00:00
+  getBucket(timestamp: string, resolution: Resolution): string {
+    return getBucketKey(timestamp, resolution);
   }
 
   /**
-   * Parse DynamoDB record to sensor event
+   * Parse a DynamoDB record image to one sensor event per series: the
+   * reading itself, or each metric of a multi-metric reading
    */
-  parseSensorEvent(record: DynamoDBRecord): SensorEvent | null {
-    if (!record.dynamodb?.NewImage) {
-      return null;
+  parseSensorEvents(record: DynamoDBRecord, image: 'NewImage' | 'OldImage' = 'NewImage'): SensorEvent[] {
+    if (!record.dynamodb?.[image]) {
+      return [];
     }
 
-    const sensorEvent = unmarshall(record.dynamodb.NewImage as Record<string, any>) as SensorEvent;
-    
-    // Validate required fields
-    if (!sensorEvent.sensor_id || !sensorEvent.timestamp || typeof sensorEvent.value !== 'number') {
-      return null;
+    return expandReadings(unmarshall(record.dynamodb[image] as Record<string, any>) as SensorEvent)
+      .filter(sensorEvent => sensorEvent.sensor_id && sensorEvent.timestamp && typeof sensorEvent.value === 'number');
+  }
+
+  /**
+   * Deterministic transaction token. DynamoDB treats a repeated
+   * TransactWriteItems call with the same token as a no-op for 10 minutes, so
+   * a stream retry of an already applied record is not double-counted. Stream
+   * records are keyed by their eventID; direct calls fall back to the content.
+   */
+  getRequestToken(changes: SensorEventChange[], eventID?: string): string {
+    const seed = eventID
+      || changes.map(({ sensorEvent, sign }) => `${sign}|${sensorEvent.sensor_id}|${sensorEvent.timestamp}|${sensorEvent.value}`).join('/');
+
+    return createHash('sha256').update(seed).digest('hex').slice(0, 36);
+  }
+
+  /**
+   * Net count and sum change per bucket. A modified reading that stays in the
+   * same bucket collapses into a single delta for that bucket.
+   */
+  buildBucketDeltas(changes: SensorEventChange[]): BucketDelta[] {
+    const deltas = new Map<string, BucketDelta>();
+
+    for (const { sensorEvent, sign } of changes) {
+      for (const resolution of this.resolutions) {
+        const hour_bucket = this.getBucket(sensorEvent.timestamp, resolution);
+        const key = `${sensorEvent.sensor_id}|${hour_bucket}`;
+        const delta = deltas.get(key) || {
+          sensor_id: sensorEvent.sensor_id,
+          hour_bucket,
+          resolution,
+          count: 0,
+          sum: 0,
+          removed: false,
+          values: []
+        };
+
+        delta.count += sign;
+        delta.sum += sign * sensorEvent.value;
+        delta.values.push({ value: sensorEvent.value, sign });
+        if (sign > 0) {
+          delta.added = sensorEvent;
+        } else {
+          delta.removed = true;
+        }
+        deltas.set(key, delta);
+      }
     }
 
-    return sensorEvent;
+    return Array.from(deltas.values()).filter(delta => delta.count !== 0 || delta.sum !== 0 || delta.added);
   }
 
   /**
-   * Get existing aggregate from DynamoDB
+   * Read the shift each bucket's statistics are kept against. A bucket
+   * without one gets the first added reading as its shift, and the
+   * transaction creates its statistics state. A bucket that is only losing
+   * readings and does not exist gets none (the transaction then fails its
+   * count condition anyway). Returns whether any delta's statistics state
+   * differs from the one it was last prepared with.
    */
-  async getExistingAggregate(sensor_id: string, hour_bucket: string): Promise<SensorAggregate | null> {
-    const getCommand = new GetCommand({
-      TableName: this.config.tableName,
-      Key: { sensor_id, hour_bucket }
-    });
+  async prepareStatistics(deltas: BucketDelta[]): Promise<boolean> {
+    const shifts = await Promise.all(deltas.map(async delta => {
+      const result = await this.config.docClient.send(new GetCommand({
+        TableName: this.config.tableName,
+        Key: { sensor_id: delta.sensor_id, hour_bucket: delta.hour_bucket },
+        ProjectionExpression: '#shift',
+        ExpressionAttributeNames: { '#shift': 'shift' },
+        ConsistentRead: true
+      }));
+      return result.Item?.shift as number | undefined;
+    }));
 
-    const result = await this.config.docClient.send(getCommand);
-    return result.Item as SensorAggregate || null;
+    let changed = false;
+    deltas.forEach((delta, index) => {
+      const shift = shifts[index] ?? delta.added?.value;
+      const newStatistics = shifts[index] === undefined && shift !== undefined;
+      changed = changed || delta.shift !== shift || delta.newStatistics !== newStatistics;
+      delta.shift = shift;
+      delta.newStatistics = newStatistics;
+    });
+    return changed;
   }
 
   /**
-   * Calculate new aggregate values
+   * Apply count and sum deltas for every affected bucket at every configured
+   * resolution in a single transaction, so coarser buckets never drift from
+   * the finer buckets they contain. Shifted moments and sketch bins are
+   * updated in the same transaction, which also sets the shift and sketch of
+   * buckets that have none; every update is conditioned on the shift it was
+   * prepared with. Removals are conditioned on the bucket holding enough
+   * readings to remove. With a marker, the transaction also marks the record
+   * applied.
    */
-  calculateNewAggregate(existing: SensorAggregate, newValue: number): Partial<SensorAggregate> {
-    const newCount = existing.count + 1;
-    const newSum = (existing.avg * existing.count) + newValue;
-    const newAvg = newSum / newCount;
-    const newMin = Math.min(existing.min, newValue);
-    const newMax = Math.max(existing.max, newValue);
+  async applyBucketDeltas(deltas: BucketDelta[], token: string, marker?: string): Promise<void> {
+    const markerPut = marker && this.config.markers ? [this.config.markers.getMarkerPut(marker)] : [];
+    const transactCommand = new TransactWriteCommand({
+      // The marker outlasts the token; a retry's marker expires later, which
+      // the token would reject as a different request
+      ClientRequestToken: markerPut.length > 0 ? undefined : token,
+      TransactItems: [...deltas.map(delta => {
+        const names: Record<string, string> = { '#count': 'count', '#sum': 'sum' };
+        const values: Record<string, any> = { ':count': delta.count, ':sum': delta.sum };
+        const adds = ['#count :count', '#sum :sum'];
+        const sets: string[] = [];
+        const conditions: string[] = [];
+
+        if (delta.shift !== undefined) {
+          const shift = delta.shift;
+          names['#shift'] = 'shift';
+          values[':shift'] = shift;
+          names['#sum_dev'] = 'sum_dev';
+          names['#sum_sq_dev'] = 'sum_sq_dev';
+          values[':sum_dev'] = delta.values.reduce((total, { value, sign }) => total + sign * (value - shift), 0);
+          values[':sum_sq_dev'] = delta.values.reduce((total, { value, sign }) => total + sign * (value - shift) ** 2, 0);
+          adds.push('#sum_dev :sum_dev', '#sum_sq_dev :sum_sq_dev');
+
+          // Net change per sketch bin; one path may only be set once
+          const bins = new Map<string, number>();
+          for (const { value, sign } of delta.values) {
+            const bin = getSketchBin(value);
+            const path = bin.store === 'zero' ? 'zero' : `${bin.store}|${bin.index}`;
+            bins.set(path, (bins.get(path) || 0) + sign);
+          }
+
+          if (delta.newStatistics) {
+            // The sketch map is created whole; its bins cannot be set in
+            // the same update
+            const sketch = emptySketch();
+            for (const [path, change] of bins) {
+              const [store, index] = path.split('|');
+              if (change === 0) {
+                continue;
+              }
+              if (store === 'zero') {
+                sketch.zero += change;
+              } else {
+                sketch[store as 'pos' | 'neg'][index] = change;
+              }
+            }
+            sets.push('#shift = :shift', '#sketch = :sketch');
+            names['#sketch'] = 'sketch';
+            values[':sketch'] = sketch;
+            conditions.push('attribute_not_exists(#shift)');
+            bins.clear();
+          } else {
+            conditions.push('#shift = :shift');
+          }
+
+          let binNumber = 0;
+          for (const [path, change] of bins) {
+            if (change === 0) {
+              continue;
+            }
+            const [store, index] = path.split('|');
+            const binPath = index === undefined ? `#sketch.#${store}` : `#sketch.#${store}.#bin${binNumber}`;
+            names[`#${store}`] = store;
+            if (index !== undefined) {
+              names[`#bin${binNumber}`] = index;
+            }
+            values[`:bin${binNumber}`] = change;
+            sets.push(`${binPath} = if_not_exists(${binPath}, :zero) + :bin${binNumber}`);
+            binNumber++;
+          }
+          if (binNumber > 0) {
+            names['#sketch'] = 'sketch';
+            values[':zero'] = 0;
+          }
+        }
 
-    return {
-      avg: Number(newAvg.toFixed(2)),
-      min: newMin,
-      max: newMax,
-      count: newCount
-    };
+        if (delta.added) {
+          sets.push('#resolution = :resolution', 'bucket_start = :bucket_start', 'last_updated = :updated', '#location = :location', 'sensor_type = :type');
+          names['#resolution'] = 'resolution';
+          names['#location'] = 'location';
+          values[':resolution'] = delta.resolution;
+          values[':bucket_start'] = getBucketStart(delta.added.timestamp, delta.resolution).toISOString();
+          values[':updated'] = delta.added.received_at || delta.added.timestamp;
+          values[':location'] = delta.added.location;
+          values[':type'] = delta.added.type;
+          if (delta.added.metric !== undefined) {
+            sets.push('metric = :metric');
+            values[':metric'] = delta.added.metric;
+          }
+          if (delta.added.unit !== undefined) {
+            sets.push('#unit = :unit');
+            names['#unit'] = 'unit';
+            values[':unit'] = delta.added.unit;
+          }
+        }
+
+        let updateExpression = `ADD ${adds.join(', ')}`;
+        if (sets.length > 0) {
+          updateExpression += ` SET ${sets.join(', ')}`;
+        }
+
+        if (delta.removed) {
+          conditions.push('#count >= :required');
+          values[':required'] = getRequiredCount(delta);
+        }
+
+        return {
+          Update: {
+            TableName: this.config.tableName,
+            Key: { sensor_id: delta.sensor_id, hour_bucket: delta.hour_bucket },
+            UpdateExpression: updateExpression,
+            ConditionExpression: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+            ExpressionAttributeNames: names,
+            ExpressionAttributeValues: values,
+            // Tells a bucket short of readings from a changed shift
+            ReturnValuesOnConditionCheckFailure: delta.removed ? 'ALL_OLD' as const : undefined
+          }
+        };
+      }), ...markerPut]
+    });
+
+    await this.config.docClient.send(transactCommand);
   }
 
   /**
-   * Update existing aggregate
+   * Lower the bucket minimum or raise its maximum when the value exceeds it.
+   * The condition makes the update a no-op when the stored extreme already
+   * covers the value, so concurrent writers can never widen it incorrectly.
    */
-  async updateAggregate(
-    sensor_id: string, 
-    hour_bucket: string, 
-    updates: Partial<SensorAggregate>,
-    sensorEvent: SensorEvent
-  ): Promise<void> {
+  async updateExtreme(sensor_id: string, hour_bucket: string, attribute: 'min' | 'max', value: number): Promise<void> {
     const updateCommand = new UpdateCommand({
       TableName: this.config.tableName,
       Key: { sensor_id, hour_bucket },
-      UpdateExpression: 'SET #avg = :avg, #min = :min, #max = :max, #count = :count, last_updated = :updated, #location = :location, sensor_type = :type',
-      ExpressionAttributeNames: {
-        '#avg': 'avg',
-        '#min': 'min',
-        '#max': 'max',
-        '#count': 'count',
-        '#location': 'location'
-      },
-      ExpressionAttributeValues: {
-        ':avg': updates.avg,
-        ':min': updates.min,
-        ':max': updates.max,
-        ':count': updates.count,
-        ':updated': new Date().toISOString(),
-        ':location': sensorEvent.location,
-        ':type': sensorEvent.type
-      }
+      UpdateExpression: 'SET #attr = :value',
+      ConditionExpression: `attribute_not_exists(#attr) OR #attr ${attribute === 'min' ? '>' : '<'} :value`,
+      ExpressionAttributeNames: { '#attr': attribute },
+      ExpressionAttributeValues: { ':value': value }
     });
 
-    await this.config.docClient.send(updateCommand);
+    try {
+      await this.config.docClient.send(updateCommand);
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
   }
 
   /**
-   * Create new aggregate
+   * Values of the readings (finest resolution) or the min/max of the finer
+   * buckets (coarser resolutions) that make up a bucket. The readings of a
+   * multi-metric series are read from its sensor's rows.
    */
-  async createAggregate(sensorEvent: SensorEvent, hour_bucket: string): Promise<void> {
-    const newAggregate: SensorAggregate = {
-      sensor_id: sensorEvent.sensor_id,
-      hour_bucket,
-      avg: Number(sensorEvent.value.toFixed(2)),
-      min: sensorEvent.value,
-      max: sensorEvent.value,
-      count: 1,
-      last_updated: new Date().toISOString(),
-      sensor_type: sensorEvent.type,
-      location: sensorEvent.location
-    };
-
-    const putCommand = new PutCommand({
-      TableName: this.config.tableName,
-      Item: newAggregate,
-      ConditionExpression: 'attribute_not_exists(sensor_id) AND attribute_not_exists(hour_bucket)'
-    });
+  async collectBucketValues(sensor_id: string, resolution: Resolution, bucketStart: Date, metric?: string): Promise<number[]> {
+    const bucketEnd = getBucketEnd(bucketStart, resolution);
+    const lastInstant = new Date(bucketEnd.getTime() - 1);
+    const index = this.resolutions.indexOf(resolution);
+    const values: number[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
 
-    await this.config.docClient.send(putCommand);
+    do {
+      const queryCommand = index === 0
+        ? new QueryCommand({
+          TableName: this.config.eventsTableName,
+          KeyConditionExpression: 'sensor_id = :sensor_id AND #ts BETWEEN :from AND :to',
+          ProjectionExpression: '#value, #readings',
+          ExpressionAttributeNames: { '#ts': 'timestamp', '#value': 'value', '#readings': 'readings' },
+          ExpressionAttributeValues: {
+            ':sensor_id': getSeriesSensorId(sensor_id, metric),
+            ':from': bucketStart.toISOString(),
+            ':to': lastInstant.toISOString()
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        })
+        : new QueryCommand({
+          TableName: this.config.tableName,
+          KeyConditionExpression: 'sensor_id = :sensor_id AND hour_bucket BETWEEN :from AND :to',
+          ProjectionExpression: '#min, #max',
+          ExpressionAttributeNames: { '#min': 'min', '#max': 'max' },
+          ExpressionAttributeValues: {
+            ':sensor_id': sensor_id,
+            ':from': getBucketKey(bucketStart, this.resolutions[index - 1]),
+            ':to': getBucketKey(lastInstant, this.resolutions[index - 1])
+          },
+          ExclusiveStartKey: exclusiveStartKey
+        });
+
+      const result = await this.config.docClient.send(queryCommand);
+      for (const item of result.Items || []) {
+        const reading = metric === undefined ? item : item.readings?.[metric];
+        for (const value of index === 0 ? [reading?.value] : [item.min, item.max]) {
+          if (typeof value === 'number') {
+            values.push(value);
+          }
+        }
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return values;
   }
 
   /**
-   * Process a single sensor event for aggregation
+   * Repair a bucket after a reading was removed from it: delete the bucket
+   * once it is empty, or recompute min/max when the removed value was one
+   * of its extremes. The write is conditioned on the count read at the start
+   * so a concurrently added reading forces a fresh recompute.
    */
-  async processSensorEvent(sensorEvent: SensorEvent): Promise<void> {
-    const hourBucket = this.getHourBucket(sensorEvent.timestamp);
-    
+  async repairBucket(removed: SensorEvent, resolution: Resolution): Promise<void> {
+    const sensor_id = removed.sensor_id;
+    const hour_bucket = this.getBucket(removed.timestamp, resolution);
+
+    for (let attempt = 1; attempt <= MAX_RECOMPUTE_ATTEMPTS; attempt++) {
+      const result = await this.config.docClient.send(new GetCommand({
+        TableName: this.config.tableName,
+        Key: { sensor_id, hour_bucket },
+        ConsistentRead: true
+      }));
+      const existing = result.Item as SensorAggregate | undefined;
+
+      if (!existing || (existing.min < removed.value && existing.max > removed.value && existing.count > 0)) {
+        return;
+      }
+
+      try {
+        if (existing.count <= 0) {
+          await this.config.docClient.send(new DeleteCommand({
+            TableName: this.config.tableName,
+            Key: { sensor_id, hour_bucket },
+            ConditionExpression: '#count = :count',
+            ExpressionAttributeNames: { '#count': 'count' },
+            ExpressionAttributeValues: { ':count': existing.count }
+          }));
+          logger.info('Deleted empty aggregate', { sensor_id, hour_bucket });
+          return;
+        }
+
+        const values = await this.collectBucketValues(sensor_id, resolution, getBucketStart(removed.timestamp, resolution), removed.metric);
+        if (values.length === 0) {
+          logger.warn('No source data to recompute extremes', { sensor_id, hour_bucket });
+          return;
+        }
+
+        await this.config.docClient.send(new UpdateCommand({
+          TableName: this.config.tableName,
+          Key: { sensor_id, hour_bucket },
+          UpdateExpression: 'SET #min = :min, #max = :max',
+          ConditionExpression: '#count = :count',
+          ExpressionAttributeNames: { '#min': 'min', '#max': 'max', '#count': 'count' },
+          ExpressionAttributeValues: {
+            ':min': Math.min(...values),
+            ':max': Math.max(...values),
+            ':count': existing.count
+          }
+        }));
+        logger.info('Recomputed extremes', { sensor_id, hour_bucket });
+        return;
+      } catch (error: any) {
+        if (error.name !== 'ConditionalCheckFailedException' || attempt === MAX_RECOMPUTE_ATTEMPTS) {
+          throw error;
+        }
+        logger.info('Aggregate changed during recompute, retrying', { sensor_id, hour_bucket, attempt });
+        this.config.metrics?.count('AggregateRetries');
+      }
+    }
+  }
+
+  /**
+   * Apply bucket deltas against freshly read statistics state. When a
+   * concurrent writer created or deleted one of the buckets in between, its
+   * shift condition fails; the state is read again and the transaction
+   * retried under a new token.
+   */
+  async applyWithStatistics(deltas: BucketDelta[], token: string, marker?: string): Promise<void> {
+    await this.prepareStatistics(deltas);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // A token names one set of parameters, so a retry needs its own
+        const attemptToken = attempt === 1 ? token : createHash('sha256').update(`${token}|${attempt}`).digest('hex').slice(0, 36);
+        await this.applyBucketDeltas(deltas, attemptToken, marker);
+        return;
+      } catch (error: any) {
+        const conditionFailed = error.name === 'TransactionCanceledException'
+          && (error.CancellationReasons || []).some((reason: any) => reason?.Code === 'ConditionalCheckFailed');
+        if (!conditionFailed || attempt === MAX_RECOMPUTE_ATTEMPTS
+          || (marker && this.config.markers?.isAlreadyApplied(error, deltas.length))
+          || !(await this.prepareStatistics(deltas))) {
+          throw error;
+        }
+        logger.info('Aggregate statistics changed during update, retrying', { sensor_id: deltas[0].sensor_id, attempt });
+        this.config.metrics?.count('AggregateRetries');
+      }
+    }
+  }
+
+  /**
+   * Apply readings added to or removed from the raw table. Count and sum are
+   * updated transactionally; min and max are widened for added readings and
+   * repaired for removed ones. The location and type rollups follow once the
+   * sensor's own buckets are up to date.
+   */
+  async applyChanges(changes: SensorEventChange[], eventID?: string): Promise<void> {
     // Get secrets (for potential future use)
     await this.getSecrets();
 
-    try {
-      const existing = await this.getExistingAggregate(sensorEvent.sensor_id, hourBucket);
-
-      if (existing) {
-        // Update existing aggregate
-        const updates = this.calculateNewAggregate(existing, sensorEvent.value);
-        await this.updateAggregate(sensorEvent.sensor_id, hourBucket, updates, sensorEvent);
-        console.log(`Updated aggregate for ${sensorEvent.sensor_id} at ${hourBucket}`);
-      } else {
-        // Create new aggregate
-        await this.createAggregate(sensorEvent, hourBucket);
-        console.log(`Created new aggregate for ${sensorEvent.sensor_id} at ${hourBucket}`);
+    for (const { sensorEvent } of changes) {
+      if (sensorEvent.late) {
+        logger.info('Applying late reading', {
+          sensor_id: sensorEvent.sensor_id,
+          timestamp: sensorEvent.timestamp,
+          received_at: sensorEvent.received_at
+        });
       }
+    }
+
+    const deltas = this.buildBucketDeltas(changes);
+    if (deltas.length === 0) {
+      return;
+    }
+
+    const token = this.getRequestToken(changes, eventID);
+    try {
+      await this.applyWithStatistics(deltas, token, eventID);
     } catch (error: any) {
-      if (error.name === 'ConditionalCheckFailedException') {
-        // Handle race condition - retry the operation
-        console.log('Conditional check failed, retrying...');
-        await this.processSensorEvent(sensorEvent);
-      } else {
+      if (eventID && this.config.markers?.isAlreadyApplied(error, deltas.length)) {
+        // Applied by an earlier attempt that failed later on; the repairs,
+        // extremes and rollups below are safe to repeat
+        logger.info('Skipping reading already aggregated', { sensor_id: changes[0].sensorEvent.sensor_id });
+        this.config.metrics?.count('RecordsAlreadyApplied');
+      } else if (!isUncountedRemoval(error, deltas)) {
+        // Including shift conditions that kept failing under concurrent
+        // writers: the record is retried or dead-lettered, never dropped
         throw error;
+      } else {
+        // The removed reading was never counted (e.g. it predates the stream
+        // consumer), so there is nothing to reverse. Still apply any addition.
+        logger.warn('Skipping reversal of a reading that was never aggregated', { sensor_id: changes[0].sensorEvent.sensor_id });
+        const additions = changes.filter(change => change.sign > 0);
+        if (additions.length === 0) {
+          return;
+        }
+        changes = additions;
+        const additionDeltas = this.buildBucketDeltas(additions);
+        await this.applyWithStatistics(additionDeltas, this.getRequestToken(additions, eventID && `${eventID}+`), eventID);
+      }
+    }
+
+    for (const { sensorEvent } of changes.filter(change => change.sign < 0)) {
+      for (const resolution of this.resolutions) {
+        await this.repairBucket(sensorEvent, resolution);
       }
     }
+
+    await Promise.all(changes.filter(change => change.sign > 0).flatMap(({ sensorEvent }) =>
+      this.resolutions.flatMap(resolution => {
+        const bucket = this.getBucket(sensorEvent.timestamp, resolution);
+        return [
+          this.updateExtreme(sensorEvent.sensor_id, bucket, 'min', sensorEvent.value),
+          this.updateExtreme(sensorEvent.sensor_id, bucket, 'max', sensorEvent.value)
+        ];
+      })
+    ));
+
+    await this.groups?.applyChanges(changes, token, eventID && `${eventID}#groups`);
+
+    logger.info('Updated aggregates', { sensor_id: deltas[0].sensor_id, buckets: deltas.map(delta => delta.hour_bucket) });
   }
 
   /**
-   * Process DynamoDB record
+   * Process a single new sensor event for aggregation. Every configured
+   * resolution is updated from the same reading.
+   */
+  async processSensorEvent(sensorEvent: SensorEvent, eventID?: string): Promise<void> {
+    await this.applyChanges([{ sensorEvent, sign: 1 }], eventID);
+  }
+
+  /**
+   * Process DynamoDB record. Inserts add the new reading; modifications
+   * reverse the old reading and add the new one; removals reverse the old
+   * reading, so aggregates follow edits to the raw table. Each metric of a
+   * multi-metric reading is applied to its own series.
    */
   async processRecord(record: DynamoDBRecord): Promise<void> {
-    // Only process INSERT and MODIFY events
-    if (record.eventName !== 'INSERT' && record.eventName !== 'MODIFY') {
-      console.log(`Skipping ${record.eventName} event`);
+    const newEvents = record.eventName === 'REMOVE' ? [] : this.parseSensorEvents(record, 'NewImage');
+    const oldEvents = record.eventName === 'INSERT' ? [] : this.parseSensorEvents(record, 'OldImage');
+
+    if (record.eventName !== 'REMOVE' && newEvents.length === 0) {
+      logger.error('Invalid sensor event data in record');
       return;
     }
 
-    const sensorEvent = this.parseSensorEvent(record);
-    if (!sensorEvent) {
-      console.error('Invalid sensor event data in record');
+    const series = new Map<string, SensorEventChange[]>();
+    for (const change of [
+      ...oldEvents.map(sensorEvent => ({ sensorEvent, sign: -1 as const })),
+      ...newEvents.map(sensorEvent => ({ sensorEvent, sign: 1 as const }))
+    ]) {
+      series.set(change.sensorEvent.sensor_id, [...(series.get(change.sensorEvent.sensor_id) || []), change]);
+    }
+
+    if (series.size === 0) {
+      logger.info('Skipping event without a sensor event image', { event_name: record.eventName });
       return;
     }
 
-    await this.processSensorEvent(sensorEvent);
+    for (const [series_id, changes] of series) {
+      const oldEvent = changes.find(change => change.sign < 0)?.sensorEvent;
+      const newEvent = changes.find(change => change.sign > 0)?.sensorEvent;
+      if (record.eventName === 'MODIFY' && oldEvent && newEvent
+        && oldEvent.value === newEvent.value && oldEvent.timestamp === newEvent.timestamp) {
+        logger.info('Skipping MODIFY event without a value change', { sensor_id: newEvent.sensor_id, timestamp: newEvent.timestamp });
+        continue;
+      }
+
+      // Series of one record share its eventID, so each gets its own token
+      const eventID = record.eventID && series.size > 1 ? `${record.eventID}#${series_id}` : record.eventID;
+      await this.applyChanges(changes, eventID);
+    }
+
+    // Time from receipt to up-to-date aggregates, for new readings
+    if (record.eventName === 'INSERT' && newEvents[0]?.received_at) {
+      this.config.metrics?.duration('AggregationLatency', Date.now() - Date.parse(newEvents[0].received_at));
+    }
   }
 }
+
+/**
+ * Readings a bucket must hold for a delta's removals to apply
+ */
+function getRequiredCount(delta: BucketDelta): number {
+  return Math.max(-delta.count, 1);
+}
+
+/**
+ * Whether a transaction was cancelled only because buckets held fewer
+ * readings than they were to lose, i.e. the removed readings were never
+ * counted. A removal update returns its bucket as it was when the condition
+ * failed; a missing bucket holds none.
+ */
+function isUncountedRemoval(error: any, deltas: BucketDelta[]): boolean {
+  if (error.name !== 'TransactionCanceledException') {
+    return false;
+  }
+
+  const reasons: any[] = error.CancellationReasons || [];
+  const failed = reasons.flatMap((reason, index) => reason && reason.Code !== 'None' ? [index] : []);
+  return failed.length > 0 && failed.every(index => {
+    const delta = deltas[index];
+    if (reasons[index].Code !== 'ConditionalCheckFailed' || !delta?.removed) {
+      return false;
+    }
+    const bucket = reasons[index].Item ? unmarshall(reasons[index].Item) : undefined;
+    return (bucket?.count ?? 0) < getRequiredCount(delta);
+  });
+}
@@ -0,0 +1,86 @@
+import { DynamoDBBatchItemFailure, DynamoDBBatchResponse, DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { AlertService } from './service';
+import { logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+const snsClient = new SNSClient({});
+
+// Environment variables
+const ALERT_RULES_TABLE = process.env.ALERT_RULES_TABLE!;
+const ALERT_RULE_STATE_TABLE = process.env.ALERT_RULE_STATE_TABLE!;
+const ALERTS_TABLE = process.env.ALERTS_TABLE!;
+const ALERTS_TOPIC_ARN = process.env.ALERTS_TOPIC_ARN!;
+const SECRET_ARN = process.env.SECRET_ARN!;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const RULE_CACHE_TTL_SECONDS = Number(process.env.RULE_CACHE_TTL_SECONDS || 60);
+
+// Initialize service
+const alertService = new AlertService({
+  docClient,
+  secretsClient,
+  snsClient,
+  rulesTableName: ALERT_RULES_TABLE,
+  stateTableName: ALERT_RULE_STATE_TABLE,
+  alertsTableName: ALERTS_TABLE,
+  topicArn: ALERTS_TOPIC_ARN,
+  secretArn: SECRET_ARN,
+  environment: ENVIRONMENT,
+  ruleCacheTtlMs: RULE_CACHE_TTL_SECONDS * 1000
+});
+
+/**
+ * Main Lambda handler. Readings of one sensor are evaluated in stream order,
+ * since each can change the rule state the next one sees; different sensors
+ * are evaluated concurrently. When a reading fails, it and the rest of that
+ * sensor's readings are reported as batch item failures and retried.
+ *
+ * Each record is logged under the correlation ID of the ingest request that
+ * stored its reading.
+ */
+export const handler = async (event: DynamoDBStreamEvent): Promise<DynamoDBBatchResponse> => {
+  logger.info('Received DynamoDB Stream event', { records: event.Records.length });
+
+  const recordsBySensor = new Map<string, DynamoDBRecord[]>();
+  for (const record of event.Records) {
+    const sensor_id = record.dynamodb?.Keys?.sensor_id?.S || '';
+    recordsBySensor.set(sensor_id, [...(recordsBySensor.get(sensor_id) || []), record]);
+  }
+
+  const batchItemFailures: DynamoDBBatchItemFailure[] = [];
+  await Promise.all(Array.from(recordsBySensor.values()).map(async records => {
+    for (const record of records) {
+      const image = record.dynamodb?.NewImage || record.dynamodb?.OldImage;
+      const failed = await withLogContext({
+        correlation_id: image?.correlation_id?.S,
+        event_id: record.eventID,
+        sensor_id: record.dynamodb?.Keys?.sensor_id?.S
+      }, async () => {
+        try {
+          await alertService.processRecord(record);
+          return false;
+        } catch (error) {
+          logger.error('Error evaluating alert rules', { event_name: record.eventName, timestamp: record.dynamodb?.Keys?.timestamp?.S, error });
+          return true;
+        }
+      });
+
+      if (failed) {
+        batchItemFailures.push({ itemIdentifier: record.dynamodb?.SequenceNumber || '' });
+        return;
+      }
+    }
+  }));
+
+  logger.info('Evaluated DynamoDB Stream event', {
+    records: event.Records.length,
+    failed: batchItemFailures.length
+  });
+  return { batchItemFailures };
+};
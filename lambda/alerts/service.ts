@@ -0,0 +1,398 @@
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { DynamoDBRecord } from 'aws-lambda';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { AlertRule, RULE_SCOPE_TYPES, getScopeKey, isBreached, isCleared } from '../shared/alert-rules';
+import { expandReadings } from '../shared/readings';
+import { logger } from '../shared/observability';
+
+// Types
+export interface SensorEvent {
+  sensor_id: string;
+  timestamp: string;
+  type: string;
+  value: number;
+  location: string;
+  received_at?: string;
+  environment: string;
+}
+
+export type RuleStatus = 'ok' | 'pending' | 'firing';
+
+// Evaluation state of one rule for one sensor
+export interface RuleState {
+  rule_id: string;
+  sensor_id: string;
+  status: RuleStatus;
+  breach_started_at?: string; // First breaching reading of the current breach
+  last_fired_at?: string;
+  alert_id?: string; // Alert currently firing
+  last_timestamp: string; // Reading that caused the last transition
+  version: number;
+}
+
+export interface Alert {
+  sensor_id: string;
+  alert_id: string; // Sort key: `${fired_at}#${rule_id}`
+  rule_id: string;
+  rule_name: string;
+  status: 'firing' | 'resolved';
+  operator: AlertRule['operator'];
+  threshold: number;
+  type: string;
+  location: string;
+  breach_started_at: string;
+  fired_at: string;
+  fired_value: number;
+  resolved_at?: string;
+  resolved_value?: number;
+  environment: string;
+}
+
+export type AlertAction = 'fired' | 'resolved';
+
+export interface RuleTransition {
+  state: RuleState;
+  action?: AlertAction;
+}
+
+export interface AlertServiceConfig {
+  docClient: DynamoDBDocumentClient;
+  secretsClient: SecretsManagerClient;
+  snsClient: SNSClient;
+  rulesTableName: string;
+  stateTableName: string;
+  alertsTableName: string;
+  topicArn: string;
+  secretArn: string;
+  environment: string;
+  ruleCacheTtlMs?: number;
+}
+
+const DEFAULT_RULE_CACHE_TTL_MS = 60 * 1000;
+
+// SNS subjects are limited to 100 characters
+const MAX_SUBJECT_LENGTH = 100;
+
+export class AlertService {
+  private cachedSecrets: any = null;
+
+  private ruleCache = new Map<string, { rules: AlertRule[]; expiresAt: number }>();
+
+  constructor(private config: AlertServiceConfig) {}
+
+  /**
+   * Get secrets from AWS Secrets Manager with caching
+   */
+  async getSecrets(): Promise<any> {
+    if (this.cachedSecrets) {
+      return this.cachedSecrets;
+    }
+
+    try {
+      const command = new GetSecretValueCommand({
+        SecretId: this.config.secretArn
+      });
+
+      const response = await this.config.secretsClient.send(command);
+      this.cachedSecrets = JSON.parse(response.SecretString || '{}');
+      return this.cachedSecrets;
+    } catch (error) {
+      logger.error('Error retrieving secrets', { error });
+      return {};
+    }
+  }
+
+  /**
+   * Parse the new image of a stream record to sensor events, one per metric
+   * of a multi-metric reading (see shared/readings)
+   */
+  parseSensorEvents(record: DynamoDBRecord): SensorEvent[] {
+    if (!record.dynamodb?.NewImage) {
+      return [];
+    }
+
+    return expandReadings(unmarshall(record.dynamodb.NewImage as Record<string, any>) as SensorEvent)
+      .filter(sensorEvent => sensorEvent.sensor_id && sensorEvent.timestamp && typeof sensorEvent.value === 'number');
+  }
+
+  /**
+   * Enabled rules for one scope. Rules are cached briefly, so rule changes
+   * take effect within the cache TTL.
+   */
+  async getRulesForScope(scope_key: string): Promise<AlertRule[]> {
+    const cached = this.ruleCache.get(scope_key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
+    const rules: AlertRule[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const result = await this.config.docClient.send(new QueryCommand({
+        TableName: this.config.rulesTableName,
+        IndexName: 'scope-index',
+        KeyConditionExpression: 'scope_key = :scope_key',
+        ExpressionAttributeValues: { ':scope_key': scope_key },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      rules.push(...((result.Items || []) as AlertRule[]).filter(rule => rule.enabled));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    this.ruleCache.set(scope_key, {
+      rules,
+      expiresAt: Date.now() + (this.config.ruleCacheTtlMs ?? DEFAULT_RULE_CACHE_TTL_MS)
+    });
+    return rules;
+  }
+
+  /**
+   * Rules matching a reading by sensor_id, type or location
+   */
+  async getRulesForEvent(sensorEvent: SensorEvent): Promise<AlertRule[]> {
+    const scoped = await Promise.all(RULE_SCOPE_TYPES
+      .filter(scope => typeof sensorEvent[scope] === 'string')
+      .map(scope => this.getRulesForScope(getScopeKey(scope, sensorEvent[scope]))));
+
+    return scoped.flat();
+  }
+
+  /**
+   * Compute the next state of a rule for a reading:
+   * - ok -> firing when the threshold is breached and no duration is set
+   * - ok -> pending when breached with a duration; pending -> firing once the
+   *   breach has lasted duration_seconds, and pending -> ok when it ends
+   * - firing -> ok once the value has cleared the threshold by the hysteresis
+   * Firing is held back (staying pending) until cooldown_seconds have passed
+   * since the last firing for the sensor.
+   */
+  evaluate(rule: AlertRule, state: RuleState, sensorEvent: SensorEvent): RuleTransition {
+    const next: RuleState = { ...state, last_timestamp: sensorEvent.timestamp };
+    const readingTime = new Date(sensorEvent.timestamp).getTime();
+
+    if (state.status === 'firing') {
+      if (!isCleared(rule, sensorEvent.value)) {
+        return { state };
+      }
+      return {
+        state: { ...next, status: 'ok', breach_started_at: undefined, alert_id: undefined },
+        action: 'resolved'
+      };
+    }
+
+    if (!isBreached(rule, sensorEvent.value)) {
+      return state.status === 'pending'
+        ? { state: { ...next, status: 'ok', breach_started_at: undefined } }
+        : { state };
+    }
+
+    const breachStartedAt = state.status === 'pending' && state.breach_started_at
+      ? state.breach_started_at
+      : sensorEvent.timestamp;
+    const breachLasted = readingTime - new Date(breachStartedAt).getTime() >= rule.duration_seconds * 1000;
+    const coolingDown = state.last_fired_at !== undefined
+      && readingTime - new Date(state.last_fired_at).getTime() < rule.cooldown_seconds * 1000;
+
+    if (breachLasted && !coolingDown) {
+      return {
+        state: {
+          ...next,
+          status: 'firing',
+          breach_started_at: breachStartedAt,
+          last_fired_at: sensorEvent.timestamp,
+          alert_id: `${sensorEvent.timestamp}#${rule.rule_id}`
+        },
+        action: 'fired'
+      };
+    }
+
+    if (state.status === 'pending') {
+      return { state };
+    }
+    return { state: { ...next, status: 'pending', breach_started_at: breachStartedAt } };
+  }
+
+  /**
+   * Current state of a rule for a sensor
+   */
+  async getState(rule_id: string, sensor_id: string): Promise<RuleState> {
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.stateTableName,
+      Key: { rule_id, sensor_id },
+      ConsistentRead: true
+    }));
+
+    return (result.Item as RuleState | undefined) || {
+      rule_id,
+      sensor_id,
+      status: 'ok',
+      last_timestamp: '',
+      version: 0
+    };
+  }
+
+  /**
+   * Build the alert row for a firing
+   */
+  createAlert(rule: AlertRule, state: RuleState, sensorEvent: SensorEvent): Alert {
+    return {
+      sensor_id: sensorEvent.sensor_id,
+      alert_id: state.alert_id as string,
+      rule_id: rule.rule_id,
+      rule_name: rule.name,
+      status: 'firing',
+      operator: rule.operator,
+      threshold: rule.threshold,
+      type: sensorEvent.type,
+      location: sensorEvent.location,
+      breach_started_at: state.breach_started_at as string,
+      fired_at: sensorEvent.timestamp,
+      fired_value: sensorEvent.value,
+      environment: this.config.environment
+    };
+  }
+
+  /**
+   * Publish a fired or resolved alert to the alerts topic
+   */
+  async publishAlert(action: AlertAction, alert: Alert): Promise<void> {
+    const subject = `[${action === 'fired' ? 'FIRING' : 'RESOLVED'}] ${alert.rule_name}: ${alert.sensor_id}`;
+
+    await this.config.snsClient.send(new PublishCommand({
+      TopicArn: this.config.topicArn,
+      Subject: subject.slice(0, MAX_SUBJECT_LENGTH),
+      Message: JSON.stringify({ event: action === 'fired' ? 'ALERT_FIRED' : 'ALERT_RESOLVED', alert }),
+      MessageAttributes: {
+        event_type: { DataType: 'String', StringValue: action },
+        rule_id: { DataType: 'String', StringValue: alert.rule_id },
+        sensor_id: { DataType: 'String', StringValue: alert.sensor_id }
+      }
+    }));
+  }
+
+  /**
+   * Persist a state transition, and the alert it fires or resolves, in one
+   * transaction. The state write is conditioned on the version read, so a
+   * concurrent evaluation of the same rule and sensor cannot be lost.
+   */
+  async saveTransition(previous: RuleState, transition: RuleTransition, alert?: Alert): Promise<void> {
+    // Cleared optional fields are dropped rather than written as undefined
+    const state = Object.fromEntries(Object.entries({ ...transition.state, version: previous.version + 1 })
+      .filter(([, value]) => value !== undefined));
+    const transactItems: any[] = [{
+      Put: {
+        TableName: this.config.stateTableName,
+        Item: state,
+        ConditionExpression: previous.version === 0 ? 'attribute_not_exists(rule_id)' : 'version = :version',
+        ExpressionAttributeValues: previous.version === 0 ? undefined : { ':version': previous.version }
+      }
+    }];
+
+    if (transition.action === 'fired' && alert) {
+      transactItems.push({
+        Put: {
+          TableName: this.config.alertsTableName,
+          Item: alert
+        }
+      });
+    }
+
+    if (transition.action === 'resolved' && alert) {
+      transactItems.push({
+        Update: {
+          TableName: this.config.alertsTableName,
+          Key: { sensor_id: alert.sensor_id, alert_id: alert.alert_id },
+          UpdateExpression: 'SET #status = :status, resolved_at = :resolved_at, resolved_value = :resolved_value',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':status': 'resolved',
+            ':resolved_at': alert.resolved_at,
+            ':resolved_value': alert.resolved_value
+          }
+        }
+      });
+    }
+
+    await this.config.docClient.send(new TransactWriteCommand({ TransactItems: transactItems }));
+  }
+
+  /**
+   * Evaluate one rule against a reading. Readings at or before the last
+   * transition (stream retries, out-of-order data) are ignored. The
+   * notification is published before the state is saved, so a failure
+   * between the two leads to a retry and a repeated notification rather
+   * than a lost one; subscribers can de-duplicate on alert_id.
+   */
+  async evaluateRule(rule: AlertRule, sensorEvent: SensorEvent): Promise<AlertAction | undefined> {
+    const state = await this.getState(rule.rule_id, sensorEvent.sensor_id);
+    if (state.last_timestamp && sensorEvent.timestamp <= state.last_timestamp) {
+      return undefined;
+    }
+
+    const transition = this.evaluate(rule, state, sensorEvent);
+    if (transition.state === state) {
+      return undefined;
+    }
+
+    let alert: Alert | undefined;
+    if (transition.action === 'fired') {
+      alert = this.createAlert(rule, transition.state, sensorEvent);
+    }
+    if (transition.action === 'resolved' && state.alert_id) {
+      const result = await this.config.docClient.send(new GetCommand({
+        TableName: this.config.alertsTableName,
+        Key: { sensor_id: sensorEvent.sensor_id, alert_id: state.alert_id }
+      }));
+      alert = result.Item && {
+        ...(result.Item as Alert),
+        status: 'resolved',
+        resolved_at: sensorEvent.timestamp,
+        resolved_value: sensorEvent.value
+      };
+    }
+
+    if (transition.action && alert) {
+      await this.publishAlert(transition.action, alert);
+    }
+    await this.saveTransition(state, transition, alert);
+
+    if (transition.action) {
+      logger.info('Alert state changed', {
+        action: transition.action,
+        rule_id: rule.rule_id,
+        sensor_id: sensorEvent.sensor_id,
+        timestamp: sensorEvent.timestamp,
+        value: sensorEvent.value
+      });
+    }
+    return transition.action;
+  }
+
+  /**
+   * Evaluate every matching rule against the reading in a stream record, or
+   * against each metric of a multi-metric reading.
+   * Removals carry no new reading and are skipped.
+   */
+  async processRecord(record: DynamoDBRecord): Promise<void> {
+    if (record.eventName === 'REMOVE') {
+      return;
+    }
+
+    await this.getSecrets();
+
+    const sensorEvents = this.parseSensorEvents(record);
+    if (sensorEvents.length === 0) {
+      logger.error('Invalid sensor event data in record');
+      return;
+    }
+
+    for (const sensorEvent of sensorEvents) {
+      const rules = await this.getRulesForEvent(sensorEvent);
+      for (const rule of rules) {
+        await this.evaluateRule(rule, sensorEvent);
+      }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { ParquetColumn, ParquetWriter, writeParquet } from './parquet';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+export type ExportDataset = 'events' | 'aggregates';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'parquet'];
+export const EXPORT_DATASETS: ExportDataset[] = ['events', 'aggregates'];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet'
+};
+
+// Columns of each dataset, in file order
+export const EXPORT_COLUMNS: Record<ExportDataset, ParquetColumn[]> = {
+  events: [
+    { name: 'sensor_id', type: 'string' },
+    { name: 'timestamp', type: 'timestamp' },
+    { name: 'type', type: 'string' },
+    { name: 'metric', type: 'string' }, // Set on the rows of multi-metric readings
+    { name: 'location', type: 'string' },
+    { name: 'value', type: 'double' },
+    { name: 'unit', type: 'string' },
+    { name: 'raw_value', type: 'double' },
+    { name: 'raw_unit', type: 'string' },
+    { name: 'received_at', type: 'timestamp' },
+    { name: 'timestamp_source', type: 'string' },
+    { name: 'late', type: 'boolean' },
+    { name: 'out_of_range', type: 'boolean' }
+  ],
+  aggregates: [
+    { name: 'sensor_id', type: 'string' },
+    { name: 'resolution', type: 'string' },
+    { name: 'bucket_start', type: 'timestamp' },
+    { name: 'sensor_type', type: 'string' },
+    { name: 'location', type: 'string' },
+    { name: 'unit', type: 'string' },
+    { name: 'count', type: 'int64' },
+    { name: 'sum', type: 'double' },
+    { name: 'avg', type: 'double' },
+    { name: 'min', type: 'double' },
+    { name: 'max', type: 'double' },
+    { name: 'variance', type: 'double' },
+    { name: 'stddev', type: 'double' },
+    { name: 'p50', type: 'double' },
+    { name: 'p95', type: 'double' },
+    { name: 'p99', type: 'double' },
+    { name: 'last_updated', type: 'timestamp' }
+  ]
+};
+
+function csvField(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row; missing values are empty fields
+ */
+export function toCsv(columns: ParquetColumn[], rows: Record<string, any>[]): Buffer {
+  const lines = [
+    columns.map(column => csvField(column.name)).join(','),
+    ...rows.map(row => columns.map(column => csvField(row[column.name])).join(','))
+  ];
+  return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+/**
+ * One JSON object per line; missing values are omitted
+ */
+export function toNdjson(columns: ParquetColumn[], rows: Record<string, any>[]): Buffer {
+  const lines = rows.map(row => JSON.stringify(
+    Object.fromEntries(columns
+      .filter(column => row[column.name] !== undefined && row[column.name] !== null)
+      .map(column => [column.name, row[column.name]]))
+  ));
+  return Buffer.from(lines.map(line => `${line}\n`).join(''), 'utf8');
+}
+
+/**
+ * Encode export rows in a format
+ */
+export function encodeRows(format: ExportFormat, columns: ParquetColumn[], rows: Record<string, any>[]): Buffer {
+  switch (format) {
+    case 'csv':
+      return toCsv(columns, rows);
+    case 'ndjson':
+      return toNdjson(columns, rows);
+    case 'parquet':
+      return writeParquet(columns, rows);
+  }
+}
+
+/**
+ * Encodes a file a chunk of rows at a time, so it can be uploaded in parts
+ * while it is written. The chunks and the end, concatenated, are the file
+ * encodeRows would write for all the rows.
+ */
+export class FileEncoder {
+  private started = false;
+
+  private parquet?: ParquetWriter;
+
+  constructor(private format: ExportFormat, private columns: ParquetColumn[]) {
+    if (format === 'parquet') {
+      this.parquet = new ParquetWriter(columns);
+    }
+  }
+
+  /**
+   * Encode the next rows of the file
+   */
+  encode(rows: Record<string, any>[]): Buffer {
+    const first = !this.started;
+    this.started = true;
+
+    switch (this.format) {
+      case 'csv':
+        if (first) {
+          return toCsv(this.columns, rows);
+        }
+        return Buffer.from(rows.map(row => this.columns.map(column => csvField(row[column.name])).join(',') + '\r\n').join(''), 'utf8');
+      case 'ndjson':
+        return toNdjson(this.columns, rows);
+      case 'parquet':
+        return this.parquet!.writeRowGroup(rows);
+    }
+  }
+
+  /**
+   * End the file: the CSV header of a file without rows, or the Parquet
+   * footer
+   */
+  finish(): Buffer {
+    switch (this.format) {
+      case 'csv':
+        return this.started ? Buffer.alloc(0) : toCsv(this.columns, []);
+      case 'ndjson':
+        return Buffer.alloc(0);
+      case 'parquet':
+        return this.parquet!.finish();
+    }
+  }
+}
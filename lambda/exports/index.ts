@@ -0,0 +1,138 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { ExportService } from './service';
+import { createS3Client } from './storage';
+import { parseResolutions } from '../shared/buckets';
+import { CORRELATION_ID_HEADER, getCorrelationId, logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+const sqsClient = new SQSClient({});
+const s3Client = createS3Client(process.env.S3_ENDPOINT);
+
+// Environment variables
+const EXPORT_JOBS_TABLE = process.env.EXPORT_JOBS_TABLE!;
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
+const EXPORT_QUEUE_URL = process.env.EXPORT_QUEUE_URL!;
+const SECRET_ARN = process.env.SECRET_ARN!;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const AGGREGATE_RESOLUTIONS = parseResolutions(process.env.AGGREGATE_RESOLUTIONS);
+const EXPORT_URL_TTL_SECONDS = Number(process.env.EXPORT_URL_TTL_SECONDS || 3600);
+const EXPORT_RETENTION_DAYS = Number(process.env.EXPORT_RETENTION_DAYS || 7);
+
+// Initialize service
+const exportService = new ExportService({
+  docClient,
+  secretsClient,
+  s3Client,
+  sqsClient,
+  tableName: EXPORT_JOBS_TABLE,
+  bucketName: EXPORTS_BUCKET,
+  queueUrl: EXPORT_QUEUE_URL,
+  secretArn: SECRET_ARN,
+  environment: ENVIRONMENT,
+  resolutions: AGGREGATE_RESOLUTIONS,
+  urlTtlSeconds: EXPORT_URL_TTL_SECONDS,
+  retentionDays: EXPORT_RETENTION_DAYS
+});
+
+/**
+ * Create response object
+ */
+function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Correlation-Id',
+      'Access-Control-Expose-Headers': 'X-Correlation-Id',
+      'Access-Control-Allow-Methods': 'GET,POST,OPTIONS'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Route an API request. Routes:
+ *   POST /exports              request an export; runs in the background
+ *   GET  /exports/{export_id}  export status, with download links once completed
+ */
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Handle CORS preflight requests
+    if (event.httpMethod === 'OPTIONS') {
+      return createResponse(200, { message: 'CORS preflight successful' });
+    }
+
+    const export_id = event.pathParameters?.export_id;
+
+    if (!export_id && event.httpMethod === 'POST') {
+      let payload: any;
+      try {
+        payload = JSON.parse(event.body || '');
+      } catch (parseError) {
+        return createResponse(400, {
+          error: 'Bad request',
+          message: 'Invalid JSON in request body'
+        });
+      }
+
+      const job = await exportService.createExport(payload);
+      return createResponse(202, { message: 'Export queued', data: job });
+    }
+
+    if (export_id && event.httpMethod === 'GET') {
+      return createResponse(200, { data: await exportService.getExport(export_id) });
+    }
+
+    return createResponse(405, {
+      error: 'Method not allowed',
+      message: `${event.httpMethod} is not supported on ${event.resource}`
+    });
+
+  } catch (error: any) {
+    logger.error('Error handling export request', { error });
+
+    // Handle validation errors
+    if (error.message?.includes('Invalid export request')) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: error.message
+      });
+    }
+
+    if (error.message?.includes('Export not found')) {
+      return createResponse(404, {
+        error: 'Not found',
+        message: error.message
+      });
+    }
+
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to process export request',
+      details: ENVIRONMENT === 'dev' ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * Main Lambda handler, run with the correlation ID of the request in the log context
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = getCorrelationId(event.headers, event.requestContext?.requestId);
+
+  return withLogContext({ correlation_id: correlationId }, async () => {
+    logger.info('Received exports request', { method: event.httpMethod, resource: event.resource });
+
+    const response = await handleRequest(event);
+    logger.info('Sent response', { status: response.statusCode });
+    return { ...response, headers: { ...response.headers, [CORRELATION_ID_HEADER]: correlationId } };
+  });
+};
@@ -0,0 +1,360 @@
+/**
+ * Minimal Parquet writer for export files.
+ *
+ * Writes row groups with one uncompressed, PLAIN encoded data page per
+ * column, one row group at a time, so a file can be uploaded while it is
+ * written. Every column is OPTIONAL, so missing values are written as nulls.
+ * That is all an export needs, and it keeps the Lambda bundle free of a
+ * Parquet library and its native/wasm codecs.
+ *
+ * Metadata structures are encoded with the Thrift compact protocol, see
+ * https://github.com/apache/parquet-format/blob/master/src/main/thrift/parquet.thrift
+ */
+
+export type ParquetColumnType = 'string' | 'double' | 'int64' | 'boolean' | 'timestamp';
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+const MAGIC = Buffer.from('PAR1');
+
+// parquet.thrift enums
+const Type = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9 };
+const Repetition = { OPTIONAL: 1 };
+const Encoding = { PLAIN: 0, RLE: 3 };
+const PageType = { DATA_PAGE: 0 };
+const Codec = { UNCOMPRESSED: 0 };
+
+const PHYSICAL_TYPES: Record<ParquetColumnType, number> = {
+  string: Type.BYTE_ARRAY,
+  double: Type.DOUBLE,
+  int64: Type.INT64,
+  boolean: Type.BOOLEAN,
+  timestamp: Type.INT64
+};
+
+const CONVERTED_TYPES: Partial<Record<ParquetColumnType, number>> = {
+  string: ConvertedType.UTF8,
+  timestamp: ConvertedType.TIMESTAMP_MILLIS
+};
+
+// Thrift compact protocol type ids
+const CompactType = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 };
+
+type ThriftValue =
+  | { type: 'i32'; value: number }
+  | { type: 'i64'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'struct'; value: ThriftStruct }
+  | { type: 'list'; elementType: 'i32' | 'string' | 'struct'; value: (number | string | ThriftStruct)[] };
+
+// Fields by id; undefined fields are omitted
+type ThriftStruct = Record<number, ThriftValue | undefined>;
+
+const i32 = (value: number): ThriftValue => ({ type: 'i32', value });
+const i64 = (value: number): ThriftValue => ({ type: 'i64', value });
+const str = (value: string): ThriftValue => ({ type: 'string', value });
+const struct = (value: ThriftStruct): ThriftValue => ({ type: 'struct', value });
+
+class ThriftWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value);
+  }
+
+  varint(value: bigint): void {
+    let remaining = value;
+    while (remaining >= 0x80n) {
+      this.bytes.push(Number(remaining & 0x7fn) | 0x80);
+      remaining >>= 7n;
+    }
+    this.bytes.push(Number(remaining));
+  }
+
+  zigzag(value: number): void {
+    const n = BigInt(value);
+    this.varint(n >= 0n ? n << 1n : (-n << 1n) - 1n);
+  }
+
+  binary(value: string): void {
+    const encoded = Buffer.from(value, 'utf8');
+    this.varint(BigInt(encoded.length));
+    this.bytes.push(...encoded);
+  }
+
+  struct(fields: ThriftStruct): void {
+    let lastId = 0;
+    for (const id of Object.keys(fields).map(Number).sort((a, b) => a - b)) {
+      const field = fields[id];
+      if (field === undefined) {
+        continue;
+      }
+      const typeId = this.typeId(field.type);
+      if (id > lastId && id - lastId <= 15) {
+        this.bytes.push(((id - lastId) << 4) | typeId);
+      } else {
+        this.bytes.push(typeId);
+        this.zigzag(id);
+      }
+      this.value(field);
+      lastId = id;
+    }
+    this.bytes.push(0); // Stop field
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  private typeId(type: ThriftValue['type']): number {
+    switch (type) {
+      case 'i32': return CompactType.I32;
+      case 'i64': return CompactType.I64;
+      case 'string': return CompactType.BINARY;
+      case 'list': return CompactType.LIST;
+      case 'struct': return CompactType.STRUCT;
+    }
+  }
+
+  private value(field: ThriftValue): void {
+    switch (field.type) {
+      case 'i32':
+      case 'i64':
+        this.zigzag(field.value);
+        break;
+      case 'string':
+        this.binary(field.value);
+        break;
+      case 'struct':
+        this.struct(field.value);
+        break;
+      case 'list': {
+        const elementTypeId = this.typeId(field.elementType);
+        if (field.value.length < 15) {
+          this.bytes.push((field.value.length << 4) | elementTypeId);
+        } else {
+          this.bytes.push(0xf0 | elementTypeId);
+          this.varint(BigInt(field.value.length));
+        }
+        for (const element of field.value) {
+          if (field.elementType === 'i32') this.zigzag(element as number);
+          else if (field.elementType === 'string') this.binary(element as string);
+          else this.struct(element as ThriftStruct);
+        }
+        break;
+      }
+    }
+  }
+}
+
+function encodeThrift(fields: ThriftStruct): Buffer {
+  const writer = new ThriftWriter();
+  writer.struct(fields);
+  return writer.toBuffer();
+}
+
+/**
+ * Convert a row value to the column's type, or null when missing or not
+ * representable
+ */
+function toColumnValue(type: ParquetColumnType, value: any): number | string | boolean | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  switch (type) {
+    case 'string':
+      return String(value);
+    case 'double':
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    case 'int64':
+      return typeof value === 'number' && Number.isInteger(value) ? value : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : null;
+    case 'timestamp': {
+      const millis = Date.parse(value);
+      return Number.isNaN(millis) ? null : millis;
+    }
+  }
+}
+
+/**
+ * Definition levels (0 = null, 1 = present) in the RLE/bit-packed hybrid
+ * encoding, as RLE runs only, prefixed with their byte length
+ */
+function encodeDefinitionLevels(present: boolean[]): Buffer {
+  const writer = new ThriftWriter();
+  let i = 0;
+  while (i < present.length) {
+    let run = 1;
+    while (i + run < present.length && present[i + run] === present[i]) {
+      run++;
+    }
+    writer.varint(BigInt(run) << 1n);
+    writer.byte(present[i] ? 1 : 0);
+    i += run;
+  }
+
+  const levels = writer.toBuffer();
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(levels.length);
+  return Buffer.concat([length, levels]);
+}
+
+function encodePlainValues(type: ParquetColumnType, values: (number | string | boolean)[]): Buffer {
+  switch (type) {
+    case 'string':
+      return Buffer.concat(values.map(value => {
+        const encoded = Buffer.from(value as string, 'utf8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(encoded.length);
+        return Buffer.concat([length, encoded]);
+      }));
+    case 'double': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, index) => buffer.writeDoubleLE(value as number, index * 8));
+      return buffer;
+    }
+    case 'int64':
+    case 'timestamp': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, index) => buffer.writeBigInt64LE(BigInt(value as number), index * 8));
+      return buffer;
+    }
+    case 'boolean': {
+      // Bit-packed, least significant bit first
+      const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, index) => {
+        if (value) {
+          buffer[index >> 3] |= 1 << (index & 7);
+        }
+      });
+      return buffer;
+    }
+  }
+}
+
+/**
+ * Writes a Parquet file a row group at a time. The bytes each call returns
+ * follow those of the previous call; finish returns the footer.
+ */
+export class ParquetWriter {
+  private offset = 0;
+
+  private rowCount = 0;
+
+  private rowGroups: ThriftStruct[] = [];
+
+  constructor(private columns: ParquetColumn[]) {}
+
+  /**
+   * The file's header, if not written yet
+   */
+  private start(): Buffer[] {
+    if (this.offset > 0) {
+      return [];
+    }
+    this.offset = MAGIC.length;
+    return [MAGIC];
+  }
+
+  /**
+   * Encode rows as a row group. Values that do not fit a column's type are
+   * written as null.
+   */
+  writeRowGroup(rows: Record<string, any>[]): Buffer {
+    const chunks = this.start();
+    const groupStart = this.offset;
+    const columnChunks: ThriftStruct[] = [];
+
+    for (const column of this.columns) {
+      const values = rows.map(row => toColumnValue(column.type, row[column.name]));
+      const present = values.map(value => value !== null);
+      const pageData = Buffer.concat([
+        encodeDefinitionLevels(present),
+        encodePlainValues(column.type, values.filter((value): value is number | string | boolean => value !== null))
+      ]);
+
+      const pageHeader = encodeThrift({
+        1: i32(PageType.DATA_PAGE),
+        2: i32(pageData.length),
+        3: i32(pageData.length),
+        5: struct({
+          1: i32(rows.length),
+          2: i32(Encoding.PLAIN),
+          3: i32(Encoding.RLE),
+          4: i32(Encoding.RLE)
+        })
+      });
+
+      const chunkSize = pageHeader.length + pageData.length;
+      columnChunks.push({
+        2: i64(this.offset),
+        3: struct({
+          1: i32(PHYSICAL_TYPES[column.type]),
+          2: { type: 'list', elementType: 'i32', value: [Encoding.PLAIN, Encoding.RLE] },
+          3: { type: 'list', elementType: 'string', value: [column.name] },
+          4: i32(Codec.UNCOMPRESSED),
+          5: i64(rows.length),
+          6: i64(chunkSize),
+          7: i64(chunkSize),
+          9: i64(this.offset)
+        })
+      });
+
+      chunks.push(pageHeader, pageData);
+      this.offset += chunkSize;
+    }
+
+    this.rowGroups.push({
+      1: { type: 'list', elementType: 'struct', value: columnChunks },
+      2: i64(this.offset - groupStart),
+      3: i64(rows.length)
+    });
+    this.rowCount += rows.length;
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * The footer with the schema and the row groups written
+   */
+  finish(): Buffer {
+    const chunks = this.start();
+
+    const schema: ThriftStruct[] = [
+      { 4: str('schema'), 5: i32(this.columns.length) },
+      ...this.columns.map(column => ({
+        1: i32(PHYSICAL_TYPES[column.type]),
+        3: i32(Repetition.OPTIONAL),
+        4: str(column.name),
+        6: CONVERTED_TYPES[column.type] === undefined ? undefined : i32(CONVERTED_TYPES[column.type]!)
+      }))
+    ];
+
+    const footer = encodeThrift({
+      1: i32(1),
+      2: { type: 'list', elementType: 'struct', value: schema },
+      3: i64(this.rowCount),
+      4: { type: 'list', elementType: 'struct', value: this.rowGroups },
+      6: str('iot-sensor-aggregator')
+    });
+
+    const footerLength = Buffer.alloc(4);
+    footerLength.writeUInt32LE(footer.length);
+    chunks.push(footer, footerLength, MAGIC);
+
+    return Buffer.concat(chunks);
+  }
+}
+
+/**
+ * Encode rows as a Parquet file of one row group
+ */
+export function writeParquet(columns: ParquetColumn[], rows: Record<string, any>[]): Buffer {
+  const writer = new ParquetWriter(columns);
+  return Buffer.concat([writer.writeRowGroup(rows), writer.finish()]);
+}
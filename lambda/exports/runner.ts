@@ -0,0 +1,494 @@
+import { DynamoDBDocumentClient, QueryCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CompletedPart,
+  CreateMultipartUploadCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand
+} from '@aws-sdk/client-s3';
+import { PERCENTILES, getSketchCount, getSketchQuantile, getVariance } from '../shared/statistics';
+import { getBucketKey, parseBucketKey } from '../shared/buckets';
+import { expandMetricRows } from '../shared/readings';
+import { CONTENT_TYPES, EXPORT_COLUMNS, FileEncoder } from './formats';
+import { ExportFile, ExportJob, ExportManifest } from './service';
+import { logger } from '../shared/observability';
+
+export interface ExportRunnerConfig {
+  docClient: DynamoDBDocumentClient;
+  s3Client: S3Client;
+  tableName: string;
+  eventsTableName: string;
+  aggregatesTableName: string;
+  bucketName: string;
+  maxRowsPerFile?: number;
+  rowsPerChunk?: number; // Rows encoded at a time; a Parquet row group each
+  partBytes?: number; // Size of the parts of a multipart upload
+  maxOpenFiles?: number; // Files written at once, across partitions
+}
+
+const DEFAULT_MAX_ROWS_PER_FILE = 100000;
+const DEFAULT_ROWS_PER_CHUNK = 10000;
+const DEFAULT_PART_BYTES = 5 * 1024 * 1024; // The smallest part S3 accepts
+const DEFAULT_MAX_OPEN_FILES = 20;
+
+interface Partition {
+  date: string;
+  sensor_type: string;
+  parts: number;
+  file?: OpenFile;
+}
+
+// A file being written: rows not encoded yet, encoded bytes not uploaded
+// yet and the parts uploaded so far
+interface OpenFile {
+  partition: Partition;
+  key: string;
+  encoder: FileEncoder;
+  rows: Record<string, any>[];
+  rowCount: number;
+  bytes: number;
+  chunks: Buffer[];
+  chunkBytes: number;
+  uploadId?: string;
+  uploadedParts: CompletedPart[];
+}
+
+/**
+ * Runs export jobs: reads the requested events or aggregates, writes them
+ * to S3 partitioned by date and sensor type, and records the result on the
+ * job.
+ *
+ * Objects are laid out Hive style, so Athena, Spark or pandas can read an
+ * export as one partitioned dataset:
+ *
+ *   exports/{export_id}/{dataset}/date=YYYY-MM-DD/sensor_type={type}/part-00000.{format}
+ *   exports/{export_id}/manifest.json
+ *
+ * Keys are fixed per job, so a retried run overwrites its own files.
+ *
+ * Files are encoded a chunk of rows at a time and uploaded in parts as they
+ * grow, so a run holds at most a part of each open file in memory whatever
+ * the size of the export. Small files are written with a single put.
+ */
+export class ExportRunner {
+  constructor(private config: ExportRunnerConfig) {}
+
+  /**
+   * Mark a job running. Pending jobs and jobs whose previous attempt died
+   * can be claimed; finished jobs cannot, so a redelivered message is a
+   * no-op.
+   */
+  async claim(export_id: string, attempt: number, now = new Date()): Promise<ExportJob | undefined> {
+    try {
+      const result = await this.config.docClient.send(new UpdateCommand({
+        TableName: this.config.tableName,
+        Key: { export_id },
+        UpdateExpression: 'SET #status = :running, started_at = :now, updated_at = :now, attempts = :attempt',
+        ConditionExpression: 'attribute_exists(export_id) AND #status IN (:pending, :running)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':running': 'running',
+          ':pending': 'pending',
+          ':now': now.toISOString(),
+          ':attempt': attempt
+        },
+        ReturnValues: 'ALL_NEW'
+      }));
+      return result.Attributes as ExportJob;
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the job's items page by page. Listed sensors are queried on their
+   * keys; without sensor_ids the whole table is scanned once.
+   */
+  async *readItems(job: ExportJob): AsyncGenerator<Record<string, any>[]> {
+    const isEvents = job.dataset === 'events';
+    const names: Record<string, string> = {};
+    const values: Record<string, any> = {};
+    const filters: string[] = [];
+
+    let rangeCondition: string;
+    if (isEvents) {
+      names['#ts'] = 'timestamp';
+      values[':from'] = job.from;
+      values[':to'] = job.to;
+      rangeCondition = '#ts BETWEEN :from AND :to';
+    } else {
+      values[':from'] = getBucketKey(job.from, job.resolution!);
+      values[':to'] = getBucketKey(job.to, job.resolution!);
+      rangeCondition = 'hour_bucket BETWEEN :from AND :to';
+    }
+
+    const addInFilter = (attribute: string, list: string[] | undefined) => {
+      if (!list) {
+        return;
+      }
+      names[`#${attribute}`] = attribute;
+      const placeholders = list.map((value, index) => {
+        values[`:${attribute}${index}`] = value;
+        return `:${attribute}${index}`;
+      });
+      filters.push(`#${attribute} IN (${placeholders.join(', ')})`);
+    };
+    addInFilter(isEvents ? 'type' : 'sensor_type', job.types);
+    if (isEvents && job.types) {
+      // Multi-metric rows keep their types inside readings; exportData
+      // filters their metrics once expanded
+      names['#readings'] = 'readings';
+      filters[filters.length - 1] = `(${filters[filters.length - 1]} OR attribute_exists(#readings))`;
+    }
+    addInFilter('location', job.locations);
+
+    const tableName = isEvents ? this.config.eventsTableName : this.config.aggregatesTableName;
+    const attributeNames = Object.keys(names).length > 0 ? names : undefined;
+
+    if (!job.sensor_ids) {
+      let startKey: Record<string, any> | undefined;
+      do {
+        const result = await this.config.docClient.send(new ScanCommand({
+          TableName: tableName,
+          FilterExpression: [rangeCondition, ...filters].join(' AND '),
+          ExpressionAttributeNames: attributeNames,
+          ExpressionAttributeValues: values,
+          ExclusiveStartKey: startKey
+        }));
+        yield result.Items || [];
+        startKey = result.LastEvaluatedKey;
+      } while (startKey);
+      return;
+    }
+
+    for (const sensor_id of job.sensor_ids) {
+      let startKey: Record<string, any> | undefined;
+      do {
+        const result = await this.config.docClient.send(new QueryCommand({
+          TableName: tableName,
+          KeyConditionExpression: `sensor_id = :sensor_id AND ${rangeCondition}`,
+          FilterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
+          ExpressionAttributeNames: attributeNames,
+          ExpressionAttributeValues: { ...values, ':sensor_id': sensor_id },
+          ExclusiveStartKey: startKey
+        }));
+        yield result.Items || [];
+        startKey = result.LastEvaluatedKey;
+      } while (startKey);
+    }
+  }
+
+  /**
+   * Map a stored aggregate row to its export row, with the derived average,
+   * spread and percentiles the read API reports
+   */
+  toAggregateRow(item: Record<string, any>): Record<string, any> {
+    const hasStatistics = item.sketch && typeof item.sum_dev === 'number' && getSketchCount(item.sketch) === item.count;
+    const variance = hasStatistics
+      ? getVariance({ count: item.count, shift: item.shift, sum_dev: item.sum_dev, sum_sq_dev: item.sum_sq_dev })
+      : null;
+    const percentile = (q: number) => hasStatistics ? getSketchQuantile(item.sketch, q) : null;
+
+    return {
+      sensor_id: item.sensor_id,
+      resolution: item.resolution ?? parseBucketKey(item.hour_bucket)?.resolution,
+      bucket_start: item.bucket_start,
+      sensor_type: item.sensor_type,
+      location: item.location,
+      unit: item.unit,
+      count: item.count,
+      sum: item.sum,
+      avg: typeof item.sum === 'number' && item.count > 0 ? item.sum / item.count : item.avg,
+      min: item.min,
+      max: item.max,
+      variance,
+      stddev: variance === null ? null : Math.sqrt(variance),
+      p50: percentile(PERCENTILES.p50),
+      p95: percentile(PERCENTILES.p95),
+      p99: percentile(PERCENTILES.p99),
+      last_updated: item.last_updated
+    };
+  }
+
+  /**
+   * Start the next file of a partition
+   */
+  private openFile(job: ExportJob, partition: Partition): OpenFile {
+    const key = `exports/${job.export_id}/${job.dataset}/date=${partition.date}/` +
+      `sensor_type=${encodeURIComponent(partition.sensor_type)}/part-${String(partition.parts).padStart(5, '0')}.${job.format}`;
+    partition.parts++;
+
+    return {
+      partition,
+      key,
+      encoder: new FileEncoder(job.format, EXPORT_COLUMNS[job.dataset]),
+      rows: [],
+      rowCount: 0,
+      bytes: 0,
+      chunks: [],
+      chunkBytes: 0,
+      uploadedParts: []
+    };
+  }
+
+  /**
+   * Keep encoded bytes of a file for its next part
+   */
+  private addChunk(file: OpenFile, chunk: Buffer) {
+    file.chunks.push(chunk);
+    file.chunkBytes += chunk.length;
+    file.bytes += chunk.length;
+  }
+
+  /**
+   * Upload the encoded bytes of a file as its next part, starting the
+   * multipart upload with the first
+   */
+  private async uploadPart(job: ExportJob, file: OpenFile) {
+    if (!file.uploadId) {
+      const upload = await this.config.s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: this.config.bucketName,
+        Key: file.key,
+        ContentType: CONTENT_TYPES[job.format]
+      }));
+      file.uploadId = upload.UploadId;
+    }
+
+    const PartNumber = file.uploadedParts.length + 1;
+    const part = await this.config.s3Client.send(new UploadPartCommand({
+      Bucket: this.config.bucketName,
+      Key: file.key,
+      UploadId: file.uploadId,
+      PartNumber,
+      Body: Buffer.concat(file.chunks)
+    }));
+
+    file.uploadedParts.push({ ETag: part.ETag, PartNumber });
+    file.chunks = [];
+    file.chunkBytes = 0;
+  }
+
+  /**
+   * Encode a file's pending rows, uploading a part once enough bytes are
+   * encoded
+   */
+  private async flushRows(job: ExportJob, file: OpenFile) {
+    if (file.rows.length > 0) {
+      this.addChunk(file, file.encoder.encode(file.rows));
+      file.rows = [];
+    }
+    if (file.chunkBytes >= (this.config.partBytes ?? DEFAULT_PART_BYTES)) {
+      await this.uploadPart(job, file);
+    }
+  }
+
+  /**
+   * Finish a file: a single put if no part was uploaded, otherwise the last
+   * part and the multipart upload's completion
+   */
+  private async closeFile(job: ExportJob, file: OpenFile): Promise<ExportFile> {
+    if (file.rows.length > 0) {
+      this.addChunk(file, file.encoder.encode(file.rows));
+      file.rows = [];
+    }
+    this.addChunk(file, file.encoder.finish());
+
+    if (!file.uploadId) {
+      await this.config.s3Client.send(new PutObjectCommand({
+        Bucket: this.config.bucketName,
+        Key: file.key,
+        Body: Buffer.concat(file.chunks),
+        ContentType: CONTENT_TYPES[job.format]
+      }));
+    } else {
+      if (file.chunkBytes > 0) {
+        await this.uploadPart(job, file);
+      }
+      await this.config.s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: this.config.bucketName,
+        Key: file.key,
+        UploadId: file.uploadId,
+        MultipartUpload: { Parts: file.uploadedParts }
+      }));
+    }
+
+    const { partition } = file;
+    return { key: file.key, date: partition.date, sensor_type: partition.sensor_type, rows: file.rowCount, bytes: file.bytes };
+  }
+
+  /**
+   * Abort the multipart upload of a file left open by a failed run, so its
+   * parts are not kept. The bucket's lifecycle rule aborts any left over.
+   */
+  private async abortFile(file: OpenFile) {
+    if (!file.uploadId) {
+      return;
+    }
+    try {
+      await this.config.s3Client.send(new AbortMultipartUploadCommand({
+        Bucket: this.config.bucketName,
+        Key: file.key,
+        UploadId: file.uploadId
+      }));
+    } catch (error) {
+      logger.error('Error aborting upload', { key: file.key, error });
+    }
+  }
+
+  /**
+   * Export rows of a stored item: the metrics of a multi-metric event are
+   * expanded into one row each, keeping only the job's types
+   */
+  toExportRows(job: ExportJob, item: Record<string, any>): Record<string, any>[] {
+    if (job.dataset === 'aggregates') {
+      return [this.toAggregateRow(item)];
+    }
+    return expandMetricRows(item as Record<string, any> & { sensor_id: string })
+      .filter(row => !job.types || job.types.includes(row.type));
+  }
+
+  /**
+   * Export the job's data and its manifest. Each partition has a file open
+   * until it holds maxRowsPerFile rows, then the next one; once
+   * maxOpenFiles are open, the file written to least recently is closed.
+   */
+  async exportData(job: ExportJob): Promise<ExportManifest> {
+    const maxRowsPerFile = this.config.maxRowsPerFile ?? DEFAULT_MAX_ROWS_PER_FILE;
+    const rowsPerChunk = this.config.rowsPerChunk ?? DEFAULT_ROWS_PER_CHUNK;
+    const maxOpenFiles = this.config.maxOpenFiles ?? DEFAULT_MAX_OPEN_FILES;
+    const partitions = new Map<string, Partition>();
+    const openFiles = new Map<string, OpenFile>(); // Least recently written first
+    const files: ExportFile[] = [];
+    let rowCount = 0;
+
+    const close = async (partitionKey: string, file: OpenFile) => {
+      files.push(await this.closeFile(job, file));
+      openFiles.delete(partitionKey);
+      file.partition.file = undefined;
+    };
+
+    try {
+      for await (const items of this.readItems(job)) {
+        for (const row of items.flatMap(item => this.toExportRows(job, item))) {
+          const date = String(job.dataset === 'events' ? row.timestamp : row.bucket_start).slice(0, 10);
+          const sensor_type = String((job.dataset === 'events' ? row.type : row.sensor_type) ?? 'unknown');
+          const partitionKey = `${date}/${sensor_type}`;
+
+          let partition = partitions.get(partitionKey);
+          if (!partition) {
+            partition = { date, sensor_type, parts: 0 };
+            partitions.set(partitionKey, partition);
+          }
+
+          let file = partition.file;
+          if (!file) {
+            if (openFiles.size >= maxOpenFiles) {
+              const [leastRecentKey, leastRecent] = openFiles.entries().next().value!;
+              await close(leastRecentKey, leastRecent);
+            }
+            file = partition.file = this.openFile(job, partition);
+          }
+          openFiles.delete(partitionKey);
+          openFiles.set(partitionKey, file);
+
+          file.rows.push(row);
+          file.rowCount++;
+          rowCount++;
+          if (file.rowCount >= maxRowsPerFile) {
+            await close(partitionKey, file);
+          } else if (file.rows.length >= rowsPerChunk) {
+            await this.flushRows(job, file);
+          }
+        }
+      }
+
+      for (const [partitionKey, file] of [...openFiles]) {
+        await close(partitionKey, file);
+      }
+    } catch (error) {
+      await Promise.all([...openFiles.values()].map(file => this.abortFile(file)));
+      throw error;
+    }
+
+    files.sort((a, b) => a.key.localeCompare(b.key));
+    const manifest: ExportManifest = {
+      export_id: job.export_id,
+      dataset: job.dataset,
+      format: job.format,
+      row_count: rowCount,
+      manifest_key: `exports/${job.export_id}/manifest.json`,
+      files
+    };
+
+    await this.config.s3Client.send(new PutObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: manifest.manifest_key,
+      Body: JSON.stringify(manifest, null, 2),
+      ContentType: 'application/json'
+    }));
+
+    return manifest;
+  }
+
+  /**
+   * Run an export job. Failures are retried by redelivering the queue
+   * message; the job is marked failed once the last attempt fails.
+   */
+  async run(export_id: string, attempt = 1, maxAttempts = 1): Promise<ExportJob | undefined> {
+    const job = await this.claim(export_id, attempt);
+    if (!job) {
+      logger.info('Skipping export that is not pending', { export_id });
+      return undefined;
+    }
+
+    try {
+      const manifest = await this.exportData(job);
+
+      const now = new Date().toISOString();
+      await this.config.docClient.send(new UpdateCommand({
+        TableName: this.config.tableName,
+        Key: { export_id },
+        UpdateExpression: 'SET #status = :completed, completed_at = :now, updated_at = :now, ' +
+          'row_count = :row_count, file_count = :file_count, manifest_key = :manifest_key',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':completed': 'completed',
+          ':now': now,
+          ':row_count': manifest.row_count,
+          ':file_count': manifest.files.length,
+          ':manifest_key': manifest.manifest_key
+        }
+      }));
+
+      logger.info('Completed export', { export_id, rows: manifest.row_count, files: manifest.files.length });
+      return {
+        ...job,
+        status: 'completed',
+        completed_at: now,
+        updated_at: now,
+        row_count: manifest.row_count,
+        file_count: manifest.files.length,
+        manifest_key: manifest.manifest_key
+      };
+    } catch (error: any) {
+      if (attempt < maxAttempts) {
+        throw error;
+      }
+
+      logger.error('Export failed', { export_id, attempts: attempt, error });
+      await this.config.docClient.send(new UpdateCommand({
+        TableName: this.config.tableName,
+        Key: { export_id },
+        UpdateExpression: 'SET #status = :failed, #error = :error, updated_at = :now',
+        ExpressionAttributeNames: { '#status': 'status', '#error': 'error' },
+        ExpressionAttributeValues: { ':failed': 'failed', ':error': error.message || 'Export failed', ':now': new Date().toISOString() }
+      }));
+      return { ...job, status: 'failed', error: error.message };
+    }
+  }
+}
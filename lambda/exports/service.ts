@@ -0,0 +1,258 @@
+import { randomUUID } from 'crypto';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { RESOLUTIONS, Resolution, isResolution } from '../shared/buckets';
+import { EXPORT_DATASETS, EXPORT_FORMATS, ExportDataset, ExportFormat } from './formats';
+import { logger } from '../shared/observability';
+
+// Types
+export type ExportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  from: string;
+  to: string;
+  sensor_ids?: string[];
+  types?: string[];
+  locations?: string[];
+  resolution?: Resolution; // Aggregates only
+}
+
+export interface ExportFile {
+  key: string;
+  date: string; // Partition: UTC date of the rows
+  sensor_type: string; // Partition
+  rows: number;
+  bytes: number;
+  url?: string; // Presigned download link, added on read
+}
+
+export interface ExportManifest {
+  export_id: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  row_count: number;
+  manifest_key: string;
+  files: ExportFile[];
+}
+
+export interface ExportJob extends ExportRequest {
+  export_id: string;
+  status: ExportStatus;
+  created_at: string;
+  updated_at: string;
+  started_at?: string;
+  completed_at?: string;
+  attempts?: number;
+  row_count?: number;
+  file_count?: number;
+  manifest_key?: string;
+  error?: string;
+  expires_at: number; // Epoch seconds, the table's TTL attribute
+  environment: string;
+}
+
+// A job as returned by the API, with download links once completed
+export interface ExportJobView extends Omit<ExportJob, 'expires_at'> {
+  expires_at: string;
+  manifest_url?: string;
+  files?: ExportFile[];
+}
+
+export interface ExportServiceConfig {
+  docClient: DynamoDBDocumentClient;
+  secretsClient: SecretsManagerClient;
+  s3Client: S3Client;
+  sqsClient: SQSClient;
+  tableName: string;
+  bucketName: string;
+  queueUrl: string;
+  secretArn: string;
+  environment: string;
+  resolutions?: Resolution[];
+  urlTtlSeconds?: number;
+  retentionDays?: number;
+}
+
+const DEFAULT_URL_TTL_SECONDS = 3600;
+const DEFAULT_RETENTION_DAYS = 7;
+const MAX_SENSOR_IDS = 100;
+const MAX_FILTER_VALUES = 50;
+
+const INVALID_EXPORT_MESSAGE =
+  `Invalid export request. Required fields: dataset (${EXPORT_DATASETS.join(', ')}), ` +
+  `format (${EXPORT_FORMATS.join(', ')}), from, to (ISO 8601, from <= to); ` +
+  `optional: sensor_ids (up to ${MAX_SENSOR_IDS}), types, locations (up to ${MAX_FILTER_VALUES} each), ` +
+  'resolution (aggregates only, one of the stored resolutions)';
+
+/**
+ * Validate an export request and normalize its time range to ISO 8601.
+ * Aggregates default to the finest stored resolution.
+ */
+export function parseExportRequest(input: any, resolutions: Resolution[] = RESOLUTIONS): ExportRequest {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(INVALID_EXPORT_MESSAGE);
+  }
+
+  const isStringList = (value: any, max: number) => value === undefined || (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= max &&
+    value.every(item => typeof item === 'string' && item.trim() !== '')
+  );
+
+  const from = typeof input.from === 'string' ? new Date(input.from) : undefined;
+  const to = typeof input.to === 'string' ? new Date(input.to) : undefined;
+
+  if (
+    !EXPORT_DATASETS.includes(input.dataset) ||
+    !EXPORT_FORMATS.includes(input.format) ||
+    !from || isNaN(from.getTime()) ||
+    !to || isNaN(to.getTime()) ||
+    from > to ||
+    !isStringList(input.sensor_ids, MAX_SENSOR_IDS) ||
+    !isStringList(input.types, MAX_FILTER_VALUES) ||
+    !isStringList(input.locations, MAX_FILTER_VALUES) ||
+    (input.resolution !== undefined && (
+      input.dataset !== 'aggregates' || !isResolution(input.resolution) || !resolutions.includes(input.resolution)
+    ))
+  ) {
+    throw new Error(INVALID_EXPORT_MESSAGE);
+  }
+
+  return {
+    dataset: input.dataset,
+    format: input.format,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    sensor_ids: input.sensor_ids ? Array.from(new Set<string>(input.sensor_ids)) : undefined,
+    types: input.types,
+    locations: input.locations,
+    resolution: input.dataset === 'aggregates' ? input.resolution ?? resolutions[0] : undefined
+  };
+}
+
+/**
+ * Accepts export requests and reports their status. The export itself runs
+ * in the export worker, see runner.ts.
+ */
+export class ExportService {
+  private cachedSecrets: any = null;
+
+  constructor(private config: ExportServiceConfig) {}
+
+  /**
+   * Get secrets from AWS Secrets Manager with caching
+   */
+  async getSecrets(): Promise<any> {
+    if (this.cachedSecrets) {
+      return this.cachedSecrets;
+    }
+
+    try {
+      const command = new GetSecretValueCommand({
+        SecretId: this.config.secretArn
+      });
+
+      const response = await this.config.secretsClient.send(command);
+      this.cachedSecrets = JSON.parse(response.SecretString || '{}');
+      return this.cachedSecrets;
+    } catch (error) {
+      logger.error('Error retrieving secrets', { error });
+      return {};
+    }
+  }
+
+  /**
+   * Record a pending export and queue it for the worker
+   */
+  async createExport(input: any, now = new Date()): Promise<ExportJob> {
+    const request = parseExportRequest(input, this.config.resolutions);
+    const retentionDays = this.config.retentionDays ?? DEFAULT_RETENTION_DAYS;
+
+    const job: ExportJob = {
+      export_id: randomUUID(),
+      ...request,
+      status: 'pending',
+      created_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      expires_at: Math.floor(now.getTime() / 1000) + retentionDays * 24 * 60 * 60,
+      environment: this.config.environment
+    };
+
+    // Dropped rather than written as undefined
+    const item = Object.fromEntries(Object.entries(job).filter(([, value]) => value !== undefined));
+    await this.config.docClient.send(new PutCommand({
+      TableName: this.config.tableName,
+      Item: item,
+      ConditionExpression: 'attribute_not_exists(export_id)'
+    }));
+
+    try {
+      await this.config.sqsClient.send(new SendMessageCommand({
+        QueueUrl: this.config.queueUrl,
+        MessageBody: JSON.stringify({ export_id: job.export_id })
+      }));
+    } catch (error: any) {
+      await this.config.docClient.send(new UpdateCommand({
+        TableName: this.config.tableName,
+        Key: { export_id: job.export_id },
+        UpdateExpression: 'SET #status = :failed, #error = :error, updated_at = :now',
+        ExpressionAttributeNames: { '#status': 'status', '#error': 'error' },
+        ExpressionAttributeValues: { ':failed': 'failed', ':error': 'Export could not be queued', ':now': new Date().toISOString() }
+      }));
+      throw error;
+    }
+
+    logger.info('Queued export', { export_id: job.export_id, format: job.format, dataset: job.dataset, from: job.from, to: job.to });
+    return job;
+  }
+
+  /**
+   * Get an export job. Completed jobs list their files with presigned
+   * download links, valid for urlTtlSeconds.
+   */
+  async getExport(export_id: string): Promise<ExportJobView> {
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: { export_id }
+    }));
+
+    const job = result.Item as ExportJob | undefined;
+    if (!job) {
+      throw new Error(`Export not found: ${export_id}`);
+    }
+
+    const view: ExportJobView = { ...job, expires_at: new Date(job.expires_at * 1000).toISOString() };
+    if (job.status !== 'completed' || !job.manifest_key) {
+      return view;
+    }
+
+    const manifestObject = await this.config.s3Client.send(new GetObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: job.manifest_key
+    }));
+    const manifest = JSON.parse(await manifestObject.Body!.transformToString()) as ExportManifest;
+
+    return {
+      ...view,
+      manifest_url: await this.getDownloadUrl(job.manifest_key),
+      files: await Promise.all(manifest.files.map(async file => ({ ...file, url: await this.getDownloadUrl(file.key) })))
+    };
+  }
+
+  /**
+   * Presigned GET link to an export object
+   */
+  async getDownloadUrl(key: string): Promise<string> {
+    return getSignedUrl(
+      this.config.s3Client,
+      new GetObjectCommand({ Bucket: this.config.bucketName, Key: key }),
+      { expiresIn: this.config.urlTtlSeconds ?? DEFAULT_URL_TTL_SECONDS }
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { S3Client } from '@aws-sdk/client-s3';
+
+/**
+ * S3 client for the exports bucket. An endpoint points the client, and the
+ * download links it signs, at an S3-compatible stand-in such as MinIO or
+ * LocalStack; those serve buckets under the path, not as a subdomain.
+ */
+export function createS3Client(endpoint?: string): S3Client {
+  return new S3Client(endpoint ? { endpoint, forcePathStyle: true } : {});
+}
@@ -0,0 +1,54 @@
+import { SQSBatchItemFailure, SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { ExportRunner } from './runner';
+import { createS3Client } from './storage';
+import { logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const s3Client = createS3Client(process.env.S3_ENDPOINT);
+
+// Environment variables
+const EXPORT_JOBS_TABLE = process.env.EXPORT_JOBS_TABLE!;
+const EXPORTS_BUCKET = process.env.EXPORTS_BUCKET!;
+const SENSOR_EVENTS_TABLE = process.env.SENSOR_EVENTS_TABLE!;
+const SENSOR_AGGREGATES_TABLE = process.env.SENSOR_AGGREGATES_TABLE!;
+const EXPORT_MAX_ROWS_PER_FILE = Number(process.env.EXPORT_MAX_ROWS_PER_FILE || 100000);
+const EXPORT_MAX_ATTEMPTS = Number(process.env.EXPORT_MAX_ATTEMPTS || 3);
+
+// Initialize runner
+const exportRunner = new ExportRunner({
+  docClient,
+  s3Client,
+  tableName: EXPORT_JOBS_TABLE,
+  eventsTableName: SENSOR_EVENTS_TABLE,
+  aggregatesTableName: SENSOR_AGGREGATES_TABLE,
+  bucketName: EXPORTS_BUCKET,
+  maxRowsPerFile: EXPORT_MAX_ROWS_PER_FILE
+});
+
+/**
+ * Export worker. Each queue message names one export job. A failed run is
+ * reported as a batch item failure so SQS redelivers it; the last attempt
+ * marks the job failed instead.
+ */
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    await withLogContext({ message_id: record.messageId }, async () => {
+      try {
+        const { export_id } = JSON.parse(record.body);
+        const attempt = Number(record.attributes.ApproximateReceiveCount || 1);
+        await exportRunner.run(export_id, attempt, EXPORT_MAX_ATTEMPTS);
+      } catch (error) {
+        logger.error('Error running export', { error });
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    });
+  }
+
+  return { batchItemFailures };
+};
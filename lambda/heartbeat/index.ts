@@ -0,0 +1,107 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { HeartbeatService } from './service';
+import { parseOfflineThresholds } from '../shared/heartbeats';
+import { CORRELATION_ID_HEADER, getCorrelationId, logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const HEARTBEATS_TABLE = process.env.HEARTBEATS_TABLE!;
+const STATUS_TRANSITIONS_TABLE = process.env.STATUS_TRANSITIONS_TABLE!;
+const SENSORS_TABLE = process.env.SENSORS_TABLE;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+// Initialize service
+const heartbeatService = new HeartbeatService({
+  docClient,
+  tableName: HEARTBEATS_TABLE,
+  transitionsTableName: STATUS_TRANSITIONS_TABLE,
+  sensorsTableName: SENSORS_TABLE,
+  environment: ENVIRONMENT,
+  offlineAfterSeconds: parseOfflineThresholds(process.env.OFFLINE_THRESHOLDS)
+});
+
+/**
+ * Create response object
+ */
+function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Correlation-Id',
+      'Access-Control-Expose-Headers': 'X-Correlation-Id',
+      'Access-Control-Allow-Methods': 'GET,OPTIONS'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Look up the status of the fleet
+ */
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Handle CORS preflight requests
+    if (event.httpMethod === 'OPTIONS') {
+      return createResponse(200, { message: 'CORS preflight successful' });
+    }
+
+    // Validate HTTP method
+    if (event.httpMethod !== 'GET') {
+      return createResponse(405, {
+        error: 'Method not allowed',
+        message: 'Only GET method is supported'
+      });
+    }
+
+    const params = event.queryStringParameters || {};
+    const result = await heartbeatService.getFleetStatus({
+      status: params.status,
+      type: params.type,
+      location: params.location,
+      limit: params.limit ? Number(params.limit) : undefined,
+      cursor: params.cursor
+    });
+
+    return createResponse(200, result);
+
+  } catch (error: any) {
+    logger.error('Error querying sensor status', { error });
+
+    // Handle validation errors
+    if (error.message?.includes('Invalid query parameters')) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: error.message
+      });
+    }
+
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to query sensor status',
+      details: ENVIRONMENT === 'dev' ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * Fleet health handler: GET /sensors/status, run with the correlation ID of
+ * the request in the log context
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = getCorrelationId(event.headers, event.requestContext?.requestId);
+
+  return withLogContext({ correlation_id: correlationId }, async () => {
+    logger.info('Received status query', { query: event.queryStringParameters || {} });
+
+    const response = await handleRequest(event);
+    logger.info('Sent response', { status: response.statusCode });
+    return { ...response, headers: { ...response.headers, [CORRELATION_ID_HEADER]: correlationId } };
+  });
+};
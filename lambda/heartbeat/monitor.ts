@@ -0,0 +1,40 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { HeartbeatCheckResult, HeartbeatService } from './service';
+import { parseOfflineThresholds } from '../shared/heartbeats';
+import { Metrics } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+// Environment variables
+const HEARTBEATS_TABLE = process.env.HEARTBEATS_TABLE!;
+const STATUS_TRANSITIONS_TABLE = process.env.STATUS_TRANSITIONS_TABLE!;
+const SENSORS_TABLE = process.env.SENSORS_TABLE;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+const metrics = new Metrics({ dimensions: { Environment: ENVIRONMENT } });
+
+const heartbeatService = new HeartbeatService({
+  docClient,
+  tableName: HEARTBEATS_TABLE,
+  transitionsTableName: STATUS_TRANSITIONS_TABLE,
+  sensorsTableName: SENSORS_TABLE,
+  environment: ENVIRONMENT,
+  offlineAfterSeconds: parseOfflineThresholds(process.env.OFFLINE_THRESHOLDS),
+  metrics
+});
+
+/**
+ * Heartbeat monitor, invoked on a schedule by EventBridge. Sensors are marked
+ * offline at the first check after their threshold passes, so offline status
+ * lags by up to the check interval.
+ */
+export const handler = async (): Promise<HeartbeatCheckResult> => {
+  try {
+    return await heartbeatService.checkSensors();
+  } finally {
+    metrics.flush();
+  }
+};
@@ -0,0 +1,344 @@
+import { BatchGetCommand, BatchGetCommandOutput, ScanCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { ConnectivityStatus, SensorHeartbeat, StatusTransition, getOfflineAfterSeconds } from '../shared/heartbeats';
+import { RegisteredSensor } from '../shared/sensor-registry';
+import { DocumentStore } from '../shared/storage';
+import { Metrics, logger } from '../shared/observability';
+
+// Types
+export type FleetStatus = ConnectivityStatus | 'never_seen';
+
+export const FLEET_STATUSES: FleetStatus[] = ['online', 'offline', 'never_seen'];
+
+export interface SensorHealth {
+  sensor_id: string;
+  type?: string;
+  location?: string;
+  status: FleetStatus;
+  last_seen?: string;
+  status_changed_at?: string;
+  silence_seconds?: number; // Time since last_seen
+  offline_after_seconds: number;
+}
+
+export interface FleetStatusQuery {
+  status?: string;
+  type?: string;
+  location?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FleetStatusResult {
+  checked_at: string;
+  items: SensorHealth[];
+  next_cursor?: string;
+}
+
+export interface HeartbeatCheckResult {
+  checked: number; // Online sensors checked
+  offline: string[]; // Marked offline by this check
+}
+
+export interface HeartbeatServiceConfig {
+  docClient: DocumentStore;
+  tableName: string;
+  transitionsTableName: string;
+  sensorsTableName?: string; // Registry with per-sensor thresholds, see shared/sensor-registry
+  environment: string;
+  offlineAfterSeconds: Record<string, number>; // By sensor type, with a 'default'
+  metrics?: Metrics;
+}
+
+// Where a fleet status page continues: seen sensors are listed from the
+// heartbeats, then never seen ones from the registry
+interface FleetStatusCursor {
+  table: 'heartbeats' | 'sensors';
+  key?: Record<string, any>; // ExclusiveStartKey of the next scan page
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+// BatchGetItem accepts at most 100 keys per call
+const BATCH_GET_CHUNK_SIZE = 100;
+
+/**
+ * Offline detection and fleet health, see shared/heartbeats. The scheduled
+ * monitor calls checkSensors; GET /sensors/status calls getFleetStatus.
+ */
+export class HeartbeatService {
+  constructor(private config: HeartbeatServiceConfig) {}
+
+  /**
+   * Every item of a table
+   */
+  private async scanAll<T>(tableName: string): Promise<T[]> {
+    const items: T[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const result = await this.config.docClient.send(new ScanCommand({
+        TableName: tableName,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      items.push(...((result.Items || []) as T[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  /**
+   * Items of a table by sensor_id. Unknown ids are missing from the result.
+   */
+  private async getItems<T extends { sensor_id: string }>(tableName: string, sensorIds: string[]): Promise<Map<string, T>> {
+    const items = new Map<string, T>();
+    for (let i = 0; i < sensorIds.length; i += BATCH_GET_CHUNK_SIZE) {
+      let keys: Record<string, any>[] | undefined = sensorIds.slice(i, i + BATCH_GET_CHUNK_SIZE).map(sensor_id => ({ sensor_id }));
+
+      while (keys && keys.length > 0) {
+        const result: BatchGetCommandOutput = await this.config.docClient.send(new BatchGetCommand({
+          RequestItems: { [tableName]: { Keys: keys } }
+        }));
+
+        for (const item of (result.Responses?.[tableName] || []) as T[]) {
+          items.set(item.sensor_id, item);
+        }
+        keys = result.UnprocessedKeys?.[tableName]?.Keys;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Heartbeats of every sensor seen so far
+   */
+  async getHeartbeats(): Promise<SensorHeartbeat[]> {
+    return this.scanAll<SensorHeartbeat>(this.config.tableName);
+  }
+
+  /**
+   * Registered sensors by id, empty when no registry is configured
+   */
+  async getRegisteredSensors(): Promise<Map<string, RegisteredSensor>> {
+    if (!this.config.sensorsTableName) {
+      return new Map();
+    }
+    const sensors = await this.scanAll<RegisteredSensor>(this.config.sensorsTableName);
+    return new Map(sensors.map(sensor => [sensor.sensor_id, sensor]));
+  }
+
+  /**
+   * Silence after which a sensor is offline. The registry's type and
+   * threshold take precedence over what its readings reported.
+   */
+  getOfflineAfterSeconds(heartbeat: Partial<SensorHeartbeat>, sensor?: RegisteredSensor): number {
+    return getOfflineAfterSeconds(this.config.offlineAfterSeconds, sensor?.type ?? heartbeat.type, sensor?.offline_after_seconds);
+  }
+
+  /**
+   * Mark a sensor offline and record the transition in one transaction. The
+   * heartbeat must be unchanged since it was read, so a reading that arrives
+   * meanwhile keeps the sensor online. Returns whether it was marked.
+   */
+  async markOffline(heartbeat: SensorHeartbeat, now: Date, silenceSeconds: number): Promise<boolean> {
+    const changed_at = now.toISOString();
+    const transition: StatusTransition = {
+      sensor_id: heartbeat.sensor_id,
+      changed_at,
+      status: 'offline',
+      previous_status: heartbeat.status,
+      last_seen: heartbeat.last_seen,
+      silence_seconds: silenceSeconds,
+      environment: this.config.environment
+    };
+
+    try {
+      await this.config.docClient.send(new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: this.config.tableName,
+              Key: { sensor_id: heartbeat.sensor_id },
+              UpdateExpression: 'SET #status = :offline, status_changed_at = :changed_at, version = :next',
+              ConditionExpression: 'version = :version AND last_seen = :last_seen AND #status = :online',
+              ExpressionAttributeNames: { '#status': 'status' },
+              ExpressionAttributeValues: {
+                ':offline': 'offline',
+                ':online': 'online',
+                ':changed_at': changed_at,
+                ':version': heartbeat.version,
+                ':next': heartbeat.version + 1,
+                ':last_seen': heartbeat.last_seen
+              }
+            }
+          },
+          {
+            Put: {
+              TableName: this.config.transitionsTableName,
+              Item: transition
+            }
+          }
+        ]
+      }));
+      return true;
+    } catch (error: any) {
+      const conditionFailed = error.name === 'TransactionCanceledException'
+        && (error.CancellationReasons || []).some((reason: any) => reason?.Code === 'ConditionalCheckFailed');
+      if (!conditionFailed) {
+        throw error;
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Mark every online sensor that has been silent for longer than its
+   * offline threshold as offline. Decommissioned sensors are left alone.
+   */
+  async checkSensors(now = new Date()): Promise<HeartbeatCheckResult> {
+    const [heartbeats, sensors] = await Promise.all([this.getHeartbeats(), this.getRegisteredSensors()]);
+    const result: HeartbeatCheckResult = { checked: 0, offline: [] };
+
+    for (const heartbeat of heartbeats) {
+      const sensor = sensors.get(heartbeat.sensor_id);
+      if (heartbeat.status !== 'online' || sensor?.status === 'decommissioned') {
+        continue;
+      }
+
+      result.checked++;
+      const silenceSeconds = Math.floor((now.getTime() - Date.parse(heartbeat.last_seen)) / 1000);
+      const offlineAfterSeconds = this.getOfflineAfterSeconds(heartbeat, sensor);
+      if (silenceSeconds <= offlineAfterSeconds) {
+        continue;
+      }
+
+      if (await this.markOffline(heartbeat, now, silenceSeconds)) {
+        logger.info('Sensor offline', {
+          sensor_id: heartbeat.sensor_id,
+          last_seen: heartbeat.last_seen,
+          silence_seconds: silenceSeconds,
+          offline_after_seconds: offlineAfterSeconds
+        });
+        this.config.metrics?.count('SensorsOffline');
+        result.offline.push(heartbeat.sensor_id);
+      }
+    }
+
+    logger.info('Checked sensor heartbeats', { checked: result.checked, offline: result.offline.length });
+    return result;
+  }
+
+  /**
+   * Connectivity of the fleet, a page at a time: every sensor seen so far,
+   * then every active registered sensor that never sent a reading,
+   * optionally filtered by status, type and location. Each page reads one
+   * scan page, so it can hold fewer than 'limit' items while a next_cursor
+   * is returned. Decommissioned sensors are left out.
+   */
+  async getFleetStatus(query: FleetStatusQuery, now = new Date()): Promise<FleetStatusResult> {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(`Invalid query parameters. 'limit' must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    if (query.status !== undefined && !FLEET_STATUSES.includes(query.status as FleetStatus)) {
+      throw new Error(`Invalid query parameters. 'status' must be one of ${FLEET_STATUSES.join(', ')}`);
+    }
+
+    // Only the registry holds never seen sensors, and only heartbeats the others
+    const listsSeen = query.status !== 'never_seen';
+    const listsNeverSeen = this.config.sensorsTableName !== undefined && (query.status === undefined || query.status === 'never_seen');
+    const cursor = query.cursor
+      ? this.decodeCursor(query.cursor)
+      : { table: listsSeen ? 'heartbeats' : 'sensors' } as FleetStatusCursor;
+    if (cursor.table === 'sensors' && !listsNeverSeen) {
+      return { checked_at: now.toISOString(), items: [] };
+    }
+
+    const items: SensorHealth[] = [];
+    let next: FleetStatusCursor | undefined;
+
+    if (cursor.table === 'heartbeats') {
+      const page = await this.config.docClient.send(new ScanCommand({
+        TableName: this.config.tableName,
+        Limit: limit,
+        ExclusiveStartKey: cursor.key
+      }));
+      const heartbeats = (page.Items || []) as SensorHeartbeat[];
+      const sensors = this.config.sensorsTableName
+        ? await this.getItems<RegisteredSensor>(this.config.sensorsTableName, heartbeats.map(heartbeat => heartbeat.sensor_id))
+        : new Map<string, RegisteredSensor>();
+
+      for (const heartbeat of heartbeats) {
+        const sensor = sensors.get(heartbeat.sensor_id);
+        if (sensor?.status === 'decommissioned') {
+          continue;
+        }
+        items.push({
+          sensor_id: heartbeat.sensor_id,
+          type: sensor?.type ?? heartbeat.type,
+          location: sensor?.location ?? heartbeat.location,
+          status: heartbeat.status,
+          last_seen: heartbeat.last_seen,
+          status_changed_at: heartbeat.status_changed_at,
+          silence_seconds: Math.max(0, Math.floor((now.getTime() - Date.parse(heartbeat.last_seen)) / 1000)),
+          offline_after_seconds: this.getOfflineAfterSeconds(heartbeat, sensor)
+        });
+      }
+
+      if (page.LastEvaluatedKey) {
+        next = { table: 'heartbeats', key: page.LastEvaluatedKey };
+      } else if (listsNeverSeen) {
+        next = { table: 'sensors' };
+      }
+    } else {
+      const page = await this.config.docClient.send(new ScanCommand({
+        TableName: this.config.sensorsTableName,
+        Limit: limit,
+        ExclusiveStartKey: cursor.key
+      }));
+      const sensors = ((page.Items || []) as RegisteredSensor[]).filter(sensor => sensor.status !== 'decommissioned');
+      const heartbeats = await this.getItems<SensorHeartbeat>(this.config.tableName, sensors.map(sensor => sensor.sensor_id));
+
+      for (const sensor of sensors) {
+        if (!heartbeats.has(sensor.sensor_id)) {
+          items.push({
+            sensor_id: sensor.sensor_id,
+            type: sensor.type,
+            location: sensor.location,
+            status: 'never_seen',
+            offline_after_seconds: this.getOfflineAfterSeconds({}, sensor)
+          });
+        }
+      }
+
+      if (page.LastEvaluatedKey) {
+        next = { table: 'sensors', key: page.LastEvaluatedKey };
+      }
+    }
+
+    return {
+      checked_at: now.toISOString(),
+      items: items
+        .filter(item => query.status === undefined || item.status === query.status)
+        .filter(item => (query.type === undefined || item.type === query.type) && (query.location === undefined || item.location === query.location))
+        .sort((a, b) => a.sensor_id.localeCompare(b.sensor_id)),
+      next_cursor: next ? Buffer.from(JSON.stringify(next)).toString('base64url') : undefined
+    };
+  }
+
+  /**
+   * Decode a fleet status pagination cursor
+   */
+  private decodeCursor(cursor: string): FleetStatusCursor {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if ((decoded?.table === 'heartbeats' || decoded?.table === 'sensors')
+        && (decoded.key === undefined || (decoded.key !== null && typeof decoded.key === 'object'))) {
+        return decoded;
+      }
+    } catch (error) {
+      // Fall through to the validation error below
+    }
+    throw new Error("Invalid query parameters. 'cursor' is malformed");
+  }
+}
@@ -0,0 +1,281 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { IngestService, SensorData, isMultiSensorEvent } from './service';
+import { DeviceAuthenticator, DeviceKey } from '../shared/device-keys';
+import { IdempotencyStore, hashRequest } from './idempotency';
+import { CORRELATION_ID_HEADER, Metrics, getCorrelationId, logger, withLogContext } from '../shared/observability';
+
+export interface IngestHandlerConfig {
+  ingestService: IngestService;
+  environment: string;
+  deviceAuthenticator?: DeviceAuthenticator; // Devices authenticate when configured
+  idempotencyStore?: IdempotencyStore; // Retried requests get the original response
+  metrics?: Metrics; // Flushed at the end of every request
+}
+
+/**
+ * Create response object
+ */
+function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Device-Key-Id,X-Device-Key,X-Device-Timestamp,X-Device-Signature,Idempotency-Key,X-Correlation-Id',
+      'Access-Control-Expose-Headers': 'X-Correlation-Id',
+      'Access-Control-Allow-Methods': 'POST,OPTIONS'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Idempotency key of a request: the Idempotency-Key header, or the
+ * message_id of a single reading. Keys are scoped to the route and the
+ * sending sensor, so two devices cannot collide.
+ */
+function getIdempotencyKey(event: APIGatewayProxyEvent, payload: any, device: DeviceKey | undefined): string | undefined {
+  const header = Object.entries(event.headers || {}).find(([name]) => name.toLowerCase() === 'idempotency-key')?.[1];
+  const messageId = event.resource !== '/sensor/batch' && typeof payload?.message_id === 'string' ? payload.message_id : undefined;
+  const key = header || messageId;
+  if (!key) {
+    return undefined;
+  }
+
+  const scope = device?.sensor_id ?? (typeof payload?.sensor_id === 'string' ? payload.sensor_id : '-');
+  return `${event.resource}#${scope}#${key}`;
+}
+
+/**
+ * Ingest a single reading or a batch
+ */
+async function ingest(
+  ingestService: IngestService,
+  event: APIGatewayProxyEvent,
+  payload: any,
+  device: DeviceKey | undefined
+): Promise<APIGatewayProxyResult> {
+  // Batch ingestion reports a result per reading instead of failing the request
+  if (event.resource === '/sensor/batch') {
+    const results = await ingestService.processSensorDataBatch(payload, device);
+    const failedCount = results.filter(result => result.status === 'failed').length;
+
+    return createResponse(failedCount > 0 ? 207 : 201, {
+      message: failedCount > 0
+        ? `${failedCount} of ${results.length} readings failed`
+        : 'Sensor data batch ingested successfully',
+      results
+    });
+  }
+
+  // Process sensor data using service
+  const sensorEvent = await ingestService.processSensorData(payload as SensorData, device);
+
+  // Return success response
+  if (isMultiSensorEvent(sensorEvent)) {
+    return createResponse(201, {
+      message: 'Sensor data ingested successfully',
+      data: {
+        sensor_id: sensorEvent.sensor_id,
+        timestamp: sensorEvent.timestamp,
+        received_at: sensorEvent.received_at,
+        late: sensorEvent.late,
+        location: sensorEvent.location,
+        readings: sensorEvent.readings
+      }
+    });
+  }
+
+  return createResponse(201, {
+    message: 'Sensor data ingested successfully',
+    data: {
+      sensor_id: sensorEvent.sensor_id,
+      timestamp: sensorEvent.timestamp,
+      received_at: sensorEvent.received_at,
+      late: sensorEvent.late,
+      out_of_range: sensorEvent.out_of_range,
+      type: sensorEvent.type,
+      location: sensorEvent.location,
+      unit: sensorEvent.unit,
+      value: sensorEvent.value
+    }
+  });
+}
+
+/**
+ * Handler for the ingest routes, /sensor/data and /sensor/batch. Used by
+ * the ingest Lambda and by the local runner (scripts/local-server.ts).
+ *
+ * Each request is logged under a correlation ID, which is stored with the
+ * readings and returned in the X-Correlation-Id response header. Headers
+ * and payloads are not logged.
+ */
+export function createIngestHandler(config: IngestHandlerConfig) {
+  const { ingestService, deviceAuthenticator, idempotencyStore, metrics } = config;
+
+  const handleRequest = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    try {
+      // Handle CORS preflight requests
+      if (event.httpMethod === 'OPTIONS') {
+        return createResponse(200, { message: 'CORS preflight successful' });
+      }
+
+      // Validate HTTP method
+      if (event.httpMethod !== 'POST') {
+        return createResponse(405, { 
+          error: 'Method not allowed',
+          message: 'Only POST method is supported'
+        });
+      }
+
+      // Parse request body
+      if (!event.body) {
+        return createResponse(400, { 
+          error: 'Bad request',
+          message: 'Request body is required'
+        });
+      }
+
+      // Authenticate against the raw body, before it is parsed
+      const device = deviceAuthenticator
+        ? await deviceAuthenticator.authenticate(event.headers, event.body)
+        : undefined;
+
+      let payload: any;
+      try {
+        payload = JSON.parse(event.body);
+      } catch (parseError) {
+        metrics?.count('ValidationRejects');
+        return createResponse(400, { 
+          error: 'Bad request',
+          message: 'Invalid JSON in request body'
+        });
+      }
+
+      const idempotencyKey = idempotencyStore ? getIdempotencyKey(event, payload, device) : undefined;
+      if (!idempotencyStore || !idempotencyKey) {
+        return await ingest(ingestService, event, payload, device);
+      }
+
+      const claim = await idempotencyStore.claim(idempotencyKey, hashRequest(event.body));
+      if (claim.status === 'completed') {
+        const response = createResponse(claim.response.statusCode, {});
+        return {
+          ...response,
+          headers: { ...response.headers, 'Idempotent-Replayed': 'true' },
+          body: claim.response.body
+        };
+      }
+      if (claim.status === 'in_progress') {
+        return createResponse(409, {
+          error: 'Conflict',
+          message: 'A request with this idempotency key is still being processed'
+        });
+      }
+      if (claim.status === 'mismatch') {
+        return createResponse(422, {
+          error: 'Unprocessable entity',
+          message: 'This idempotency key was already used for a different request'
+        });
+      }
+
+      // Only fully successful responses are remembered; failures and batches
+      // with failed readings release the key so the device can retry them
+      let response: APIGatewayProxyResult;
+      try {
+        response = await ingest(ingestService, event, payload, device);
+      } catch (error) {
+        await idempotencyStore.release(idempotencyKey).catch(releaseError => {
+          logger.error('Error releasing idempotency key', { error: releaseError });
+        });
+        throw error;
+      }
+
+      if (response.statusCode >= 200 && response.statusCode < 300 && response.statusCode !== 207) {
+        await idempotencyStore.complete(idempotencyKey, { statusCode: response.statusCode, body: response.body });
+      } else {
+        await idempotencyStore.release(idempotencyKey);
+      }
+      return response;
+
+    } catch (error: any) {
+      logger.error('Error processing sensor data', { error });
+
+      // Handle validation errors
+      if (
+        error.message.includes('Invalid sensor data format') ||
+        error.message.includes('Invalid batch format') ||
+        error.message.includes('Invalid timestamp') ||
+        error.message.includes('Invalid unit') ||
+        error.message.includes('Invalid value') ||
+        error.message.includes('Sensor metadata mismatch')
+      ) {
+        metrics?.count('ValidationRejects');
+        return createResponse(400, { 
+          error: 'Validation error',
+          message: error.message
+        });
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return createResponse(401, {
+          error: 'Unauthorized',
+          message: error.message
+        });
+      }
+
+      // Unknown and decommissioned sensors, and keys used for another sensor
+      if (error.message.includes('Sensor not accepted') || error.message.includes('Device not authorized')) {
+        metrics?.count('ValidationRejects');
+        return createResponse(403, {
+          error: 'Forbidden',
+          message: error.message
+        });
+      }
+
+      // Handle DynamoDB conditional check failures
+      if (error.name === 'ConditionalCheckFailedException') {
+        metrics?.count('Conflicts');
+        return createResponse(409, {
+          error: 'Conflict',
+          message: 'Sensor event with this sensor_id and timestamp already exists'
+        });
+      }
+
+      // Handle other AWS service errors
+      if (error.name && error.message) {
+        return createResponse(500, {
+          error: 'Internal server error',
+          message: 'Failed to process sensor data',
+          details: config.environment === 'dev' ? error.message : undefined
+        });
+      }
+
+      // Generic error response
+      return createResponse(500, {
+        error: 'Internal server error',
+        message: 'An unexpected error occurred'
+      });
+    }
+  };
+
+  return async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const correlationId = getCorrelationId(event.headers, event.requestContext?.requestId);
+
+    return withLogContext({ correlation_id: correlationId }, async () => {
+      logger.info('Received request', {
+        method: event.httpMethod,
+        resource: event.resource,
+        body_bytes: event.body?.length ?? 0
+      });
+
+      try {
+        const response = await handleRequest(event);
+        logger.info('Sent response', { status: response.statusCode });
+        return { ...response, headers: { ...response.headers, [CORRELATION_ID_HEADER]: correlationId } };
+      } finally {
+        metrics?.flush();
+      }
+    });
+  };
+}
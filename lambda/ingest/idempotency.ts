@@ -0,0 +1,124 @@
+import { createHash } from 'crypto';
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentStore } from '../shared/storage';
+
+export interface StoredResponse {
+  statusCode: number;
+  body: string;
+}
+
+export interface IdempotencyRecord {
+  idempotency_key: string;
+  request_hash: string;
+  status: 'in_progress' | 'completed';
+  response?: StoredResponse;
+  created_at: string;
+  expires_at: number; // Epoch seconds, the table's TTL attribute
+}
+
+export type ClaimResult =
+  | { status: 'claimed' }
+  | { status: 'completed'; response: StoredResponse }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+export interface IdempotencyStoreConfig {
+  docClient: DocumentStore;
+  tableName: string;
+  windowSeconds: number;
+  leaseSeconds?: number; // How long an in-progress claim holds its key
+}
+
+// Twice the ingest Lambdas' timeout, so a live request keeps its claim
+const DEFAULT_LEASE_SECONDS = 60;
+
+/**
+ * Hash of a request body, to detect an idempotency key reused for a
+ * different request
+ */
+export function hashRequest(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Remembers the response to each idempotency key for a configurable window,
+ * so a device retrying a request gets the original response back instead of
+ * writing the reading again.
+ *
+ * A request first claims its key. The claim is completed with the response
+ * once the request succeeds, or released when it fails so the device can
+ * retry. A claim only holds its key for a short lease, and the window starts
+ * once it is completed, so the key of a request that died before releasing
+ * it can be claimed again after the lease. Expired records are treated as
+ * absent; DynamoDB TTL removes them later.
+ */
+export class IdempotencyStore {
+  constructor(private config: IdempotencyStoreConfig) {}
+
+  async claim(idempotency_key: string, request_hash: string, now = Date.now()): Promise<ClaimResult> {
+    const nowSeconds = Math.floor(now / 1000);
+
+    try {
+      await this.config.docClient.send(new PutCommand({
+        TableName: this.config.tableName,
+        Item: {
+          idempotency_key,
+          request_hash,
+          status: 'in_progress',
+          created_at: new Date(now).toISOString(),
+          expires_at: nowSeconds + (this.config.leaseSeconds ?? DEFAULT_LEASE_SECONDS)
+        },
+        ConditionExpression: 'attribute_not_exists(idempotency_key) OR expires_at < :now',
+        ExpressionAttributeValues: { ':now': nowSeconds }
+      }));
+      return { status: 'claimed' };
+    } catch (error: any) {
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: { idempotency_key },
+      ConsistentRead: true
+    }));
+
+    const record = result.Item as IdempotencyRecord | undefined;
+    if (!record) {
+      // Released between the claim and the read; let the device retry
+      return { status: 'in_progress' };
+    }
+    if (record.request_hash !== request_hash) {
+      return { status: 'mismatch' };
+    }
+    if (record.status === 'completed' && record.response) {
+      return { status: 'completed', response: record.response };
+    }
+    return { status: 'in_progress' };
+  }
+
+  async complete(idempotency_key: string, response: StoredResponse, now = Date.now()): Promise<void> {
+    await this.config.docClient.send(new UpdateCommand({
+      TableName: this.config.tableName,
+      Key: { idempotency_key },
+      UpdateExpression: 'SET #status = :completed, #response = :response, expires_at = :expires_at',
+      ExpressionAttributeNames: { '#status': 'status', '#response': 'response' },
+      ExpressionAttributeValues: {
+        ':completed': 'completed',
+        ':response': response,
+        ':expires_at': Math.floor(now / 1000) + this.config.windowSeconds
+      }
+    }));
+  }
+
+  async release(idempotency_key: string): Promise<void> {
+    await this.config.docClient.send(new DeleteCommand({
+      TableName: this.config.tableName,
+      Key: { idempotency_key },
+      ConditionExpression: '#status = :in_progress',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':in_progress': 'in_progress' }
+    }));
+  }
+}
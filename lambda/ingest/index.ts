@@ -1,8 +1,12 @@
-import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
-import { IngestService, SensorData } from './service';
+import { IngestService, LateReadingPolicy } from './service';
+import { SensorRegistry } from '../shared/sensor-registry';
+import { DeviceAuthenticator } from '../shared/device-keys';
+import { IdempotencyStore } from './idempotency';
+import { createIngestHandler } from './handler';
+import { Metrics } from '../shared/observability';
 
 // Initialize AWS clients
 const dynamoClient = new DynamoDBClient({});
@@ -11,8 +15,21 @@ const secretsClient = new SecretsManagerClient({});
 
 // Environment variables
 const SENSOR_EVENTS_TABLE = process.env.SENSOR_EVENTS_TABLE!;
+const SENSORS_TABLE = process.env.SENSORS_TABLE;
+const DEVICE_KEYS_TABLE = process.env.DEVICE_KEYS_TABLE;
+const DEVICE_SIGNATURES_TABLE = process.env.DEVICE_SIGNATURES_TABLE;
+const IDEMPOTENCY_TABLE = process.env.IDEMPOTENCY_TABLE;
 const SECRET_ARN = process.env.SECRET_ARN!;
 const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const MAX_CLOCK_SKEW_SECONDS = Number(process.env.MAX_CLOCK_SKEW_SECONDS || 300);
+const LATE_READING_WINDOW_SECONDS = Number(process.env.LATE_READING_WINDOW_SECONDS || 86400);
+const LATE_READING_POLICY = (process.env.LATE_READING_POLICY || 'flag') as LateReadingPolicy;
+const SENSOR_CACHE_TTL_SECONDS = Number(process.env.SENSOR_CACHE_TTL_SECONDS || 60);
+const DEVICE_KEY_CACHE_TTL_SECONDS = Number(process.env.DEVICE_KEY_CACHE_TTL_SECONDS || 60);
+const MAX_SIGNATURE_AGE_SECONDS = Number(process.env.MAX_SIGNATURE_AGE_SECONDS || 300);
+const IDEMPOTENCY_WINDOW_SECONDS = Number(process.env.IDEMPOTENCY_WINDOW_SECONDS || 86400);
+
+const metrics = new Metrics({ dimensions: { Environment: ENVIRONMENT } });
 
 // Initialize service
 const ingestService = new IngestService({
@@ -20,109 +37,39 @@ const ingestService = new IngestService({
   secretsClient,
   tableName: SENSOR_EVENTS_TABLE,
   secretArn: SECRET_ARN,
-  environment: ENVIRONMENT
+  environment: ENVIRONMENT,
+  maxClockSkewMs: MAX_CLOCK_SKEW_SECONDS * 1000,
+  lateWindowMs: LATE_READING_WINDOW_SECONDS * 1000,
+  lateReadingPolicy: LATE_READING_POLICY,
+  sensorRegistry: SENSORS_TABLE
+    ? new SensorRegistry({ docClient, tableName: SENSORS_TABLE, cacheTtlMs: SENSOR_CACHE_TTL_SECONDS * 1000 })
+    : undefined,
+  metrics
 });
 
-/**
- * Create response object
- */
-function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
-  return {
-    statusCode,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key',
-      'Access-Control-Allow-Methods': 'POST,OPTIONS'
-    },
-    body: JSON.stringify(body)
-  };
-}
+// Devices authenticate with per-device keys when a key table is configured
+const deviceAuthenticator = DEVICE_KEYS_TABLE
+  ? new DeviceAuthenticator({
+    docClient,
+    tableName: DEVICE_KEYS_TABLE,
+    cacheTtlMs: DEVICE_KEY_CACHE_TTL_SECONDS * 1000,
+    maxSignatureAgeMs: MAX_SIGNATURE_AGE_SECONDS * 1000,
+    signaturesTableName: DEVICE_SIGNATURES_TABLE
+  })
+  : undefined;
+
+// Retried requests carrying the same idempotency key get the original response
+const idempotencyStore = IDEMPOTENCY_TABLE
+  ? new IdempotencyStore({ docClient, tableName: IDEMPOTENCY_TABLE, windowSeconds: IDEMPOTENCY_WINDOW_SECONDS })
+  : undefined;
 
 /**
  * Main Lambda handler
  */
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-  console.log('Received event:', JSON.stringify(event, null, 2));
-
-  try {
-    // Handle CORS preflight requests
-    if (event.httpMethod === 'OPTIONS') {
-      return createResponse(200, { message: 'CORS preflight successful' });
-    }
-
-    // Validate HTTP method
-    if (event.httpMethod !== 'POST') {
-      return createResponse(405, { 
-        error: 'Method not allowed',
-        message: 'Only POST method is supported'
-      });
-    }
-
-    // Parse request body
-    if (!event.body) {
-      return createResponse(400, { 
-        error: 'Bad request',
-        message: 'Request body is required'
-      });
-    }
-
-    let sensorData: SensorData;
-    try {
-      sensorData = JSON.parse(event.body);
-    } catch (parseError) {
-      return createResponse(400, { 
-        error: 'Bad request',
-        message: 'Invalid JSON in request body'
-      });
-    }
-
-    // Process sensor data using service
-    const sensorEvent = await ingestService.processSensorData(sensorData);
-
-    // Return success response
-    return createResponse(201, {
-      message: 'Sensor data ingested successfully',
-      data: {
-        sensor_id: sensorEvent.sensor_id,
-        timestamp: sensorEvent.timestamp,
-        type: sensorEvent.type,
-        location: sensorEvent.location
-      }
-    });
-
-  } catch (error: any) {
-    console.error('Error processing sensor data:', error);
-
-    // Handle validation errors
-    if (error.message.includes('Invalid sensor data format')) {
-      return createResponse(400, { 
-        error: 'Validation error',
-        message: error.message
-      });
-    }
-
-    // Handle DynamoDB conditional check failures
-    if (error.name === 'ConditionalCheckFailedException') {
-      return createResponse(409, {
-        error: 'Conflict',
-        message: 'Sensor event with this sensor_id and timestamp already exists'
-      });
-    }
-
-    // Handle other AWS service errors
-    if (error.name && error.message) {
-      return createResponse(500, {
-        error: 'Internal server error',
-        message: 'Failed to process sensor data',
-        details: ENVIRONMENT === 'dev' ? error.message : undefined
-      });
-    }
-
-    // Generic error response
-    return createResponse(500, {
-      error: 'Internal server error',
-      message: 'An unexpected error occurred'
-    });
-  }
-};
+export const handler = createIngestHandler({
+  ingestService,
+  environment: ENVIRONMENT,
+  deviceAuthenticator,
+  idempotencyStore,
+  metrics
+});
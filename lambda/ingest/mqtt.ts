@@ -0,0 +1,171 @@
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { IngestService, StoredSensorEvent } from './service';
+import { IdempotencyStore, hashRequest } from './idempotency';
+import { Metrics, logger } from '../shared/observability';
+
+/**
+ * Message the IoT Core topic rule invokes the MQTT ingest Lambda with:
+ *
+ *   SELECT encode(*, 'base64') AS payload, topic() AS topic FROM 'sensors/+/data'
+ *
+ * The payload is passed through base64 encoded, so it reaches the Lambda
+ * exactly as the device sent it, JSON or not.
+ */
+export interface MqttMessage {
+  topic: string;
+  payload: string;
+}
+
+export type MqttIngestResult =
+  | { status: 'stored'; sensorEvent: StoredSensorEvent }
+  | { status: 'duplicate'; sensor_id: string }
+  | { status: 'rejected'; error: string };
+
+export interface MqttIngestorConfig {
+  ingestService: IngestService;
+  sqsClient: SQSClient;
+  errorQueueUrl: string;
+  idempotencyStore?: IdempotencyStore;
+  metrics?: Metrics;
+}
+
+const TOPIC_PATTERN = /^sensors\/([^/]+)\/data$/;
+
+// Errors that retrying the same message cannot fix; the message is sent to
+// the error queue instead of being retried
+const REJECTIONS = [
+  'Invalid topic',
+  'Invalid message payload',
+  'Invalid sensor data format',
+  'Invalid timestamp',
+  'Invalid unit',
+  'Invalid value',
+  'Sensor metadata mismatch',
+  'Sensor not accepted',
+  'Duplicate message'
+];
+
+/**
+ * Ingests readings published over MQTT. Each message carries one reading
+ * in the same JSON format as `POST /sensor/data`; its sensor_id is taken
+ * from the topic, `sensors/{sensor_id}/data`, which the device policy ties
+ * to the certificate the device connected with. The reading then goes
+ * through IngestService.processSensorData like an HTTP request, so both
+ * paths store identical SensorEvent rows.
+ *
+ * Rejected messages go to the error queue with the reason. Other failures
+ * are thrown, so Lambda retries the invocation and sends it to the same
+ * queue once the retries are exhausted.
+ */
+export class MqttIngestor {
+  constructor(private config: MqttIngestorConfig) {}
+
+  /**
+   * Sensor id of a reading topic
+   */
+  parseTopic(topic: string): string {
+    const match = TOPIC_PATTERN.exec(topic || '');
+    if (!match) {
+      throw new Error(`Invalid topic '${topic}'. Readings are published to sensors/{sensor_id}/data`);
+    }
+    return match[1];
+  }
+
+  /**
+   * Decode a message payload to a single JSON reading
+   */
+  decodePayload(payload: string): any {
+    let reading: any;
+    try {
+      reading = JSON.parse(Buffer.from(payload || '', 'base64').toString('utf8'));
+    } catch (error) {
+      throw new Error('Invalid message payload. Expected a JSON sensor reading');
+    }
+
+    if (!reading || typeof reading !== 'object' || Array.isArray(reading)) {
+      throw new Error('Invalid message payload. Expected a single JSON sensor reading per message');
+    }
+    return reading;
+  }
+
+  /**
+   * Ingest one message. Messages redelivered by MQTT (QoS 1) are detected
+   * by their message_id when the idempotency table is configured, or by
+   * their device timestamp otherwise.
+   */
+  async ingest(message: MqttMessage): Promise<MqttIngestResult> {
+    let idempotencyKey: string | undefined;
+
+    try {
+      const sensor_id = this.parseTopic(message.topic);
+      const reading = this.decodePayload(message.payload);
+      if (reading.sensor_id !== undefined && reading.sensor_id !== sensor_id) {
+        throw new Error(`Sensor metadata mismatch: payload sensor_id '${reading.sensor_id}' does not match topic '${message.topic}'`);
+      }
+
+      if (this.config.idempotencyStore && typeof reading.message_id === 'string') {
+        const key = `mqtt#${sensor_id}#${reading.message_id}`;
+        const claim = await this.config.idempotencyStore.claim(key, hashRequest(message.payload));
+        if (claim.status === 'completed') {
+          logger.info('Skipping redelivered message', { sensor_id, message_id: reading.message_id });
+          return { status: 'duplicate', sensor_id };
+        }
+        if (claim.status === 'in_progress') {
+          throw new Error(`Message ${reading.message_id} from ${sensor_id} is still being processed`);
+        }
+        if (claim.status === 'mismatch') {
+          throw new Error(`Duplicate message: message_id ${reading.message_id} was already used for a different reading`);
+        }
+        idempotencyKey = key;
+      }
+
+      const sensorEvent = await this.config.ingestService.processSensorData({ ...reading, sensor_id });
+
+      if (idempotencyKey) {
+        await this.config.idempotencyStore!.complete(idempotencyKey, {
+          statusCode: 201,
+          body: JSON.stringify({ sensor_id: sensorEvent.sensor_id, timestamp: sensorEvent.timestamp })
+        });
+      }
+      return { status: 'stored', sensorEvent };
+    } catch (error: any) {
+      if (idempotencyKey) {
+        await this.config.idempotencyStore!.release(idempotencyKey).catch(releaseError => {
+          logger.error('Error releasing idempotency key', { error: releaseError });
+        });
+      }
+
+      // The reading is already stored under its device timestamp
+      if (error.name === 'ConditionalCheckFailedException') {
+        logger.info('Skipping reading already stored', { topic: message.topic });
+        this.config.metrics?.count('Conflicts');
+        return { status: 'duplicate', sensor_id: this.parseTopic(message.topic) };
+      }
+
+      if (REJECTIONS.some(prefix => error.message?.includes(prefix))) {
+        this.config.metrics?.count(error.message.includes('Duplicate message') ? 'Conflicts' : 'ValidationRejects');
+        await this.reject(message, error.message);
+        return { status: 'rejected', error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a rejected message to the error queue
+   */
+  async reject(message: MqttMessage, reason: string): Promise<void> {
+    logger.warn('Rejected message', { topic: message.topic, reason });
+
+    await this.config.sqsClient.send(new SendMessageCommand({
+      QueueUrl: this.config.errorQueueUrl,
+      MessageBody: JSON.stringify({
+        source: 'mqtt-ingest',
+        topic: message.topic,
+        error: reason,
+        payload: Buffer.from(message.payload || '', 'base64').toString('utf8'),
+        rejected_at: new Date().toISOString()
+      })
+    }));
+  }
+}
@@ -1,26 +1,112 @@
-import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
-import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { RegisteredSensor, SensorRegistry } from '../shared/sensor-registry';
+import { DeviceKey } from '../shared/device-keys';
+import { normalizeReading } from '../shared/sensor-types';
+import { MAX_METRICS_PER_READING, MetricReading, isValidSeriesPart } from '../shared/readings';
+import { DocumentStore, SecretStore } from '../shared/storage';
+import { Metrics, getLogContext, logger } from '../shared/observability';
 
 export interface SensorData {
   sensor_id: string;
   type: string;
   value: number;
   location: string;
+  unit?: string; // Converted to the canonical unit of the type, see shared/sensor-types
+  message_id?: string; // Client idempotency key, see idempotency.ts
+  timestamp?: string; // Device time of the reading (ISO 8601)
 }
 
 export interface SensorEvent extends SensorData {
-  timestamp: string;
+  timestamp: string; // Device time when supplied, otherwise received_at
+  received_at: string;
+  timestamp_source: 'device' | 'server';
+  late?: boolean;
+  out_of_range?: boolean; // Outside the registered expected range
+  raw_value?: number; // Value and unit as sent, when converted
+  raw_unit?: string;
+  correlation_id?: string; // Request that stored the reading, see shared/observability
   environment: string;
 }
 
+/**
+ * Several measurements of one sensor taken at the same time. `readings` is
+ * either a map of type to value (or { value, unit }), or a list of
+ * { type, value, unit }. See shared/readings.
+ */
+export interface MultiSensorData {
+  sensor_id: string;
+  location: string;
+  readings: Record<string, number | { value: number; unit?: string }> | { type: string; value: number; unit?: string }[];
+  message_id?: string;
+  timestamp?: string;
+}
+
+/**
+ * Stored multi-metric event: one row per message, with every metric
+ * converted to the canonical unit of its type
+ */
+export interface MultiSensorEvent extends Omit<SensorEvent, 'type' | 'value' | 'unit' | 'out_of_range' | 'raw_value' | 'raw_unit'> {
+  readings: Record<string, MetricReading>;
+}
+
+export type StoredSensorEvent = SensorEvent | MultiSensorEvent;
+
+export function isMultiSensorEvent(sensorEvent: StoredSensorEvent): sensorEvent is MultiSensorEvent {
+  return 'readings' in sensorEvent;
+}
+
+export type LateReadingPolicy = 'reject' | 'flag';
+
+export interface BatchItemResult {
+  index: number;
+  status: 'success' | 'duplicate' | 'failed'; // duplicate: already stored, e.g. a replayed batch
+  sensor_id?: string;
+  timestamp?: string;
+  error?: string;
+}
+
+export interface BatchWriteResult {
+  duplicates: Set<StoredSensorEvent>; // Device-timestamped events already stored under their key
+  failed: Map<StoredSensorEvent, string>; // Error of each event not written
+}
+
 export interface IngestServiceConfig {
-  docClient: DynamoDBDocumentClient;
-  secretsClient: SecretsManagerClient;
+  docClient: DocumentStore;
+  secretsClient: SecretStore;
   tableName: string;
   secretArn: string;
   environment: string;
+  batchMaxRetries?: number;
+  batchRetryBaseDelayMs?: number;
+  maxClockSkewMs?: number;
+  lateWindowMs?: number;
+  lateReadingPolicy?: LateReadingPolicy;
+  sensorRegistry?: SensorRegistry; // When set, only registered, active sensors are accepted
+  metrics?: Metrics;
 }
 
+// Conditional puts of a batch sent at once
+const BATCH_WRITE_CONCURRENCY = 25;
+
+// DynamoDB errors that mean the write can be retried later
+const THROTTLING_ERRORS = ['ProvisionedThroughputExceededException', 'ThrottlingException', 'RequestLimitExceeded'];
+export const MAX_BATCH_SIZE = 500;
+
+// Error of a reading timestamped on receipt whose key is already taken
+const CONFLICT_PREFIX = 'Conflict.';
+
+const DEFAULT_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DEFAULT_LATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const INVALID_SENSOR_DATA_MESSAGE =
+  "Invalid sensor data format. Required fields: sensor_id (without '#'), type, value, location; optional: timestamp (ISO 8601), unit, message_id";
+
+const INVALID_MULTI_SENSOR_DATA_MESSAGE =
+  "Invalid sensor data format. Multi-metric readings require sensor_id (without '#'), location and readings, " +
+  `a map of type to value (or { value, unit }) or a list of { type, value, unit } with 1 to ${MAX_METRICS_PER_READING} types ` +
+  "(without '#'), and no type, value or unit of their own; optional: timestamp (ISO 8601), message_id";
+
 export class IngestService {
   private cachedSecrets: any = null;
 
@@ -43,7 +129,7 @@ export class IngestService {
       this.cachedSecrets = JSON.parse(response.SecretString || '{}');
       return this.cachedSecrets;
     } catch (error) {
-      console.error('Error retrieving secrets:', error);
+      logger.error('Error retrieving secrets', { error });
       return {};
     }
   }
@@ -59,26 +145,240 @@ export class IngestService {
       typeof data.value === 'number' &&
       typeof data.location === 'string' &&
       data.sensor_id.trim() !== '' &&
+      isValidSeriesPart(data.sensor_id) &&
       data.type.trim() !== '' &&
-      data.location.trim() !== ''
+      data.location.trim() !== '' &&
+      (data.unit === undefined || typeof data.unit === 'string') &&
+      (data.message_id === undefined || (typeof data.message_id === 'string' && data.message_id.trim() !== '')) &&
+      (data.timestamp === undefined || (typeof data.timestamp === 'string' && !isNaN(Date.parse(data.timestamp))))
     );
   }
 
   /**
-   * Create sensor event with timestamp
+   * Validate multi-metric sensor data
+   */
+  validateMultiSensorData(data: any): data is MultiSensorData {
+    return (
+      typeof data === 'object' &&
+      typeof data.sensor_id === 'string' &&
+      typeof data.location === 'string' &&
+      data.sensor_id.trim() !== '' &&
+      isValidSeriesPart(data.sensor_id) &&
+      data.location.trim() !== '' &&
+      data.type === undefined &&
+      data.value === undefined &&
+      data.unit === undefined &&
+      this.parseReadings(data.readings) !== undefined &&
+      (data.message_id === undefined || (typeof data.message_id === 'string' && data.message_id.trim() !== '')) &&
+      (data.timestamp === undefined || (typeof data.timestamp === 'string' && !isNaN(Date.parse(data.timestamp))))
+    );
+  }
+
+  /**
+   * Readings of a multi-metric message as a map of type to value and unit,
+   * or undefined when they are malformed. A type may appear only once, and
+   * may not contain the series separator, see shared/readings.
+   */
+  parseReadings(readings: unknown): Record<string, { value: number; unit?: string }> | undefined {
+    const entries: [unknown, unknown][] = Array.isArray(readings)
+      ? readings.map((reading: unknown) => [isObject(reading) && 'type' in reading ? reading.type : undefined, reading])
+      : isObject(readings)
+        ? Object.entries(readings)
+        : [];
+    if (entries.length === 0 || entries.length > MAX_METRICS_PER_READING) {
+      return undefined;
+    }
+
+    const parsed: Record<string, { value: number; unit?: string }> = {};
+    for (const [type, reading] of entries) {
+      // A bare number, or an object with a value and optional unit
+      const value = typeof reading === 'number' ? reading : isObject(reading) && 'value' in reading ? reading.value : undefined;
+      const unit = isObject(reading) && 'unit' in reading ? reading.unit : undefined;
+      if (
+        typeof type !== 'string' ||
+        type.trim() === '' ||
+        !isValidSeriesPart(type) ||
+        Object.prototype.hasOwnProperty.call(parsed, type) ||
+        typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        (unit !== undefined && typeof unit !== 'string')
+      ) {
+        return undefined;
+      }
+      parsed[type] = unit === undefined ? { value } : { value, unit };
+    }
+    return parsed;
+  }
+
+  /**
+   * Create sensor event, keeping both the device time and the receive time.
+   * The event is keyed and bucketed by the device time when one is supplied,
+   * and carries the correlation ID of the request being handled, if any.
    */
-  createSensorEvent(sensorData: SensorData, timestamp?: string): SensorEvent {
+  createSensorEvent(sensorData: SensorData, receivedAt?: string): SensorEvent {
+    const { timestamp, ...reading } = sensorData;
+    return { ...reading, ...this.createEventTime(timestamp, receivedAt) };
+  }
+
+  private createEventTime(timestamp: string | undefined, receivedAt?: string) {
+    const received_at = receivedAt || new Date().toISOString();
+    const correlation_id = getLogContext().correlation_id;
+
     return {
-      ...sensorData,
-      timestamp: timestamp || new Date().toISOString(),
+      timestamp: timestamp ? new Date(timestamp).toISOString() : received_at,
+      received_at,
+      timestamp_source: timestamp ? 'device' as const : 'server' as const,
+      ...(correlation_id ? { correlation_id } : {}),
       environment: this.config.environment
     };
   }
 
+  /**
+   * Check a device timestamp against the allowed clock skew and lateness
+   * window. Late readings are rejected or flagged depending on the policy;
+   * flagged readings are still stored and aggregated into their own bucket.
+   */
+  checkEventTime<T extends StoredSensorEvent>(sensorEvent: T): T {
+    if (sensorEvent.timestamp_source !== 'device') {
+      return sensorEvent;
+    }
+
+    const maxClockSkewMs = this.config.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS;
+    const lateWindowMs = this.config.lateWindowMs ?? DEFAULT_LATE_WINDOW_MS;
+    const ageMs = Date.parse(sensorEvent.received_at) - Date.parse(sensorEvent.timestamp);
+
+    if (-ageMs > maxClockSkewMs) {
+      throw new Error(`Invalid timestamp. Reading is more than ${maxClockSkewMs / 1000}s ahead of server time`);
+    }
+
+    if (ageMs > lateWindowMs) {
+      if (this.config.lateReadingPolicy === 'reject') {
+        throw new Error(`Invalid timestamp. Reading is older than the ${lateWindowMs / 1000}s lateness window`);
+      }
+      return { ...sensorEvent, late: true };
+    }
+
+    return sensorEvent;
+  }
+
+  /**
+   * Look up the registry entries for a set of readings. Returns undefined
+   * when no registry is configured.
+   */
+  async getRegisteredSensors(readings: any[]): Promise<Map<string, RegisteredSensor> | undefined> {
+    if (!this.config.sensorRegistry) {
+      return undefined;
+    }
+
+    const sensorIds = readings
+      .map(reading => reading?.sensor_id)
+      .filter((sensor_id): sensor_id is string => typeof sensor_id === 'string' && sensor_id.trim() !== '');
+    return this.config.sensorRegistry.getSensors(sensorIds);
+  }
+
+  /**
+   * Fill in a reading's type, location and unit from its registry entry.
+   * Readings from unknown or decommissioned sensors are rejected, as are
+   * readings whose type or location disagrees with the registry. A reading
+   * may be sent in another unit than the registered one; it is converted
+   * like any other. Multi-metric readings name their own types, so only
+   * their location is checked and filled in.
+   */
+  applyRegisteredMetadata(sensorData: any, sensor: RegisteredSensor | undefined): any {
+    if (typeof sensorData !== 'object' || sensorData === null || typeof sensorData.sensor_id !== 'string') {
+      return sensorData;
+    }
+
+    if (!sensor) {
+      throw new Error(`Sensor not accepted. ${sensorData.sensor_id} is not registered`);
+    }
+    if (sensor.status !== 'active') {
+      throw new Error(`Sensor not accepted. ${sensorData.sensor_id} is ${sensor.status}`);
+    }
+
+    const multiMetric = sensorData.readings !== undefined;
+    for (const field of multiMetric ? ['location'] as const : ['type', 'location'] as const) {
+      if (sensorData[field] !== undefined && sensorData[field] !== sensor[field]) {
+        throw new Error(
+          `Sensor metadata mismatch. ${field} '${sensorData[field]}' does not match the registered ${field} '${sensor[field]}'`
+        );
+      }
+    }
+
+    if (multiMetric) {
+      return { ...sensorData, location: sensor.location };
+    }
+    return { ...sensorData, type: sensor.type, location: sensor.location, unit: sensorData.unit ?? sensor.unit };
+  }
+
+  /**
+   * Check that an authenticated device only submits readings for the sensor
+   * its key was issued to
+   */
+  authorizeReading(sensorData: any, device: DeviceKey | undefined): void {
+    if (device && sensorData?.sensor_id !== device.sensor_id) {
+      throw new Error(`Device not authorized. Key ${device.key_id} is not issued for sensor ${sensorData?.sensor_id}`);
+    }
+  }
+
+  /**
+   * Validate a reading and turn it into a sensor event ready to be stored,
+   * in the canonical unit of its type. 'sensors' holds the registry entries
+   * when a registry is configured; expected ranges are in canonical units.
+   * Messages with `readings` become one multi-metric event, see
+   * prepareMultiSensorEvent.
+   */
+  prepareSensorEvent(sensorData: any, receivedAt?: string, sensors?: Map<string, RegisteredSensor>): StoredSensorEvent {
+    let sensor: RegisteredSensor | undefined;
+    if (this.config.sensorRegistry) {
+      sensor = sensors?.get(sensorData?.sensor_id);
+      sensorData = this.applyRegisteredMetadata(sensorData, sensor);
+    }
+
+    if (typeof sensorData === 'object' && sensorData !== null && sensorData.readings !== undefined) {
+      return this.prepareMultiSensorEvent(sensorData, receivedAt, sensor);
+    }
+
+    if (!this.validateSensorData(sensorData)) {
+      throw new Error(INVALID_SENSOR_DATA_MESSAGE);
+    }
+
+    const reading = normalizeReading(sensorData.type, sensorData.value, sensorData.unit);
+    const sensorEvent = this.checkEventTime(this.createSensorEvent({ ...sensorData, ...reading }, receivedAt));
+    if (sensor && isOutOfRange(sensorEvent.value, sensor)) {
+      return { ...sensorEvent, out_of_range: true };
+    }
+
+    return sensorEvent;
+  }
+
+  /**
+   * Turn a multi-metric message into one event holding every metric, each
+   * converted by the schema of its type and sharing the message's timestamp.
+   * The registered expected range applies to the metric of the registered
+   * type.
+   */
+  prepareMultiSensorEvent(sensorData: any, receivedAt?: string, sensor?: RegisteredSensor): MultiSensorEvent {
+    if (!this.validateMultiSensorData(sensorData)) {
+      throw new Error(INVALID_MULTI_SENSOR_DATA_MESSAGE);
+    }
+
+    const readings: Record<string, MetricReading> = {};
+    for (const [type, { value, unit }] of Object.entries(this.parseReadings(sensorData.readings)!)) {
+      const reading = normalizeReading(type, value, unit);
+      readings[type] = sensor && type === sensor.type && isOutOfRange(reading.value, sensor)
+        ? { ...reading, out_of_range: true }
+        : reading;
+    }
+
+    const { timestamp, ...message } = sensorData;
+    return this.checkEventTime({ ...message, readings, ...this.createEventTime(timestamp, receivedAt) });
+  }
+
   /**
    * Store sensor event in DynamoDB
    */
-  async storeSensorEvent(sensorEvent: SensorEvent): Promise<void> {
+  async storeSensorEvent(sensorEvent: StoredSensorEvent): Promise<void> {
     const putCommand = new PutCommand({
       TableName: this.config.tableName,
       Item: sensorEvent,
@@ -92,19 +392,186 @@ export class IngestService {
   }
 
   /**
-   * Process sensor data - main business logic
+   * Store the events of a batch with conditional puts, 25 at a time,
+   * retrying throttled writes with exponential backoff. Like
+   * storeSensorEvent, a put never overwrites a stored row with the same key.
+   * An event with a device timestamp whose key is already stored is a
+   * replayed reading and is reported as a duplicate, so a replayed batch does
+   * not rewrite its readings or send them to the stream consumers again. An
+   * event timestamped on receipt whose key is already stored is a different
+   * reading that arrived in the same millisecond, and fails with a conflict.
+   * Returns the events already stored and those that could not be written.
+   * BatchWriteItem is not used because its puts cannot carry a condition.
    */
-  async processSensorData(sensorData: any): Promise<SensorEvent> {
-    if (!this.validateSensorData(sensorData)) {
-      throw new Error('Invalid sensor data format. Required fields: sensor_id, type, value, location');
+  async storeSensorEventsBatch(sensorEvents: StoredSensorEvent[]): Promise<BatchWriteResult> {
+    const result: BatchWriteResult = { duplicates: new Set(), failed: new Map() };
+    const maxRetries = this.config.batchMaxRetries ?? 3;
+    const baseDelayMs = this.config.batchRetryBaseDelayMs ?? 50;
+
+    const store = async (sensorEvent: StoredSensorEvent) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await this.storeSensorEvent(sensorEvent);
+          return;
+        } catch (error: any) {
+          if (error.name === 'ConditionalCheckFailedException') {
+            if (sensorEvent.timestamp_source === 'device') {
+              result.duplicates.add(sensorEvent);
+            } else {
+              result.failed.set(sensorEvent, `${CONFLICT_PREFIX} Another reading of ${sensorEvent.sensor_id} is already stored at ${sensorEvent.timestamp}`);
+            }
+            return;
+          }
+          if (!THROTTLING_ERRORS.includes(error.name)) {
+            logger.error('Error writing sensor event', { error, sensor_id: sensorEvent.sensor_id });
+            result.failed.set(sensorEvent, error.message || 'Write failed');
+            return;
+          }
+          if (attempt >= maxRetries) {
+            result.failed.set(sensorEvent, 'Write throttled: retries exhausted');
+            return;
+          }
+          this.config.metrics?.count('BatchWriteRetries');
+          await sleep(baseDelayMs * 2 ** attempt);
+        }
+      }
+    };
+
+    for (let i = 0; i < sensorEvents.length; i += BATCH_WRITE_CONCURRENCY) {
+      await Promise.all(sensorEvents.slice(i, i + BATCH_WRITE_CONCURRENCY).map(store));
     }
-    
+
+    return result;
+  }
+
+  /**
+   * Process a batch of sensor readings. Each reading is validated and stored
+   * independently so one bad item does not fail the whole request.
+   */
+  async processSensorDataBatch(readings: any, device?: DeviceKey): Promise<BatchItemResult[]> {
+    if (!Array.isArray(readings) || readings.length === 0) {
+      throw new Error('Invalid batch format. Request body must be a non-empty array of sensor readings');
+    }
+
+    if (readings.length > MAX_BATCH_SIZE) {
+      throw new Error(`Invalid batch format. A batch may contain at most ${MAX_BATCH_SIZE} readings`);
+    }
+
+    await this.getSecrets();
+
+    const sensors = await this.getRegisteredSensors(readings);
+    const results: BatchItemResult[] = new Array(readings.length);
+    const validIndexes: number[] = [];
+    const sensorEvents: StoredSensorEvent[] = [];
+    const seenKeys = new Set<string>();
+
+    // Readings of one sensor without a device timestamp would share a primary
+    // key, so they are timestamped 1ms apart, in batch order, ending at the
+    // receive time. None is timestamped later than the batch was received.
+    const receivedAt = Date.now();
+    const undated = new Map<string, number>();
+    readings.forEach(reading => {
+      if (typeof reading?.sensor_id === 'string' && reading.timestamp === undefined) {
+        undated.set(reading.sensor_id, (undated.get(reading.sensor_id) || 0) + 1);
+      }
+    });
+
+    readings.forEach((reading, index) => {
+      const sensor_id = typeof reading?.sensor_id === 'string' ? reading.sensor_id : undefined;
+
+      try {
+        let readingReceivedAt = receivedAt;
+        if (sensor_id !== undefined && reading.timestamp === undefined) {
+          const remaining = undated.get(sensor_id)! - 1;
+          undated.set(sensor_id, remaining);
+          readingReceivedAt -= remaining;
+        }
+
+        this.authorizeReading(reading, device);
+        const sensorEvent = this.prepareSensorEvent(reading, new Date(readingReceivedAt).toISOString(), sensors);
+        if (seenKeys.has(keyOf(sensorEvent))) {
+          throw new Error('Duplicate reading. Another reading in this batch has the same sensor_id and timestamp');
+        }
+
+        seenKeys.add(keyOf(sensorEvent));
+        validIndexes.push(index);
+        sensorEvents.push(sensorEvent);
+      } catch (error: any) {
+        this.config.metrics?.count(error.message.startsWith('Duplicate reading') ? 'Conflicts' : 'ValidationRejects');
+        results[index] = { index, status: 'failed', sensor_id, error: error.message };
+      }
+    });
+
+    const { duplicates, failed } = await this.storeSensorEventsBatch(sensorEvents);
+
+    sensorEvents.forEach((sensorEvent, i) => {
+      const index = validIndexes[i];
+      const error = failed.get(sensorEvent);
+      const duplicate = duplicates.has(sensorEvent);
+      if (duplicate || error?.startsWith(CONFLICT_PREFIX)) {
+        this.config.metrics?.count('Conflicts');
+      } else if (!error) {
+        this.countIngested(sensorEvent);
+      }
+      results[index] = {
+        index,
+        status: error ? 'failed' : duplicate ? 'duplicate' : 'success',
+        sensor_id: sensorEvent.sensor_id,
+        timestamp: sensorEvent.timestamp,
+        error
+      };
+    });
+
+    logger.info('Processed sensor data batch', {
+      readings: readings.length,
+      duplicates: duplicates.size,
+      failed: failed.size + readings.length - validIndexes.length
+    });
+    return results;
+  }
+
+  /**
+   * Process sensor data - main business logic
+   */
+  async processSensorData(sensorData: any, device?: DeviceKey): Promise<StoredSensorEvent> {
+    this.authorizeReading(sensorData, device);
+
+    const sensors = await this.getRegisteredSensors([sensorData]);
+    const sensorEvent = this.prepareSensorEvent(sensorData, undefined, sensors);
+
     await this.getSecrets();
 
-    const sensorEvent = this.createSensorEvent(sensorData);
     await this.storeSensorEvent(sensorEvent);
+    this.countIngested(sensorEvent);
 
-    console.log('Successfully stored sensor event:', sensorEvent);
+    logger.info('Stored sensor event', {
+      sensor_id: sensorEvent.sensor_id,
+      timestamp: sensorEvent.timestamp,
+      type: isMultiSensorEvent(sensorEvent) ? Object.keys(sensorEvent.readings) : sensorEvent.type,
+      late: sensorEvent.late
+    });
     return sensorEvent;
   }
+
+  private countIngested(sensorEvent: StoredSensorEvent): void {
+    const types = isMultiSensorEvent(sensorEvent) ? Object.keys(sensorEvent.readings) : [sensorEvent.type];
+    types.forEach(type => this.config.metrics?.count('ReadingsIngested', 1, { SensorType: type }));
+  }
+}
+
+function isOutOfRange(value: number, sensor: RegisteredSensor): boolean {
+  return (sensor.expected_min !== undefined && value < sensor.expected_min) ||
+    (sensor.expected_max !== undefined && value > sensor.expected_max);
+}
+
+function keyOf(item: Pick<SensorEvent, 'sensor_id' | 'timestamp'>): string {
+  return `${item.sensor_id}|${item.timestamp}`;
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
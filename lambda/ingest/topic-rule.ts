@@ -0,0 +1,75 @@
+import { Context } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { IngestService, LateReadingPolicy } from './service';
+import { MqttIngestResult, MqttIngestor, MqttMessage } from './mqtt';
+import { SensorRegistry } from '../shared/sensor-registry';
+import { IdempotencyStore } from './idempotency';
+import { Metrics, logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+const sqsClient = new SQSClient({});
+
+// Environment variables
+const SENSOR_EVENTS_TABLE = process.env.SENSOR_EVENTS_TABLE!;
+const SENSORS_TABLE = process.env.SENSORS_TABLE;
+const IDEMPOTENCY_TABLE = process.env.IDEMPOTENCY_TABLE;
+const MQTT_ERROR_QUEUE_URL = process.env.MQTT_ERROR_QUEUE_URL!;
+const SECRET_ARN = process.env.SECRET_ARN!;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const MAX_CLOCK_SKEW_SECONDS = Number(process.env.MAX_CLOCK_SKEW_SECONDS || 300);
+const LATE_READING_WINDOW_SECONDS = Number(process.env.LATE_READING_WINDOW_SECONDS || 86400);
+const LATE_READING_POLICY = (process.env.LATE_READING_POLICY || 'flag') as LateReadingPolicy;
+const SENSOR_CACHE_TTL_SECONDS = Number(process.env.SENSOR_CACHE_TTL_SECONDS || 60);
+const IDEMPOTENCY_WINDOW_SECONDS = Number(process.env.IDEMPOTENCY_WINDOW_SECONDS || 86400);
+
+const metrics = new Metrics({ dimensions: { Environment: ENVIRONMENT } });
+
+// Initialize service, configured like the HTTP ingest Lambda
+const ingestService = new IngestService({
+  docClient,
+  secretsClient,
+  tableName: SENSOR_EVENTS_TABLE,
+  secretArn: SECRET_ARN,
+  environment: ENVIRONMENT,
+  maxClockSkewMs: MAX_CLOCK_SKEW_SECONDS * 1000,
+  lateWindowMs: LATE_READING_WINDOW_SECONDS * 1000,
+  lateReadingPolicy: LATE_READING_POLICY,
+  sensorRegistry: SENSORS_TABLE
+    ? new SensorRegistry({ docClient, tableName: SENSORS_TABLE, cacheTtlMs: SENSOR_CACHE_TTL_SECONDS * 1000 })
+    : undefined,
+  metrics
+});
+
+const mqttIngestor = new MqttIngestor({
+  ingestService,
+  sqsClient,
+  errorQueueUrl: MQTT_ERROR_QUEUE_URL,
+  idempotencyStore: IDEMPOTENCY_TABLE
+    ? new IdempotencyStore({ docClient, tableName: IDEMPOTENCY_TABLE, windowSeconds: IDEMPOTENCY_WINDOW_SECONDS })
+    : undefined,
+  metrics
+});
+
+/**
+ * Main Lambda handler, invoked asynchronously by the IoT Core topic rule
+ * with one message per invocation. Devices are authenticated by IoT Core,
+ * so no device key is checked here. The invocation's request ID is the
+ * correlation ID of the stored reading.
+ */
+export const handler = async (event: MqttMessage, context: Context): Promise<MqttIngestResult> => {
+  return withLogContext({ correlation_id: context.awsRequestId }, async () => {
+    logger.info('Received MQTT message', { topic: event.topic });
+
+    try {
+      return await mqttIngestor.ingest(event);
+    } finally {
+      metrics.flush();
+    }
+  });
+};
@@ -0,0 +1,169 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { QueryService } from './service';
+import { parseResolutions } from '../shared/buckets';
+import { CORRELATION_ID_HEADER, getCorrelationId, logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+
+// Environment variables
+const SENSOR_AGGREGATES_TABLE = process.env.SENSOR_AGGREGATES_TABLE!;
+const SENSOR_EVENTS_TABLE = process.env.SENSOR_EVENTS_TABLE!;
+const ANOMALIES_TABLE = process.env.ANOMALIES_TABLE!;
+const GROUP_AGGREGATES_TABLE = process.env.GROUP_AGGREGATES_TABLE!;
+const SECRET_ARN = process.env.SECRET_ARN!;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const AGGREGATE_RESOLUTIONS = parseResolutions(process.env.AGGREGATE_RESOLUTIONS);
+
+// Initialize service
+const queryService = new QueryService({
+  docClient,
+  secretsClient,
+  aggregatesTableName: SENSOR_AGGREGATES_TABLE,
+  eventsTableName: SENSOR_EVENTS_TABLE,
+  anomaliesTableName: ANOMALIES_TABLE,
+  groupAggregatesTableName: GROUP_AGGREGATES_TABLE,
+  secretArn: SECRET_ARN,
+  environment: ENVIRONMENT,
+  resolutions: AGGREGATE_RESOLUTIONS
+});
+
+/**
+ * Create response object
+ */
+function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Correlation-Id',
+      'Access-Control-Expose-Headers': 'X-Correlation-Id',
+      'Access-Control-Allow-Methods': 'GET,OPTIONS'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Convert an optional query string parameter to a number
+ */
+function toNumber(value?: string): number | undefined {
+  return value !== undefined && value !== '' ? Number(value) : undefined;
+}
+
+/**
+ * Route a read request to the query service
+ */
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Handle CORS preflight requests
+    if (event.httpMethod === 'OPTIONS') {
+      return createResponse(200, { message: 'CORS preflight successful' });
+    }
+
+    // Validate HTTP method
+    if (event.httpMethod !== 'GET') {
+      return createResponse(405, {
+        error: 'Method not allowed',
+        message: 'Only GET method is supported'
+      });
+    }
+
+    const params = event.queryStringParameters || {};
+    const sensor_id = event.pathParameters?.sensor_id || '';
+
+    if (event.resource === '/sensor/{sensor_id}/events') {
+      const result = await queryService.getEvents({
+        sensor_id,
+        from: params.from,
+        to: params.to,
+        limit: toNumber(params.limit),
+        order: params.order,
+        min_value: toNumber(params.min_value),
+        max_value: toNumber(params.max_value),
+        cursor: params.cursor
+      });
+
+      return createResponse(200, result);
+    }
+
+    if (event.resource === '/sensor/{sensor_id}/anomalies') {
+      const result = await queryService.getAnomalies({
+        sensor_id,
+        metric: params.metric,
+        from: params.from,
+        to: params.to,
+        limit: toNumber(params.limit),
+        order: params.order,
+        min_score: toNumber(params.min_score),
+        cursor: params.cursor
+      });
+
+      return createResponse(200, result);
+    }
+
+    if (event.resource === '/locations/{location}/aggregates' || event.resource === '/types/{type}/aggregates') {
+      const result = await queryService.getGroupAggregates({
+        location: event.pathParameters?.location,
+        type: event.pathParameters?.type ?? params.type,
+        from: params.from,
+        to: params.to,
+        resolution: params.resolution,
+        limit: toNumber(params.limit),
+        cursor: params.cursor
+      });
+
+      return createResponse(200, result);
+    }
+
+    const result = await queryService.getAggregates({
+      sensor_id,
+      metric: params.metric,
+      from: params.from,
+      to: params.to,
+      resolution: params.resolution,
+      limit: toNumber(params.limit),
+      cursor: params.cursor
+    });
+
+    return createResponse(200, result);
+
+  } catch (error: any) {
+    logger.error('Error querying sensor data', { error });
+
+    // Handle validation errors
+    if (error.message?.includes('Invalid query parameters')) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: error.message
+      });
+    }
+
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to query sensor data',
+      details: ENVIRONMENT === 'dev' ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * Main Lambda handler, run with the correlation ID of the request in the log context
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = getCorrelationId(event.headers, event.requestContext?.requestId);
+
+  return withLogContext({ correlation_id: correlationId }, async () => {
+    logger.info('Received query', { resource: event.resource, query: event.queryStringParameters || {} });
+
+    const response = await handleRequest(event);
+    logger.info('Sent response', { status: response.statusCode });
+    return { ...response, headers: { ...response.headers, [CORRELATION_ID_HEADER]: correlationId } };
+  });
+};
@@ -0,0 +1,800 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import {
+  RESOLUTIONS,
+  Resolution,
+  chooseResolution,
+  getBucketEnd,
+  getBucketKey,
+  getBucketStart,
+  isResolution,
+  parseBucketKey
+} from '../shared/buckets';
+import {
+  Moments,
+  PERCENTILES,
+  Sketch,
+  getSketchCount,
+  getSketchQuantile,
+  getVariance,
+  mergeMoments,
+  mergeSketches
+} from '../shared/statistics';
+import { getGroupKey, getMemberPartition } from '../shared/groups';
+import { expandMetricRows, getSeriesId } from '../shared/readings';
+import { logger } from '../shared/observability';
+
+// Types
+export interface AggregateQuery {
+  sensor_id: string;
+  metric?: string; // Series of a multi-metric sensor, see shared/readings
+  from?: string;
+  to?: string;
+  resolution?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface GroupAggregateQuery {
+  location?: string;
+  type?: string;
+  from?: string;
+  to?: string;
+  resolution?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface EventQuery {
+  sensor_id: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  order?: string;
+  min_value?: number;
+  max_value?: number;
+  cursor?: string;
+}
+
+export interface AnomalyQuery {
+  sensor_id: string;
+  metric?: string; // Series of a multi-metric sensor, see shared/readings
+  from?: string;
+  to?: string;
+  limit?: number;
+  order?: string;
+  min_score?: number;
+  cursor?: string;
+}
+
+export interface SensorEvent {
+  sensor_id: string;
+  timestamp: string;
+  type: string;
+  metric?: string; // Set on the rows of multi-metric readings, see shared/readings
+  value: number;
+  location: string;
+  unit?: string;
+  received_at?: string;
+  timestamp_source?: 'device' | 'server';
+  late?: boolean;
+  environment: string;
+}
+
+export interface EventQueryResult {
+  sensor_id: string;
+  order: 'asc' | 'desc';
+  items: SensorEvent[];
+  next_cursor?: string;
+}
+
+export interface Anomaly {
+  sensor_id: string;
+  metric?: string; // Set on the anomalies of a multi-metric sensor's series
+  timestamp: string;
+  value: number;
+  score: number; // Baseline standard deviations from the baseline mean
+  threshold: number;
+  baseline_mean: number;
+  baseline_stddev: number;
+  type: string;
+  location: string;
+  unit?: string;
+  detected_at: string;
+  environment: string;
+}
+
+export interface AnomalyQueryResult {
+  sensor_id: string;
+  metric?: string;
+  order: 'asc' | 'desc';
+  items: Anomaly[];
+  next_cursor?: string;
+}
+
+export interface AggregateBucket {
+  bucket: string;
+  bucket_start: string;
+  avg: number;
+  min: number;
+  max: number;
+  count: number;
+  variance: number | null; // Population variance
+  stddev: number | null;
+  p50: number | null; // Approximate percentiles (1% relative error)
+  p95: number | null;
+  p99: number | null;
+  sensor_type: string;
+  location: string;
+  unit?: string;
+  last_updated: string;
+}
+
+export interface AggregateQueryResult {
+  sensor_id: string;
+  metric?: string;
+  resolution: Resolution;
+  from: string;
+  to: string;
+  items: AggregateBucket[];
+  next_cursor?: string;
+}
+
+export interface GroupAggregateBucket {
+  bucket: string;
+  bucket_start: string;
+  avg: number;
+  min: number;
+  max: number;
+  count: number;
+  sensor_count: number; // Sensors with readings in the bucket
+  unit?: string;
+  last_updated: string;
+}
+
+export interface GroupAggregateQueryResult {
+  location?: string;
+  type?: string;
+  resolution: Resolution;
+  from: string;
+  to: string;
+  items: GroupAggregateBucket[];
+  next_cursor?: string;
+}
+
+// A partition of stored buckets: one sensor's, or one group's
+interface BucketPartition<T> {
+  tableName: string;
+  keyName: 'sensor_id' | 'group_key';
+  keyValue: string;
+  toBucket: (item: Record<string, any>) => T;
+  rollUp: (hour_bucket: string, bucket_start: string, rows: Record<string, any>[]) => Record<string, any>;
+}
+
+export interface QueryServiceConfig {
+  docClient: DynamoDBDocumentClient;
+  secretsClient: SecretsManagerClient;
+  aggregatesTableName: string;
+  eventsTableName: string;
+  anomaliesTableName: string;
+  groupAggregatesTableName?: string;
+  secretArn: string;
+  environment: string;
+  resolutions?: Resolution[];
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+export class QueryService {
+  private cachedSecrets: any = null;
+
+  private resolutions: Resolution[];
+
+  constructor(private config: QueryServiceConfig) {
+    this.resolutions = config.resolutions && config.resolutions.length > 0 ? config.resolutions : ['hour'];
+  }
+
+  /**
+   * Get secrets from AWS Secrets Manager with caching
+   */
+  async getSecrets(): Promise<any> {
+    if (this.cachedSecrets) {
+      return this.cachedSecrets;
+    }
+
+    try {
+      const command = new GetSecretValueCommand({
+        SecretId: this.config.secretArn
+      });
+      
+      const response = await this.config.secretsClient.send(command);
+      this.cachedSecrets = JSON.parse(response.SecretString || '{}');
+      return this.cachedSecrets;
+    } catch (error) {
+      logger.error('Error retrieving secrets', { error });
+      return {};
+    }
+  }
+
+  /**
+   * Resolve the requested resolution, or pick one suited to the range.
+   * Resolutions coarser than the configured ones are rolled up on read.
+   */
+  resolveResolution(from: Date, to: Date, requested?: string): Resolution {
+    if (requested === undefined) {
+      return chooseResolution(from, to, this.resolutions);
+    }
+
+    const available = RESOLUTIONS.filter(resolution => this.getSourceResolution(resolution) !== undefined);
+    if (!isResolution(requested) || !available.includes(requested)) {
+      throw new Error(`Invalid query parameters. 'resolution' must be one of: ${available.join(', ')}`);
+    }
+    return requested;
+  }
+
+  /**
+   * Stored resolution a bucket is read from: the resolution itself when it
+   * is configured, otherwise the coarsest configured finer one
+   */
+  getSourceResolution(resolution: Resolution): Resolution | undefined {
+    if (this.resolutions.includes(resolution)) {
+      return resolution;
+    }
+    const finer = RESOLUTIONS.slice(0, RESOLUTIONS.indexOf(resolution));
+    return finer.reverse().find(candidate => this.resolutions.includes(candidate));
+  }
+
+  /**
+   * Parse and validate an ISO timestamp query parameter
+   */
+  parseTimestamp(name: string, value: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid query parameters. '${name}' must be an ISO 8601 timestamp`);
+    }
+    return date;
+  }
+
+  /**
+   * Parse and validate the page size
+   */
+  parseLimit(limit?: number): number {
+    if (limit === undefined) {
+      return DEFAULT_LIMIT;
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(`Invalid query parameters. 'limit' must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    return limit;
+  }
+
+  /**
+   * Parse and validate an optional numeric filter bound
+   */
+  parseValueBound(name: string, value?: number): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Invalid query parameters. '${name}' must be a number`);
+    }
+    return value;
+  }
+
+  /**
+   * Encode a LastEvaluatedKey as an opaque pagination cursor
+   */
+  encodeCursor(lastEvaluatedKey: Record<string, any>): string {
+    return Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64url');
+  }
+
+  /**
+   * Decode a pagination cursor, ensuring it belongs to the queried sensor
+   * (or group)
+   */
+  decodeCursor(cursor: string, keyValue: string, keyName = 'sensor_id'): Record<string, any> {
+    try {
+      const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (key && typeof key === 'object' && key[keyName] === keyValue) {
+        return key;
+      }
+    } catch (error) {
+      // Fall through to the validation error below
+    }
+    throw new Error("Invalid query parameters. 'cursor' is malformed or belongs to another query");
+  }
+
+  /**
+   * Spread state of a stored row. Rows whose sketch does not account for
+   * every reading (written before spread was tracked) have none.
+   */
+  getStatistics(item: Record<string, any>): { moments: Moments; sketch: Sketch } | undefined {
+    if (!item.sketch || typeof item.sum_dev !== 'number' || getSketchCount(item.sketch) !== item.count) {
+      return undefined;
+    }
+    return {
+      moments: { count: item.count, shift: item.shift, sum_dev: item.sum_dev, sum_sq_dev: item.sum_sq_dev },
+      sketch: item.sketch
+    };
+  }
+
+  /**
+   * Map a stored aggregate row to the API representation. The average is
+   * derived from the exact sum and count.
+   */
+  toAggregateBucket(item: Record<string, any>): AggregateBucket {
+    const statistics = this.getStatistics(item);
+    const variance = statistics ? getVariance(statistics.moments) : null;
+    const percentile = (q: number) => statistics ? getSketchQuantile(statistics.sketch, q) : null;
+
+    return {
+      bucket: parseBucketKey(item.hour_bucket)?.bucket || item.hour_bucket,
+      bucket_start: item.bucket_start,
+      avg: item.count > 0 ? item.sum / item.count : 0,
+      min: item.min,
+      max: item.max,
+      count: item.count,
+      variance,
+      stddev: variance === null ? null : Math.sqrt(variance),
+      p50: percentile(PERCENTILES.p50),
+      p95: percentile(PERCENTILES.p95),
+      p99: percentile(PERCENTILES.p99),
+      sensor_type: item.sensor_type,
+      location: item.location,
+      unit: item.unit,
+      last_updated: item.last_updated
+    };
+  }
+
+  /**
+   * Merge finer stored rows into one row of a coarser bucket. Moments and
+   * sketches merge exactly, so the rolled-up spread and percentiles match
+   * what the coarser bucket would have stored.
+   */
+  rollUpBucket(hour_bucket: string, bucket_start: string, rows: Record<string, any>[]): Record<string, any> {
+    const statistics = rows.map(row => this.getStatistics(row));
+    const merged: Record<string, any> = {
+      sensor_id: rows[0].sensor_id,
+      hour_bucket,
+      bucket_start,
+      sum: rows.reduce((total, row) => total + row.sum, 0),
+      count: rows.reduce((total, row) => total + row.count, 0),
+      min: Math.min(...rows.map(row => row.min)),
+      max: Math.max(...rows.map(row => row.max)),
+      last_updated: rows.map(row => row.last_updated).sort().pop(),
+      sensor_type: rows[rows.length - 1].sensor_type,
+      location: rows[rows.length - 1].location,
+      unit: rows[rows.length - 1].unit
+    };
+
+    if (statistics.every(entry => entry !== undefined)) {
+      const moments = statistics.map(entry => entry!.moments).reduce(mergeMoments);
+      merged.shift = moments.shift;
+      merged.sum_dev = moments.sum_dev;
+      merged.sum_sq_dev = moments.sum_sq_dev;
+      merged.sketch = statistics.map(entry => entry!.sketch).reduce(mergeSketches);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Map a stored group rollup row to the API representation
+   */
+  toGroupAggregateBucket(item: Record<string, any>): GroupAggregateBucket {
+    return {
+      bucket: parseBucketKey(item.hour_bucket)?.bucket || item.hour_bucket,
+      bucket_start: item.bucket_start,
+      avg: item.count > 0 ? item.sum / item.count : 0,
+      min: item.min,
+      max: item.max,
+      count: item.count,
+      sensor_count: item.sensor_count ?? 0,
+      unit: item.unit,
+      last_updated: item.last_updated
+    };
+  }
+
+  /**
+   * Merge finer group rollup rows into one row of a coarser bucket. Its
+   * sensor count is set by countRolledUpSensors, since a sensor counts once
+   * however many of the finer buckets it has readings in.
+   */
+  rollUpGroupBucket(hour_bucket: string, bucket_start: string, rows: Record<string, any>[]): Record<string, any> {
+    return {
+      group_key: rows[0].group_key,
+      hour_bucket,
+      bucket_start,
+      sum: rows.reduce((total, row) => total + row.sum, 0),
+      count: rows.reduce((total, row) => total + row.count, 0),
+      min: Math.min(...rows.map(row => row.min)),
+      max: Math.max(...rows.map(row => row.max)),
+      unit: rows[rows.length - 1].unit,
+      last_updated: rows.map(row => row.last_updated).sort().pop()
+    };
+  }
+
+  /**
+   * Set the sensor count of rolled up group buckets: the sensors with
+   * readings in any of their finer buckets, from the group's membership
+   * items (see shared/groups)
+   */
+  async countRolledUpSensors(group_key: string, buckets: GroupAggregateBucket[], resolution: Resolution, source: Resolution): Promise<void> {
+    if (buckets.length === 0) {
+      return;
+    }
+
+    const sensors = new Map<string, Set<string>>(buckets.map(bucket => [bucket.bucket_start, new Set<string>()]));
+    const lastEnd = getBucketEnd(new Date(buckets[buckets.length - 1].bucket_start), resolution);
+    let exclusiveStartKey: Record<string, any> | undefined;
+    do {
+      const result = await this.config.docClient.send(new QueryCommand({
+        TableName: this.config.groupAggregatesTableName,
+        KeyConditionExpression: 'group_key = :group_key AND hour_bucket BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':group_key': getMemberPartition(group_key),
+          ':from': `${getBucketKey(buckets[0].bucket_start, source)}#`,
+          ':to': `${getBucketKey(new Date(lastEnd.getTime() - 1), source)}#\uffff`
+        },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      for (const member of result.Items || []) {
+        if (member.count > 0) {
+          sensors.get(getBucketStart(member.bucket_start, resolution).toISOString())?.add(member.sensor_id);
+        }
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    for (const bucket of buckets) {
+      bucket.sensor_count = sensors.get(bucket.bucket_start)!.size;
+    }
+  }
+
+  /**
+   * Read a coarser resolution by rolling up the rows of a finer stored one.
+   * Whole coarse buckets are returned; the cursor points at the last source
+   * row of the page.
+   */
+  async getRolledUpAggregates<T>(
+    partition: BucketPartition<T>,
+    from: Date,
+    to: Date,
+    resolution: Resolution,
+    source: Resolution,
+    limit: number,
+    exclusiveStartKey?: Record<string, any>
+  ): Promise<{ items: T[]; next_cursor?: string }> {
+    const rangeStart = getBucketStart(from, resolution);
+    const rangeEnd = new Date(getBucketEnd(getBucketStart(to, resolution), resolution).getTime() - 1);
+    const groups: { hour_bucket: string; bucket_start: string; rows: Record<string, any>[] }[] = [];
+    let startKey = exclusiveStartKey;
+
+    do {
+      const result = await this.config.docClient.send(new QueryCommand({
+        TableName: partition.tableName,
+        KeyConditionExpression: `${partition.keyName} = :key AND hour_bucket BETWEEN :from AND :to`,
+        ExpressionAttributeValues: {
+          ':key': partition.keyValue,
+          ':from': getBucketKey(rangeStart, source),
+          ':to': getBucketKey(rangeEnd, source)
+        },
+        ExclusiveStartKey: startKey
+      }));
+
+      for (const row of result.Items || []) {
+        if (!(row.count > 0)) {
+          continue;
+        }
+
+        const hour_bucket = getBucketKey(row.bucket_start, resolution);
+        const current = groups[groups.length - 1];
+        if (current?.hour_bucket === hour_bucket) {
+          current.rows.push(row);
+          continue;
+        }
+
+        if (groups.length === limit) {
+          const lastRow = current.rows[current.rows.length - 1];
+          return {
+            items: groups.map(group => partition.toBucket(partition.rollUp(group.hour_bucket, group.bucket_start, group.rows))),
+            next_cursor: this.encodeCursor({ [partition.keyName]: partition.keyValue, hour_bucket: lastRow.hour_bucket })
+          };
+        }
+        groups.push({ hour_bucket, bucket_start: getBucketStart(row.bucket_start, resolution).toISOString(), rows: [row] });
+      }
+
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return {
+      items: groups.map(group => partition.toBucket(partition.rollUp(group.hour_bucket, group.bucket_start, group.rows)))
+    };
+  }
+
+  /**
+   * Query aggregates for a sensor over a time range. Without an explicit
+   * resolution, the finest configured one that fits the range is used.
+   */
+  async getAggregates(query: AggregateQuery): Promise<AggregateQueryResult> {
+    if (typeof query.sensor_id !== 'string' || query.sensor_id.trim() === '') {
+      throw new Error("Invalid query parameters. 'sensor_id' is required");
+    }
+    if (query.metric !== undefined && (typeof query.metric !== 'string' || query.metric.trim() === '')) {
+      throw new Error("Invalid query parameters. 'metric' must not be empty");
+    }
+    const series_id = getSeriesId(query.sensor_id, query.metric);
+    const series = query.metric !== undefined ? { sensor_id: query.sensor_id, metric: query.metric } : { sensor_id: query.sensor_id };
+
+    const to = query.to ? this.parseTimestamp('to', query.to) : new Date();
+    const from = query.from ? this.parseTimestamp('from', query.from) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+    if (from > to) {
+      throw new Error("Invalid query parameters. 'from' must not be after 'to'");
+    }
+
+    const resolution = this.resolveResolution(from, to, query.resolution);
+    const limit = this.parseLimit(query.limit);
+    const exclusiveStartKey = query.cursor ? this.decodeCursor(query.cursor, series_id) : undefined;
+
+    const source = this.getSourceResolution(resolution)!;
+    if (source !== resolution) {
+      const partition: BucketPartition<AggregateBucket> = {
+        tableName: this.config.aggregatesTableName,
+        keyName: 'sensor_id',
+        keyValue: series_id,
+        toBucket: item => this.toAggregateBucket(item),
+        rollUp: (hour_bucket, bucket_start, rows) => this.rollUpBucket(hour_bucket, bucket_start, rows)
+      };
+      const rolledUp = await this.getRolledUpAggregates(partition, from, to, resolution, source, limit, exclusiveStartKey);
+      return {
+        ...series,
+        resolution,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        ...rolledUp
+      };
+    }
+
+    const queryCommand = new QueryCommand({
+      TableName: this.config.aggregatesTableName,
+      KeyConditionExpression: 'sensor_id = :sensor_id AND hour_bucket BETWEEN :from AND :to',
+      ExpressionAttributeValues: {
+        ':sensor_id': series_id,
+        ':from': getBucketKey(from, resolution),
+        ':to': getBucketKey(to, resolution)
+      },
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    const result = await this.config.docClient.send(queryCommand);
+
+    return {
+      ...series,
+      resolution,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      items: (result.Items || []).filter(item => item.count > 0).map(item => this.toAggregateBucket(item)),
+      next_cursor: result.LastEvaluatedKey ? this.encodeCursor(result.LastEvaluatedKey) : undefined
+    };
+  }
+
+  /**
+   * Query the rollups of a location, a sensor type, or a type within a
+   * location over a time range. Resolutions are chosen and rolled up as for
+   * a sensor's aggregates.
+   */
+  async getGroupAggregates(query: GroupAggregateQuery): Promise<GroupAggregateQueryResult> {
+    const isSet = (value?: string) => typeof value === 'string' && value.trim() !== '';
+    if (!isSet(query.location) && !isSet(query.type)) {
+      throw new Error("Invalid query parameters. 'location' or 'type' is required");
+    }
+
+    const to = query.to ? this.parseTimestamp('to', query.to) : new Date();
+    const from = query.from ? this.parseTimestamp('from', query.from) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+    if (from > to) {
+      throw new Error("Invalid query parameters. 'from' must not be after 'to'");
+    }
+
+    const group_key = getGroupKey(isSet(query.location) ? query.location : undefined, isSet(query.type) ? query.type : undefined);
+    const resolution = this.resolveResolution(from, to, query.resolution);
+    const limit = this.parseLimit(query.limit);
+    const exclusiveStartKey = query.cursor ? this.decodeCursor(query.cursor, group_key, 'group_key') : undefined;
+    const result = {
+      location: isSet(query.location) ? query.location : undefined,
+      type: isSet(query.type) ? query.type : undefined,
+      resolution,
+      from: from.toISOString(),
+      to: to.toISOString()
+    };
+
+    const source = this.getSourceResolution(resolution)!;
+    if (source !== resolution) {
+      const partition: BucketPartition<GroupAggregateBucket> = {
+        tableName: this.config.groupAggregatesTableName!,
+        keyName: 'group_key',
+        keyValue: group_key,
+        toBucket: item => this.toGroupAggregateBucket(item),
+        rollUp: (hour_bucket, bucket_start, rows) => this.rollUpGroupBucket(hour_bucket, bucket_start, rows)
+      };
+      const rolledUp = await this.getRolledUpAggregates(partition, from, to, resolution, source, limit, exclusiveStartKey);
+      await this.countRolledUpSensors(group_key, rolledUp.items, resolution, source);
+      return { ...result, ...rolledUp };
+    }
+
+    const page = await this.config.docClient.send(new QueryCommand({
+      TableName: this.config.groupAggregatesTableName,
+      KeyConditionExpression: 'group_key = :group_key AND hour_bucket BETWEEN :from AND :to',
+      ExpressionAttributeValues: {
+        ':group_key': group_key,
+        ':from': getBucketKey(from, resolution),
+        ':to': getBucketKey(to, resolution)
+      },
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    return {
+      ...result,
+      items: (page.Items || []).filter(item => item.count > 0).map(item => this.toGroupAggregateBucket(item)),
+      next_cursor: page.LastEvaluatedKey ? this.encodeCursor(page.LastEvaluatedKey) : undefined
+    };
+  }
+
+  /**
+   * Query raw sensor events on the timestamp sort key, optionally filtered by
+   * value range. The value filter is applied after the page is read, so a
+   * page may hold fewer than 'limit' items while a next_cursor is returned.
+   * Multi-metric events are returned as one item per metric; their values
+   * are only known once expanded, so they are filtered here.
+   */
+  async getEvents(query: EventQuery): Promise<EventQueryResult> {
+    if (typeof query.sensor_id !== 'string' || query.sensor_id.trim() === '') {
+      throw new Error("Invalid query parameters. 'sensor_id' is required");
+    }
+
+    const from = query.from ? this.parseTimestamp('from', query.from) : undefined;
+    const to = query.to ? this.parseTimestamp('to', query.to) : undefined;
+    if (from && to && from > to) {
+      throw new Error("Invalid query parameters. 'from' must not be after 'to'");
+    }
+
+    const order = query.order || 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error("Invalid query parameters. 'order' must be 'asc' or 'desc'");
+    }
+
+    const minValue = this.parseValueBound('min_value', query.min_value);
+    const maxValue = this.parseValueBound('max_value', query.max_value);
+    if (minValue !== undefined && maxValue !== undefined && minValue > maxValue) {
+      throw new Error("Invalid query parameters. 'min_value' must not be greater than 'max_value'");
+    }
+
+    const limit = this.parseLimit(query.limit);
+    const exclusiveStartKey = query.cursor ? this.decodeCursor(query.cursor, query.sensor_id) : undefined;
+
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = { ':sensor_id': query.sensor_id };
+    let keyCondition = 'sensor_id = :sensor_id';
+
+    if (from || to) {
+      expressionAttributeNames['#ts'] = 'timestamp';
+      if (from && to) {
+        keyCondition += ' AND #ts BETWEEN :from AND :to';
+      } else {
+        keyCondition += from ? ' AND #ts >= :from' : ' AND #ts <= :to';
+      }
+      if (from) expressionAttributeValues[':from'] = from.toISOString();
+      if (to) expressionAttributeValues[':to'] = to.toISOString();
+    }
+
+    const filters: string[] = [];
+    if (minValue !== undefined) {
+      filters.push('#value >= :min_value');
+      expressionAttributeValues[':min_value'] = minValue;
+    }
+    if (maxValue !== undefined) {
+      filters.push('#value <= :max_value');
+      expressionAttributeValues[':max_value'] = maxValue;
+    }
+    if (filters.length > 0) {
+      expressionAttributeNames['#value'] = 'value';
+      expressionAttributeNames['#readings'] = 'readings';
+    }
+
+    const queryCommand = new QueryCommand({
+      TableName: this.config.eventsTableName,
+      KeyConditionExpression: keyCondition,
+      FilterExpression: filters.length > 0 ? `(${filters.join(' AND ')}) OR attribute_exists(#readings)` : undefined,
+      ExpressionAttributeNames: Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined,
+      ExpressionAttributeValues: expressionAttributeValues,
+      ScanIndexForward: order === 'asc',
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    const result = await this.config.docClient.send(queryCommand);
+    const items = ((result.Items || []) as SensorEvent[])
+      .flatMap(item => expandMetricRows(item))
+      .filter(item => (minValue === undefined || item.value >= minValue) && (maxValue === undefined || item.value <= maxValue));
+
+    return {
+      sensor_id: query.sensor_id,
+      order,
+      items,
+      next_cursor: result.LastEvaluatedKey ? this.encodeCursor(result.LastEvaluatedKey) : undefined
+    };
+  }
+
+  /**
+   * Query detected anomalies of a sensor on the timestamp sort key,
+   * optionally only those scoring at least min_score. Like the value filter
+   * on events, min_score is applied after the page is read. Anomalies of a
+   * multi-metric sensor are kept per series, so its metric must be named.
+   */
+  async getAnomalies(query: AnomalyQuery): Promise<AnomalyQueryResult> {
+    if (typeof query.sensor_id !== 'string' || query.sensor_id.trim() === '') {
+      throw new Error("Invalid query parameters. 'sensor_id' is required");
+    }
+    if (query.metric !== undefined && (typeof query.metric !== 'string' || query.metric.trim() === '')) {
+      throw new Error("Invalid query parameters. 'metric' must not be empty");
+    }
+    const series_id = getSeriesId(query.sensor_id, query.metric);
+    const series = query.metric !== undefined ? { sensor_id: query.sensor_id, metric: query.metric } : { sensor_id: query.sensor_id };
+
+    const from = query.from ? this.parseTimestamp('from', query.from) : undefined;
+    const to = query.to ? this.parseTimestamp('to', query.to) : undefined;
+    if (from && to && from > to) {
+      throw new Error("Invalid query parameters. 'from' must not be after 'to'");
+    }
+
+    const order = query.order || 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      throw new Error("Invalid query parameters. 'order' must be 'asc' or 'desc'");
+    }
+
+    const minScore = this.parseValueBound('min_score', query.min_score);
+    const limit = this.parseLimit(query.limit);
+    const exclusiveStartKey = query.cursor ? this.decodeCursor(query.cursor, series_id) : undefined;
+
+    const expressionAttributeNames: Record<string, string> = {};
+    const expressionAttributeValues: Record<string, any> = { ':sensor_id': series_id };
+    let keyCondition = 'sensor_id = :sensor_id';
+
+    if (from || to) {
+      expressionAttributeNames['#ts'] = 'timestamp';
+      if (from && to) {
+        keyCondition += ' AND #ts BETWEEN :from AND :to';
+      } else {
+        keyCondition += from ? ' AND #ts >= :from' : ' AND #ts <= :to';
+      }
+      if (from) expressionAttributeValues[':from'] = from.toISOString();
+      if (to) expressionAttributeValues[':to'] = to.toISOString();
+    }
+
+    if (minScore !== undefined) {
+      expressionAttributeValues[':min_score'] = minScore;
+    }
+
+    const result = await this.config.docClient.send(new QueryCommand({
+      TableName: this.config.anomaliesTableName,
+      KeyConditionExpression: keyCondition,
+      FilterExpression: minScore !== undefined ? 'score >= :min_score' : undefined,
+      ExpressionAttributeNames: Object.keys(expressionAttributeNames).length > 0 ? expressionAttributeNames : undefined,
+      ExpressionAttributeValues: expressionAttributeValues,
+      ScanIndexForward: order === 'asc',
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    return {
+      ...series,
+      order,
+      items: ((result.Items || []) as Anomaly[]).map(anomaly => ({ ...anomaly, ...series })),
+      next_cursor: result.LastEvaluatedKey ? this.encodeCursor(result.LastEvaluatedKey) : undefined
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { RulesService } from './service';
+import { CORRELATION_ID_HEADER, getCorrelationId, logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+
+// Environment variables
+const ALERT_RULES_TABLE = process.env.ALERT_RULES_TABLE!;
+const SECRET_ARN = process.env.SECRET_ARN!;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+// Initialize service
+const rulesService = new RulesService({
+  docClient,
+  secretsClient,
+  tableName: ALERT_RULES_TABLE,
+  secretArn: SECRET_ARN,
+  environment: ENVIRONMENT
+});
+
+/**
+ * Create response object
+ */
+function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Correlation-Id',
+      'Access-Control-Expose-Headers': 'X-Correlation-Id',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Parse a JSON request body, or return undefined when it is not valid JSON
+ */
+function parseBody(body: string | null): any {
+  try {
+    return JSON.parse(body || '');
+  } catch (parseError) {
+    return undefined;
+  }
+}
+
+/**
+ * Route an API request. Routes:
+ *   GET    /rules              list rules (optionally ?sensor_id= | ?type= | ?location=)
+ *   POST   /rules              create a rule
+ *   GET    /rules/{rule_id}    get a rule
+ *   PUT    /rules/{rule_id}    replace a rule
+ *   DELETE /rules/{rule_id}    delete a rule
+ */
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Handle CORS preflight requests
+    if (event.httpMethod === 'OPTIONS') {
+      return createResponse(200, { message: 'CORS preflight successful' });
+    }
+
+    const rule_id = event.pathParameters?.rule_id;
+    const params = event.queryStringParameters || {};
+
+    if (!rule_id && event.httpMethod === 'GET') {
+      const result = await rulesService.listRules({
+        sensor_id: params.sensor_id,
+        type: params.type,
+        location: params.location,
+        limit: params.limit ? Number(params.limit) : undefined,
+        cursor: params.cursor
+      });
+      return createResponse(200, result);
+    }
+
+    if (!rule_id && event.httpMethod === 'POST') {
+      const payload = parseBody(event.body);
+      if (payload === undefined) {
+        return createResponse(400, {
+          error: 'Bad request',
+          message: 'Invalid JSON in request body'
+        });
+      }
+
+      const rule = await rulesService.createRule(payload);
+      return createResponse(201, { message: 'Alert rule created successfully', data: rule });
+    }
+
+    if (rule_id && event.httpMethod === 'GET') {
+      return createResponse(200, { data: await rulesService.getRule(rule_id) });
+    }
+
+    if (rule_id && event.httpMethod === 'PUT') {
+      const payload = parseBody(event.body);
+      if (payload === undefined) {
+        return createResponse(400, {
+          error: 'Bad request',
+          message: 'Invalid JSON in request body'
+        });
+      }
+
+      const rule = await rulesService.updateRule(rule_id, payload);
+      return createResponse(200, { message: 'Alert rule updated successfully', data: rule });
+    }
+
+    if (rule_id && event.httpMethod === 'DELETE') {
+      await rulesService.deleteRule(rule_id);
+      return createResponse(200, { message: 'Alert rule deleted successfully' });
+    }
+
+    return createResponse(405, {
+      error: 'Method not allowed',
+      message: `${event.httpMethod} is not supported on ${event.resource}`
+    });
+
+  } catch (error: any) {
+    logger.error('Error handling alert rule request', { error });
+
+    // Handle validation errors
+    if (error.message?.includes('Invalid rule')) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: error.message
+      });
+    }
+
+    if (error.message?.includes('Rule not found')) {
+      return createResponse(404, {
+        error: 'Not found',
+        message: error.message
+      });
+    }
+
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to process alert rule request',
+      details: ENVIRONMENT === 'dev' ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * Main Lambda handler, run with the correlation ID of the request in the log context
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = getCorrelationId(event.headers, event.requestContext?.requestId);
+
+  return withLogContext({ correlation_id: correlationId }, async () => {
+    logger.info('Received rules request', { method: event.httpMethod, resource: event.resource });
+
+    const response = await handleRequest(event);
+    logger.info('Sent response', { status: response.statusCode });
+    return { ...response, headers: { ...response.headers, [CORRELATION_ID_HEADER]: correlationId } };
+  });
+};
@@ -0,0 +1,269 @@
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand
+} from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { randomUUID } from 'crypto';
+import {
+  AlertRule,
+  RULE_OPERATORS,
+  RULE_SCOPE_TYPES,
+  RuleOperator,
+  RuleScopeType,
+  getScopeKey
+} from '../shared/alert-rules';
+import { logger } from '../shared/observability';
+
+// Types
+export interface AlertRuleInput {
+  name: string;
+  sensor_id?: string;
+  type?: string;
+  location?: string;
+  operator: RuleOperator;
+  threshold: number;
+  duration_seconds?: number;
+  hysteresis?: number;
+  cooldown_seconds?: number;
+  enabled?: boolean;
+}
+
+export interface RuleListQuery {
+  sensor_id?: string;
+  type?: string;
+  location?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface RuleListResult {
+  items: AlertRule[];
+  next_cursor?: string;
+}
+
+export interface RulesServiceConfig {
+  docClient: DynamoDBDocumentClient;
+  secretsClient: SecretsManagerClient;
+  tableName: string;
+  secretArn: string;
+  environment: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+const INVALID_RULE_MESSAGE =
+  'Invalid rule. Required fields: name, exactly one of sensor_id/type/location, operator (>, >=, <, <=), threshold; ' +
+  'optional: duration_seconds, hysteresis, cooldown_seconds (non-negative numbers), enabled (boolean)';
+
+export class RulesService {
+  private cachedSecrets: any = null;
+
+  constructor(private config: RulesServiceConfig) {}
+
+  /**
+   * Get secrets from AWS Secrets Manager with caching
+   */
+  async getSecrets(): Promise<any> {
+    if (this.cachedSecrets) {
+      return this.cachedSecrets;
+    }
+
+    try {
+      const command = new GetSecretValueCommand({
+        SecretId: this.config.secretArn
+      });
+
+      const response = await this.config.secretsClient.send(command);
+      this.cachedSecrets = JSON.parse(response.SecretString || '{}');
+      return this.cachedSecrets;
+    } catch (error) {
+      logger.error('Error retrieving secrets', { error });
+      return {};
+    }
+  }
+
+  /**
+   * Validate a rule definition
+   */
+  validateRule(input: any): input is AlertRuleInput {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return false;
+    }
+
+    const scopes = RULE_SCOPE_TYPES.filter(scope => input[scope] !== undefined);
+    const isOptionalNonNegative = (value: any) =>
+      value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+    return (
+      typeof input.name === 'string' && input.name.trim() !== '' &&
+      scopes.length === 1 &&
+      typeof input[scopes[0]] === 'string' && input[scopes[0]].trim() !== '' &&
+      RULE_OPERATORS.includes(input.operator) &&
+      typeof input.threshold === 'number' && Number.isFinite(input.threshold) &&
+      isOptionalNonNegative(input.duration_seconds) &&
+      isOptionalNonNegative(input.hysteresis) &&
+      isOptionalNonNegative(input.cooldown_seconds) &&
+      (input.enabled === undefined || typeof input.enabled === 'boolean')
+    );
+  }
+
+  /**
+   * Build the stored rule from a validated definition
+   */
+  createAlertRule(input: AlertRuleInput, rule_id: string, created_at: string, updated_at = created_at): AlertRule {
+    const scope_type = RULE_SCOPE_TYPES.find(scope => input[scope] !== undefined) as RuleScopeType;
+    const scope_value = input[scope_type] as string;
+
+    return {
+      rule_id,
+      name: input.name,
+      scope_type,
+      scope_value,
+      scope_key: getScopeKey(scope_type, scope_value),
+      operator: input.operator,
+      threshold: input.threshold,
+      duration_seconds: input.duration_seconds ?? 0,
+      hysteresis: input.hysteresis ?? 0,
+      cooldown_seconds: input.cooldown_seconds ?? 0,
+      enabled: input.enabled ?? true,
+      created_at,
+      updated_at
+    };
+  }
+
+  /**
+   * Create a rule with a generated id
+   */
+  async createRule(input: any): Promise<AlertRule> {
+    if (!this.validateRule(input)) {
+      throw new Error(INVALID_RULE_MESSAGE);
+    }
+
+    await this.getSecrets();
+
+    const rule = this.createAlertRule(input, randomUUID(), new Date().toISOString());
+    await this.config.docClient.send(new PutCommand({
+      TableName: this.config.tableName,
+      Item: rule,
+      ConditionExpression: 'attribute_not_exists(rule_id)'
+    }));
+
+    logger.info('Created alert rule', { rule_id: rule.rule_id, scope_key: rule.scope_key });
+    return rule;
+  }
+
+  /**
+   * Get a rule by id
+   */
+  async getRule(rule_id: string): Promise<AlertRule> {
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: { rule_id }
+    }));
+
+    if (!result.Item) {
+      throw new Error(`Rule not found: ${rule_id}`);
+    }
+    return result.Item as AlertRule;
+  }
+
+  /**
+   * Replace a rule's definition. Evaluation state is kept, so a firing alert
+   * resolves against the new threshold.
+   */
+  async updateRule(rule_id: string, input: any): Promise<AlertRule> {
+    if (!this.validateRule(input)) {
+      throw new Error(INVALID_RULE_MESSAGE);
+    }
+
+    const existing = await this.getRule(rule_id);
+    const rule = this.createAlertRule(input, rule_id, existing.created_at, new Date().toISOString());
+
+    try {
+      await this.config.docClient.send(new PutCommand({
+        TableName: this.config.tableName,
+        Item: rule,
+        ConditionExpression: 'attribute_exists(rule_id)'
+      }));
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(`Rule not found: ${rule_id}`);
+      }
+      throw error;
+    }
+
+    logger.info('Updated alert rule', { rule_id });
+    return rule;
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(rule_id: string): Promise<void> {
+    try {
+      await this.config.docClient.send(new DeleteCommand({
+        TableName: this.config.tableName,
+        Key: { rule_id },
+        ConditionExpression: 'attribute_exists(rule_id)'
+      }));
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(`Rule not found: ${rule_id}`);
+      }
+      throw error;
+    }
+
+    logger.info('Deleted alert rule', { rule_id });
+  }
+
+  /**
+   * List rules, optionally for a single scope
+   */
+  async listRules(query: RuleListQuery): Promise<RuleListResult> {
+    const scopes = RULE_SCOPE_TYPES.filter(scope => query[scope] !== undefined);
+    if (scopes.length > 1) {
+      throw new Error('Invalid rule query. Filter by at most one of sensor_id, type, location');
+    }
+
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(`Invalid rule query. 'limit' must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+
+    let exclusiveStartKey: Record<string, any> | undefined;
+    if (query.cursor) {
+      try {
+        exclusiveStartKey = JSON.parse(Buffer.from(query.cursor, 'base64url').toString('utf8'));
+      } catch (error) {
+        throw new Error("Invalid rule query. 'cursor' is malformed");
+      }
+    }
+
+    const result = await this.config.docClient.send(scopes.length === 1
+      ? new QueryCommand({
+        TableName: this.config.tableName,
+        IndexName: 'scope-index',
+        KeyConditionExpression: 'scope_key = :scope_key',
+        ExpressionAttributeValues: { ':scope_key': getScopeKey(scopes[0], query[scopes[0]] as string) },
+        Limit: limit,
+        ExclusiveStartKey: exclusiveStartKey
+      })
+      : new ScanCommand({
+        TableName: this.config.tableName,
+        Limit: limit,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+    return {
+      items: (result.Items || []) as AlertRule[],
+      next_cursor: result.LastEvaluatedKey
+        ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64url')
+        : undefined
+    };
+  }
+}
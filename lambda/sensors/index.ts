@@ -0,0 +1,194 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SensorsService } from './service';
+import { CORRELATION_ID_HEADER, getCorrelationId, logger, withLogContext } from '../shared/observability';
+
+// Initialize AWS clients
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+const secretsClient = new SecretsManagerClient({});
+
+// Environment variables
+const SENSORS_TABLE = process.env.SENSORS_TABLE!;
+const DEVICE_KEYS_TABLE = process.env.DEVICE_KEYS_TABLE!;
+const SECRET_ARN = process.env.SECRET_ARN!;
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+
+// Initialize service
+const sensorsService = new SensorsService({
+  docClient,
+  secretsClient,
+  tableName: SENSORS_TABLE,
+  deviceKeysTableName: DEVICE_KEYS_TABLE,
+  secretArn: SECRET_ARN,
+  environment: ENVIRONMENT
+});
+
+/**
+ * Create response object
+ */
+function createResponse(statusCode: number, body: any): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Correlation-Id',
+      'Access-Control-Expose-Headers': 'X-Correlation-Id',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS'
+    },
+    body: JSON.stringify(body)
+  };
+}
+
+/**
+ * Parse a JSON request body, or return undefined when it is not valid JSON
+ */
+function parseBody(body: string | null): any {
+  try {
+    return JSON.parse(body || '');
+  } catch (parseError) {
+    return undefined;
+  }
+}
+
+/**
+ * Route an API request. Routes:
+ *   GET    /sensors                list sensors (optionally ?status= &type= &location=)
+ *   POST   /sensors                register a sensor
+ *   GET    /sensors/{sensor_id}    get a sensor
+ *   PUT    /sensors/{sensor_id}    replace a sensor's metadata
+ *   DELETE /sensors/{sensor_id}    remove a sensor from the registry
+ *   GET    /sensors/{sensor_id}/keys           list the sensor's device keys
+ *   POST   /sensors/{sensor_id}/keys           issue a device key
+ *   DELETE /sensors/{sensor_id}/keys/{key_id}  revoke a device key
+ */
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  try {
+    // Handle CORS preflight requests
+    if (event.httpMethod === 'OPTIONS') {
+      return createResponse(200, { message: 'CORS preflight successful' });
+    }
+
+    const sensor_id = event.pathParameters?.sensor_id;
+    const key_id = event.pathParameters?.key_id;
+    const params = event.queryStringParameters || {};
+
+    if (sensor_id && event.resource?.startsWith('/sensors/{sensor_id}/keys')) {
+      if (!key_id && event.httpMethod === 'GET') {
+        return createResponse(200, { items: await sensorsService.listDeviceKeys(sensor_id) });
+      }
+
+      if (!key_id && event.httpMethod === 'POST') {
+        const key = await sensorsService.issueDeviceKey(sensor_id);
+        return createResponse(201, {
+          message: 'Device key issued. Store the secret now; it cannot be retrieved again',
+          data: key
+        });
+      }
+
+      if (key_id && event.httpMethod === 'DELETE') {
+        const key = await sensorsService.revokeDeviceKey(sensor_id, key_id);
+        return createResponse(200, { message: 'Device key revoked', data: key });
+      }
+
+      return createResponse(405, {
+        error: 'Method not allowed',
+        message: `${event.httpMethod} is not supported on ${event.resource}`
+      });
+    }
+
+    if (!sensor_id && event.httpMethod === 'GET') {
+      const result = await sensorsService.listSensors({
+        status: params.status,
+        type: params.type,
+        location: params.location,
+        limit: params.limit ? Number(params.limit) : undefined,
+        cursor: params.cursor
+      });
+      return createResponse(200, result);
+    }
+
+    if (event.httpMethod === 'POST' || event.httpMethod === 'PUT') {
+      const payload = parseBody(event.body);
+      if (payload === undefined) {
+        return createResponse(400, {
+          error: 'Bad request',
+          message: 'Invalid JSON in request body'
+        });
+      }
+
+      if (!sensor_id && event.httpMethod === 'POST') {
+        const sensor = await sensorsService.registerSensor(payload);
+        return createResponse(201, { message: 'Sensor registered successfully', data: sensor });
+      }
+
+      if (sensor_id && event.httpMethod === 'PUT') {
+        const sensor = await sensorsService.updateSensor(sensor_id, payload);
+        return createResponse(200, { message: 'Sensor updated successfully', data: sensor });
+      }
+    }
+
+    if (sensor_id && event.httpMethod === 'GET') {
+      return createResponse(200, { data: await sensorsService.getSensor(sensor_id) });
+    }
+
+    if (sensor_id && event.httpMethod === 'DELETE') {
+      await sensorsService.deleteSensor(sensor_id);
+      return createResponse(200, { message: 'Sensor deleted successfully' });
+    }
+
+    return createResponse(405, {
+      error: 'Method not allowed',
+      message: `${event.httpMethod} is not supported on ${event.resource}`
+    });
+
+  } catch (error: any) {
+    logger.error('Error handling sensor registry request', { error });
+
+    // Handle validation errors
+    if (error.message?.includes('Invalid sensor')) {
+      return createResponse(400, {
+        error: 'Validation error',
+        message: error.message
+      });
+    }
+
+    if (error.message?.includes('Sensor not found') || error.message?.includes('Device key not found')) {
+      return createResponse(404, {
+        error: 'Not found',
+        message: error.message
+      });
+    }
+
+    if (error.message?.includes('Sensor already registered')) {
+      return createResponse(409, {
+        error: 'Conflict',
+        message: error.message
+      });
+    }
+
+    return createResponse(500, {
+      error: 'Internal server error',
+      message: 'Failed to process sensor registry request',
+      details: ENVIRONMENT === 'dev' ? error.message : undefined
+    });
+  }
+}
+
+/**
+ * Main Lambda handler, run with the correlation ID of the request in the log context
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  const correlationId = getCorrelationId(event.headers, event.requestContext?.requestId);
+
+  return withLogContext({ correlation_id: correlationId }, async () => {
+    logger.info('Received sensors request', { method: event.httpMethod, resource: event.resource });
+
+    const response = await handleRequest(event);
+    logger.info('Sent response', { status: response.statusCode });
+    return { ...response, headers: { ...response.headers, [CORRELATION_ID_HEADER]: correlationId } };
+  });
+};
@@ -0,0 +1,379 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { RegisteredSensor, SENSOR_STATUSES, SensorStatus } from '../shared/sensor-registry';
+import { DeviceKey } from '../shared/device-keys';
+import { isAllowedUnit } from '../shared/sensor-types';
+import { isValidSeriesPart } from '../shared/readings';
+import { logger } from '../shared/observability';
+
+// Types
+export interface SensorInput {
+  sensor_id?: string;
+  type: string;
+  unit: string;
+  location: string;
+  owner: string;
+  expected_min?: number;
+  expected_max?: number;
+  offline_after_seconds?: number;
+  status?: SensorStatus;
+}
+
+export interface SensorListQuery {
+  status?: string;
+  type?: string;
+  location?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SensorListResult {
+  items: RegisteredSensor[];
+  next_cursor?: string;
+}
+
+// Device keys as listed: the secret is only returned when a key is issued
+export type DeviceKeySummary = Omit<DeviceKey, 'secret'>;
+
+export interface SensorsServiceConfig {
+  docClient: DynamoDBDocumentClient;
+  secretsClient: SecretsManagerClient;
+  tableName: string;
+  deviceKeysTableName: string;
+  secretArn: string;
+  environment: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Path segments under /sensors that are routes of their own
+const RESERVED_SENSOR_IDS = ['status'];
+
+const INVALID_SENSOR_MESSAGE =
+  "Invalid sensor. Required fields: sensor_id (without '#', not 'status'), type, " +
+  'unit (one the type can be converted from), location, owner; ' +
+  'optional: expected_min, expected_max (numbers, min <= max), offline_after_seconds (positive whole seconds), ' +
+  `status (${SENSOR_STATUSES.join(', ')})`;
+
+export class SensorsService {
+  private cachedSecrets: any = null;
+
+  constructor(private config: SensorsServiceConfig) {}
+
+  /**
+   * Get secrets from AWS Secrets Manager with caching
+   */
+  async getSecrets(): Promise<any> {
+    if (this.cachedSecrets) {
+      return this.cachedSecrets;
+    }
+
+    try {
+      const command = new GetSecretValueCommand({
+        SecretId: this.config.secretArn
+      });
+
+      const response = await this.config.secretsClient.send(command);
+      this.cachedSecrets = JSON.parse(response.SecretString || '{}');
+      return this.cachedSecrets;
+    } catch (error) {
+      logger.error('Error retrieving secrets', { error });
+      return {};
+    }
+  }
+
+  /**
+   * Validate a sensor definition. The sensor_id comes from the path on
+   * updates and from the body on registration. The unit is the one the
+   * device reports in; expected_min and expected_max are in the canonical
+   * unit of the type. Sensor ids may not contain the separator of series
+   * ids, see shared/readings, nor be 'status', which GET /sensors/status
+   * serves.
+   */
+  validateSensor(input: any): input is SensorInput {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return false;
+    }
+
+    const isNonEmptyString = (value: any) => typeof value === 'string' && value.trim() !== '';
+    const isOptionalNumber = (value: any) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+    return (
+      isNonEmptyString(input.sensor_id) &&
+      isValidSeriesPart(input.sensor_id) &&
+      !RESERVED_SENSOR_IDS.includes(input.sensor_id) &&
+      isNonEmptyString(input.type) &&
+      isNonEmptyString(input.unit) &&
+      isNonEmptyString(input.location) &&
+      isNonEmptyString(input.owner) &&
+      isAllowedUnit(input.type, input.unit) &&
+      isOptionalNumber(input.expected_min) &&
+      isOptionalNumber(input.expected_max) &&
+      (input.expected_min === undefined || input.expected_max === undefined || input.expected_min <= input.expected_max) &&
+      (input.offline_after_seconds === undefined || (Number.isInteger(input.offline_after_seconds) && input.offline_after_seconds > 0)) &&
+      (input.status === undefined || SENSOR_STATUSES.includes(input.status))
+    );
+  }
+
+  /**
+   * Build the stored sensor from a validated definition
+   */
+  createRegisteredSensor(input: SensorInput, created_at: string, updated_at = created_at): RegisteredSensor {
+    return {
+      sensor_id: input.sensor_id as string,
+      type: input.type,
+      unit: input.unit,
+      location: input.location,
+      owner: input.owner,
+      expected_min: input.expected_min,
+      expected_max: input.expected_max,
+      offline_after_seconds: input.offline_after_seconds,
+      status: input.status ?? 'active',
+      created_at,
+      updated_at
+    };
+  }
+
+  /**
+   * Register a new sensor
+   */
+  async registerSensor(input: any): Promise<RegisteredSensor> {
+    if (!this.validateSensor(input)) {
+      throw new Error(INVALID_SENSOR_MESSAGE);
+    }
+
+    const sensor = this.createRegisteredSensor(input, new Date().toISOString());
+    try {
+      await this.config.docClient.send(new PutCommand({
+        TableName: this.config.tableName,
+        Item: withoutUndefined(sensor),
+        ConditionExpression: 'attribute_not_exists(sensor_id)'
+      }));
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(`Sensor already registered: ${sensor.sensor_id}`);
+      }
+      throw error;
+    }
+
+    logger.info('Registered sensor', { sensor_id: sensor.sensor_id, type: sensor.type, location: sensor.location });
+    return sensor;
+  }
+
+  /**
+   * Get a registered sensor
+   */
+  async getSensor(sensor_id: string): Promise<RegisteredSensor> {
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: { sensor_id }
+    }));
+
+    if (!result.Item) {
+      throw new Error(`Sensor not found: ${sensor_id}`);
+    }
+    return result.Item as RegisteredSensor;
+  }
+
+  /**
+   * Replace a sensor's metadata. Setting status to 'decommissioned' stops
+   * ingest from accepting its readings; leaving status out keeps the stored
+   * one.
+   */
+  async updateSensor(sensor_id: string, input: any): Promise<RegisteredSensor> {
+    const definition = { ...input, sensor_id };
+    if (!this.validateSensor(definition)) {
+      throw new Error(INVALID_SENSOR_MESSAGE);
+    }
+
+    const existing = await this.getSensor(sensor_id);
+    const sensor = this.createRegisteredSensor(
+      { ...definition, status: definition.status ?? existing.status },
+      existing.created_at,
+      new Date().toISOString()
+    );
+
+    try {
+      await this.config.docClient.send(new PutCommand({
+        TableName: this.config.tableName,
+        Item: withoutUndefined(sensor),
+        ConditionExpression: 'attribute_exists(sensor_id)'
+      }));
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(`Sensor not found: ${sensor_id}`);
+      }
+      throw error;
+    }
+
+    logger.info('Updated sensor', { sensor_id });
+    return sensor;
+  }
+
+  /**
+   * Remove a sensor from the registry. Its stored readings and aggregates
+   * are kept.
+   */
+  async deleteSensor(sensor_id: string): Promise<void> {
+    try {
+      await this.config.docClient.send(new DeleteCommand({
+        TableName: this.config.tableName,
+        Key: { sensor_id },
+        ConditionExpression: 'attribute_exists(sensor_id)'
+      }));
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(`Sensor not found: ${sensor_id}`);
+      }
+      throw error;
+    }
+
+    logger.info('Deleted sensor', { sensor_id });
+  }
+
+  /**
+   * List registered sensors, optionally filtered by status, type or location.
+   * Filters are applied after each page is read, so a page can hold fewer
+   * than 'limit' items while a next_cursor is returned.
+   */
+  async listSensors(query: SensorListQuery): Promise<SensorListResult> {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new Error(`Invalid sensor query. 'limit' must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    if (query.status !== undefined && !SENSOR_STATUSES.includes(query.status as SensorStatus)) {
+      throw new Error(`Invalid sensor query. 'status' must be one of: ${SENSOR_STATUSES.join(', ')}`);
+    }
+
+    let exclusiveStartKey: Record<string, any> | undefined;
+    if (query.cursor) {
+      try {
+        exclusiveStartKey = JSON.parse(Buffer.from(query.cursor, 'base64url').toString('utf8'));
+      } catch (error) {
+        throw new Error("Invalid sensor query. 'cursor' is malformed");
+      }
+    }
+
+    const filters: string[] = [];
+    const names: Record<string, string> = {};
+    const values: Record<string, any> = {};
+    for (const field of ['status', 'type', 'location'] as const) {
+      if (query[field] !== undefined) {
+        filters.push(`#${field} = :${field}`);
+        names[`#${field}`] = field;
+        values[`:${field}`] = query[field];
+      }
+    }
+
+    const result = await this.config.docClient.send(new ScanCommand({
+      TableName: this.config.tableName,
+      FilterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
+      ExpressionAttributeNames: filters.length > 0 ? names : undefined,
+      ExpressionAttributeValues: filters.length > 0 ? values : undefined,
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey
+    }));
+
+    return {
+      items: (result.Items || []) as RegisteredSensor[],
+      next_cursor: result.LastEvaluatedKey
+        ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64url')
+        : undefined
+    };
+  }
+
+  /**
+   * Issue a new key for a registered sensor. The secret is only returned
+   * here; rotate by issuing a new key and revoking the old one once the
+   * device has switched over.
+   */
+  async issueDeviceKey(sensor_id: string): Promise<DeviceKey> {
+    await this.getSensor(sensor_id);
+
+    const key: DeviceKey = {
+      key_id: randomUUID(),
+      sensor_id,
+      secret: randomBytes(32).toString('base64url'),
+      status: 'active',
+      created_at: new Date().toISOString()
+    };
+
+    await this.config.docClient.send(new PutCommand({
+      TableName: this.config.deviceKeysTableName,
+      Item: key,
+      ConditionExpression: 'attribute_not_exists(key_id)'
+    }));
+
+    logger.info('Issued device key', { key_id: key.key_id, sensor_id });
+    return key;
+  }
+
+  /**
+   * List a sensor's keys, active and revoked. The sensor-index projection
+   * leaves out the secret.
+   */
+  async listDeviceKeys(sensor_id: string): Promise<DeviceKeySummary[]> {
+    const keys: DeviceKeySummary[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.config.docClient.send(new QueryCommand({
+        TableName: this.config.deviceKeysTableName,
+        IndexName: 'sensor-index',
+        KeyConditionExpression: 'sensor_id = :sensor_id',
+        ExpressionAttributeValues: { ':sensor_id': sensor_id },
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+
+      keys.push(...((result.Items || []) as DeviceKeySummary[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return keys;
+  }
+
+  /**
+   * Revoke a key. The row is kept for auditing; ingest stops accepting the
+   * key once its cached lookup expires.
+   */
+  async revokeDeviceKey(sensor_id: string, key_id: string): Promise<DeviceKeySummary> {
+    try {
+      const result = await this.config.docClient.send(new UpdateCommand({
+        TableName: this.config.deviceKeysTableName,
+        Key: { key_id },
+        UpdateExpression: 'SET #status = :revoked, revoked_at = if_not_exists(revoked_at, :now)',
+        ConditionExpression: 'sensor_id = :sensor_id',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':revoked': 'revoked',
+          ':now': new Date().toISOString(),
+          ':sensor_id': sensor_id
+        },
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      const { secret, ...key } = result.Attributes as DeviceKey;
+      logger.info('Revoked device key', { key_id, sensor_id });
+      return key;
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error(`Device key not found: ${key_id}`);
+      }
+      throw error;
+    }
+  }
+}
+
+function withoutUndefined<T extends object>(item: T): T {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)) as T;
+}
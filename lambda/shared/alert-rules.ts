@@ -0,0 +1,61 @@
+/**
+ * Alert rule model shared by the rules CRUD API and the alert evaluator.
+ *
+ * A rule targets readings by exactly one scope (a sensor_id, a sensor type or
+ * a location) and compares each reading's value against a threshold. The
+ * scope is stored as `scope_key` (`${scope_type}#${scope_value}`), which the
+ * evaluator looks up on the `scope-index` GSI for every reading.
+ */
+
+export type RuleOperator = '>' | '>=' | '<' | '<=';
+export type RuleScopeType = 'sensor_id' | 'type' | 'location';
+
+export const RULE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<='];
+export const RULE_SCOPE_TYPES: RuleScopeType[] = ['sensor_id', 'type', 'location'];
+
+export interface AlertRule {
+  rule_id: string;
+  name: string;
+  scope_type: RuleScopeType;
+  scope_value: string;
+  scope_key: string;
+  operator: RuleOperator;
+  threshold: number;
+  duration_seconds: number; // Breach must last this long before firing
+  hysteresis: number; // Value must move this far back past the threshold to resolve
+  cooldown_seconds: number; // Minimum time between firings per sensor
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export function getScopeKey(scope_type: RuleScopeType, scope_value: string): string {
+  return `${scope_type}#${scope_value}`;
+}
+
+/**
+ * Whether a value breaches the rule threshold
+ */
+export function isBreached(rule: Pick<AlertRule, 'operator' | 'threshold'>, value: number): boolean {
+  switch (rule.operator) {
+    case '>':
+      return value > rule.threshold;
+    case '>=':
+      return value >= rule.threshold;
+    case '<':
+      return value < rule.threshold;
+    case '<=':
+      return value <= rule.threshold;
+  }
+}
+
+/**
+ * Whether a value has recovered far enough for a firing alert to resolve.
+ * Without hysteresis this is simply no longer breaching.
+ */
+export function isCleared(rule: Pick<AlertRule, 'operator' | 'threshold' | 'hysteresis'>, value: number): boolean {
+  const above = rule.operator === '>' || rule.operator === '>=';
+  const resolveAt = above ? rule.threshold - rule.hysteresis : rule.threshold + rule.hysteresis;
+
+  return !isBreached({ operator: rule.operator, threshold: resolveAt }, value);
+}
@@ -0,0 +1,86 @@
+/**
+ * Streaming anomaly detection for a single sensor.
+ *
+ * Each sensor keeps an exponentially weighted moving average (EWMA) of its
+ * readings and of their variance. A reading is scored by how many baseline
+ * standard deviations it lies from the baseline mean, before it is folded
+ * into the baseline:
+ *
+ *   score = |x - mean| / stddev
+ *
+ * The baseline adapts with weight 'alpha' per reading, so a lasting level
+ * shift stops being anomalous after a while. Sensitivity is the score
+ * threshold, configured per sensor type.
+ */
+
+export interface Baseline {
+  mean: number;
+  variance: number;
+  count: number; // Readings folded into the baseline
+}
+
+export interface AnomalySettings {
+  alpha: number; // EWMA weight of each new reading, 0 < alpha <= 1
+  warmup: number; // Readings needed before anything is flagged
+  thresholds: Record<string, number>; // Score threshold by sensor type, with a 'default'
+}
+
+export const DEFAULT_ANOMALY_THRESHOLD = 4;
+
+// Keeps scores finite for sensors that have only ever sent one value
+const MIN_STDDEV = 1e-6;
+
+/**
+ * Parse per-type thresholds such as "default=4,humidity=3.5"
+ */
+export function parseAnomalyThresholds(value: string | undefined): Record<string, number> {
+  const thresholds: Record<string, number> = { default: DEFAULT_ANOMALY_THRESHOLD };
+  if (!value || value.trim() === '') {
+    return thresholds;
+  }
+
+  for (const entry of value.split(',').map(item => item.trim()).filter(item => item !== '')) {
+    const [type, threshold] = entry.split('=').map(item => item.trim());
+    const parsed = Number(threshold);
+    if (!type || threshold === undefined || !Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`Invalid anomaly threshold '${entry}'. Expected <type>=<positive number>, e.g. humidity=3.5`);
+    }
+    thresholds[type] = parsed;
+  }
+
+  return thresholds;
+}
+
+/**
+ * Score threshold for a sensor type
+ */
+export function getThreshold(settings: AnomalySettings, type: string): number {
+  return settings.thresholds[type] ?? settings.thresholds.default ?? DEFAULT_ANOMALY_THRESHOLD;
+}
+
+/**
+ * Score a reading against a baseline. The first reading scores 0.
+ */
+export function scoreReading(baseline: Baseline | undefined, value: number): number {
+  if (!baseline || baseline.count === 0) {
+    return 0;
+  }
+  return Math.abs(value - baseline.mean) / Math.max(Math.sqrt(baseline.variance), MIN_STDDEV);
+}
+
+/**
+ * Fold a reading into the baseline (incremental EWMA mean and variance)
+ */
+export function updateBaseline(baseline: Baseline | undefined, value: number, alpha: number): Baseline {
+  if (!baseline || baseline.count === 0) {
+    return { mean: value, variance: 0, count: 1 };
+  }
+
+  const diff = value - baseline.mean;
+  const increment = alpha * diff;
+  return {
+    mean: baseline.mean + increment,
+    variance: (1 - alpha) * (baseline.variance + diff * increment),
+    count: baseline.count + 1
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Time bucket helpers shared by the aggregate writer and the query API.
+ *
+ * Aggregate rows for every resolution live in the same table. The sort key
+ * (the `hour_bucket` attribute, named before multiple resolutions existed)
+ * encodes the resolution as a prefix, e.g. `hour#2025-07-13T14:00:00` or
+ * `day#2025-07-13`, so each resolution sorts and range-queries on its own.
+ * All buckets are UTC.
+ */
+
+export type Resolution = 'minute' | 'hour' | 'day' | 'month';
+
+// Ordered from finest to coarsest
+export const RESOLUTIONS: Resolution[] = ['minute', 'hour', 'day', 'month'];
+
+// Nominal bucket widths, used to size query ranges
+const RESOLUTION_MS: Record<Resolution, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  month: 31 * 24 * 60 * 60 * 1000
+};
+
+// Aim for at most this many buckets when picking a resolution for a range
+const TARGET_BUCKETS_PER_QUERY = 500;
+
+export function isResolution(value: any): value is Resolution {
+  return RESOLUTIONS.includes(value);
+}
+
+/**
+ * Parse a comma separated resolution list such as "minute,hour,day"
+ */
+export function parseResolutions(value: string | undefined, fallback: Resolution[] = ['hour']): Resolution[] {
+  if (!value || value.trim() === '') {
+    return fallback;
+  }
+
+  const parsed = value.split(',').map(item => item.trim()).filter(item => item !== '');
+  const invalid = parsed.filter(item => !isResolution(item));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown aggregate resolution(s): ${invalid.join(', ')}. Supported: ${RESOLUTIONS.join(', ')}`);
+  }
+
+  return RESOLUTIONS.filter(resolution => parsed.includes(resolution));
+}
+
+/**
+ * Truncate a timestamp to the start of its bucket
+ */
+export function getBucketStart(timestamp: string | Date, resolution: Resolution): Date {
+  const date = new Date(timestamp);
+
+  switch (resolution) {
+    case 'minute':
+      date.setUTCSeconds(0, 0);
+      break;
+    case 'hour':
+      date.setUTCMinutes(0, 0, 0);
+      break;
+    case 'day':
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+    case 'month':
+      date.setUTCDate(1);
+      date.setUTCHours(0, 0, 0, 0);
+      break;
+  }
+
+  return date;
+}
+
+/**
+ * Start of the bucket following the one that begins at `start`
+ */
+export function getBucketEnd(start: Date, resolution: Resolution): Date {
+  const end = new Date(start);
+
+  switch (resolution) {
+    case 'minute':
+      end.setUTCMinutes(end.getUTCMinutes() + 1);
+      break;
+    case 'hour':
+      end.setUTCHours(end.getUTCHours() + 1);
+      break;
+    case 'day':
+      end.setUTCDate(end.getUTCDate() + 1);
+      break;
+    case 'month':
+      end.setUTCMonth(end.getUTCMonth() + 1);
+      break;
+  }
+
+  return end;
+}
+
+/**
+ * Format a timestamp as its bucket label, e.g. 2025-07-13T14:00:00 for an hour
+ */
+export function formatBucket(timestamp: string | Date, resolution: Resolution): string {
+  const iso = getBucketStart(timestamp, resolution).toISOString();
+
+  switch (resolution) {
+    case 'minute':
+    case 'hour':
+      return iso.slice(0, 19); // YYYY-MM-DDTHH:MM:00
+    case 'day':
+      return iso.slice(0, 10); // YYYY-MM-DD
+    case 'month':
+      return iso.slice(0, 7); // YYYY-MM
+  }
+}
+
+/**
+ * Sort key value for the bucket containing a timestamp
+ */
+export function getBucketKey(timestamp: string | Date, resolution: Resolution): string {
+  return `${resolution}#${formatBucket(timestamp, resolution)}`;
+}
+
+/**
+ * Split a sort key value into its resolution and bucket label
+ */
+export function parseBucketKey(key: string): { resolution: Resolution; bucket: string } | null {
+  const [resolution, bucket] = key.split('#');
+  return isResolution(resolution) && bucket ? { resolution, bucket } : null;
+}
+
+/**
+ * Pick the finest available resolution that keeps a range within the target
+ * bucket count, falling back to the coarsest available one
+ */
+export function chooseResolution(from: Date, to: Date, available: Resolution[]): Resolution {
+  const span = to.getTime() - from.getTime();
+  const ordered = RESOLUTIONS.filter(resolution => available.includes(resolution));
+
+  if (ordered.length === 0) {
+    throw new Error('No aggregate resolutions available');
+  }
+
+  return ordered.find(resolution => span / RESOLUTION_MS[resolution] <= TARGET_BUCKETS_PER_QUERY)
+    || ordered[ordered.length - 1];
+}
@@ -0,0 +1,157 @@
+/**
+ * Per-device credentials for the ingest API.
+ *
+ * Each key belongs to one registered sensor and is stored in the DeviceKeys
+ * table, so keys can be issued, rotated and revoked through the sensors API
+ * without redeploying. A device authenticates a request either by sending its
+ * key, or by signing the request so the key never leaves the device:
+ *
+ *   X-Device-Key-Id:    <key_id>
+ *   X-Device-Key:       <secret>                                 (key mode)
+ *   X-Device-Timestamp: <unix seconds>                           (signature mode)
+ *   X-Device-Signature: hex HMAC-SHA256(secret, `${timestamp}.${body}`)
+ *
+ * Signed requests are only accepted within a short window around server time,
+ * and each signature only once: accepted signatures are recorded until the
+ * window closes, so a captured request cannot be replayed. A device retrying
+ * a request signs it again.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DocumentStore } from './storage';
+
+export type DeviceKeyStatus = 'active' | 'revoked';
+
+export interface DeviceKey {
+  key_id: string;
+  sensor_id: string;
+  secret: string;
+  status: DeviceKeyStatus;
+  created_at: string;
+  revoked_at?: string;
+}
+
+export interface DeviceAuthenticatorConfig {
+  docClient: DocumentStore;
+  tableName: string;
+  cacheTtlMs?: number;
+  maxSignatureAgeMs?: number;
+  signaturesTableName?: string; // Accepted signatures, expired by TTL; replays are only rejected with it
+}
+
+export const DEVICE_KEY_ID_HEADER = 'x-device-key-id';
+export const DEVICE_KEY_HEADER = 'x-device-key';
+export const DEVICE_TIMESTAMP_HEADER = 'x-device-timestamp';
+export const DEVICE_SIGNATURE_HEADER = 'x-device-signature';
+
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+const DEFAULT_MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Sign a request body the way a device does
+ */
+export function signRequest(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export class DeviceAuthenticator {
+  private cache = new Map<string, { key: DeviceKey | undefined; expiresAt: number }>();
+
+  constructor(private config: DeviceAuthenticatorConfig) {}
+
+  /**
+   * Look up a device key. Lookups, including misses, are cached briefly, so
+   * a revoked key stops working within the cache TTL.
+   */
+  async getKey(key_id: string): Promise<DeviceKey | undefined> {
+    const now = Date.now();
+    const cached = this.cache.get(key_id);
+    if (cached && cached.expiresAt > now) {
+      return cached.key;
+    }
+
+    const result = await this.config.docClient.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: { key_id }
+    }));
+
+    const key = result.Item as DeviceKey | undefined;
+    this.cache.set(key_id, { key, expiresAt: now + (this.config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS) });
+    return key;
+  }
+
+  /**
+   * Authenticate a request from its headers and raw body. Returns the
+   * device key, whose sensor_id the request's readings must belong to.
+   */
+  async authenticate(headers: Record<string, string | undefined> | null, body: string | null, now = Date.now()): Promise<DeviceKey> {
+    const normalized: Record<string, string | undefined> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+      normalized[name.toLowerCase()] = value;
+    }
+
+    const key_id = normalized[DEVICE_KEY_ID_HEADER];
+    if (!key_id) {
+      throw new Error(`Unauthorized. Missing ${DEVICE_KEY_ID_HEADER} header`);
+    }
+
+    const key = await this.getKey(key_id);
+    if (!key || key.status !== 'active') {
+      throw new Error('Unauthorized. Unknown or revoked device key');
+    }
+
+    const presentedKey = normalized[DEVICE_KEY_HEADER];
+    if (presentedKey !== undefined) {
+      if (!safeEqual(presentedKey, key.secret)) {
+        throw new Error('Unauthorized. Invalid device key');
+      }
+      return key;
+    }
+
+    const timestamp = normalized[DEVICE_TIMESTAMP_HEADER];
+    const signature = normalized[DEVICE_SIGNATURE_HEADER];
+    if (!timestamp || !signature) {
+      throw new Error(`Unauthorized. Send ${DEVICE_KEY_HEADER}, or ${DEVICE_TIMESTAMP_HEADER} and ${DEVICE_SIGNATURE_HEADER}`);
+    }
+
+    const maxAgeMs = this.config.maxSignatureAgeMs ?? DEFAULT_MAX_SIGNATURE_AGE_MS;
+    const signedAtMs = Number(timestamp) * 1000;
+    if (!Number.isFinite(signedAtMs) || Math.abs(now - signedAtMs) > maxAgeMs) {
+      throw new Error(`Unauthorized. Signature timestamp is more than ${maxAgeMs / 1000}s from server time`);
+    }
+
+    if (!safeEqual(signature.toLowerCase(), signRequest(key.secret, timestamp, body || ''))) {
+      throw new Error('Unauthorized. Invalid signature');
+    }
+
+    if (this.config.signaturesTableName) {
+      await this.recordSignature(key.key_id, signature.toLowerCase(), signedAtMs + maxAgeMs);
+    }
+    return key;
+  }
+
+  /**
+   * Record an accepted signature until it falls out of the signature window.
+   * Throws when it was recorded before, i.e. the request is a replay.
+   */
+  private async recordSignature(key_id: string, signature: string, acceptedUntilMs: number): Promise<void> {
+    try {
+      await this.config.docClient.send(new PutCommand({
+        TableName: this.config.signaturesTableName,
+        Item: { signature_id: `${key_id}#${signature}`, expires_at: Math.ceil(acceptedUntilMs / 1000) },
+        ConditionExpression: 'attribute_not_exists(signature_id)'
+      }));
+    } catch (error: any) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new Error('Unauthorized. Signature already used');
+      }
+      throw error;
+    }
+  }
+}
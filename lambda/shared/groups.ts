@@ -0,0 +1,63 @@
+/**
+ * Rollups of the aggregates across sensors, shared by the aggregate Lambda
+ * (which maintains them) and the read API.
+ *
+ * Every reading also counts towards three groups: its location, its sensor
+ * type, and the pair of both. A group is stored as `group_key`
+ * (`location#warehouse-3`, `type#temperature` or
+ * `location_type#warehouse-3#temperature`) with the same `hour_bucket` sort
+ * key as the per-sensor aggregates.
+ *
+ * The reading count of each sensor in a group bucket is kept in a
+ * membership item of its own, in the same table under the partition
+ * `member#{group_key}` and the sort key `{hour_bucket}#{sensor_id}`. The
+ * metrics of a multi-metric sensor count towards its one membership item.
+ * A bucket row only carries the number of sensors with readings, so it
+ * stays small however many sensors its group has.
+ */
+
+export type GroupType = 'location' | 'type' | 'location_type';
+
+export interface Group {
+  group_key: string;
+  group_type: GroupType;
+  location?: string;
+  sensor_type?: string;
+}
+
+export function getGroupKey(location?: string, sensor_type?: string): string {
+  if (location !== undefined && sensor_type !== undefined) {
+    return `location_type#${location}#${sensor_type}`;
+  }
+  return location !== undefined ? `location#${location}` : `type#${sensor_type}`;
+}
+
+/**
+ * The groups a reading counts towards
+ */
+export function getGroups(reading: { location: string; type: string }): Group[] {
+  return [
+    { group_key: getGroupKey(reading.location), group_type: 'location', location: reading.location },
+    { group_key: getGroupKey(undefined, reading.type), group_type: 'type', sensor_type: reading.type },
+    {
+      group_key: getGroupKey(reading.location, reading.type),
+      group_type: 'location_type',
+      location: reading.location,
+      sensor_type: reading.type
+    }
+  ];
+}
+
+/**
+ * Key of a sensor's membership item in a group bucket
+ */
+export function getMemberKey(group_key: string, hour_bucket: string, sensor_id: string) {
+  return { group_key: getMemberPartition(group_key), hour_bucket: `${hour_bucket}#${sensor_id}` };
+}
+
+/**
+ * Partition of the membership items of a group's buckets
+ */
+export function getMemberPartition(group_key: string): string {
+  return `member#${group_key}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Sensor heartbeats: when each sensor was last heard from, and whether it is
+ * online.
+ *
+ * The aggregate Lambda updates a sensor's last_seen from every reading in the
+ * events stream and brings it back online. Silence cannot arrive on a stream,
+ * so the heartbeat monitor runs on a schedule and marks sensors offline once
+ * they have been quiet for longer than their offline threshold. Every change
+ * of status is recorded as a transition.
+ */
+
+export type ConnectivityStatus = 'online' | 'offline';
+
+export interface SensorHeartbeat {
+  sensor_id: string;
+  last_seen: string; // Receive time of the most recent reading
+  type?: string; // Of the most recent single-type reading
+  location?: string;
+  status: ConnectivityStatus;
+  status_changed_at: string;
+  version: number;
+}
+
+export interface StatusTransition {
+  sensor_id: string;
+  changed_at: string; // Sort key
+  status: ConnectivityStatus;
+  previous_status?: ConnectivityStatus; // Unset when a sensor is first seen
+  last_seen?: string;
+  silence_seconds?: number; // Time without readings when marked offline
+  environment: string;
+}
+
+export const DEFAULT_OFFLINE_AFTER_SECONDS = 900;
+
+/**
+ * Offline thresholds in seconds by sensor type, from `type=seconds` pairs,
+ * e.g. "default=900,co2=3600". A missing default is filled in.
+ */
+export function parseOfflineThresholds(value: string | undefined): Record<string, number> {
+  const thresholds: Record<string, number> = { default: DEFAULT_OFFLINE_AFTER_SECONDS };
+  if (!value || value.trim() === '') {
+    return thresholds;
+  }
+
+  for (const entry of value.split(',').map(item => item.trim()).filter(item => item !== '')) {
+    const [type, seconds] = entry.split('=').map(item => item.trim());
+    const parsed = Number(seconds);
+    if (!type || seconds === undefined || !Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`Invalid offline threshold '${entry}'. Expected <type>=<positive whole seconds>, e.g. co2=3600`);
+    }
+    thresholds[type] = parsed;
+  }
+
+  return thresholds;
+}
+
+/**
+ * Silence after which a sensor is offline: its own registered threshold,
+ * otherwise the threshold of its type, otherwise the default
+ */
+export function getOfflineAfterSeconds(
+  thresholds: Record<string, number>,
+  type: string | undefined,
+  offline_after_seconds?: number
+): number {
+  return offline_after_seconds
+    ?? (type !== undefined ? thresholds[type] : undefined)
+    ?? thresholds.default
+    ?? DEFAULT_OFFLINE_AFTER_SECONDS;
+}
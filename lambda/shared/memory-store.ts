@@ -0,0 +1,1008 @@
+/**
+ * In-memory stand-in for DynamoDB, for running the pipeline offline.
+ *
+ * It takes the same document client commands as DynamoDB and evaluates
+ * condition, update, key condition, filter and projection expressions, so
+ * the services run against it unchanged. It keeps the behaviour they rely
+ * on: conditional writes, all-or-nothing transactions with cancellation
+ * reasons, idempotent transaction tokens, and rejection of updates to a
+ * nested path whose parent map does not exist.
+ *
+ * Tables only live as long as the process. Batches are never throttled, so
+ * nothing is returned unprocessed, and item size limits are not enforced.
+ */
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { createHash } from 'crypto';
+import { DocumentStore, TableDefinition } from './storage';
+
+type Item = Record<string, any>;
+type Path = (string | number)[];
+type Operand = (item: Item) => any;
+type Condition = (item: Item) => boolean;
+
+interface UpdateAction {
+  action: 'SET' | 'REMOVE' | 'ADD' | 'DELETE';
+  path: Path;
+  value?: Operand;
+}
+
+interface Table {
+  definition: TableDefinition;
+  items: Map<string, Item>;
+}
+
+// Outcome of one write, worked out before anything is stored
+interface PreparedWrite {
+  table: Table;
+  key: string;
+  existing?: Item;
+  next?: Item; // Undefined deletes the item
+  write: boolean; // False for condition checks
+  conditionFailed: boolean;
+  returnOldOnFailure: boolean; // ReturnValuesOnConditionCheckFailure ALL_OLD
+  error?: Error;
+}
+
+// DynamoDB remembers a transaction's ClientRequestToken for 10 minutes
+const TRANSACTION_TOKEN_TTL_MS = 10 * 60 * 1000;
+const MAX_BATCH_WRITE_ITEMS = 25;
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_TRANSACTION_ITEMS = 100;
+
+const TOKEN_PATTERN = /\s*(?:(#[A-Za-z0-9_]+)|(:[A-Za-z0-9_]+)|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|(<>|<=|>=|[=<>(),.[\]+-]))/y;
+
+function dynamoError(name: string, message: string, details: Record<string, any> = {}): Error {
+  return Object.assign(new Error(message), { name, ...details });
+}
+
+function validationError(message: string): Error {
+  return dynamoError('ValidationException', message);
+}
+
+/**
+ * Deep copy of an item or value. Sets and binary values are rebuilt with
+ * this realm's constructors, which structuredClone does not do under a test
+ * runner's VM context.
+ */
+function clone<T>(value: T): T {
+  if (value instanceof Set) {
+    return new Set(Array.from(value, clone)) as T;
+  }
+  if (value instanceof Uint8Array) {
+    return Uint8Array.from(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(clone) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clone(entry)])) as T;
+  }
+  return value;
+}
+
+/**
+ * The document client refuses undefined values unless told to drop them
+ */
+function checkDefined(value: any): void {
+  if (value instanceof Set) {
+    value.forEach(checkDefined);
+  } else if (Array.isArray(value) || (value && typeof value === 'object' && !(value instanceof Uint8Array))) {
+    for (const entry of Object.values(value)) {
+      if (entry === undefined) {
+        throw new Error('Pass options.removeUndefinedValues=true to remove undefined values from map/array/set.');
+      }
+      checkDefined(entry);
+    }
+  }
+}
+
+/**
+ * Stable representation of a value for equality checks; sets compare by
+ * their members regardless of order
+ */
+function canonical(value: any): string {
+  if (value instanceof Set) {
+    return `set:${JSON.stringify(Array.from(value).map(canonical).sort())}`;
+  }
+  if (value instanceof Uint8Array) {
+    return `binary:${Buffer.from(value).toString('base64')}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function compareKeyValues(left: any, right: any): number {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  return String(left) < String(right) ? -1 : String(left) > String(right) ? 1 : 0;
+}
+
+function getPath(item: Item | undefined, path: Path): any {
+  let current: any = item;
+  for (const segment of path) {
+    if (current === undefined || current === null || typeof current !== 'object' || current instanceof Set) {
+      return undefined;
+    }
+    if (typeof segment === 'number' && !Array.isArray(current)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+function setPath(item: Item, path: Path, value: any): void {
+  const parent = getPath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+  const isContainer = typeof last === 'number'
+    ? Array.isArray(parent)
+    : parent !== null && typeof parent === 'object' && !Array.isArray(parent) && !(parent instanceof Set);
+  if (!isContainer) {
+    throw validationError('The document path provided in the update expression is invalid for update');
+  }
+
+  if (typeof last === 'number' && last >= parent.length) {
+    parent.push(clone(value));
+  } else {
+    parent[last] = clone(value);
+  }
+}
+
+function removePath(item: Item, path: Path): void {
+  const parent = getPath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+  if (Array.isArray(parent) && typeof last === 'number') {
+    parent.splice(last, 1);
+  } else if (parent && typeof parent === 'object' && !(parent instanceof Set)) {
+    delete parent[last];
+  }
+}
+
+function compare(left: any, right: any, operator: string): boolean {
+  if (operator === '<>') {
+    return left === undefined || right === undefined || canonical(left) !== canonical(right);
+  }
+  if (left === undefined || right === undefined) {
+    return false;
+  }
+  if (operator === '=') {
+    return canonical(left) === canonical(right);
+  }
+
+  const comparable = (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  switch (operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    default: return left >= right;
+  }
+}
+
+function attributeType(value: any): string | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return 'NULL';
+  if (typeof value === 'string') return 'S';
+  if (typeof value === 'number' || typeof value === 'bigint') return 'N';
+  if (typeof value === 'boolean') return 'BOOL';
+  if (value instanceof Uint8Array) return 'B';
+  if (Array.isArray(value)) return 'L';
+  if (value instanceof Set) {
+    const first = value.values().next().value;
+    return typeof first === 'number' ? 'NS' : first instanceof Uint8Array ? 'BS' : 'SS';
+  }
+  return 'M';
+}
+
+function size(value: any): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length;
+  }
+  if (value instanceof Uint8Array) {
+    return value.byteLength;
+  }
+  if (value instanceof Set) {
+    return value.size;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length;
+  }
+  return undefined;
+}
+
+/**
+ * Expression attribute names and values of one request. DynamoDB rejects
+ * requests that define names or values no expression uses.
+ */
+class ExpressionContext {
+  private usedNames = new Set<string>();
+  private usedValues = new Set<string>();
+
+  constructor(private names: Record<string, string> = {}, private values: Record<string, any> = {}) {}
+
+  name(placeholder: string): string {
+    if (!(placeholder in this.names)) {
+      throw validationError(`An expression attribute name used in the document path is not defined; attribute name: ${placeholder}`);
+    }
+    this.usedNames.add(placeholder);
+    return this.names[placeholder];
+  }
+
+  value(placeholder: string): any {
+    if (!(placeholder in this.values)) {
+      throw validationError(`An expression attribute value used in expression is not defined; attribute value: ${placeholder}`);
+    }
+    this.usedValues.add(placeholder);
+    checkDefined({ [placeholder]: this.values[placeholder] });
+    return this.values[placeholder];
+  }
+
+  checkAllUsed(): void {
+    const unusedNames = Object.keys(this.names).filter(name => !this.usedNames.has(name));
+    if (unusedNames.length > 0) {
+      throw validationError(`Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(', ')}}`);
+    }
+    const unusedValues = Object.keys(this.values).filter(value => !this.usedValues.has(value));
+    if (unusedValues.length > 0) {
+      throw validationError(`Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(', ')}}`);
+    }
+  }
+}
+
+/**
+ * Recursive descent parser for DynamoDB expressions. Expressions compile to
+ * functions of the item they are evaluated against.
+ */
+class ExpressionParser {
+  private tokens: { kind: 'name' | 'value' | 'word' | 'number' | 'symbol'; text: string }[] = [];
+
+  private position = 0;
+
+  constructor(private expression: string, private context: ExpressionContext) {
+    let index = 0;
+    while (index < expression.length) {
+      if (/^\s*$/.test(expression.slice(index))) {
+        break;
+      }
+      TOKEN_PATTERN.lastIndex = index;
+      const match = TOKEN_PATTERN.exec(expression);
+      if (!match) {
+        throw validationError(`Invalid expression: Syntax error; token: "${expression.slice(index).trim().charAt(0)}", near: "${expression}"`);
+      }
+      const kinds = ['name', 'value', 'word', 'number', 'symbol'] as const;
+      const group = [1, 2, 3, 4, 5].find(n => match[n] !== undefined)!;
+      this.tokens.push({ kind: kinds[group - 1], text: match[group] });
+      index = TOKEN_PATTERN.lastIndex;
+    }
+  }
+
+  parseCondition(): Condition {
+    const condition = this.parseOr();
+    this.expectEnd();
+    return condition;
+  }
+
+  parseUpdate(): UpdateAction[] {
+    const actions: UpdateAction[] = [];
+    const clauses = new Set<string>();
+
+    while (this.peek()) {
+      const clause = this.next().text.toUpperCase();
+      if (!['SET', 'REMOVE', 'ADD', 'DELETE'].includes(clause) || clauses.has(clause)) {
+        throw this.syntaxError(clause);
+      }
+      clauses.add(clause);
+
+      do {
+        const path = this.parsePath();
+        if (clause === 'SET') {
+          this.expect('=');
+          actions.push({ action: 'SET', path, value: this.parseSetValue() });
+        } else if (clause === 'REMOVE') {
+          actions.push({ action: 'REMOVE', path });
+        } else {
+          actions.push({ action: clause as 'ADD' | 'DELETE', path, value: this.parseValue() });
+        }
+      } while (this.accept(','));
+    }
+
+    return actions;
+  }
+
+  parseProjection(): Path[] {
+    const paths = [this.parsePath()];
+    while (this.accept(',')) {
+      paths.push(this.parsePath());
+    }
+    this.expectEnd();
+    return paths;
+  }
+
+  private peek(offset = 0) {
+    return this.tokens[this.position + offset];
+  }
+
+  private next() {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw validationError(`Invalid expression: Syntax error; token: <EOF>, near: "${this.expression}"`);
+    }
+    return token;
+  }
+
+  private isWord(text: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'word' && token.text.toUpperCase() === text;
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if (token && (token.kind === 'symbol' ? token.text === text : this.isWord(text))) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) {
+      throw this.syntaxError(this.peek()?.text ?? '<EOF>');
+    }
+  }
+
+  private expectEnd(): void {
+    if (this.peek()) {
+      throw this.syntaxError(this.peek().text);
+    }
+  }
+
+  private syntaxError(token: string): Error {
+    return validationError(`Invalid expression: Syntax error; token: "${token}", near: "${this.expression}"`);
+  }
+
+  private isFunction(name: string): boolean {
+    return this.peek()?.kind === 'word' && this.peek().text === name && this.peek(1)?.text === '(';
+  }
+
+  private parsePath(): Path {
+    const nameSegment = () => {
+      const token = this.next();
+      if (token.kind === 'name') {
+        return this.context.name(token.text);
+      }
+      if (token.kind === 'word') {
+        return token.text;
+      }
+      throw this.syntaxError(token.text);
+    };
+
+    const path: Path = [nameSegment()];
+    for (;;) {
+      if (this.accept('.')) {
+        path.push(nameSegment());
+      } else if (this.accept('[')) {
+        const token = this.next();
+        if (token.kind !== 'number') {
+          throw this.syntaxError(token.text);
+        }
+        path.push(Number(token.text));
+        this.expect(']');
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private parseValue(): Operand {
+    const token = this.next();
+    if (token.kind !== 'value') {
+      throw this.syntaxError(token.text);
+    }
+    const value = this.context.value(token.text);
+    return () => value;
+  }
+
+  private parseOperand(): Operand {
+    if (this.peek()?.kind === 'value') {
+      return this.parseValue();
+    }
+    if (this.isFunction('size')) {
+      this.position += 2;
+      const path = this.parsePath();
+      this.expect(')');
+      return item => size(getPath(item, path));
+    }
+    const path = this.parsePath();
+    return item => getPath(item, path);
+  }
+
+  private parseOr(): Condition {
+    let condition = this.parseAnd();
+    while (this.accept('OR')) {
+      const left = condition;
+      const right = this.parseAnd();
+      condition = item => left(item) || right(item);
+    }
+    return condition;
+  }
+
+  private parseAnd(): Condition {
+    let condition = this.parseNot();
+    while (this.accept('AND')) {
+      const left = condition;
+      const right = this.parseNot();
+      condition = item => left(item) && right(item);
+    }
+    return condition;
+  }
+
+  private parseNot(): Condition {
+    if (this.accept('NOT')) {
+      const condition = this.parseNot();
+      return item => !condition(item);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Condition {
+    if (this.accept('(')) {
+      const condition = this.parseOr();
+      this.expect(')');
+      return condition;
+    }
+
+    for (const name of ['attribute_exists', 'attribute_not_exists']) {
+      if (this.isFunction(name)) {
+        this.position += 2;
+        const path = this.parsePath();
+        this.expect(')');
+        return name === 'attribute_exists'
+          ? item => getPath(item, path) !== undefined
+          : item => getPath(item, path) === undefined;
+      }
+    }
+
+    if (this.isFunction('attribute_type')) {
+      this.position += 2;
+      const path = this.parsePath();
+      this.expect(',');
+      const type = this.parseValue();
+      this.expect(')');
+      return item => attributeType(getPath(item, path)) === type(item);
+    }
+
+    for (const name of ['begins_with', 'contains']) {
+      if (this.isFunction(name)) {
+        this.position += 2;
+        const left = this.parseOperand();
+        this.expect(',');
+        const right = this.parseOperand();
+        this.expect(')');
+        return name === 'begins_with'
+          ? item => {
+            const [value, prefix] = [left(item), right(item)];
+            return typeof value === 'string' && typeof prefix === 'string' && value.startsWith(prefix);
+          }
+          : item => {
+            const [value, member] = [left(item), right(item)];
+            if (typeof value === 'string') {
+              return typeof member === 'string' && value.includes(member);
+            }
+            if (value instanceof Set || Array.isArray(value)) {
+              return Array.from(value).some(entry => canonical(entry) === canonical(member));
+            }
+            return false;
+          };
+      }
+    }
+
+    const left = this.parseOperand();
+
+    if (this.accept('BETWEEN')) {
+      const low = this.parseOperand();
+      this.expect('AND');
+      const high = this.parseOperand();
+      return item => compare(left(item), low(item), '>=') && compare(left(item), high(item), '<=');
+    }
+
+    if (this.accept('IN')) {
+      this.expect('(');
+      const candidates = [this.parseOperand()];
+      while (this.accept(',')) {
+        candidates.push(this.parseOperand());
+      }
+      this.expect(')');
+      return item => candidates.some(candidate => compare(left(item), candidate(item), '='));
+    }
+
+    const operator = this.next();
+    if (operator.kind !== 'symbol' || !['=', '<>', '<', '<=', '>', '>='].includes(operator.text)) {
+      throw this.syntaxError(operator.text);
+    }
+    const right = this.parseOperand();
+    return item => compare(left(item), right(item), operator.text);
+  }
+
+  private parseSetValue(): Operand {
+    const left = this.parseSetOperand();
+    const operator = this.peek()?.kind === 'symbol' && ['+', '-'].includes(this.peek().text) ? this.next().text : undefined;
+    if (!operator) {
+      return left;
+    }
+
+    const right = this.parseSetOperand();
+    return item => {
+      const [a, b] = [left(item), right(item)];
+      if (typeof a !== 'number' || typeof b !== 'number') {
+        throw validationError('An operand in the update expression has an incorrect data type');
+      }
+      return operator === '+' ? a + b : a - b;
+    };
+  }
+
+  private parseSetOperand(): Operand {
+    if (this.isFunction('if_not_exists')) {
+      this.position += 2;
+      const path = this.parsePath();
+      this.expect(',');
+      const fallback = this.parseSetOperand();
+      this.expect(')');
+      return item => {
+        const value = getPath(item, path);
+        return value !== undefined ? value : fallback(item);
+      };
+    }
+
+    if (this.isFunction('list_append')) {
+      this.position += 2;
+      const first = this.parseSetOperand();
+      this.expect(',');
+      const second = this.parseSetOperand();
+      this.expect(')');
+      return item => {
+        const [a, b] = [first(item), second(item)];
+        if (!Array.isArray(a) || !Array.isArray(b)) {
+          throw validationError('An operand in the update expression has an incorrect data type');
+        }
+        return [...a, ...b];
+      };
+    }
+
+    return this.parseOperand();
+  }
+}
+
+/**
+ * Compile the expressions of one request, checking that every attribute
+ * name and value it defines is used
+ */
+function compileExpressions(input: any, expressions: {
+  condition?: string;
+  update?: string;
+  projection?: string;
+  keyCondition?: string;
+  filter?: string;
+}) {
+  const context = new ExpressionContext(input.ExpressionAttributeNames, input.ExpressionAttributeValues);
+  const compiled = {
+    condition: expressions.condition ? new ExpressionParser(expressions.condition, context).parseCondition() : undefined,
+    update: expressions.update ? new ExpressionParser(expressions.update, context).parseUpdate() : undefined,
+    keyCondition: expressions.keyCondition ? new ExpressionParser(expressions.keyCondition, context).parseCondition() : undefined,
+    filter: expressions.filter ? new ExpressionParser(expressions.filter, context).parseCondition() : undefined,
+    projection: expressions.projection ? new ExpressionParser(expressions.projection, context).parseProjection() : undefined
+  };
+  context.checkAllUsed();
+  return compiled;
+}
+
+function project(item: Item, paths: Path[] | undefined): Item {
+  if (!paths) {
+    return clone(item);
+  }
+
+  const projected: Item = {};
+  for (const path of paths) {
+    const value = getPath(item, path);
+    if (value === undefined) {
+      continue;
+    }
+    let target: any = projected;
+    path.forEach((segment, i) => {
+      if (i === path.length - 1) {
+        target[segment] = clone(value);
+      } else {
+        target[segment] = target[segment] ?? (typeof path[i + 1] === 'number' ? [] : {});
+        target = target[segment];
+      }
+    });
+  }
+  return projected;
+}
+
+function applyUpdate(existing: Item | undefined, key: Item, actions: UpdateAction[], keyAttributes: string[]): Item {
+  const before = clone(existing) ?? clone(key);
+  const item = clone(before);
+
+  for (const action of actions) {
+    if (keyAttributes.includes(action.path[0] as string)) {
+      throw validationError(`One or more parameter values were invalid: Cannot update attribute ${action.path[0]}. This attribute is part of the key`);
+    }
+  }
+
+  // Every operand is evaluated against the item as it was before the update
+  const resolved = actions.map(action => ({ ...action, resolvedValue: action.value?.(before) }));
+
+  for (const { action, path, resolvedValue } of resolved) {
+    const current = getPath(item, path);
+    if (action === 'SET') {
+      setPath(item, path, resolvedValue);
+    } else if (action === 'REMOVE') {
+      removePath(item, path);
+    } else if (action === 'ADD') {
+      if (typeof resolvedValue === 'number' && (current === undefined || typeof current === 'number')) {
+        setPath(item, path, (current ?? 0) + resolvedValue);
+      } else if (resolvedValue instanceof Set && (current === undefined || current instanceof Set)) {
+        setPath(item, path, new Set([...(current ?? []), ...resolvedValue]));
+      } else {
+        throw validationError('An operand in the update expression has an incorrect data type');
+      }
+    } else {
+      if (!(resolvedValue instanceof Set) || (current !== undefined && !(current instanceof Set))) {
+        throw validationError('An operand in the update expression has an incorrect data type');
+      }
+      if (current) {
+        const remaining = new Set(Array.from(current as Set<any>).filter(member => !resolvedValue.has(member)));
+        if (remaining.size > 0) {
+          setPath(item, path, remaining);
+        } else {
+          removePath(item, path);
+        }
+      }
+    }
+  }
+
+  return item;
+}
+
+export class InMemoryDocumentStore implements DocumentStore {
+  private tables = new Map<string, Table>();
+
+  private transactionTokens = new Map<string, { hash: string; expiresAt: number }>();
+
+  constructor(tables: TableDefinition[]) {
+    for (const definition of tables) {
+      this.tables.set(definition.tableName, { definition, items: new Map() });
+    }
+  }
+
+  async send(command: any): Promise<any> {
+    const input = command.input;
+
+    if (command instanceof GetCommand) {
+      return this.get(input);
+    }
+    if (command instanceof PutCommand || command instanceof UpdateCommand || command instanceof DeleteCommand) {
+      const operation = command instanceof PutCommand ? 'Put' : command instanceof UpdateCommand ? 'Update' : 'Delete';
+      return this.write(operation, input);
+    }
+    if (command instanceof QueryCommand) {
+      return this.query(input);
+    }
+    if (command instanceof ScanCommand) {
+      return this.scan(input);
+    }
+    if (command instanceof BatchGetCommand) {
+      return this.batchGet(input);
+    }
+    if (command instanceof BatchWriteCommand) {
+      return this.batchWrite(input);
+    }
+    if (command instanceof TransactWriteCommand) {
+      return this.transactWrite(input);
+    }
+
+    throw new Error(`${command?.constructor?.name} is not supported by the in-memory store`);
+  }
+
+  private getTable(tableName: string | undefined): Table {
+    const table = this.tables.get(tableName || '');
+    if (!table) {
+      throw dynamoError('ResourceNotFoundException', `Requested resource not found: Table: ${tableName} not found`);
+    }
+    return table;
+  }
+
+  private keyAttributes(table: Table): string[] {
+    const { partitionKey, sortKey } = table.definition;
+    return sortKey ? [partitionKey, sortKey] : [partitionKey];
+  }
+
+  private getKey(table: Table, item: Item): string {
+    return JSON.stringify(this.keyAttributes(table).map(attribute => {
+      const value = item?.[attribute];
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw validationError(`One or more parameter values were invalid: Missing the key ${attribute} in the item`);
+      }
+      return value;
+    }));
+  }
+
+  private pickKey(table: Table, item: Item): Item {
+    return Object.fromEntries(this.keyAttributes(table).map(attribute => [attribute, item[attribute]]));
+  }
+
+  private get(input: any) {
+    const table = this.getTable(input.TableName);
+    const { projection } = compileExpressions(input, { projection: input.ProjectionExpression });
+    const item = table.items.get(this.getKey(table, input.Key));
+    return { Item: item ? project(item, projection) : undefined };
+  }
+
+  /**
+   * Work out a Put, Update, Delete or ConditionCheck without storing it
+   */
+  private prepare(operation: 'Put' | 'Update' | 'Delete' | 'ConditionCheck', input: any): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    if (operation === 'Put') {
+      checkDefined(input.Item);
+    }
+
+    const key = this.getKey(table, operation === 'Put' ? input.Item : input.Key);
+    if (operation !== 'Put' && Object.keys(input.Key).length !== this.keyAttributes(table).length) {
+      throw validationError('The provided key element does not match the schema');
+    }
+
+    const { condition, update } = compileExpressions(input, {
+      condition: input.ConditionExpression,
+      update: operation === 'Update' ? input.UpdateExpression : undefined
+    });
+    const existing = table.items.get(key);
+    const prepared: PreparedWrite = {
+      table,
+      key,
+      existing,
+      write: operation !== 'ConditionCheck',
+      conditionFailed: condition ? !condition(existing ?? {}) : false,
+      returnOldOnFailure: input.ReturnValuesOnConditionCheckFailure === 'ALL_OLD'
+    };
+
+    if (prepared.conditionFailed || operation === 'ConditionCheck' || operation === 'Delete') {
+      return prepared;
+    }
+    if (operation === 'Put') {
+      return { ...prepared, next: clone(input.Item) };
+    }
+
+    try {
+      return { ...prepared, next: applyUpdate(existing, input.Key, update || [], this.keyAttributes(table)) };
+    } catch (error: any) {
+      return { ...prepared, error };
+    }
+  }
+
+  private commit(prepared: PreparedWrite): void {
+    if (!prepared.write) {
+      return;
+    }
+    if (prepared.next) {
+      prepared.table.items.set(prepared.key, prepared.next);
+    } else {
+      prepared.table.items.delete(prepared.key);
+    }
+  }
+
+  private write(operation: 'Put' | 'Update' | 'Delete', input: any) {
+    const prepared = this.prepare(operation, input);
+    if (prepared.conditionFailed) {
+      throw dynamoError('ConditionalCheckFailedException', 'The conditional request failed');
+    }
+    if (prepared.error) {
+      throw prepared.error;
+    }
+    this.commit(prepared);
+
+    switch (input.ReturnValues) {
+      case undefined:
+      case 'NONE':
+        return {};
+      case 'ALL_OLD':
+        return { Attributes: clone(prepared.existing) };
+      case 'ALL_NEW':
+        return { Attributes: clone(prepared.next) };
+      default:
+        throw new Error(`ReturnValues ${input.ReturnValues} is not supported by the in-memory store`);
+    }
+  }
+
+  /**
+   * Items of a table or index, sorted by the key they are read in
+   */
+  private readItems(input: any, keyCondition?: Condition): { items: Item[]; keyAttributes: string[] } {
+    const table = this.getTable(input.TableName);
+    let partitionKey = table.definition.partitionKey;
+    let sortKey = table.definition.sortKey;
+    const keyAttributes = this.keyAttributes(table);
+
+    if (input.IndexName) {
+      const index = table.definition.indexes?.find(candidate => candidate.indexName === input.IndexName);
+      if (!index) {
+        throw validationError(`The table does not have the specified index: ${input.IndexName}`);
+      }
+      ({ partitionKey, sortKey } = index);
+      keyAttributes.push(...[partitionKey, sortKey].filter((attribute): attribute is string => !!attribute && !keyAttributes.includes(attribute)));
+    }
+
+    // Indexes are sparse: items without the index key are not in the index
+    const items = Array.from(table.items.values())
+      .filter(item => item[partitionKey] !== undefined && (!sortKey || item[sortKey] !== undefined))
+      .filter(item => !keyCondition || keyCondition(item))
+      .sort((a, b) => compareKeyValues(a[partitionKey], b[partitionKey]) || (sortKey ? compareKeyValues(a[sortKey], b[sortKey]) : 0));
+
+    return { items, keyAttributes };
+  }
+
+  /**
+   * Apply ExclusiveStartKey, Limit, the filter and the projection to the
+   * items a read evaluates
+   */
+  private page(input: any, items: Item[], keyAttributes: string[], filter?: Condition, projection?: Path[]) {
+    let start = 0;
+    if (input.ExclusiveStartKey) {
+      const startKey = canonical(input.ExclusiveStartKey);
+      start = items.findIndex(item => canonical(Object.fromEntries(keyAttributes.map(name => [name, item[name]]))) === startKey) + 1;
+    }
+
+    const evaluated = input.Limit !== undefined ? items.slice(start, start + input.Limit) : items.slice(start);
+    const truncated = start + evaluated.length < items.length;
+    const matched = filter ? evaluated.filter(filter) : evaluated;
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      Items: input.Select === 'COUNT' ? undefined : matched.map(item => project(item, projection)),
+      Count: matched.length,
+      ScannedCount: evaluated.length,
+      LastEvaluatedKey: truncated && last ? Object.fromEntries(keyAttributes.map(name => [name, last[name]])) : undefined
+    };
+  }
+
+  private query(input: any) {
+    if (!input.KeyConditionExpression) {
+      throw validationError('Either the KeyConditions or KeyConditionExpression parameter must be specified in the request');
+    }
+    const { keyCondition, filter, projection } = compileExpressions(input, {
+      keyCondition: input.KeyConditionExpression,
+      filter: input.FilterExpression,
+      projection: input.ProjectionExpression
+    });
+
+    const { items, keyAttributes } = this.readItems(input, keyCondition);
+    if (input.ScanIndexForward === false) {
+      items.reverse();
+    }
+    return this.page(input, items, keyAttributes, filter, projection);
+  }
+
+  private scan(input: any) {
+    const { filter, projection } = compileExpressions(input, {
+      filter: input.FilterExpression,
+      projection: input.ProjectionExpression
+    });
+
+    let { items, keyAttributes } = this.readItems(input);
+    if (input.TotalSegments) {
+      const segmentOf = (item: Item) => createHash('md5').update(canonical(item[keyAttributes[0]])).digest().readUInt32BE(0) % input.TotalSegments;
+      items = items.filter(item => segmentOf(item) === input.Segment);
+    }
+    return this.page(input, items, keyAttributes, filter, projection);
+  }
+
+  private batchGet(input: any) {
+    const requests = Object.entries(input.RequestItems || {}) as [string, any][];
+    if (requests.reduce((total, [, request]) => total + request.Keys.length, 0) > MAX_BATCH_GET_KEYS) {
+      throw validationError('Too many items requested for the BatchGetItem call');
+    }
+
+    const responses: Record<string, Item[]> = {};
+    for (const [tableName, request] of requests) {
+      const table = this.getTable(tableName);
+      const { projection } = compileExpressions(request, { projection: request.ProjectionExpression });
+      responses[tableName] = request.Keys
+        .map((key: Item) => table.items.get(this.getKey(table, key)))
+        .filter((item: Item | undefined): item is Item => item !== undefined)
+        .map((item: Item) => project(item, projection));
+    }
+    return { Responses: responses, UnprocessedKeys: {} };
+  }
+
+  private batchWrite(input: any) {
+    const requests = Object.entries(input.RequestItems || {}) as [string, any[]][];
+    if (requests.reduce((total, [, tableRequests]) => total + tableRequests.length, 0) > MAX_BATCH_WRITE_ITEMS) {
+      throw validationError('Too many items requested for the BatchWriteItem call');
+    }
+
+    const prepared = requests.flatMap(([tableName, tableRequests]) => tableRequests.map(request => (
+      request.PutRequest
+        ? this.prepare('Put', { TableName: tableName, Item: request.PutRequest.Item })
+        : this.prepare('Delete', { TableName: tableName, Key: request.DeleteRequest.Key })
+    )));
+    prepared.forEach(write => this.commit(write));
+    return { UnprocessedItems: {} };
+  }
+
+  private transactWrite(input: any) {
+    const transactItems: any[] = input.TransactItems || [];
+    if (transactItems.length > MAX_TRANSACTION_ITEMS) {
+      throw validationError(`Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}`);
+    }
+
+    const now = Date.now();
+    const hash = createHash('sha256').update(canonical(transactItems)).digest('hex');
+    const token = input.ClientRequestToken ? this.transactionTokens.get(input.ClientRequestToken) : undefined;
+    if (token && token.expiresAt > now) {
+      if (token.hash !== hash) {
+        throw dynamoError('IdempotentParameterMismatchException', 'The request uses the same client token as a previous, but non-identical request');
+      }
+      return {};
+    }
+
+    const prepared = transactItems.map(transactItem => {
+      const [operation, operationInput] = Object.entries(transactItem)[0] as ['Put' | 'Update' | 'Delete' | 'ConditionCheck', any];
+      return this.prepare(operation, operationInput);
+    });
+
+    const targets = prepared.map(write => `${write.table.definition.tableName}|${write.key}`);
+    if (new Set(targets).size !== targets.length) {
+      throw validationError('Transaction request cannot include multiple operations on one item');
+    }
+
+    const reasons = prepared.map(write => {
+      if (write.conditionFailed) {
+        // Like DynamoDB, returned as attribute values: the document client
+        // does not convert errors
+        return {
+          Code: 'ConditionalCheckFailed',
+          Message: 'The conditional request failed',
+          ...(write.returnOldOnFailure && write.existing ? { Item: marshall(write.existing) } : {})
+        };
+      }
+      if (write.error) {
+        return { Code: 'ValidationError', Message: write.error.message };
+      }
+      return { Code: 'None' };
+    });
+    if (reasons.some(reason => reason.Code !== 'None')) {
+      throw dynamoError(
+        'TransactionCanceledException',
+        `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons.map(reason => reason.Code).join(', ')}]`,
+        { CancellationReasons: reasons }
+      );
+    }
+
+    prepared.forEach(write => this.commit(write));
+    if (input.ClientRequestToken) {
+      this.transactionTokens.set(input.ClientRequestToken, { hash, expiresAt: now + TRANSACTION_TOKEN_TTL_MS });
+    }
+    return {};
+  }
+}
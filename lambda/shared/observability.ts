@@ -0,0 +1,205 @@
+/**
+ * Structured logs and metrics for the Lambdas and the local pipeline.
+ *
+ * Every log line is a single JSON object. Fields set with withLogContext,
+ * such as the correlation ID of a request or the stream record being
+ * processed, are added to every line logged inside the callback, including
+ * by the services it calls, so no logger has to be passed around. The
+ * context follows async calls, so concurrently processed records keep
+ * their own fields.
+ *
+ * Metrics are written in CloudWatch Embedded Metric Format: log lines that
+ * CloudWatch Logs extracts into metrics, without API calls from the Lambda.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type MetricUnit = 'Count' | 'Milliseconds';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+export const METRICS_NAMESPACE = 'IoTSensorAggregator';
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Client-supplied IDs are only trusted when short and log-safe
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// EMF accepts at most 100 values per metric in one document
+const MAX_VALUES_PER_METRIC = 100;
+
+const logContext = new AsyncLocalStorage<Record<string, any>>();
+
+/**
+ * Run a function with fields added to every line it logs
+ */
+export function withLogContext<T>(fields: Record<string, any>, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+/**
+ * Fields of the enclosing withLogContext calls
+ */
+export function getLogContext(): Record<string, any> {
+  return logContext.getStore() || {};
+}
+
+/**
+ * Correlation ID of a request: the X-Correlation-Id header when the caller
+ * sent a usable one, otherwise the API Gateway request ID
+ */
+export function getCorrelationId(headers: Record<string, string | undefined> | null | undefined, requestId?: string): string {
+  const header = Object.entries(headers || {}).find(([name]) => name.toLowerCase() === CORRELATION_ID_HEADER.toLowerCase())?.[1];
+  if (header && CORRELATION_ID_PATTERN.test(header)) {
+    return header;
+  }
+  return requestId || randomUUID();
+}
+
+function isLogLevel(value: any): value is LogLevel {
+  return typeof value === 'string' && value in LOG_LEVELS;
+}
+
+/**
+ * Errors lose their message and stack in JSON.stringify
+ */
+function serializeField(value: any): any {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+export class Logger {
+  constructor(private level?: LogLevel) {}
+
+  debug(message: string, fields: Record<string, any> = {}): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields: Record<string, any> = {}): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields: Record<string, any> = {}): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields: Record<string, any> = {}): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: Record<string, any>): void {
+    const minimum = this.level || (isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info');
+    if (LOG_LEVELS[level] < LOG_LEVELS[minimum]) {
+      return;
+    }
+
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      function: process.env.AWS_LAMBDA_FUNCTION_NAME,
+      environment: process.env.ENVIRONMENT,
+      ...getLogContext(),
+      ...Object.fromEntries(Object.entries(fields).map(([name, value]) => [name, serializeField(value)]))
+    });
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+export const logger = new Logger();
+
+interface MetricSet {
+  dimensions: Record<string, string>;
+  metrics: Map<string, { unit: MetricUnit; values: number[] }>;
+}
+
+export interface MetricsConfig {
+  namespace?: string;
+  dimensions?: Record<string, string>; // Added to every metric, e.g. Environment
+}
+
+/**
+ * Collects metrics during an invocation and writes them as EMF documents,
+ * one per set of dimensions, on flush. Counts are summed; durations keep
+ * every value, so CloudWatch can compute percentiles.
+ */
+export class Metrics {
+  private sets = new Map<string, MetricSet>();
+
+  constructor(private config: MetricsConfig = {}) {}
+
+  count(name: string, value = 1, dimensions: Record<string, string> = {}): void {
+    const metric = this.getMetric(name, 'Count', dimensions);
+    metric.values[0] = (metric.values[0] || 0) + value;
+  }
+
+  duration(name: string, ms: number, dimensions: Record<string, string> = {}): void {
+    this.getMetric(name, 'Milliseconds', dimensions).values.push(ms);
+  }
+
+  private getMetric(name: string, unit: MetricUnit, dimensions: Record<string, string>) {
+    const allDimensions = { ...this.config.dimensions, ...dimensions };
+    const key = JSON.stringify(Object.entries(allDimensions).sort(([a], [b]) => a.localeCompare(b)));
+
+    let set = this.sets.get(key);
+    if (!set) {
+      set = { dimensions: allDimensions, metrics: new Map() };
+      this.sets.set(key, set);
+    }
+
+    let metric = set.metrics.get(name);
+    if (!metric) {
+      metric = { unit, values: [] };
+      set.metrics.set(name, metric);
+    }
+    return metric;
+  }
+
+  /**
+   * Write the collected metrics and start over
+   */
+  flush(): void {
+    for (const { dimensions, metrics } of this.sets.values()) {
+      const chunks = Math.max(...Array.from(metrics.values()).map(metric => Math.ceil(metric.values.length / MAX_VALUES_PER_METRIC)));
+
+      for (let chunk = 0; chunk < chunks; chunk++) {
+        const values: Record<string, number | number[]> = {};
+        const definitions: { Name: string; Unit: MetricUnit }[] = [];
+
+        for (const [name, metric] of metrics) {
+          const chunkValues = metric.values.slice(chunk * MAX_VALUES_PER_METRIC, (chunk + 1) * MAX_VALUES_PER_METRIC);
+          if (chunkValues.length > 0) {
+            values[name] = chunkValues.length === 1 ? chunkValues[0] : chunkValues;
+            definitions.push({ Name: name, Unit: metric.unit });
+          }
+        }
+
+        console.log(JSON.stringify({
+          _aws: {
+            Timestamp: Date.now(),
+            CloudWatchMetrics: [{
+              Namespace: this.config.namespace || METRICS_NAMESPACE,
+              Dimensions: [Object.keys(dimensions)],
+              Metrics: definitions
+            }]
+          },
+          ...dimensions,
+          ...values
+        }));
+      }
+    }
+
+    this.sets.clear();
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Multi-metric readings: several measurements a sensor takes at the same
+ * time, e.g. temperature, humidity, CO2 and pressure, sent in one message.
+ *
+ * The stored event keeps them together in a `readings` map keyed by metric,
+ * each validated and converted by the schema of its type (see
+ * shared/sensor-types). Stream consumers expand the event into one reading
+ * per metric. Every metric is a series of its own, with the series id
+ * `${sensor_id}#${metric}` in place of the sensor_id, so aggregates,
+ * rollups, anomaly baselines and alert state are kept per metric.
+ */
+
+export interface MetricReading {
+  value: number; // In the canonical unit of the metric's type
+  unit?: string;
+  raw_value?: number; // Value and unit as sent, when converted
+  raw_unit?: string;
+  out_of_range?: boolean; // Outside the registered expected range
+}
+
+export const MAX_METRICS_PER_READING = 20;
+
+const SERIES_SEPARATOR = '#';
+
+/**
+ * Whether a sensor id or metric name can be part of a series id. Neither
+ * may contain the separator, or `a#b` with metric `c` and `a` with metric
+ * `b#c` would share a series.
+ */
+export function isValidSeriesPart(name: string): boolean {
+  return !name.includes(SERIES_SEPARATOR);
+}
+
+/**
+ * Series of a metric of a multi-metric sensor. Readings of a single type
+ * are their sensor's only series.
+ */
+export function getSeriesId(sensor_id: string, metric?: string): string {
+  return metric === undefined ? sensor_id : `${sensor_id}${SERIES_SEPARATOR}${metric}`;
+}
+
+/**
+ * Sensor of a series, given its metric
+ */
+export function getSeriesSensorId(series_id: string, metric?: string): string {
+  return metric === undefined ? series_id : series_id.slice(0, series_id.length - metric.length - 1);
+}
+
+/**
+ * One reading per metric of a multi-metric event, by metric name, each with
+ * its series id, its metric as the type and the metric's value and unit.
+ * Other events are returned as they are.
+ */
+export function expandReadings<T extends { sensor_id: string }>(event: T & { readings?: Record<string, MetricReading> }): T[] {
+  const { readings, ...rest } = event;
+  if (!readings || typeof readings !== 'object') {
+    return [event];
+  }
+
+  return Object.keys(readings).sort().map(metric => ({
+    ...rest,
+    ...readings[metric],
+    sensor_id: getSeriesId(event.sensor_id, metric),
+    type: metric,
+    metric
+  }) as unknown as T);
+}
+
+/**
+ * Rows of an event as the read API and exports return them: one per metric
+ * of a multi-metric event, under the sensor's own id with the metric named.
+ * Other events are returned as they are.
+ */
+export function expandMetricRows<T extends { sensor_id: string }>(event: T & { readings?: Record<string, MetricReading> }): T[] {
+  return expandReadings(event).map(row => ({ ...row, sensor_id: event.sensor_id }));
+}
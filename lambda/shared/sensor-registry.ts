@@ -0,0 +1,88 @@
+/**
+ * Sensor registry shared by the sensors CRUD API and the ingest Lambda.
+ *
+ * The registry is the source of truth for a sensor's type, unit and
+ * location. Ingest only accepts readings from registered, active sensors and
+ * stamps each stored event with the registered metadata, so aggregates and
+ * alert rules see the same type and location for every reading.
+ */
+import { BatchGetCommand, BatchGetCommandOutput } from '@aws-sdk/lib-dynamodb';
+import { DocumentStore } from './storage';
+
+export type SensorStatus = 'active' | 'decommissioned';
+
+export const SENSOR_STATUSES: SensorStatus[] = ['active', 'decommissioned'];
+
+export interface RegisteredSensor {
+  sensor_id: string;
+  type: string;
+  unit: string;
+  location: string;
+  owner: string;
+  expected_min?: number; // Readings outside the expected range are flagged
+  expected_max?: number;
+  offline_after_seconds?: number; // Overrides the offline threshold of the type, see shared/heartbeats
+  status: SensorStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SensorRegistryConfig {
+  docClient: DocumentStore;
+  tableName: string;
+  cacheTtlMs?: number;
+}
+
+// BatchGetItem accepts at most 100 keys per call
+const BATCH_GET_CHUNK_SIZE = 100;
+const DEFAULT_CACHE_TTL_MS = 60 * 1000;
+
+export class SensorRegistry {
+  private cache = new Map<string, { sensor: RegisteredSensor | undefined; expiresAt: number }>();
+
+  constructor(private config: SensorRegistryConfig) {}
+
+  /**
+   * Look up registered sensors by id. Unknown ids are missing from the
+   * result. Lookups, including misses, are cached briefly, so registry
+   * changes reach ingest within the cache TTL.
+   */
+  async getSensors(sensorIds: string[]): Promise<Map<string, RegisteredSensor>> {
+    const now = Date.now();
+    const sensors = new Map<string, RegisteredSensor>();
+    const missing: string[] = [];
+
+    for (const sensor_id of new Set(sensorIds)) {
+      const cached = this.cache.get(sensor_id);
+      if (cached && cached.expiresAt > now) {
+        if (cached.sensor) {
+          sensors.set(sensor_id, cached.sensor);
+        }
+      } else {
+        missing.push(sensor_id);
+      }
+    }
+
+    const expiresAt = now + (this.config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS);
+    for (let i = 0; i < missing.length; i += BATCH_GET_CHUNK_SIZE) {
+      let keys: Record<string, any>[] | undefined = missing.slice(i, i + BATCH_GET_CHUNK_SIZE).map(sensor_id => ({ sensor_id }));
+
+      while (keys && keys.length > 0) {
+        const result: BatchGetCommandOutput = await this.config.docClient.send(new BatchGetCommand({
+          RequestItems: { [this.config.tableName]: { Keys: keys } }
+        }));
+
+        for (const item of (result.Responses?.[this.config.tableName] || []) as RegisteredSensor[]) {
+          sensors.set(item.sensor_id, item);
+        }
+        keys = result.UnprocessedKeys?.[this.config.tableName]?.Keys;
+      }
+    }
+
+    for (const sensor_id of missing) {
+      this.cache.set(sensor_id, { sensor: sensors.get(sensor_id), expiresAt });
+    }
+
+    return sensors;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Per-type payload schemas: the canonical unit of each sensor type, the
+ * units a reading may be sent in, and the physically possible range.
+ *
+ * Readings are converted to the canonical unit at ingest, so stored events,
+ * aggregates and alert thresholds are always in canonical units. Types
+ * without a schema are accepted as sent.
+ */
+
+export interface SensorTypeSchema {
+  canonical_unit: string;
+  // Conversion from each accepted unit to the canonical unit
+  units: Record<string, (value: number) => number>;
+  // Physical bounds, in the canonical unit
+  min?: number;
+  max?: number;
+}
+
+export interface NormalizedReading {
+  value: number;
+  unit?: string;
+  raw_value?: number; // Set when the reading was converted
+  raw_unit?: string;
+}
+
+const identity = (value: number) => value;
+
+export const SENSOR_TYPE_SCHEMAS: Record<string, SensorTypeSchema> = {
+  temperature: {
+    canonical_unit: 'celsius',
+    units: {
+      celsius: identity,
+      fahrenheit: value => (value - 32) * 5 / 9,
+      kelvin: value => value - 273.15
+    },
+    min: -273.15
+  },
+  humidity: {
+    canonical_unit: 'percent',
+    units: { percent: identity },
+    min: 0,
+    max: 100
+  },
+  pressure: {
+    canonical_unit: 'hpa',
+    units: {
+      hpa: identity,
+      pa: value => value / 100,
+      kpa: value => value * 10,
+      bar: value => value * 1000,
+      psi: value => value * 68.94757293168,
+      inhg: value => value * 33.86388666
+    },
+    min: 0
+  },
+  co2: {
+    canonical_unit: 'ppm',
+    units: { ppm: identity },
+    min: 0,
+    max: 1000000
+  },
+  light: {
+    canonical_unit: 'lux',
+    units: { lux: identity },
+    min: 0
+  }
+};
+
+// Common spellings of the unit names above
+const UNIT_ALIASES: Record<string, string> = {
+  '°c': 'celsius',
+  c: 'celsius',
+  degc: 'celsius',
+  '°f': 'fahrenheit',
+  f: 'fahrenheit',
+  degf: 'fahrenheit',
+  k: 'kelvin',
+  '%': 'percent',
+  '%rh': 'percent',
+  mbar: 'hpa'
+};
+
+/**
+ * Resolve a unit name to its canonical spelling
+ */
+export function normalizeUnitName(unit: string): string {
+  const name = unit.trim().toLowerCase();
+  return UNIT_ALIASES[name] || name;
+}
+
+/**
+ * Check that a unit can be converted for a sensor type. Every unit is
+ * allowed for types without a schema.
+ */
+export function isAllowedUnit(type: string, unit: string): boolean {
+  const schema = SENSOR_TYPE_SCHEMAS[type];
+  return !schema || normalizeUnitName(unit) in schema.units;
+}
+
+/**
+ * Convert a reading to the canonical unit of its type and check it against
+ * the physical bounds. A reading without a unit is taken to be in the
+ * canonical unit already.
+ */
+export function normalizeReading(type: string, value: number, unit?: string): NormalizedReading {
+  const schema = SENSOR_TYPE_SCHEMAS[type];
+  if (!schema) {
+    return unit === undefined ? { value } : { value, unit };
+  }
+
+  const unitName = unit === undefined ? schema.canonical_unit : normalizeUnitName(unit);
+  const convert = schema.units[unitName];
+  if (!convert) {
+    throw new Error(
+      `Invalid unit. '${unit}' is not a ${type} unit; allowed: ${Object.keys(schema.units).join(', ')}`
+    );
+  }
+
+  const converted = convert(value);
+  if ((schema.min !== undefined && converted < schema.min) || (schema.max !== undefined && converted > schema.max)) {
+    throw new Error(
+      `Invalid value. ${value} ${unitName} is outside the physical range of ${type} ` +
+      `(${schema.min ?? '-∞'} to ${schema.max ?? '∞'} ${schema.canonical_unit})`
+    );
+  }
+
+  if (unitName === schema.canonical_unit) {
+    return { value, unit: schema.canonical_unit };
+  }
+  return { value: converted, unit: schema.canonical_unit, raw_value: value, raw_unit: unitName };
+}
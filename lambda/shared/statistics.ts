@@ -0,0 +1,162 @@
+/**
+ * Spread and percentile statistics shared by the aggregate writer and the
+ * query API.
+ *
+ * Variance is kept as shifted moments: every aggregate row fixes a `shift`
+ * (its first reading) and accumulates `sum_dev` = Σ(x - shift) and
+ * `sum_sq_dev` = Σ(x - shift)². Deviations from a nearby value stay small, so
+ * the sums avoid the cancellation of a plain sum of squares while still being
+ * updatable with DynamoDB `ADD`. Rows are combined with Chan's parallel
+ * algorithm.
+ *
+ * Percentiles come from a DDSketch: values are counted in logarithmic bins
+ * with a guaranteed relative error, stored as a map of bin index to count.
+ * Bins are plain counters, so sketches merge by adding counts and readings
+ * are removed by decrementing them.
+ */
+
+// Quantile estimates are within 1% of the true value
+export const SKETCH_RELATIVE_ACCURACY = 0.01;
+
+const GAMMA = (1 + SKETCH_RELATIVE_ACCURACY) / (1 - SKETCH_RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+// Values closer to zero than this are counted in the zero bin
+const MIN_INDEXABLE_VALUE = 1e-9;
+
+export const PERCENTILES = { p50: 0.5, p95: 0.95, p99: 0.99 } as const;
+
+export interface Sketch {
+  pos: Record<string, number>; // Bin index -> count for positive values
+  neg: Record<string, number>; // Bin index of |x| -> count for negative values
+  zero: number;
+}
+
+export interface Moments {
+  count: number;
+  shift: number;
+  sum_dev: number;
+  sum_sq_dev: number;
+}
+
+export type SketchBin = { store: 'pos' | 'neg'; index: string } | { store: 'zero' };
+
+export function emptySketch(): Sketch {
+  return { pos: {}, neg: {}, zero: 0 };
+}
+
+/**
+ * Bin a value falls into
+ */
+export function getSketchBin(value: number): SketchBin {
+  const magnitude = Math.abs(value);
+  if (magnitude < MIN_INDEXABLE_VALUE) {
+    return { store: 'zero' };
+  }
+
+  return {
+    store: value > 0 ? 'pos' : 'neg',
+    index: String(Math.ceil(Math.log(magnitude) / LOG_GAMMA))
+  };
+}
+
+/**
+ * Number of readings held in a sketch
+ */
+export function getSketchCount(sketch: Sketch): number {
+  const total = (bins: Record<string, number>) => Object.values(bins || {}).reduce((sum, count) => sum + count, 0);
+  return total(sketch.pos) + total(sketch.neg) + (sketch.zero || 0);
+}
+
+/**
+ * Combine two sketches built with the same accuracy
+ */
+export function mergeSketches(a: Sketch, b: Sketch): Sketch {
+  const mergeBins = (x: Record<string, number> = {}, y: Record<string, number> = {}) => {
+    const merged = { ...x };
+    for (const [index, count] of Object.entries(y)) {
+      merged[index] = (merged[index] || 0) + count;
+    }
+    return merged;
+  };
+
+  return {
+    pos: mergeBins(a.pos, b.pos),
+    neg: mergeBins(a.neg, b.neg),
+    zero: (a.zero || 0) + (b.zero || 0)
+  };
+}
+
+/**
+ * Estimate the q-quantile (0 <= q <= 1), or null for an empty sketch
+ */
+export function getSketchQuantile(sketch: Sketch, q: number): number | null {
+  const count = getSketchCount(sketch);
+  if (count <= 0) {
+    return null;
+  }
+
+  // Bins with a zero count are left behind when readings are removed
+  const sortedBins = (bins: Record<string, number> = {}) => Object.entries(bins)
+    .filter(([, binCount]) => binCount > 0)
+    .map(([index, binCount]) => ({ index: Number(index), count: binCount }))
+    .sort((x, y) => x.index - y.index);
+  const binValue = (index: number) => 2 * Math.pow(GAMMA, index) / (GAMMA + 1);
+
+  // Walk from the most negative value to the largest positive one
+  const ordered = [
+    ...sortedBins(sketch.neg).reverse().map(bin => ({ value: -binValue(bin.index), count: bin.count })),
+    { value: 0, count: sketch.zero || 0 },
+    ...sortedBins(sketch.pos).map(bin => ({ value: binValue(bin.index), count: bin.count }))
+  ];
+
+  // Nearest rank: the smallest value with at least q of the readings at or below it
+  const rank = Math.max(1, Math.ceil(q * count));
+  let seen = 0;
+  for (const bin of ordered) {
+    seen += bin.count;
+    if (seen >= rank) {
+      return bin.value;
+    }
+  }
+  return ordered[ordered.length - 1].value;
+}
+
+/**
+ * Combine the moments of two disjoint sets of readings (Chan et al.). The
+ * result keeps the shift of the first set.
+ */
+export function mergeMoments(a: Moments, b: Moments): Moments {
+  if (b.count === 0) {
+    return { ...a };
+  }
+  if (a.count === 0) {
+    return { ...b };
+  }
+
+  const count = a.count + b.count;
+  const meanA = a.sum_dev / a.count;
+  const meanB = b.shift - a.shift + b.sum_dev / b.count;
+  const delta = meanB - meanA;
+  const m2 = getSquaredDeviations(a) + getSquaredDeviations(b) + delta * delta * a.count * b.count / count;
+  const sum_dev = count * (meanA + delta * b.count / count);
+
+  return { count, shift: a.shift, sum_dev, sum_sq_dev: m2 + sum_dev * sum_dev / count };
+}
+
+/**
+ * Sum of squared deviations from the mean (Welford's M2)
+ */
+function getSquaredDeviations(moments: Moments): number {
+  return Math.max(0, moments.sum_sq_dev - moments.sum_dev * moments.sum_dev / moments.count);
+}
+
+/**
+ * Population variance of the readings, or null when there are none
+ */
+export function getVariance(moments: Moments): number | null {
+  if (moments.count <= 0) {
+    return null;
+  }
+  return getSquaredDeviations(moments) / moments.count;
+}
@@ -0,0 +1,101 @@
+/**
+ * Storage and secrets the ingest and aggregate services depend on.
+ *
+ * The services only send commands, so they accept anything with the `send`
+ * method of the AWS clients: the real clients in Lambda, a client pointed at
+ * DynamoDB Local, or the in-memory store (see memory-store.ts) for running
+ * the pipeline offline. Local backends are wired up by scripts/local-server.ts.
+ */
+import { CreateTableCommand, DescribeTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { GetSecretValueCommand, GetSecretValueCommandOutput, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { logger } from './observability';
+
+export type DocumentStore = Pick<DynamoDBDocumentClient, 'send'>;
+
+export type SecretStore = Pick<SecretsManagerClient, 'send'>;
+
+/**
+ * Key schema of a table, as far as the local backends need it
+ */
+export interface TableDefinition {
+  tableName: string;
+  partitionKey: string;
+  sortKey?: string;
+  indexes?: { indexName: string; partitionKey: string; sortKey?: string }[];
+}
+
+/**
+ * Document client for DynamoDB Local. Local ignores credentials, but the SDK
+ * still needs some to sign requests.
+ */
+export function createDynamoDBLocalClient(endpoint: string): DynamoDBDocumentClient {
+  const client = new DynamoDBClient({
+    endpoint,
+    region: process.env.AWS_REGION || 'local',
+    credentials: {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || 'local',
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || 'local'
+    }
+  });
+  return DynamoDBDocumentClient.from(client);
+}
+
+/**
+ * Create the tables that do not exist yet. Every key attribute is a string.
+ */
+export async function createTables(client: DynamoDBDocumentClient, tables: TableDefinition[]): Promise<void> {
+  for (const table of tables) {
+    try {
+      await client.send(new DescribeTableCommand({ TableName: table.tableName }));
+      continue;
+    } catch (error: any) {
+      if (error.name !== 'ResourceNotFoundException') {
+        throw error;
+      }
+    }
+
+    const keySchema = (partitionKey: string, sortKey?: string) => [
+      { AttributeName: partitionKey, KeyType: 'HASH' as const },
+      ...(sortKey ? [{ AttributeName: sortKey, KeyType: 'RANGE' as const }] : [])
+    ];
+    const attributes = new Set([table.partitionKey, table.sortKey]);
+    for (const index of table.indexes || []) {
+      attributes.add(index.partitionKey);
+      attributes.add(index.sortKey);
+    }
+
+    await client.send(new CreateTableCommand({
+      TableName: table.tableName,
+      BillingMode: 'PAY_PER_REQUEST',
+      KeySchema: keySchema(table.partitionKey, table.sortKey),
+      AttributeDefinitions: Array.from(attributes)
+        .filter((name): name is string => name !== undefined)
+        .map(name => ({ AttributeName: name, AttributeType: 'S' as const })),
+      GlobalSecondaryIndexes: table.indexes?.length
+        ? table.indexes.map(index => ({
+          IndexName: index.indexName,
+          KeySchema: keySchema(index.partitionKey, index.sortKey),
+          Projection: { ProjectionType: 'ALL' as const }
+        }))
+        : undefined
+    }));
+    logger.info('Created table', { table: table.tableName });
+  }
+}
+
+/**
+ * Secrets held in memory, keyed by secret ARN, for running without
+ * Secrets Manager
+ */
+export class StaticSecretStore implements SecretStore {
+  constructor(private secrets: Record<string, Record<string, any>>) {}
+
+  async send(command: GetSecretValueCommand): Promise<GetSecretValueCommandOutput> {
+    const secretId = command.input.SecretId || '';
+    if (!(secretId in this.secrets)) {
+      throw Object.assign(new Error(`Secret ${secretId} not found`), { name: 'ResourceNotFoundException' });
+    }
+    return { SecretString: JSON.stringify(this.secrets[secretId]), $metadata: {} };
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Simulated DynamoDB stream for local runs.
+ *
+ * Wraps a document store and, after every write that changes an item of the
+ * watched table, hands a NEW_AND_OLD_IMAGES stream record to the listener
+ * before the write returns. Running AggregateService.processRecord as the
+ * listener keeps the aggregates up to date synchronously, without a stream.
+ * Works with any backend, since the images are read back from the store.
+ */
+import { randomUUID } from 'crypto';
+import { DynamoDBRecord } from 'aws-lambda';
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import {
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  TransactWriteCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { DocumentStore } from './storage';
+import { logger } from './observability';
+
+// Item image as typed on Lambda stream records. The Lambda and SDK
+// AttributeValue types differ only in how binary values are typed.
+type StreamImage = NonNullable<NonNullable<DynamoDBRecord['dynamodb']>['Keys']>;
+
+export interface StreamFeedConfig {
+  store: DocumentStore;
+  tableName: string;
+  keyAttributes: string[]; // Partition key, then sort key
+  onRecord: (record: DynamoDBRecord) => Promise<void>;
+}
+
+export class StreamFeed implements DocumentStore {
+  private sequenceNumber = 0;
+
+  constructor(private config: StreamFeedConfig) {}
+
+  async send(command: any): Promise<any> {
+    const keys = this.getWrittenKeys(command);
+    if (keys.length === 0) {
+      return this.config.store.send(command);
+    }
+
+    const oldImages = await Promise.all(keys.map(key => this.getItem(key)));
+    const result = await this.config.store.send(command);
+    const newImages = await Promise.all(keys.map(key => this.getItem(key)));
+
+    for (let i = 0; i < keys.length; i++) {
+      const record = this.createRecord(keys[i], oldImages[i], newImages[i]);
+      if (!record) {
+        continue;
+      }
+
+      try {
+        await this.config.onRecord(record);
+      } catch (error) {
+        logger.error('Error processing stream record', { event_id: record.eventID, event_name: record.eventName, keys: keys[i], error });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Keys of the watched table's items a command writes
+   */
+  getWrittenKeys(command: any): Record<string, any>[] {
+    const input = command.input;
+    const { tableName } = this.config;
+
+    if (command instanceof PutCommand) {
+      return input.TableName === tableName ? [this.pickKey(input.Item)] : [];
+    }
+    if (command instanceof UpdateCommand || command instanceof DeleteCommand) {
+      return input.TableName === tableName ? [input.Key] : [];
+    }
+    if (command instanceof BatchWriteCommand) {
+      return (input.RequestItems?.[tableName] || []).map((request: any) => (
+        request.PutRequest ? this.pickKey(request.PutRequest.Item) : request.DeleteRequest.Key
+      ));
+    }
+    if (command instanceof TransactWriteCommand) {
+      return (input.TransactItems || [])
+        .map((transactItem: any) => transactItem.Put || transactItem.Update || transactItem.Delete)
+        .filter((operation: any) => operation?.TableName === tableName)
+        .map((operation: any) => operation.Key || this.pickKey(operation.Item));
+    }
+    return [];
+  }
+
+  private pickKey(item: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(this.config.keyAttributes.map(attribute => [attribute, item[attribute]]));
+  }
+
+  private async getItem(key: Record<string, any>): Promise<Record<string, any> | undefined> {
+    const result = await this.config.store.send(new GetCommand({
+      TableName: this.config.tableName,
+      Key: key,
+      ConsistentRead: true
+    }));
+    return result.Item;
+  }
+
+  /**
+   * Stream record for a change, or undefined when the item did not change;
+   * DynamoDB writes no record then either
+   */
+  private createRecord(
+    key: Record<string, any>,
+    oldImage: Record<string, any> | undefined,
+    newImage: Record<string, any> | undefined
+  ): DynamoDBRecord | undefined {
+    if (JSON.stringify(oldImage) === JSON.stringify(newImage)) {
+      return undefined;
+    }
+
+    const keys: Record<string, AttributeValue> = marshall(key);
+    const oldStreamImage: Record<string, AttributeValue> | undefined = oldImage ? marshall(oldImage) : undefined;
+    const newStreamImage: Record<string, AttributeValue> | undefined = newImage ? marshall(newImage) : undefined;
+
+    this.sequenceNumber++;
+    return {
+      eventID: randomUUID(),
+      eventName: !oldImage ? 'INSERT' : !newImage ? 'REMOVE' : 'MODIFY',
+      eventSource: 'aws:dynamodb',
+      awsRegion: 'local',
+      dynamodb: {
+        ApproximateCreationDateTime: Math.floor(Date.now() / 1000),
+        Keys: keys as StreamImage,
+        OldImage: oldStreamImage as StreamImage | undefined,
+        NewImage: newStreamImage as StreamImage | undefined,
+        SequenceNumber: String(this.sequenceNumber).padStart(21, '0'),
+        StreamViewType: 'NEW_AND_OLD_IMAGES'
+      }
+    };
+  }
+}
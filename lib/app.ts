@@ -0,0 +1,51 @@
+import { App } from 'aws-cdk-lib';
+import { IoTSensorAggregatorStack } from './iot-sensor-aggregator-stack';
+import { getStackName, loadStackConfig } from './config';
+
+/**
+ * Add a stack per environment to the CDK app. The environments come from the
+ * `environments` context, e.g. `cdk deploy --all -c environments=staging,prod`,
+ * or ENVIRONMENT (default dev); their overrides from the `stackConfig` context.
+ * Throws when two environments would deploy the same stack to the same account
+ * and region.
+ */
+export function addEnvironmentStacks(app: App): IoTSensorAggregatorStack[] {
+  const environments = String(app.node.tryGetContext('environments') || process.env.ENVIRONMENT || 'dev')
+    .split(',')
+    .map(environment => environment.trim())
+    .filter(environment => environment !== '');
+
+  // Per-environment overrides of the profiles in lib/config
+  const overrides = app.node.tryGetContext('stackConfig') || {};
+
+  // Stack names in use per account and region
+  const stackNames = new Map<string, string>();
+
+  return environments.map(environment => {
+    const config = loadStackConfig(environment, overrides[environment]);
+    const account = config.account || process.env.CDK_DEFAULT_ACCOUNT;
+    const region = config.region || process.env.CDK_DEFAULT_REGION || 'us-east-1';
+    const stackName = getStackName(config);
+
+    // Two environments under one stack name would replace each other's resources
+    const location = `${account ?? 'default account'}/${region}/${stackName}`;
+    if (stackNames.has(location)) {
+      throw new Error(
+        `Environments '${stackNames.get(location)}' and '${environment}' would both deploy stack ${stackName} to ${account ?? 'the default account'} in ${region}. ` +
+        'Set a distinct stackName for one of them under stackConfig in cdk.json'
+      );
+    }
+    stackNames.set(location, environment);
+
+    return new IoTSensorAggregatorStack(app, `IoTSensorAggregatorStack-${environment}`, {
+      config,
+      stackName,
+      env: { account, region },
+      description: `Serverless IoT Sensor Event Aggregator (${environment})`,
+      tags: {
+        Project: 'IoTSensorAggregator',
+        Environment: environment,
+      },
+    });
+  });
+}
@@ -0,0 +1,312 @@
+import { RetentionDays } from 'aws-cdk-lib/aws-logs';
+import { DEFAULT_ANOMALY_THRESHOLD } from '../lambda/shared/anomaly-detection';
+import { RESOLUTIONS, Resolution } from '../lambda/shared/buckets';
+import { LateReadingPolicy } from '../lambda/ingest/service';
+import { DEFAULT_OFFLINE_AFTER_SECONDS } from '../lambda/shared/heartbeats';
+import { DEFAULT_MONITORING_THRESHOLDS, MonitoringThresholds } from './monitoring';
+
+/**
+ * Deploy-time settings of one environment. Passed to the stack through its
+ * props; see loadStackConfig.
+ */
+export interface SensorStackConfig {
+  environment: string;
+  account?: string; // Defaults to CDK_DEFAULT_ACCOUNT
+  region?: string; // Defaults to CDK_DEFAULT_REGION, then us-east-1
+  stackName?: string; // CloudFormation stack name, defaults to IoTSensorAggregator-{environment}
+  removalPolicy: 'destroy' | 'retain'; // Tables, queues and log groups
+  pointInTimeRecovery: boolean; // Tables holding readings, aggregates and configuration
+  logRetentionDays: number; // One of the CloudWatch Logs retention periods
+  api: {
+    throttlingRateLimit: number; // Requests per second
+    throttlingBurstLimit: number;
+  };
+  lambdaMemoryMb: {
+    ingest: number;
+    mqttIngest: number;
+    aggregate: number;
+    query: number;
+    sensors: number;
+    rules: number;
+    alerts: number;
+    exports: number;
+    exportWorker: number;
+    backfill: number;
+    status: number;
+    heartbeatMonitor: number;
+  };
+  streams: {
+    aggregate: StreamConsumerConfig;
+    alerts: StreamConsumerConfig;
+  };
+  ingest: {
+    lateReadingWindowSeconds: number; // Readings older than this are flagged or rejected
+    lateReadingPolicy: LateReadingPolicy;
+    idempotencyWindowSeconds: number; // How long idempotency keys are remembered
+    maxSignatureAgeSeconds: number; // Signed requests further from server time are rejected
+    maxClockSkewSeconds: number; // Readings further ahead of server time are rejected
+    requireRegisteredSensors: boolean; // Reject readings of sensors missing from the registry; register them first
+    requireDeviceKeys: boolean; // Authenticate REST ingest with device keys; issue them first
+  };
+  cacheTtlSeconds: {
+    sensors: number; // Registry lookups in ingest
+    deviceKeys: number; // Device key lookups in ingest
+    rules: number; // Alert rules in the evaluator
+  };
+  aggregateResolutions: Resolution[];
+  exportRetentionDays: number;
+  anomaly: {
+    ewmaAlpha: number; // 0 < alpha <= 1
+    warmupReadings: number;
+    thresholds: Record<string, number>; // Score threshold by sensor type, with a 'default'
+  };
+  heartbeat: {
+    checkIntervalMinutes: number; // How often the monitor looks for silent sensors
+    offlineAfterSeconds: Record<string, number>; // Silence before offline by sensor type, with a 'default'
+  };
+  monitoring: {
+    enabled: boolean;
+    thresholds: MonitoringThresholds;
+    alarmEmail?: string; // Subscribed to the alarm topic
+  };
+}
+
+export interface StreamConsumerConfig {
+  batchSize: number;
+  maxBatchingWindowSeconds: number;
+}
+
+const DEV_CONFIG: SensorStackConfig = {
+  environment: 'dev',
+  removalPolicy: 'destroy',
+  pointInTimeRecovery: false,
+  logRetentionDays: 7,
+  api: { throttlingRateLimit: 100, throttlingBurstLimit: 200 },
+  lambdaMemoryMb: {
+    ingest: 256,
+    mqttIngest: 256,
+    aggregate: 512,
+    query: 256,
+    sensors: 256,
+    rules: 256,
+    alerts: 256,
+    exports: 256,
+    exportWorker: 1024,
+    backfill: 1024,
+    status: 256,
+    heartbeatMonitor: 256
+  },
+  streams: {
+    aggregate: { batchSize: 10, maxBatchingWindowSeconds: 5 },
+    alerts: { batchSize: 10, maxBatchingWindowSeconds: 1 }
+  },
+  ingest: {
+    lateReadingWindowSeconds: 86400,
+    lateReadingPolicy: 'flag',
+    idempotencyWindowSeconds: 86400,
+    maxSignatureAgeSeconds: 300,
+    maxClockSkewSeconds: 300,
+    // Off until an environment's sensors are registered and hold keys
+    requireRegisteredSensors: false,
+    requireDeviceKeys: false
+  },
+  cacheTtlSeconds: { sensors: 60, deviceKeys: 60, rules: 60 },
+  aggregateResolutions: ['minute', 'hour', 'day', 'month'],
+  exportRetentionDays: 7,
+  anomaly: {
+    ewmaAlpha: 0.05,
+    warmupReadings: 30,
+    thresholds: { default: DEFAULT_ANOMALY_THRESHOLD }
+  },
+  heartbeat: {
+    checkIntervalMinutes: 5,
+    offlineAfterSeconds: { default: DEFAULT_OFFLINE_AFTER_SECONDS }
+  },
+  monitoring: {
+    enabled: true,
+    thresholds: DEFAULT_MONITORING_THRESHOLDS.dev
+  }
+};
+
+export const STACK_CONFIG_PROFILES: Record<'dev' | 'staging' | 'prod', SensorStackConfig> = {
+  dev: DEV_CONFIG,
+  staging: {
+    ...DEV_CONFIG,
+    environment: 'staging',
+    pointInTimeRecovery: true,
+    logRetentionDays: 30,
+    api: { throttlingRateLimit: 500, throttlingBurstLimit: 1000 },
+    monitoring: { enabled: true, thresholds: DEFAULT_MONITORING_THRESHOLDS.staging }
+  },
+  prod: {
+    ...DEV_CONFIG,
+    environment: 'prod',
+    removalPolicy: 'retain',
+    pointInTimeRecovery: true,
+    logRetentionDays: 365,
+    api: { throttlingRateLimit: 1000, throttlingBurstLimit: 2000 },
+    lambdaMemoryMb: { ...DEV_CONFIG.lambdaMemoryMb, ingest: 512, mqttIngest: 512, aggregate: 1024 },
+    streams: {
+      aggregate: { batchSize: 25, maxBatchingWindowSeconds: 5 },
+      alerts: { batchSize: 25, maxBatchingWindowSeconds: 1 }
+    },
+    exportRetentionDays: 30,
+    monitoring: { enabled: true, thresholds: DEFAULT_MONITORING_THRESHOLDS.prod }
+  }
+};
+
+// Name the stack was deployed under before stacks were configured per
+// environment. cdk.json sets it as the stackName of the environment deployed
+// back then, so an upgrade updates that stack in place rather than creating a
+// second one next to it.
+export const LEGACY_STACK_NAME = 'IoTSensorAggregatorStack';
+
+// Objects whose keys are not fixed by the profile
+const OPEN_KEYS = ['anomaly.thresholds', 'heartbeat.offlineAfterSeconds'];
+// Settings a profile may leave unset
+const OPTIONAL_KEYS = ['account', 'region', 'stackName', 'monitoring.alarmEmail'];
+
+/**
+ * Configuration of an environment: the profile of dev, staging or prod (prod
+ * for any other environment), with overrides such as the environment's entry
+ * in the `stackConfig` context of cdk.json. Throws when the result is
+ * invalid, so a bad setting fails `cdk synth`.
+ */
+export function loadStackConfig(environment: string, overrides?: unknown): SensorStackConfig {
+  if (!/^[a-z][a-z0-9-]*$/.test(environment)) {
+    throw new Error(`Invalid environment '${environment}'. Expected lowercase letters, digits and dashes`);
+  }
+
+  const profile = environment === 'dev' || environment === 'staging'
+    ? STACK_CONFIG_PROFILES[environment]
+    : STACK_CONFIG_PROFILES.prod;
+  const config = merge(profile, overrides ?? {}, environment, '') as SensorStackConfig;
+  config.environment = environment;
+  validateStackConfig(config);
+  return config;
+}
+
+function merge(base: any, overrides: any, environment: string, path: string): any {
+  if (!isObject(overrides)) {
+    throw new Error(`Invalid stack configuration for '${environment}'. '${path || 'overrides'}' must be an object`);
+  }
+
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!(key in base) && !OPEN_KEYS.includes(path) && !OPTIONAL_KEYS.includes(keyPath)) {
+      throw new Error(`Invalid stack configuration for '${environment}'. Unknown setting '${keyPath}'`);
+    }
+    merged[key] = isObject(base[key]) && !OPEN_KEYS.includes(keyPath)
+      ? merge(base[key], value, environment, keyPath)
+      : value;
+  }
+  return merged;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const RETENTION_PERIODS = Object.values(RetentionDays).filter(value => typeof value === 'number');
+
+export function validateStackConfig(config: SensorStackConfig): void {
+  const fail = (path: string, expected: string): never => {
+    throw new Error(`Invalid stack configuration for '${config.environment}'. '${path}' must be ${expected}`);
+  };
+  const positive = (path: string, value: unknown, integer = false) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+      fail(path, integer ? 'a positive integer' : 'a positive number');
+    }
+  };
+  const optionalString = (path: string, value: unknown) => {
+    if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+      fail(path, 'a non-empty string');
+    }
+  };
+
+  optionalString('account', config.account);
+  optionalString('region', config.region);
+  if (config.stackName !== undefined && !/^[A-Za-z][A-Za-z0-9-]{0,127}$/.test(config.stackName)) {
+    fail('stackName', 'a CloudFormation stack name (letters, digits and dashes, starting with a letter)');
+  }
+  if (config.removalPolicy !== 'destroy' && config.removalPolicy !== 'retain') {
+    fail('removalPolicy', "'destroy' or 'retain'");
+  }
+  if (typeof config.pointInTimeRecovery !== 'boolean') {
+    fail('pointInTimeRecovery', 'true or false');
+  }
+  if (!RETENTION_PERIODS.includes(config.logRetentionDays)) {
+    fail('logRetentionDays', `one of ${RETENTION_PERIODS.join(', ')}`);
+  }
+
+  positive('api.throttlingRateLimit', config.api.throttlingRateLimit);
+  positive('api.throttlingBurstLimit', config.api.throttlingBurstLimit, true);
+
+  for (const [name, memory] of Object.entries(config.lambdaMemoryMb)) {
+    if (!Number.isInteger(memory) || memory < 128 || memory > 10240) {
+      fail(`lambdaMemoryMb.${name}`, 'an integer from 128 to 10240');
+    }
+  }
+
+  // Limits of DynamoDB stream event sources
+  for (const [name, stream] of Object.entries(config.streams)) {
+    if (!Number.isInteger(stream.batchSize) || stream.batchSize < 1 || stream.batchSize > 10000) {
+      fail(`streams.${name}.batchSize`, 'an integer from 1 to 10000');
+    }
+    if (!Number.isInteger(stream.maxBatchingWindowSeconds) || stream.maxBatchingWindowSeconds < 0 || stream.maxBatchingWindowSeconds > 300) {
+      fail(`streams.${name}.maxBatchingWindowSeconds`, 'an integer from 0 to 300');
+    }
+  }
+
+  if (!Array.isArray(config.aggregateResolutions) || config.aggregateResolutions.length === 0 ||
+    config.aggregateResolutions.some(resolution => !RESOLUTIONS.includes(resolution))) {
+    fail('aggregateResolutions', `a non-empty list of ${RESOLUTIONS.join(', ')}`);
+  }
+  positive('exportRetentionDays', config.exportRetentionDays, true);
+
+  positive('ingest.lateReadingWindowSeconds', config.ingest.lateReadingWindowSeconds, true);
+  if (config.ingest.lateReadingPolicy !== 'flag' && config.ingest.lateReadingPolicy !== 'reject') {
+    fail('ingest.lateReadingPolicy', "'flag' or 'reject'");
+  }
+  positive('ingest.idempotencyWindowSeconds', config.ingest.idempotencyWindowSeconds, true);
+  positive('ingest.maxSignatureAgeSeconds', config.ingest.maxSignatureAgeSeconds, true);
+  positive('ingest.maxClockSkewSeconds', config.ingest.maxClockSkewSeconds, true);
+  if (typeof config.ingest.requireRegisteredSensors !== 'boolean') {
+    fail('ingest.requireRegisteredSensors', 'true or false');
+  }
+  if (typeof config.ingest.requireDeviceKeys !== 'boolean') {
+    fail('ingest.requireDeviceKeys', 'true or false');
+  }
+  for (const [name, seconds] of Object.entries(config.cacheTtlSeconds)) {
+    positive(`cacheTtlSeconds.${name}`, seconds, true);
+  }
+
+  if (!(config.anomaly.ewmaAlpha > 0 && config.anomaly.ewmaAlpha <= 1)) {
+    fail('anomaly.ewmaAlpha', 'a number above 0 and at most 1');
+  }
+  positive('anomaly.warmupReadings', config.anomaly.warmupReadings, true);
+  for (const [type, threshold] of Object.entries(config.anomaly.thresholds)) {
+    positive(`anomaly.thresholds.${type}`, threshold);
+  }
+
+  positive('heartbeat.checkIntervalMinutes', config.heartbeat.checkIntervalMinutes, true);
+  for (const [type, seconds] of Object.entries(config.heartbeat.offlineAfterSeconds)) {
+    positive(`heartbeat.offlineAfterSeconds.${type}`, seconds, true);
+  }
+
+  if (typeof config.monitoring.enabled !== 'boolean') {
+    fail('monitoring.enabled', 'true or false');
+  }
+  for (const [name, threshold] of Object.entries(config.monitoring.thresholds)) {
+    positive(`monitoring.thresholds.${name}`, threshold);
+  }
+  optionalString('monitoring.alarmEmail', config.monitoring.alarmEmail);
+}
+
+/**
+ * CloudFormation stack name of an environment
+ */
+export function getStackName(config: SensorStackConfig): string {
+  return config.stackName ?? `IoTSensorAggregator-${config.environment}`;
+}
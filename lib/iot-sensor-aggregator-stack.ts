@@ -1,21 +1,45 @@
-import { CfnOutput, Duration, RemovalPolicy, Stack, StackProps } from 'aws-cdk-lib';
-import { AttributeType, BillingMode, StreamViewType, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Aws, CfnOutput, Duration, RemovalPolicy, Stack, StackProps } from 'aws-cdk-lib';
+import { AttributeType, BillingMode, ProjectionType, StreamViewType, Table } from 'aws-cdk-lib/aws-dynamodb';
 import { Runtime, StartingPosition } from 'aws-cdk-lib/aws-lambda';
-import { DynamoEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
-import {RequestValidator, Model, LambdaIntegration, RestApi, Cors, MethodLoggingLevel, JsonSchemaType } from 'aws-cdk-lib/aws-apigateway';
-import {PolicyStatement, Effect} from 'aws-cdk-lib/aws-iam';
+import { DynamoEventSource, SqsDlq, SqsEventSource } from 'aws-cdk-lib/aws-lambda-event-sources';
+import { Rule, Schedule } from 'aws-cdk-lib/aws-events';
+import { LambdaFunction } from 'aws-cdk-lib/aws-events-targets';
+import {RequestValidator, Model, LambdaIntegration, RestApi, Cors, MethodLoggingLevel, JsonSchemaType, AuthorizationType } from 'aws-cdk-lib/aws-apigateway';
+import {PolicyStatement, Effect, ManagedPolicy, Role, ServicePrincipal} from 'aws-cdk-lib/aws-iam';
+import { CfnPolicy, CfnTopicRule } from 'aws-cdk-lib/aws-iot';
+import { SqsDestination } from 'aws-cdk-lib/aws-lambda-destinations';
 import {LogGroup, RetentionDays}  from 'aws-cdk-lib/aws-logs';
+import { BlockPublicAccess, Bucket, BucketEncryption } from 'aws-cdk-lib/aws-s3';
 import { Secret } from 'aws-cdk-lib/aws-secretsmanager';
+import { Topic } from 'aws-cdk-lib/aws-sns';
+import { Queue, QueueEncryption } from 'aws-cdk-lib/aws-sqs';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import { Construct } from 'constructs';
 import { Tags } from 'aws-cdk-lib';
+import { SensorStackConfig, validateStackConfig } from './config';
+import { SensorMonitoring } from './monitoring';
+
+export interface IoTSensorAggregatorStackProps extends StackProps {
+  config: SensorStackConfig; // See lib/config
+}
 
 export class IoTSensorAggregatorStack extends Stack {
-  constructor(scope: Construct, id: string, props?: StackProps) {
+  constructor(scope: Construct, id: string, props: IoTSensorAggregatorStackProps) {
     super(scope, id, props);
 
-    // Environment variables
-    const environment = process.env.ENVIRONMENT || 'dev';
+    // Validated here so a bad value fails the deploy, not every invocation
+    const { config } = props;
+    validateStackConfig(config);
+    const environment = config.environment;
+    const aggregateResolutions = config.aggregateResolutions.join(',');
+    const anomalyThresholds = Object.entries(config.anomaly.thresholds)
+      .map(([type, threshold]) => `${type}=${threshold}`)
+      .join(',');
+    const offlineThresholds = Object.entries(config.heartbeat.offlineAfterSeconds)
+      .map(([type, seconds]) => `${type}=${seconds}`)
+      .join(',');
+    const removalPolicy = config.removalPolicy === 'retain' ? RemovalPolicy.RETAIN : RemovalPolicy.DESTROY;
+    const logRetention = config.logRetentionDays as RetentionDays;
     
     // Create Secrets Manager secret for configuration
     const appSecret = new Secret(this, 'AppSecret', {
@@ -44,8 +68,8 @@ export class IoTSensorAggregatorStack extends Stack {
       },
       billingMode: BillingMode.PAY_PER_REQUEST,
       stream: StreamViewType.NEW_AND_OLD_IMAGES,
-      pointInTimeRecovery: true,
-      removalPolicy: RemovalPolicy.DESTROY // For dev/test environments
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
     });
 
     const sensorAggregatesTable = new Table(this, 'SensorAggregatesTable', {
@@ -59,37 +83,652 @@ export class IoTSensorAggregatorStack extends Stack {
         type: AttributeType.STRING
       },
       billingMode: BillingMode.PAY_PER_REQUEST,
-      pointInTimeRecovery: true,
-      removalPolicy: RemovalPolicy.DESTROY // For dev/test environments
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    // Rollups across sensors: per location, per type and per location+type
+    const groupAggregatesTable = new Table(this, 'GroupAggregatesTable', {
+      tableName: `GroupAggregates-${environment}`,
+      partitionKey: {
+        name: 'group_key',
+        type: AttributeType.STRING
+      },
+      sortKey: {
+        name: 'hour_bucket',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    // Sensor registry: type, unit, location, owner and status of each device
+    const sensorsTable = new Table(this, 'SensorsTable', {
+      tableName: `Sensors-${environment}`,
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    // Per-device ingest credentials, issued and revoked through the sensors API
+    const deviceKeysTable = new Table(this, 'DeviceKeysTable', {
+      tableName: `DeviceKeys-${environment}`,
+      partitionKey: {
+        name: 'key_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    // Lists a sensor's keys; the secret is not projected
+    deviceKeysTable.addGlobalSecondaryIndex({
+      indexName: 'sensor-index',
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      projectionType: ProjectionType.INCLUDE,
+      nonKeyAttributes: ['status', 'created_at', 'revoked_at']
+    });
+
+    // Signatures of accepted signed ingest requests, so none is accepted
+    // twice; expired by TTL once outside the signature window
+    const deviceSignaturesTable = new Table(this, 'DeviceSignaturesTable', {
+      tableName: `DeviceSignatures-${environment}`,
+      partitionKey: {
+        name: 'signature_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy
+    });
+
+    // Responses to ingest requests by idempotency key, expired by TTL
+    const idempotencyTable = new Table(this, 'IngestIdempotencyTable', {
+      tableName: `IngestIdempotency-${environment}`,
+      partitionKey: {
+        name: 'idempotency_key',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy
+    });
+
+    // Stream records applied to the aggregates, so retries and redrives are
+    // not counted twice; expired by TTL once the DLQ has dropped them
+    const appliedRecordsTable = new Table(this, 'AppliedStreamRecordsTable', {
+      tableName: `AppliedStreamRecords-${environment}`,
+      partitionKey: {
+        name: 'record_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy
+    });
+
+    // Alert rules, keyed by rule id and looked up by scope for each reading
+    const alertRulesTable = new Table(this, 'AlertRulesTable', {
+      tableName: `AlertRules-${environment}`,
+      partitionKey: {
+        name: 'rule_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    alertRulesTable.addGlobalSecondaryIndex({
+      indexName: 'scope-index',
+      partitionKey: {
+        name: 'scope_key',
+        type: AttributeType.STRING
+      }
+    });
+
+    // Evaluation state of each rule per sensor (ok / pending / firing)
+    const alertRuleStateTable = new Table(this, 'AlertRuleStateTable', {
+      tableName: `AlertRuleState-${environment}`,
+      partitionKey: {
+        name: 'rule_id',
+        type: AttributeType.STRING
+      },
+      sortKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      removalPolicy
+    });
+
+    // Fired and resolved alerts per sensor, newest last
+    const alertsTable = new Table(this, 'AlertsTable', {
+      tableName: `Alerts-${environment}`,
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      sortKey: {
+        name: 'alert_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    alertsTable.addGlobalSecondaryIndex({
+      indexName: 'rule-index',
+      partitionKey: {
+        name: 'rule_id',
+        type: AttributeType.STRING
+      },
+      sortKey: {
+        name: 'fired_at',
+        type: AttributeType.STRING
+      }
+    });
+
+    // Rolling anomaly baseline (EWMA mean and variance) per sensor
+    const anomalyStateTable = new Table(this, 'AnomalyStateTable', {
+      tableName: `AnomalyState-${environment}`,
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      removalPolicy
+    });
+
+    // Readings flagged as anomalous, per sensor by reading time
+    const anomaliesTable = new Table(this, 'AnomaliesTable', {
+      tableName: `Anomalies-${environment}`,
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      sortKey: {
+        name: 'timestamp',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
+    });
+
+    // Export jobs and their status, expired by TTL with the exported files
+    const exportJobsTable = new Table(this, 'ExportJobsTable', {
+      tableName: `ExportJobs-${environment}`,
+      partitionKey: {
+        name: 'export_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expires_at',
+      removalPolicy
+    });
+
+    // Last reading time and online/offline status per sensor
+    const heartbeatsTable = new Table(this, 'SensorHeartbeatsTable', {
+      tableName: `SensorHeartbeats-${environment}`,
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      removalPolicy
+    });
+
+    // Online/offline transitions, per sensor by time of change
+    const statusTransitionsTable = new Table(this, 'SensorStatusTransitionsTable', {
+      tableName: `SensorStatusTransitions-${environment}`,
+      partitionKey: {
+        name: 'sensor_id',
+        type: AttributeType.STRING
+      },
+      sortKey: {
+        name: 'changed_at',
+        type: AttributeType.STRING
+      },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: config.pointInTimeRecovery,
+      removalPolicy
     });
 
     // Add tags to DynamoDB tables
     Tags.of(sensorEventsTable).add('Purpose', 'SensorEventStorage');
     Tags.of(sensorAggregatesTable).add('Purpose', 'SensorAggregateStorage');
+    Tags.of(groupAggregatesTable).add('Purpose', 'GroupAggregateStorage');
+    Tags.of(sensorsTable).add('Purpose', 'SensorRegistry');
+    Tags.of(deviceKeysTable).add('Purpose', 'DeviceCredentials');
+    Tags.of(deviceSignaturesTable).add('Purpose', 'DeviceSignatures');
+    Tags.of(idempotencyTable).add('Purpose', 'IngestIdempotency');
+    Tags.of(appliedRecordsTable).add('Purpose', 'AppliedStreamRecords');
+    Tags.of(alertRulesTable).add('Purpose', 'AlertRuleStorage');
+    Tags.of(alertRuleStateTable).add('Purpose', 'AlertRuleStateStorage');
+    Tags.of(alertsTable).add('Purpose', 'AlertStorage');
+    Tags.of(anomalyStateTable).add('Purpose', 'AnomalyStateStorage');
+    Tags.of(anomaliesTable).add('Purpose', 'AnomalyStorage');
+    Tags.of(exportJobsTable).add('Purpose', 'ExportJobStorage');
+    Tags.of(heartbeatsTable).add('Purpose', 'SensorHeartbeatStorage');
+    Tags.of(statusTransitionsTable).add('Purpose', 'SensorStatusTransitionStorage');
+
+    // SNS topic for fired and resolved alerts
+    const alertsTopic = new Topic(this, 'AlertsTopic', {
+      topicName: `iot-sensor-alerts-${environment}`,
+      displayName: 'IoT Sensor Alerts'
+    });
+
+    // Exported files, downloaded through presigned links. Retained with the
+    // stack removed, since they may be the only copy of expired history.
+    // Multipart uploads of failed runs are aborted after a day.
+    const exportsBucket = new Bucket(this, 'ExportsBucket', {
+      encryption: BucketEncryption.S3_MANAGED,
+      blockPublicAccess: BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      lifecycleRules: [{
+        prefix: 'exports/',
+        expiration: Duration.days(config.exportRetentionDays),
+        abortIncompleteMultipartUploadAfter: Duration.days(1)
+      }],
+      removalPolicy: RemovalPolicy.RETAIN
+    });
+    Tags.of(exportsBucket).add('Purpose', 'SensorDataExports');
+
+    // Export jobs queued by the exports API for the export worker. Messages
+    // are retried three times; the worker marks the job failed on the last.
+    const exportDlq = new Queue(this, 'ExportDeadLetterQueue', {
+      queueName: `iot-sensor-export-dlq-${environment}`,
+      retentionPeriod: Duration.days(14),
+      encryption: QueueEncryption.SQS_MANAGED,
+      removalPolicy
+    });
+
+    const exportQueue = new Queue(this, 'ExportQueue', {
+      queueName: `iot-sensor-export-${environment}`,
+      visibilityTimeout: Duration.minutes(20), // Longer than the worker timeout
+      encryption: QueueEncryption.SQS_MANAGED,
+      deadLetterQueue: { queue: exportDlq, maxReceiveCount: 3 },
+      removalPolicy
+    });
+
+    // MQTT readings that could not be ingested: rejected readings, failed
+    // invocations and topic rule errors
+    const mqttErrorQueue = new Queue(this, 'MqttErrorQueue', {
+      queueName: `iot-sensor-mqtt-errors-${environment}`,
+      retentionPeriod: Duration.days(14),
+      encryption: QueueEncryption.SQS_MANAGED,
+      removalPolicy
+    });
 
     // CloudWatch Log Groups
     const ingestLogGroup = new LogGroup(this, 'IngestLambdaLogGroup', {
       logGroupName: `/aws/lambda/iot-sensor-ingest-${environment}`,
-      retention: RetentionDays.ONE_WEEK,
-      removalPolicy: RemovalPolicy.DESTROY
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const mqttIngestLogGroup = new LogGroup(this, 'MqttIngestLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-mqtt-ingest-${environment}`,
+      retention: logRetention,
+      removalPolicy
     });
 
     const aggregateLogGroup = new LogGroup(this, 'AggregateLambdaLogGroup', {
       logGroupName: `/aws/lambda/iot-sensor-aggregate-${environment}`,
-      retention: RetentionDays.ONE_WEEK,
-      removalPolicy: RemovalPolicy.DESTROY
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const queryLogGroup = new LogGroup(this, 'QueryLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-query-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const sensorsLogGroup = new LogGroup(this, 'SensorsLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-sensors-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const rulesLogGroup = new LogGroup(this, 'RulesLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-rules-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const alertsLogGroup = new LogGroup(this, 'AlertsLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-alerts-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const exportsLogGroup = new LogGroup(this, 'ExportsLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-exports-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const exportWorkerLogGroup = new LogGroup(this, 'ExportWorkerLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-export-worker-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const backfillLogGroup = new LogGroup(this, 'BackfillLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-backfill-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const statusLogGroup = new LogGroup(this, 'StatusLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-status-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    const heartbeatMonitorLogGroup = new LogGroup(this, 'HeartbeatMonitorLambdaLogGroup', {
+      logGroupName: `/aws/lambda/iot-sensor-heartbeat-monitor-${environment}`,
+      retention: logRetention,
+      removalPolicy
+    });
+
+    // Registry checks and device authentication reject readings that were
+    // accepted without them, so each is switched on per environment once its
+    // sensors are registered and its devices hold keys
+    const registryEnvironment: Record<string, string> = config.ingest.requireRegisteredSensors
+      ? {
+        SENSORS_TABLE: sensorsTable.tableName,
+        SENSOR_CACHE_TTL_SECONDS: String(config.cacheTtlSeconds.sensors)
+      }
+      : {};
+    const deviceKeyEnvironment: Record<string, string> = config.ingest.requireDeviceKeys
+      ? {
+        DEVICE_KEYS_TABLE: deviceKeysTable.tableName,
+        DEVICE_KEY_CACHE_TTL_SECONDS: String(config.cacheTtlSeconds.deviceKeys),
+        DEVICE_SIGNATURES_TABLE: deviceSignaturesTable.tableName,
+        MAX_SIGNATURE_AGE_SECONDS: String(config.ingest.maxSignatureAgeSeconds)
+      }
+      : {};
+
+    // Lambda Functions
+    const ingestLambda = new NodejsFunction(this, 'IngestLambda', {
+      functionName: `iot-sensor-ingest-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/ingest/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(30),
+      memorySize: config.lambdaMemoryMb.ingest,
+      environment: {
+        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        ...registryEnvironment,
+        ...deviceKeyEnvironment,
+        IDEMPOTENCY_TABLE: idempotencyTable.tableName,
+        IDEMPOTENCY_WINDOW_SECONDS: String(config.ingest.idempotencyWindowSeconds),
+        MAX_CLOCK_SKEW_SECONDS: String(config.ingest.maxClockSkewSeconds),
+        LATE_READING_WINDOW_SECONDS: String(config.ingest.lateReadingWindowSeconds),
+        LATE_READING_POLICY: config.ingest.lateReadingPolicy,
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    // Ingests readings published over MQTT, through the same IngestService
+    const mqttIngestLambda = new NodejsFunction(this, 'MqttIngestLambda', {
+      functionName: `iot-sensor-mqtt-ingest-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/ingest/topic-rule.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(30),
+      memorySize: config.lambdaMemoryMb.mqttIngest,
+      environment: {
+        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        ...registryEnvironment,
+        IDEMPOTENCY_TABLE: idempotencyTable.tableName,
+        IDEMPOTENCY_WINDOW_SECONDS: String(config.ingest.idempotencyWindowSeconds),
+        MAX_CLOCK_SKEW_SECONDS: String(config.ingest.maxClockSkewSeconds),
+        LATE_READING_WINDOW_SECONDS: String(config.ingest.lateReadingWindowSeconds),
+        LATE_READING_POLICY: config.ingest.lateReadingPolicy,
+        MQTT_ERROR_QUEUE_URL: mqttErrorQueue.queueUrl,
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      // Invocations that still fail after Lambda's retries
+      retryAttempts: 2,
+      onFailure: new SqsDestination(mqttErrorQueue),
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const aggregateLambda = new NodejsFunction(this, 'AggregateLambda', {
+      functionName: `iot-sensor-aggregate-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/aggregate/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(60),
+      memorySize: config.lambdaMemoryMb.aggregate,
+      environment: {
+        SENSOR_AGGREGATES_TABLE: sensorAggregatesTable.tableName,
+        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        GROUP_AGGREGATES_TABLE: groupAggregatesTable.tableName,
+        AGGREGATE_RESOLUTIONS: aggregateResolutions,
+        ANOMALY_STATE_TABLE: anomalyStateTable.tableName,
+        ANOMALIES_TABLE: anomaliesTable.tableName,
+        ANOMALY_EWMA_ALPHA: String(config.anomaly.ewmaAlpha),
+        ANOMALY_WARMUP_READINGS: String(config.anomaly.warmupReadings),
+        ANOMALY_THRESHOLDS: anomalyThresholds,
+        HEARTBEATS_TABLE: heartbeatsTable.tableName,
+        STATUS_TRANSITIONS_TABLE: statusTransitionsTable.tableName,
+        APPLIED_RECORDS_TABLE: appliedRecordsTable.tableName,
+        MAX_RECORD_ATTEMPTS: '3',
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const queryLambda = new NodejsFunction(this, 'QueryLambda', {
+      functionName: `iot-sensor-query-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/query/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(30),
+      memorySize: config.lambdaMemoryMb.query,
+      environment: {
+        SENSOR_AGGREGATES_TABLE: sensorAggregatesTable.tableName,
+        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        ANOMALIES_TABLE: anomaliesTable.tableName,
+        GROUP_AGGREGATES_TABLE: groupAggregatesTable.tableName,
+        AGGREGATE_RESOLUTIONS: aggregateResolutions,
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const sensorsLambda = new NodejsFunction(this, 'SensorsLambda', {
+      functionName: `iot-sensor-sensors-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/sensors/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(30),
+      memorySize: config.lambdaMemoryMb.sensors,
+      environment: {
+        SENSORS_TABLE: sensorsTable.tableName,
+        DEVICE_KEYS_TABLE: deviceKeysTable.tableName,
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const rulesLambda = new NodejsFunction(this, 'RulesLambda', {
+      functionName: `iot-sensor-rules-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/rules/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(30),
+      memorySize: config.lambdaMemoryMb.rules,
+      environment: {
+        ALERT_RULES_TABLE: alertRulesTable.tableName,
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const alertsLambda = new NodejsFunction(this, 'AlertsLambda', {
+      functionName: `iot-sensor-alerts-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/alerts/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(60),
+      memorySize: config.lambdaMemoryMb.alerts,
+      environment: {
+        ALERT_RULES_TABLE: alertRulesTable.tableName,
+        ALERT_RULE_STATE_TABLE: alertRuleStateTable.tableName,
+        ALERTS_TABLE: alertsTable.tableName,
+        ALERTS_TOPIC_ARN: alertsTopic.topicArn,
+        RULE_CACHE_TTL_SECONDS: String(config.cacheTtlSeconds.rules),
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const exportsLambda = new NodejsFunction(this, 'ExportsLambda', {
+      functionName: `iot-sensor-exports-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/exports/index.ts',
+      handler: 'handler',
+      timeout: Duration.seconds(30),
+      memorySize: config.lambdaMemoryMb.exports,
+      environment: {
+        EXPORT_JOBS_TABLE: exportJobsTable.tableName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+        EXPORT_QUEUE_URL: exportQueue.queueUrl,
+        AGGREGATE_RESOLUTIONS: aggregateResolutions,
+        EXPORT_URL_TTL_SECONDS: '3600',
+        EXPORT_RETENTION_DAYS: String(config.exportRetentionDays),
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    const exportWorkerLambda = new NodejsFunction(this, 'ExportWorkerLambda', {
+      functionName: `iot-sensor-export-worker-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/exports/worker.ts',
+      handler: 'handler',
+      timeout: Duration.minutes(15),
+      memorySize: config.lambdaMemoryMb.exportWorker,
+      environment: {
+        EXPORT_JOBS_TABLE: exportJobsTable.tableName,
+        EXPORTS_BUCKET: exportsBucket.bucketName,
+        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        SENSOR_AGGREGATES_TABLE: sensorAggregatesTable.tableName,
+        EXPORT_MAX_ROWS_PER_FILE: '100000',
+        EXPORT_MAX_ATTEMPTS: '3',
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
+    });
+
+    // Rebuilds aggregates from raw events; invoked directly, see `npm run backfill`
+    const backfillLambda = new NodejsFunction(this, 'BackfillLambda', {
+      functionName: `iot-sensor-backfill-${environment}`,
+      runtime: Runtime.NODEJS_18_X,
+      entry: 'lambda/aggregate/backfill-job.ts',
+      handler: 'handler',
+      timeout: Duration.minutes(15),
+      memorySize: config.lambdaMemoryMb.backfill,
+      environment: {
+        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        SENSOR_AGGREGATES_TABLE: sensorAggregatesTable.tableName,
+        SENSORS_TABLE: sensorsTable.tableName,
+        AGGREGATE_RESOLUTIONS: aggregateResolutions,
+        SECRET_ARN: appSecret.secretArn,
+        ENVIRONMENT: environment
+      },
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        target: 'es2020',
+        externalModules: ['aws-sdk']
+      }
     });
 
-    // Lambda Functions
-    const ingestLambda = new NodejsFunction(this, 'IngestLambda', {
-      functionName: `iot-sensor-ingest-${environment}`,
+    // Fleet connectivity behind GET /sensors/status
+    const statusLambda = new NodejsFunction(this, 'StatusLambda', {
+      functionName: `iot-sensor-status-${environment}`,
       runtime: Runtime.NODEJS_18_X,
-      entry: 'lambda/ingest/index.ts',
+      entry: 'lambda/heartbeat/index.ts',
       handler: 'handler',
       timeout: Duration.seconds(30),
-      memorySize: 256,
+      memorySize: config.lambdaMemoryMb.status,
       environment: {
-        SENSOR_EVENTS_TABLE: sensorEventsTable.tableName,
+        HEARTBEATS_TABLE: heartbeatsTable.tableName,
+        STATUS_TRANSITIONS_TABLE: statusTransitionsTable.tableName,
+        SENSORS_TABLE: sensorsTable.tableName,
+        OFFLINE_THRESHOLDS: offlineThresholds,
         SECRET_ARN: appSecret.secretArn,
         ENVIRONMENT: environment
       },
@@ -101,15 +740,19 @@ export class IoTSensorAggregatorStack extends Stack {
       }
     });
 
-    const aggregateLambda = new NodejsFunction(this, 'AggregateLambda', {
-      functionName: `iot-sensor-aggregate-${environment}`,
+    // Marks silent sensors offline; invoked on a schedule
+    const heartbeatMonitorLambda = new NodejsFunction(this, 'HeartbeatMonitorLambda', {
+      functionName: `iot-sensor-heartbeat-monitor-${environment}`,
       runtime: Runtime.NODEJS_18_X,
-      entry: 'lambda/aggregate/index.ts',
+      entry: 'lambda/heartbeat/monitor.ts',
       handler: 'handler',
-      timeout: Duration.seconds(60),
-      memorySize: 512,
+      timeout: Duration.minutes(2),
+      memorySize: config.lambdaMemoryMb.heartbeatMonitor,
       environment: {
-        SENSOR_AGGREGATES_TABLE: sensorAggregatesTable.tableName,
+        HEARTBEATS_TABLE: heartbeatsTable.tableName,
+        STATUS_TRANSITIONS_TABLE: statusTransitionsTable.tableName,
+        SENSORS_TABLE: sensorsTable.tableName,
+        OFFLINE_THRESHOLDS: offlineThresholds,
         SECRET_ARN: appSecret.secretArn,
         ENVIRONMENT: environment
       },
@@ -123,28 +766,172 @@ export class IoTSensorAggregatorStack extends Stack {
 
     // Associate Lambda functions with their log groups
     ingestLambda.node.addDependency(ingestLogGroup);
+    mqttIngestLambda.node.addDependency(mqttIngestLogGroup);
     aggregateLambda.node.addDependency(aggregateLogGroup);
+    queryLambda.node.addDependency(queryLogGroup);
+    sensorsLambda.node.addDependency(sensorsLogGroup);
+    rulesLambda.node.addDependency(rulesLogGroup);
+    alertsLambda.node.addDependency(alertsLogGroup);
+    exportsLambda.node.addDependency(exportsLogGroup);
+    exportWorkerLambda.node.addDependency(exportWorkerLogGroup);
+    backfillLambda.node.addDependency(backfillLogGroup);
+    statusLambda.node.addDependency(statusLogGroup);
+    heartbeatMonitorLambda.node.addDependency(heartbeatMonitorLogGroup);
+
+    // Dead-letter queue for stream records that still fail after their
+    // attempts. The aggregate Lambda sends each such record with its keys and
+    // images; batches whose invocation failed as a whole (e.g. timed out)
+    // arrive as shard and sequence numbers. Both are replayed with
+    // `npm run redrive`.
+    const aggregateDlq = new Queue(this, 'AggregateDeadLetterQueue', {
+      queueName: `iot-sensor-aggregate-dlq-${environment}`,
+      retentionPeriod: Duration.days(14),
+      encryption: QueueEncryption.SQS_MANAGED,
+      removalPolicy
+    });
+    aggregateLambda.addEnvironment('AGGREGATE_DLQ_URL', aggregateDlq.queueUrl);
+    aggregateDlq.grantSendMessages(aggregateLambda);
 
     // DynamoDB Stream Event Source for Aggregate Lambda
     aggregateLambda.addEventSource(
       new DynamoEventSource(sensorEventsTable, {
         startingPosition: StartingPosition.LATEST,
-        batchSize: 10,
-        maxBatchingWindow: Duration.seconds(5),
-        retryAttempts: 3
+        batchSize: config.streams.aggregate.batchSize,
+        maxBatchingWindow: Duration.seconds(config.streams.aggregate.maxBatchingWindowSeconds),
+        retryAttempts: 3,
+        reportBatchItemFailures: true,
+        bisectBatchOnError: true,
+        onFailure: new SqsDlq(aggregateDlq)
+      })
+    );
+
+    // Dead-letter queue for alert evaluations that still fail after their
+    // retries, so the stream moves on. Lambda sends the shard and sequence
+    // number range of each failed batch.
+    const alertsDlq = new Queue(this, 'AlertsDeadLetterQueue', {
+      queueName: `iot-sensor-alerts-dlq-${environment}`,
+      retentionPeriod: Duration.days(14),
+      encryption: QueueEncryption.SQS_MANAGED,
+      removalPolicy
+    });
+
+    // Second stream consumer: alert rules are evaluated on every reading
+    alertsLambda.addEventSource(
+      new DynamoEventSource(sensorEventsTable, {
+        startingPosition: StartingPosition.LATEST,
+        batchSize: config.streams.alerts.batchSize,
+        maxBatchingWindow: Duration.seconds(config.streams.alerts.maxBatchingWindowSeconds),
+        retryAttempts: 3,
+        reportBatchItemFailures: true,
+        bisectBatchOnError: true,
+        onFailure: new SqsDlq(alertsDlq)
+      })
+    );
+
+    // Silence arrives on no stream, so offline sensors are found on a schedule
+    new Rule(this, 'HeartbeatMonitorSchedule', {
+      ruleName: `iot-sensor-heartbeat-monitor-${environment}`,
+      description: 'Marks sensors offline once they have been silent for longer than their threshold',
+      schedule: Schedule.rate(Duration.minutes(config.heartbeat.checkIntervalMinutes)),
+      targets: [new LambdaFunction(heartbeatMonitorLambda, { retryAttempts: 0 })]
+    });
+
+    // One export job per invocation
+    exportWorkerLambda.addEventSource(
+      new SqsEventSource(exportQueue, {
+        batchSize: 1,
+        reportBatchItemFailures: true
       })
     );
 
     // IAM Permissions
     // Ingest Lambda permissions
     sensorEventsTable.grantWriteData(ingestLambda);
+    if (config.ingest.requireRegisteredSensors) {
+      sensorsTable.grantReadData(ingestLambda);
+    }
+    if (config.ingest.requireDeviceKeys) {
+      deviceKeysTable.grantReadData(ingestLambda);
+      deviceSignaturesTable.grantWriteData(ingestLambda);
+    }
+    idempotencyTable.grantReadWriteData(ingestLambda);
     appSecret.grantRead(ingestLambda);
 
+    // MQTT ingest Lambda permissions
+    sensorEventsTable.grantWriteData(mqttIngestLambda);
+    if (config.ingest.requireRegisteredSensors) {
+      sensorsTable.grantReadData(mqttIngestLambda);
+    }
+    idempotencyTable.grantReadWriteData(mqttIngestLambda);
+    mqttErrorQueue.grantSendMessages(mqttIngestLambda);
+    appSecret.grantRead(mqttIngestLambda);
+
     // Aggregate Lambda permissions
     sensorAggregatesTable.grantReadWriteData(aggregateLambda);
     sensorEventsTable.grantStreamRead(aggregateLambda);
+    sensorEventsTable.grantReadData(aggregateLambda); // Recompute min/max after edits
+    groupAggregatesTable.grantReadWriteData(aggregateLambda);
+    anomalyStateTable.grantReadWriteData(aggregateLambda);
+    anomaliesTable.grantReadWriteData(aggregateLambda);
+    heartbeatsTable.grantReadWriteData(aggregateLambda);
+    statusTransitionsTable.grantWriteData(aggregateLambda);
+    appliedRecordsTable.grantReadWriteData(aggregateLambda);
     appSecret.grantRead(aggregateLambda);
 
+    // Query Lambda permissions (read-only)
+    sensorAggregatesTable.grantReadData(queryLambda);
+    sensorEventsTable.grantReadData(queryLambda);
+    anomaliesTable.grantReadData(queryLambda);
+    groupAggregatesTable.grantReadData(queryLambda);
+    appSecret.grantRead(queryLambda);
+
+    // Sensors Lambda permissions
+    sensorsTable.grantReadWriteData(sensorsLambda);
+    deviceKeysTable.grantReadWriteData(sensorsLambda);
+    appSecret.grantRead(sensorsLambda);
+
+    // Rules Lambda permissions
+    alertRulesTable.grantReadWriteData(rulesLambda);
+    appSecret.grantRead(rulesLambda);
+
+    // Alerts Lambda permissions
+    alertRulesTable.grantReadData(alertsLambda);
+    alertRuleStateTable.grantReadWriteData(alertsLambda);
+    alertsTable.grantReadWriteData(alertsLambda);
+    sensorEventsTable.grantStreamRead(alertsLambda);
+    alertsTopic.grantPublish(alertsLambda);
+    appSecret.grantRead(alertsLambda);
+
+    // Exports Lambda permissions (reads manifests to sign download links)
+    exportJobsTable.grantReadWriteData(exportsLambda);
+    exportsBucket.grantRead(exportsLambda);
+    exportQueue.grantSendMessages(exportsLambda);
+    appSecret.grantRead(exportsLambda);
+
+    // Export worker permissions
+    exportJobsTable.grantReadWriteData(exportWorkerLambda);
+    sensorEventsTable.grantReadData(exportWorkerLambda);
+    sensorAggregatesTable.grantReadData(exportWorkerLambda);
+    exportsBucket.grantPut(exportWorkerLambda);
+    appSecret.grantRead(exportWorkerLambda);
+
+    // Backfill permissions
+    sensorEventsTable.grantReadData(backfillLambda);
+    sensorAggregatesTable.grantReadWriteData(backfillLambda);
+    sensorsTable.grantReadData(backfillLambda);
+    appSecret.grantRead(backfillLambda);
+
+    // Status Lambda permissions (read-only)
+    heartbeatsTable.grantReadData(statusLambda);
+    sensorsTable.grantReadData(statusLambda);
+    appSecret.grantRead(statusLambda);
+
+    // Heartbeat monitor permissions
+    heartbeatsTable.grantReadWriteData(heartbeatMonitorLambda);
+    statusTransitionsTable.grantWriteData(heartbeatMonitorLambda);
+    sensorsTable.grantReadData(heartbeatMonitorLambda);
+    appSecret.grantRead(heartbeatMonitorLambda);
+
     // Additional CloudWatch Logs permissions
     ingestLambda.addToRolePolicy(new PolicyStatement({
       effect: Effect.ALLOW,
@@ -156,6 +943,16 @@ export class IoTSensorAggregatorStack extends Stack {
       resources: [ingestLogGroup.logGroupArn + ':*']
     }));
 
+    mqttIngestLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [mqttIngestLogGroup.logGroupArn + ':*']
+    }));
+
     aggregateLambda.addToRolePolicy(new PolicyStatement({
       effect: Effect.ALLOW,
       actions: [
@@ -166,6 +963,149 @@ export class IoTSensorAggregatorStack extends Stack {
       resources: [aggregateLogGroup.logGroupArn + ':*']
     }));
 
+    queryLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [queryLogGroup.logGroupArn + ':*']
+    }));
+
+    sensorsLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [sensorsLogGroup.logGroupArn + ':*']
+    }));
+
+    rulesLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [rulesLogGroup.logGroupArn + ':*']
+    }));
+
+    alertsLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [alertsLogGroup.logGroupArn + ':*']
+    }));
+
+    exportsLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [exportsLogGroup.logGroupArn + ':*']
+    }));
+
+    exportWorkerLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [exportWorkerLogGroup.logGroupArn + ':*']
+    }));
+
+    backfillLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [backfillLogGroup.logGroupArn + ':*']
+    }));
+
+    statusLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [statusLogGroup.logGroupArn + ':*']
+    }));
+
+    heartbeatMonitorLambda.addToRolePolicy(new PolicyStatement({
+      effect: Effect.ALLOW,
+      actions: [
+        'logs:CreateLogGroup',
+        'logs:CreateLogStream',
+        'logs:PutLogEvents'
+      ],
+      resources: [heartbeatMonitorLogGroup.logGroupArn + ':*']
+    }));
+
+    // MQTT ingestion: an IoT Core topic rule hands every message published to
+    // sensors/{sensor_id}/data to the MQTT ingest Lambda. The payload is
+    // passed base64 encoded, so malformed JSON reaches the Lambda and is
+    // reported there instead of silently failing the rule SQL.
+    const topicRuleErrorRole = new Role(this, 'SensorTopicRuleErrorRole', {
+      assumedBy: new ServicePrincipal('iot.amazonaws.com')
+    });
+    mqttErrorQueue.grantSendMessages(topicRuleErrorRole);
+
+    const sensorTopicRule = new CfnTopicRule(this, 'SensorTopicRule', {
+      ruleName: `iot_sensor_ingest_${environment}`,
+      topicRulePayload: {
+        description: 'Ingest sensor readings published over MQTT',
+        sql: "SELECT encode(*, 'base64') AS payload, topic() AS topic FROM 'sensors/+/data'",
+        awsIotSqlVersion: '2016-03-23',
+        ruleDisabled: false,
+        actions: [{ lambda: { functionArn: mqttIngestLambda.functionArn } }],
+        errorAction: {
+          sqs: {
+            queueUrl: mqttErrorQueue.queueUrl,
+            roleArn: topicRuleErrorRole.roleArn,
+            useBase64: false
+          }
+        }
+      }
+    });
+
+    mqttIngestLambda.addPermission('SensorTopicRuleInvoke', {
+      principal: new ServicePrincipal('iot.amazonaws.com'),
+      sourceArn: sensorTopicRule.attrArn
+    });
+
+    // Attached to device certificates: a device connects with its thing name
+    // (its sensor_id) as client id and may only publish to its own topic
+    const sensorDevicePolicy = new CfnPolicy(this, 'SensorDevicePolicy', {
+      policyName: `iot-sensor-device-${environment}`,
+      policyDocument: {
+        Version: '2012-10-17',
+        Statement: [
+          {
+            Effect: 'Allow',
+            Action: 'iot:Connect',
+            Resource: `arn:${Aws.PARTITION}:iot:${Aws.REGION}:${Aws.ACCOUNT_ID}:client/\${iot:Connection.Thing.ThingName}`
+          },
+          {
+            Effect: 'Allow',
+            Action: 'iot:Publish',
+            Resource: `arn:${Aws.PARTITION}:iot:${Aws.REGION}:${Aws.ACCOUNT_ID}:topic/sensors/\${iot:Connection.Thing.ThingName}/data`
+          }
+        ]
+      }
+    });
+
     // API Gateway
     const api = new RestApi(this, 'SensorApi', {
       restApiName: `iot-sensor-api-${environment}`,
@@ -173,14 +1113,26 @@ export class IoTSensorAggregatorStack extends Stack {
       defaultCorsPreflightOptions: {
         allowOrigins: Cors.ALL_ORIGINS,
         allowMethods: Cors.ALL_METHODS,
-        allowHeaders: ['Content-Type', 'X-Amz-Date', 'Authorization', 'X-Api-Key']
+        allowHeaders: [
+          'Content-Type',
+          'X-Amz-Date',
+          'Authorization',
+          'X-Api-Key',
+          'X-Device-Key-Id',
+          'X-Device-Key',
+          'X-Device-Timestamp',
+          'X-Device-Signature',
+          'Idempotency-Key',
+          'X-Correlation-Id'
+        ]
       },
       deployOptions: {
         stageName: environment,
-        throttlingRateLimit: 1000,
-        throttlingBurstLimit: 2000,
+        throttlingRateLimit: config.api.throttlingRateLimit,
+        throttlingBurstLimit: config.api.throttlingBurstLimit,
         loggingLevel: MethodLoggingLevel.INFO,
-        dataTraceEnabled: true,
+        // Data tracing would log request headers, device keys among them, and payloads
+        dataTraceEnabled: false,
         metricsEnabled: true
       }
     });
@@ -193,13 +1145,26 @@ export class IoTSensorAggregatorStack extends Stack {
       requestTemplates: { 'application/json': '{ "statusCode": "200" }' }
     });
 
+    const requestValidator = new RequestValidator(this, 'RequestValidator', {
+      restApi: api,
+      requestValidatorName: 'sensor-data-validator',
+      validateRequestBody: true,
+      validateRequestParameters: false
+    });
+
+    const sensorDataProperties = {
+      sensor_id: { type: JsonSchemaType.STRING },
+      type: { type: JsonSchemaType.STRING },
+      value: { type: JsonSchemaType.NUMBER },
+      location: { type: JsonSchemaType.STRING },
+      unit: { type: JsonSchemaType.STRING },
+      timestamp: { type: JsonSchemaType.STRING },
+      // Multi-metric readings: a map of type to value, or a list of { type, value, unit }
+      readings: { type: [JsonSchemaType.OBJECT, JsonSchemaType.ARRAY] }
+    };
+
     dataResource.addMethod('POST', integration, {
-      requestValidator: new RequestValidator(this, 'RequestValidator', {
-        restApi: api,
-        requestValidatorName: 'sensor-data-validator',
-        validateRequestBody: true,
-        validateRequestParameters: false
-      }),
+      requestValidator,
       requestModels: {
         'application/json': new Model(this, 'SensorDataModel', {
           restApi: api,
@@ -207,17 +1172,334 @@ export class IoTSensorAggregatorStack extends Stack {
           contentType: 'application/json',
           schema: {
             type: JsonSchemaType.OBJECT,
-            required: ['sensor_id', 'type', 'value', 'location'],
+            // type and location are filled in from the sensor registry
+            required: ['sensor_id'],
+            oneOf: [{ required: ['value'] }, { required: ['readings'] }],
+            properties: sensorDataProperties
+          }
+        })
+      }
+    });
+
+    // Batch items are not marked required here: missing fields are reported
+    // per reading by the ingest Lambda rather than rejecting the whole batch
+    const batchResource = sensorResource.addResource('batch');
+    batchResource.addMethod('POST', integration, {
+      requestValidator,
+      requestModels: {
+        'application/json': new Model(this, 'SensorDataBatchModel', {
+          restApi: api,
+          modelName: 'SensorDataBatchModel',
+          contentType: 'application/json',
+          schema: {
+            type: JsonSchemaType.ARRAY,
+            minItems: 1,
+            maxItems: 500,
+            items: {
+              type: JsonSchemaType.OBJECT,
+              properties: sensorDataProperties
+            }
+          }
+        })
+      }
+    });
+
+    // Operator routes take SigV4-signed requests from callers granted the
+    // admin policy below, never device or anonymous requests
+    const adminAuthorization = { authorizationType: AuthorizationType.IAM };
+
+    // Read API for aggregates and raw events. Readings are not public, so
+    // these routes take signed requests like the registry.
+    const sensorIdResource = sensorResource.addResource('{sensor_id}');
+    const aggregatesResource = sensorIdResource.addResource('aggregates');
+    const queryIntegration = new LambdaIntegration(queryLambda);
+
+    aggregatesResource.addMethod('GET', queryIntegration, {
+      ...adminAuthorization,
+      requestParameters: {
+        'method.request.querystring.metric': false,
+        'method.request.querystring.from': false,
+        'method.request.querystring.to': false,
+        'method.request.querystring.resolution': false,
+        'method.request.querystring.limit': false,
+        'method.request.querystring.cursor': false
+      }
+    });
+
+    const eventsResource = sensorIdResource.addResource('events');
+    eventsResource.addMethod('GET', queryIntegration, {
+      ...adminAuthorization,
+      requestParameters: {
+        'method.request.querystring.from': false,
+        'method.request.querystring.to': false,
+        'method.request.querystring.limit': false,
+        'method.request.querystring.order': false,
+        'method.request.querystring.min_value': false,
+        'method.request.querystring.max_value': false,
+        'method.request.querystring.cursor': false
+      }
+    });
+
+    const anomaliesResource = sensorIdResource.addResource('anomalies');
+    anomaliesResource.addMethod('GET', queryIntegration, {
+      ...adminAuthorization,
+      requestParameters: {
+        'method.request.querystring.metric': false,
+        'method.request.querystring.from': false,
+        'method.request.querystring.to': false,
+        'method.request.querystring.limit': false,
+        'method.request.querystring.order': false,
+        'method.request.querystring.min_score': false,
+        'method.request.querystring.cursor': false
+      }
+    });
+
+    // Read API for the location and type rollups
+    const groupAggregateParameters = {
+      'method.request.querystring.from': false,
+      'method.request.querystring.to': false,
+      'method.request.querystring.resolution': false,
+      'method.request.querystring.limit': false,
+      'method.request.querystring.cursor': false
+    };
+
+    api.root.addResource('locations').addResource('{location}').addResource('aggregates').addMethod('GET', queryIntegration, {
+      ...adminAuthorization,
+      requestParameters: {
+        ...groupAggregateParameters,
+        'method.request.querystring.type': false
+      }
+    });
+
+    api.root.addResource('types').addResource('{type}').addResource('aggregates').addMethod('GET', queryIntegration, {
+      ...adminAuthorization,
+      requestParameters: groupAggregateParameters
+    });
+
+    // Sensor registry CRUD API. Registering sensors and issuing device keys is
+    // an operator task, so these routes take signed requests.
+    const sensorsResource = api.root.addResource('sensors');
+    const registeredSensorResource = sensorsResource.addResource('{sensor_id}');
+    const sensorsIntegration = new LambdaIntegration(sensorsLambda);
+
+    const sensorProperties = {
+      type: { type: JsonSchemaType.STRING },
+      unit: { type: JsonSchemaType.STRING },
+      location: { type: JsonSchemaType.STRING },
+      owner: { type: JsonSchemaType.STRING },
+      expected_min: { type: JsonSchemaType.NUMBER },
+      expected_max: { type: JsonSchemaType.NUMBER },
+      offline_after_seconds: { type: JsonSchemaType.INTEGER, minimum: 1 },
+      status: { type: JsonSchemaType.STRING, enum: ['active', 'decommissioned'] }
+    };
+
+    sensorsResource.addMethod('GET', sensorsIntegration, {
+      ...adminAuthorization,
+      requestParameters: {
+        'method.request.querystring.status': false,
+        'method.request.querystring.type': false,
+        'method.request.querystring.location': false,
+        'method.request.querystring.limit': false,
+        'method.request.querystring.cursor': false
+      }
+    });
+    sensorsResource.addMethod('POST', sensorsIntegration, {
+      ...adminAuthorization,
+      requestValidator,
+      requestModels: {
+        'application/json': new Model(this, 'SensorModel', {
+          restApi: api,
+          modelName: 'SensorModel',
+          contentType: 'application/json',
+          schema: {
+            type: JsonSchemaType.OBJECT,
+            required: ['sensor_id', 'type', 'unit', 'location', 'owner'],
+            properties: { sensor_id: { type: JsonSchemaType.STRING }, ...sensorProperties }
+          }
+        })
+      }
+    });
+    registeredSensorResource.addMethod('GET', sensorsIntegration, adminAuthorization);
+    registeredSensorResource.addMethod('PUT', sensorsIntegration, {
+      ...adminAuthorization,
+      requestValidator,
+      requestModels: {
+        'application/json': new Model(this, 'SensorUpdateModel', {
+          restApi: api,
+          modelName: 'SensorUpdateModel',
+          contentType: 'application/json',
+          schema: {
+            type: JsonSchemaType.OBJECT,
+            required: ['type', 'unit', 'location', 'owner'],
+            properties: sensorProperties
+          }
+        })
+      }
+    });
+    registeredSensorResource.addMethod('DELETE', sensorsIntegration, adminAuthorization);
+
+    // Device key issue, list and revoke
+    const deviceKeysResource = registeredSensorResource.addResource('keys');
+    deviceKeysResource.addMethod('GET', sensorsIntegration, adminAuthorization);
+    deviceKeysResource.addMethod('POST', sensorsIntegration, adminAuthorization);
+    deviceKeysResource.addResource('{key_id}').addMethod('DELETE', sensorsIntegration, adminAuthorization);
+
+    // Attach to the operators and tools that read sensor data, manage the
+    // registry, device keys and alert rules, or export data
+    const adminPolicy = new ManagedPolicy(this, 'SensorAdminPolicy', {
+      managedPolicyName: `iot-sensor-admin-${environment}`,
+      description: 'Invoke the read, sensor registry, device key, alert rule and export routes of the IoT Sensor API',
+      statements: [
+        new PolicyStatement({
+          effect: Effect.ALLOW,
+          actions: ['execute-api:Invoke'],
+          resources: [
+            api.arnForExecuteApi('GET', '/sensor/*/aggregates', environment),
+            api.arnForExecuteApi('GET', '/sensor/*/events', environment),
+            api.arnForExecuteApi('GET', '/sensor/*/anomalies', environment),
+            api.arnForExecuteApi('GET', '/locations/*', environment),
+            api.arnForExecuteApi('GET', '/types/*', environment),
+            api.arnForExecuteApi('*', '/sensors', environment),
+            api.arnForExecuteApi('*', '/sensors/*', environment),
+            api.arnForExecuteApi('*', '/rules', environment),
+            api.arnForExecuteApi('*', '/rules/*', environment),
+            api.arnForExecuteApi('*', '/exports', environment),
+            api.arnForExecuteApi('*', '/exports/*', environment)
+          ]
+        })
+      ]
+    });
+
+    // Fleet connectivity. 'status' is a reserved sensor_id, so this never
+    // shadows a registered sensor. It lists the fleet's sensors and where
+    // they are, so it takes signed requests like the registry.
+    sensorsResource.addResource('status').addMethod('GET', new LambdaIntegration(statusLambda), {
+      ...adminAuthorization,
+      requestParameters: {
+        'method.request.querystring.status': false,
+        'method.request.querystring.type': false,
+        'method.request.querystring.location': false,
+        'method.request.querystring.limit': false,
+        'method.request.querystring.cursor': false
+      }
+    });
+
+    // Alert rules CRUD API. Rules decide who gets alerted, so they take
+    // SigV4-signed requests from callers granted the admin policy.
+    const rulesResource = api.root.addResource('rules');
+    const ruleResource = rulesResource.addResource('{rule_id}');
+    const rulesIntegration = new LambdaIntegration(rulesLambda);
+
+    const alertRuleModel = new Model(this, 'AlertRuleModel', {
+      restApi: api,
+      modelName: 'AlertRuleModel',
+      contentType: 'application/json',
+      schema: {
+        type: JsonSchemaType.OBJECT,
+        required: ['name', 'operator', 'threshold'],
+        properties: {
+          name: { type: JsonSchemaType.STRING },
+          sensor_id: { type: JsonSchemaType.STRING },
+          type: { type: JsonSchemaType.STRING },
+          location: { type: JsonSchemaType.STRING },
+          operator: { type: JsonSchemaType.STRING, enum: ['>', '>=', '<', '<='] },
+          threshold: { type: JsonSchemaType.NUMBER },
+          duration_seconds: { type: JsonSchemaType.NUMBER, minimum: 0 },
+          hysteresis: { type: JsonSchemaType.NUMBER, minimum: 0 },
+          cooldown_seconds: { type: JsonSchemaType.NUMBER, minimum: 0 },
+          enabled: { type: JsonSchemaType.BOOLEAN }
+        }
+      }
+    });
+
+    rulesResource.addMethod('GET', rulesIntegration, {
+      ...adminAuthorization,
+      requestParameters: {
+        'method.request.querystring.sensor_id': false,
+        'method.request.querystring.type': false,
+        'method.request.querystring.location': false,
+        'method.request.querystring.limit': false,
+        'method.request.querystring.cursor': false
+      }
+    });
+    rulesResource.addMethod('POST', rulesIntegration, {
+      ...adminAuthorization,
+      requestValidator,
+      requestModels: { 'application/json': alertRuleModel }
+    });
+    ruleResource.addMethod('GET', rulesIntegration, adminAuthorization);
+    ruleResource.addMethod('PUT', rulesIntegration, {
+      ...adminAuthorization,
+      requestValidator,
+      requestModels: { 'application/json': alertRuleModel }
+    });
+    ruleResource.addMethod('DELETE', rulesIntegration, adminAuthorization);
+
+    // Bulk export API. Exports hand out links to whole datasets, so like the
+    // registry they take SigV4-signed requests from callers granted the admin
+    // policy.
+    const exportsResource = api.root.addResource('exports');
+    const exportsIntegration = new LambdaIntegration(exportsLambda);
+    const filterList = { type: JsonSchemaType.ARRAY, items: { type: JsonSchemaType.STRING }, minItems: 1 };
+
+    exportsResource.addMethod('POST', exportsIntegration, {
+      ...adminAuthorization,
+      requestValidator,
+      requestModels: {
+        'application/json': new Model(this, 'ExportRequestModel', {
+          restApi: api,
+          modelName: 'ExportRequestModel',
+          contentType: 'application/json',
+          schema: {
+            type: JsonSchemaType.OBJECT,
+            required: ['dataset', 'format', 'from', 'to'],
             properties: {
-              sensor_id: { type: JsonSchemaType.STRING },
-              type: { type: JsonSchemaType.STRING },
-              value: { type: JsonSchemaType.NUMBER },
-              location: { type: JsonSchemaType.STRING }
+              dataset: { type: JsonSchemaType.STRING, enum: ['events', 'aggregates'] },
+              format: { type: JsonSchemaType.STRING, enum: ['csv', 'ndjson', 'parquet'] },
+              from: { type: JsonSchemaType.STRING },
+              to: { type: JsonSchemaType.STRING },
+              sensor_ids: { ...filterList, maxItems: 100 },
+              types: { ...filterList, maxItems: 50 },
+              locations: { ...filterList, maxItems: 50 },
+              resolution: { type: JsonSchemaType.STRING, enum: ['minute', 'hour', 'day', 'month'] }
             }
           }
         })
       }
     });
+    exportsResource.addResource('{export_id}').addMethod('GET', exportsIntegration, adminAuthorization);
+
+    // Dashboard and alarms, on by default
+    const monitoring = config.monitoring.enabled
+      ? new SensorMonitoring(this, 'Monitoring', {
+        environment,
+        api,
+        functions: {
+          Ingest: ingestLambda,
+          MqttIngest: mqttIngestLambda,
+          Aggregate: aggregateLambda,
+          HeartbeatMonitor: heartbeatMonitorLambda
+        },
+        streamConsumers: {
+          Aggregate: aggregateLambda,
+          Alerts: alertsLambda
+        },
+        tables: {
+          SensorEvents: sensorEventsTable,
+          SensorAggregates: sensorAggregatesTable,
+          GroupAggregates: groupAggregatesTable,
+          IngestIdempotency: idempotencyTable,
+          SensorHeartbeats: heartbeatsTable
+        },
+        deadLetterQueues: {
+          Aggregate: aggregateDlq,
+          Alerts: alertsDlq,
+          Export: exportDlq
+        },
+        thresholds: config.monitoring.thresholds,
+        alarmEmail: config.monitoring.alarmEmail
+      })
+      : undefined;
 
     // Stack Outputs
     new CfnOutput(this, 'ApiEndpoint', {
@@ -238,6 +1520,122 @@ export class IoTSensorAggregatorStack extends Stack {
       exportName: `sensor-aggregates-table-${environment}`
     });
 
+    new CfnOutput(this, 'GroupAggregatesTableName', {
+      value: groupAggregatesTable.tableName,
+      description: 'DynamoDB GroupAggregates table name',
+      exportName: `group-aggregates-table-${environment}`
+    });
+
+    new CfnOutput(this, 'AggregateDeadLetterQueueUrl', {
+      value: aggregateDlq.queueUrl,
+      description: 'SQS dead-letter queue for failed aggregate stream records',
+      exportName: `aggregate-dlq-url-${environment}`
+    });
+
+    new CfnOutput(this, 'AlertsDeadLetterQueueUrl', {
+      value: alertsDlq.queueUrl,
+      description: 'SQS dead-letter queue for failed alert stream records',
+      exportName: `alerts-dlq-url-${environment}`
+    });
+
+    new CfnOutput(this, 'SensorsTableName', {
+      value: sensorsTable.tableName,
+      description: 'DynamoDB Sensors registry table name',
+      exportName: `sensors-table-${environment}`
+    });
+
+    new CfnOutput(this, 'DeviceKeysTableName', {
+      value: deviceKeysTable.tableName,
+      description: 'DynamoDB DeviceKeys table name',
+      exportName: `device-keys-table-${environment}`
+    });
+
+    new CfnOutput(this, 'AlertRulesTableName', {
+      value: alertRulesTable.tableName,
+      description: 'DynamoDB AlertRules table name',
+      exportName: `alert-rules-table-${environment}`
+    });
+
+    new CfnOutput(this, 'AlertsTableName', {
+      value: alertsTable.tableName,
+      description: 'DynamoDB Alerts table name',
+      exportName: `alerts-table-${environment}`
+    });
+
+    new CfnOutput(this, 'MqttErrorQueueUrl', {
+      value: mqttErrorQueue.queueUrl,
+      description: 'SQS queue of MQTT readings that could not be ingested',
+      exportName: `mqtt-error-queue-url-${environment}`
+    });
+
+    new CfnOutput(this, 'SensorDevicePolicyName', {
+      value: sensorDevicePolicy.ref,
+      description: 'IoT policy to attach to device certificates',
+      exportName: `sensor-device-policy-${environment}`
+    });
+
+    new CfnOutput(this, 'AnomaliesTableName', {
+      value: anomaliesTable.tableName,
+      description: 'DynamoDB Anomalies table name',
+      exportName: `anomalies-table-${environment}`
+    });
+
+    new CfnOutput(this, 'ExportsBucketName', {
+      value: exportsBucket.bucketName,
+      description: 'S3 bucket holding data exports',
+      exportName: `exports-bucket-${environment}`
+    });
+
+    new CfnOutput(this, 'ExportJobsTableName', {
+      value: exportJobsTable.tableName,
+      description: 'DynamoDB ExportJobs table name',
+      exportName: `export-jobs-table-${environment}`
+    });
+
+    new CfnOutput(this, 'AlertsTopicArn', {
+      value: alertsTopic.topicArn,
+      description: 'SNS topic for fired and resolved alerts',
+      exportName: `alerts-topic-arn-${environment}`
+    });
+
+    new CfnOutput(this, 'SensorAdminPolicyArn', {
+      value: adminPolicy.managedPolicyArn,
+      description: 'IAM policy allowing the sensor registry and device key routes',
+      exportName: `sensor-admin-policy-${environment}`
+    });
+
+    new CfnOutput(this, 'BackfillFunctionName', {
+      value: backfillLambda.functionName,
+      description: 'Lambda function that rebuilds aggregates from raw events',
+      exportName: `backfill-function-${environment}`
+    });
+
+    new CfnOutput(this, 'SensorHeartbeatsTableName', {
+      value: heartbeatsTable.tableName,
+      description: 'DynamoDB SensorHeartbeats table name',
+      exportName: `sensor-heartbeats-table-${environment}`
+    });
+
+    new CfnOutput(this, 'SensorStatusTransitionsTableName', {
+      value: statusTransitionsTable.tableName,
+      description: 'DynamoDB SensorStatusTransitions table name',
+      exportName: `sensor-status-transitions-table-${environment}`
+    });
+
+    if (monitoring) {
+      new CfnOutput(this, 'AlarmTopicArn', {
+        value: monitoring.alarmTopic.topicArn,
+        description: 'SNS topic notified when a monitoring alarm fires or recovers',
+        exportName: `alarm-topic-arn-${environment}`
+      });
+
+      new CfnOutput(this, 'DashboardName', {
+        value: monitoring.dashboard.dashboardName,
+        description: 'CloudWatch dashboard of the pipeline',
+        exportName: `dashboard-name-${environment}`
+      });
+    }
+
     new CfnOutput(this, 'SecretArn', {
       value: appSecret.secretArn,
       description: 'Secrets Manager secret ARN',
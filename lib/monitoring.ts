@@ -0,0 +1,249 @@
+import { Duration } from 'aws-cdk-lib';
+import { RestApi } from 'aws-cdk-lib/aws-apigateway';
+import {
+  Alarm,
+  ComparisonOperator,
+  Dashboard,
+  GraphWidget,
+  IMetric,
+  MathExpression,
+  Metric,
+  TreatMissingData
+} from 'aws-cdk-lib/aws-cloudwatch';
+import { SnsAction } from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { ITable } from 'aws-cdk-lib/aws-dynamodb';
+import { Function as LambdaFunction } from 'aws-cdk-lib/aws-lambda';
+import { ITopic, Topic } from 'aws-cdk-lib/aws-sns';
+import { EmailSubscription } from 'aws-cdk-lib/aws-sns-subscriptions';
+import { IQueue } from 'aws-cdk-lib/aws-sqs';
+import { Construct } from 'constructs';
+import { METRICS_NAMESPACE } from '../lambda/shared/observability';
+
+/**
+ * Alarm thresholds. Counts are per 5 minute period.
+ */
+export interface MonitoringThresholds {
+  api5xxCount: number;
+  api4xxCount: number;
+  apiLatencyP99Ms: number;
+  lambdaErrorCount: number;
+  lambdaThrottleCount: number;
+  lambdaDurationTimeoutRatio: number; // p99 duration as a share of the function timeout
+  iteratorAgeMs: number; // Oldest stream record a consumer has not processed yet
+  dynamoThrottleCount: number; // Read and write throttle events per table
+  dlqDepth: number; // Messages waiting in a dead-letter queue
+}
+
+export const DEFAULT_MONITORING_THRESHOLDS: Record<'dev' | 'staging' | 'prod', MonitoringThresholds> = {
+  dev: {
+    api5xxCount: 10,
+    api4xxCount: 200,
+    apiLatencyP99Ms: 3000,
+    lambdaErrorCount: 5,
+    lambdaThrottleCount: 5,
+    lambdaDurationTimeoutRatio: 0.9,
+    iteratorAgeMs: 15 * 60 * 1000,
+    dynamoThrottleCount: 50,
+    dlqDepth: 1
+  },
+  staging: {
+    api5xxCount: 5,
+    api4xxCount: 100,
+    apiLatencyP99Ms: 2000,
+    lambdaErrorCount: 3,
+    lambdaThrottleCount: 1,
+    lambdaDurationTimeoutRatio: 0.8,
+    iteratorAgeMs: 5 * 60 * 1000,
+    dynamoThrottleCount: 20,
+    dlqDepth: 1
+  },
+  prod: {
+    api5xxCount: 1,
+    api4xxCount: 50,
+    apiLatencyP99Ms: 1000,
+    lambdaErrorCount: 1,
+    lambdaThrottleCount: 1,
+    lambdaDurationTimeoutRatio: 0.8,
+    iteratorAgeMs: 60 * 1000,
+    dynamoThrottleCount: 5,
+    dlqDepth: 1
+  }
+};
+
+export interface SensorMonitoringProps {
+  environment: string;
+  api: RestApi;
+  functions: Record<string, LambdaFunction>; // Errors, throttles and duration, keyed by label
+  streamConsumers: Record<string, LambdaFunction>; // IteratorAge
+  tables: Record<string, ITable>; // Throttled requests
+  deadLetterQueues?: Record<string, IQueue>; // Depth
+  thresholds: MonitoringThresholds;
+  alarmTopic?: ITopic; // Created when not given
+  alarmEmail?: string; // Subscribed to the alarm topic
+}
+
+const PERIOD = Duration.minutes(5);
+
+/**
+ * CloudWatch dashboard and alarms for the API, the ingest and aggregate
+ * Lambdas, the event stream, the tables and the dead-letter queues. Every
+ * alarm notifies the alarm topic when it fires and when it recovers.
+ */
+export class SensorMonitoring extends Construct {
+  readonly alarmTopic: ITopic;
+
+  readonly dashboard: Dashboard;
+
+  readonly alarms: Alarm[] = [];
+
+  private readonly environment: string;
+
+  constructor(scope: Construct, id: string, props: SensorMonitoringProps) {
+    super(scope, id);
+
+    const { api, thresholds } = props;
+    this.environment = props.environment;
+
+    this.alarmTopic = props.alarmTopic ?? new Topic(this, 'AlarmTopic', {
+      topicName: `iot-sensor-alarms-${props.environment}`,
+      displayName: `IoT Sensor Aggregator alarms (${props.environment})`
+    });
+    if (props.alarmEmail) {
+      this.alarmTopic.addSubscription(new EmailSubscription(props.alarmEmail));
+    }
+
+    this.dashboard = new Dashboard(this, 'Dashboard', {
+      dashboardName: `iot-sensor-aggregator-${props.environment}`
+    });
+
+    // API
+    const api4xx = api.metricClientError({ period: PERIOD, statistic: 'Sum' });
+    const api5xx = api.metricServerError({ period: PERIOD, statistic: 'Sum' });
+    const apiLatency = api.metricLatency({ period: PERIOD, statistic: 'p99' });
+    this.addAlarm('Api5xx', api5xx, thresholds.api5xxCount, 'API 5xx responses');
+    this.addAlarm('Api4xx', api4xx, thresholds.api4xxCount, 'API 4xx responses');
+    this.addAlarm('ApiLatency', apiLatency, thresholds.apiLatencyP99Ms, 'API p99 latency (ms)');
+    this.dashboard.addWidgets(
+      new GraphWidget({
+        title: 'API requests and errors',
+        left: [api.metricCount({ period: PERIOD, statistic: 'Sum' })],
+        right: [api4xx, api5xx]
+      }),
+      new GraphWidget({ title: 'API p99 latency (ms)', left: [apiLatency] })
+    );
+
+    // Lambdas
+    const functions = Object.entries(props.functions);
+    for (const [label, fn] of functions) {
+      const timeoutMs = (fn.timeout ?? Duration.seconds(3)).toMilliseconds();
+      this.addAlarm(`${label}Errors`, fn.metricErrors({ period: PERIOD, statistic: 'Sum' }), thresholds.lambdaErrorCount, `${label} Lambda errors`);
+      this.addAlarm(`${label}Throttles`, fn.metricThrottles({ period: PERIOD, statistic: 'Sum' }), thresholds.lambdaThrottleCount, `${label} Lambda throttles`);
+      this.addAlarm(
+        `${label}Duration`,
+        fn.metricDuration({ period: PERIOD, statistic: 'p99' }),
+        Math.round(timeoutMs * thresholds.lambdaDurationTimeoutRatio),
+        `${label} Lambda p99 duration (ms), against a ${timeoutMs} ms timeout`
+      );
+    }
+    this.dashboard.addWidgets(
+      new GraphWidget({
+        title: 'Lambda errors and throttles',
+        left: functions.map(([label, fn]) => fn.metricErrors({ period: PERIOD, statistic: 'Sum', label: `${label} errors` })),
+        right: functions.map(([label, fn]) => fn.metricThrottles({ period: PERIOD, statistic: 'Sum', label: `${label} throttles` }))
+      }),
+      new GraphWidget({
+        title: 'Lambda p99 duration (ms)',
+        left: functions.map(([label, fn]) => fn.metricDuration({ period: PERIOD, statistic: 'p99', label }))
+      })
+    );
+
+    // Event stream
+    const iteratorAges = Object.entries(props.streamConsumers).map(([label, fn]) => {
+      const iteratorAge = fn.metric('IteratorAge', { period: PERIOD, statistic: 'Maximum' });
+      this.addAlarm(`${label}IteratorAge`, iteratorAge, thresholds.iteratorAgeMs, `${label} stream iterator age (ms)`);
+      return iteratorAge.with({ label });
+    });
+
+    // Tables
+    // Expression ids must be unique within a graph
+    const tableThrottles = Object.entries(props.tables).map(([label, table], index) => {
+      const throttles = new MathExpression({
+        expression: `reads${index} + writes${index}`,
+        usingMetrics: {
+          [`reads${index}`]: table.metric('ReadThrottleEvents', { period: PERIOD, statistic: 'Sum' }),
+          [`writes${index}`]: table.metric('WriteThrottleEvents', { period: PERIOD, statistic: 'Sum' })
+        },
+        period: PERIOD
+      });
+      this.addAlarm(`${label}TableThrottles`, throttles, thresholds.dynamoThrottleCount, `${label} table throttled requests`);
+      return throttles.with({ label });
+    });
+
+    this.dashboard.addWidgets(
+      new GraphWidget({ title: 'Stream iterator age (ms)', left: iteratorAges }),
+      new GraphWidget({ title: 'DynamoDB throttled requests', left: tableThrottles })
+    );
+
+    // Dead-letter queues
+    const queueDepths = Object.entries(props.deadLetterQueues || {}).map(([label, queue]) => {
+      const depth = queue.metricApproximateNumberOfMessagesVisible({ period: PERIOD, statistic: 'Maximum' });
+      this.addAlarm(`${label}QueueDepth`, depth, thresholds.dlqDepth, `${label} dead-letter queue depth`);
+      return depth.with({ label });
+    });
+
+    // Pipeline metrics, see lambda/shared/observability
+    this.dashboard.addWidgets(
+      new GraphWidget({
+        title: 'Readings ingested per type',
+        left: [new MathExpression({
+          expression: `SEARCH('{${METRICS_NAMESPACE},Environment,SensorType} MetricName="ReadingsIngested" Environment="${props.environment}"', 'Sum', 300)`,
+          label: 'Readings',
+          period: PERIOD
+        })]
+      }),
+      new GraphWidget({
+        title: 'Rejected and conflicting readings',
+        left: [this.pipelineMetric('ValidationRejects', 'Sum'), this.pipelineMetric('Conflicts', 'Sum')],
+        right: [
+          this.pipelineMetric('AggregateRetries', 'Sum'),
+          this.pipelineMetric('RecordsRetried', 'Sum'),
+          this.pipelineMetric('RecordsDeadLettered', 'Sum')
+        ]
+      }),
+      new GraphWidget({
+        title: 'Aggregation latency (ms)',
+        left: [this.pipelineMetric('AggregationLatency', 'p50'), this.pipelineMetric('AggregationLatency', 'p99')]
+      }),
+      ...(queueDepths.length > 0 ? [new GraphWidget({ title: 'Dead-letter queue depth', left: queueDepths })] : [])
+    );
+  }
+
+  private pipelineMetric(metricName: string, statistic: string): Metric {
+    return new Metric({
+      namespace: METRICS_NAMESPACE,
+      metricName,
+      dimensionsMap: { Environment: this.environment },
+      period: PERIOD,
+      statistic,
+      label: statistic === 'Sum' ? metricName : `${metricName} ${statistic}`
+    });
+  }
+
+  private addAlarm(id: string, metric: IMetric, threshold: number, description: string): Alarm {
+    const alarm = new Alarm(this, `${id}Alarm`, {
+      alarmName: `iot-sensor-${this.environment}-${id}`,
+      alarmDescription: `${description} at or above ${threshold}`,
+      metric,
+      threshold,
+      evaluationPeriods: 1,
+      comparisonOperator: ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: TreatMissingData.NOT_BREACHING
+    });
+
+    const action = new SnsAction(this.alarmTopic);
+    alarm.addAlarmAction(action);
+    alarm.addOkAction(action);
+    this.alarms.push(alarm);
+    return alarm;
+  }
+}
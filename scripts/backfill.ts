@@ -0,0 +1,86 @@
+/**
+ * Rebuilds aggregates from the raw SensorEvents table, in-process. For long
+ * ranges or many sensors, invoke the backfill Lambda (BackfillFunctionName
+ * output) with the same request instead.
+ *
+ * Usage:
+ *   npm run backfill -- --from <iso> --to <iso> [--sensor-ids a,b] [--dry-run]
+ *
+ * Without --sensor-ids every sensor in the registry is backfilled. A dry run
+ * only lists the buckets whose stored aggregates differ from the recomputed
+ * ones. Reads SENSOR_EVENTS_TABLE, SENSOR_AGGREGATES_TABLE, SENSORS_TABLE and
+ * AGGREGATE_RESOLUTIONS.
+ */
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { AggregateBackfill, AggregateDifference, parseBackfillRequest } from '../lambda/aggregate/backfill';
+import { parseResolutions } from '../lambda/shared/buckets';
+
+function parseArgs(argv: string[]): Record<string, any> {
+  const input: Record<string, any> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--from':
+        input.from = argv[++i];
+        break;
+      case '--to':
+        input.to = argv[++i];
+        break;
+      case '--sensor-ids':
+        input.sensor_ids = (argv[++i] || '').split(',').map(value => value.trim()).filter(value => value !== '');
+        break;
+      case '--dry-run':
+        input.dry_run = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  return input;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+}
+
+function describe(difference: AggregateDifference): string {
+  const { stored, recomputed } = difference;
+  const counts = `count ${stored ? stored.count : '-'} -> ${recomputed ? recomputed.count : '-'}`;
+  const fields = difference.fields.length > 0 ? `\t${difference.fields.join(',')}` : '';
+  return `${difference.change}\t${difference.sensor_id}\t${difference.hour_bucket}\t${counts}${fields}`;
+}
+
+async function main(): Promise<void> {
+  const request = parseBackfillRequest(parseArgs(process.argv.slice(2)));
+
+  const backfill = new AggregateBackfill({
+    docClient: DynamoDBDocumentClient.from(new DynamoDBClient({})),
+    tableName: requireEnv('SENSOR_AGGREGATES_TABLE'),
+    eventsTableName: requireEnv('SENSOR_EVENTS_TABLE'),
+    sensorsTableName: process.env.SENSORS_TABLE,
+    resolutions: parseResolutions(process.env.AGGREGATE_RESOLUTIONS)
+  });
+
+  const report = await backfill.run(request);
+
+  for (const difference of report.differences) {
+    console.log(describe(difference));
+  }
+
+  console.log(
+    `${report.dry_run ? 'Dry run: ' : ''}${report.sensors} sensor(s), ${report.events} event(s), ` +
+    `${report.buckets} bucket(s), ${report.differences.length} difference(s), ` +
+    `${report.written} written, ${report.deleted} deleted`
+  );
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -38,14 +38,15 @@ npx cdk bootstrap --region $REGION
 
 # Deploy the stack
 echo -e "${GREEN}🚀 Deploying CDK stack...${NC}"
-npx cdk deploy --require-approval never
+# CDK selects the stack by the construct id lib/app.ts gives each environment.
+# Its CloudFormation name is the environment's stackName (IoTSensorAggregator-$ENVIRONMENT
+# unless overridden in cdk.json, as for dev), so read outputs from CDK
+STACK_ID=IoTSensorAggregatorStack-$ENVIRONMENT
+OUTPUTS_FILE=cdk.out/outputs-$ENVIRONMENT.json
+npx cdk deploy $STACK_ID -c environments=$ENVIRONMENT --require-approval never --outputs-file $OUTPUTS_FILE
 
 echo -e "${GREEN}✅ Deployment completed successfully!${NC}"
 
 # Get outputs
 echo -e "${GREEN}📋 Stack Outputs:${NC}"
-aws cloudformation describe-stacks \
-    --stack-name IoTSensorAggregatorStack \
-    --region $REGION \
-    --query 'Stacks[0].Outputs[*].[OutputKey,OutputValue]' \
-    --output table
+cat $OUTPUTS_FILE
@@ -0,0 +1,255 @@
+/**
+ * Runs the ingest and aggregation pipeline locally, without a deployed stack.
+ * Serves the ingest routes over HTTP; every stored reading is fed straight
+ * into AggregateService.processRecord (then the anomaly detector and the
+ * heartbeat tracker) as a simulated stream record, so the aggregates are
+ * updated before the request returns.
+ *
+ * Usage:
+ *   npm run local -- [--backend memory|dynamodb-local] [--port 3000] [--endpoint http://localhost:8000]
+ *
+ * The memory backend keeps everything in the process and starts empty. The
+ * dynamodb-local backend uses DynamoDB Local at --endpoint (or
+ * DYNAMODB_ENDPOINT) and creates the tables on first run, e.g. after
+ *   docker run -p 8000:8000 amazon/dynamodb-local
+ *
+ * Routes:
+ *   POST /sensor/data, POST /sensor/batch   as in the API
+ *   GET  /local/tables/{table}               every item of a local table
+ *
+ * Devices are not authenticated and any sensor is accepted. Reads
+ * ENVIRONMENT, AGGREGATE_RESOLUTIONS and the ingest Lambda's clock skew and
+ * lateness settings.
+ */
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { IngestService, LateReadingPolicy } from '../lambda/ingest/service';
+import { IdempotencyStore } from '../lambda/ingest/idempotency';
+import { createIngestHandler } from '../lambda/ingest/handler';
+import { AggregateService } from '../lambda/aggregate/service';
+import { AnomalyDetector } from '../lambda/aggregate/anomalies';
+import { HeartbeatTracker } from '../lambda/aggregate/heartbeats';
+import { RecordMarkers } from '../lambda/aggregate/markers';
+import { parseResolutions } from '../lambda/shared/buckets';
+import { parseAnomalyThresholds } from '../lambda/shared/anomaly-detection';
+import { InMemoryDocumentStore } from '../lambda/shared/memory-store';
+import { StreamFeed } from '../lambda/shared/stream-feed';
+import {
+  DocumentStore,
+  StaticSecretStore,
+  TableDefinition,
+  createDynamoDBLocalClient,
+  createTables
+} from '../lambda/shared/storage';
+
+const ENVIRONMENT = process.env.ENVIRONMENT || 'dev';
+const SECRET_ARN = 'local';
+
+// Same names and keys as the stack's tables
+const TABLES = {
+  events: { tableName: `SensorEvents-${ENVIRONMENT}`, partitionKey: 'sensor_id', sortKey: 'timestamp' },
+  aggregates: { tableName: `SensorAggregates-${ENVIRONMENT}`, partitionKey: 'sensor_id', sortKey: 'hour_bucket' },
+  groups: { tableName: `GroupAggregates-${ENVIRONMENT}`, partitionKey: 'group_key', sortKey: 'hour_bucket' },
+  idempotency: { tableName: `IngestIdempotency-${ENVIRONMENT}`, partitionKey: 'idempotency_key' },
+  appliedRecords: { tableName: `AppliedStreamRecords-${ENVIRONMENT}`, partitionKey: 'record_id' },
+  anomalyState: { tableName: `AnomalyState-${ENVIRONMENT}`, partitionKey: 'sensor_id' },
+  anomalies: { tableName: `Anomalies-${ENVIRONMENT}`, partitionKey: 'sensor_id', sortKey: 'timestamp' },
+  heartbeats: { tableName: `SensorHeartbeats-${ENVIRONMENT}`, partitionKey: 'sensor_id' },
+  statusTransitions: { tableName: `SensorStatusTransitions-${ENVIRONMENT}`, partitionKey: 'sensor_id', sortKey: 'changed_at' }
+};
+
+const INGEST_ROUTES = ['/sensor/data', '/sensor/batch'];
+const TABLE_ROUTE = /^\/local\/tables\/([^/]+)$/;
+
+function parseArgs(argv: string[]): { backend: string; port: number; endpoint: string } {
+  const options = {
+    backend: 'memory',
+    port: 3000,
+    endpoint: process.env.DYNAMODB_ENDPOINT || 'http://localhost:8000'
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--backend') {
+      options.backend = argv[++i];
+    } else if (argv[i] === '--port') {
+      options.port = Number(argv[++i]);
+    } else if (argv[i] === '--endpoint') {
+      options.endpoint = argv[++i];
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (!['memory', 'dynamodb-local'].includes(options.backend)) {
+    throw new Error(`Unknown backend: ${options.backend}. Use memory or dynamodb-local`);
+  }
+  return options;
+}
+
+async function createStore(backend: string, endpoint: string): Promise<DocumentStore> {
+  const tables: TableDefinition[] = Object.values(TABLES);
+  if (backend === 'memory') {
+    return new InMemoryDocumentStore(tables);
+  }
+
+  const client = createDynamoDBLocalClient(endpoint);
+  await createTables(client, tables);
+  return client;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * API Gateway proxy event for a local request
+ */
+function toProxyEvent(request: IncomingMessage, path: string, body: string): APIGatewayProxyEvent {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(',') : value;
+    }
+  }
+
+  // The handler only reads the request ID, its fallback correlation ID
+  const requestContext: Partial<APIGatewayProxyEvent['requestContext']> = { requestId: randomUUID() };
+
+  return {
+    resource: path,
+    path,
+    httpMethod: request.method || 'GET',
+    headers,
+    multiValueHeaders: {},
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    pathParameters: null,
+    stageVariables: null,
+    body: body || null,
+    isBase64Encoded: false,
+    requestContext: requestContext as APIGatewayProxyEvent['requestContext']
+  };
+}
+
+function send(response: ServerResponse, statusCode: number, body: string, headers: Record<string, any> = {}): void {
+  response.writeHead(statusCode, { 'Content-Type': 'application/json', ...headers });
+  response.end(body);
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const store = await createStore(options.backend, options.endpoint);
+  const secretsClient = new StaticSecretStore({ [SECRET_ARN]: {} });
+
+  const aggregateService = new AggregateService({
+    docClient: store,
+    secretsClient,
+    tableName: TABLES.aggregates.tableName,
+    eventsTableName: TABLES.events.tableName,
+    secretArn: SECRET_ARN,
+    environment: ENVIRONMENT,
+    resolutions: parseResolutions(process.env.AGGREGATE_RESOLUTIONS),
+    groupsTableName: TABLES.groups.tableName,
+    markers: new RecordMarkers({ docClient: store, tableName: TABLES.appliedRecords.tableName })
+  });
+
+  const anomalyDetector = new AnomalyDetector({
+    docClient: store,
+    stateTableName: TABLES.anomalyState.tableName,
+    anomaliesTableName: TABLES.anomalies.tableName,
+    environment: ENVIRONMENT,
+    settings: {
+      alpha: Number(process.env.ANOMALY_EWMA_ALPHA || 0.05),
+      warmup: Number(process.env.ANOMALY_WARMUP_READINGS || 30),
+      thresholds: parseAnomalyThresholds(process.env.ANOMALY_THRESHOLDS)
+    }
+  });
+
+  const heartbeatTracker = new HeartbeatTracker({
+    docClient: store,
+    tableName: TABLES.heartbeats.tableName,
+    transitionsTableName: TABLES.statusTransitions.tableName,
+    environment: ENVIRONMENT
+  });
+
+  // Stored readings go through the aggregate Lambda's steps before the write returns
+  const eventsStore = new StreamFeed({
+    store,
+    tableName: TABLES.events.tableName,
+    keyAttributes: ['sensor_id', 'timestamp'],
+    onRecord: async record => {
+      await aggregateService.processRecord(record);
+      await anomalyDetector.processRecord(record);
+      await heartbeatTracker.processRecord(record);
+    }
+  });
+
+  const ingestService = new IngestService({
+    docClient: eventsStore,
+    secretsClient,
+    tableName: TABLES.events.tableName,
+    secretArn: SECRET_ARN,
+    environment: ENVIRONMENT,
+    maxClockSkewMs: Number(process.env.MAX_CLOCK_SKEW_SECONDS || 300) * 1000,
+    lateWindowMs: Number(process.env.LATE_READING_WINDOW_SECONDS || 86400) * 1000,
+    lateReadingPolicy: (process.env.LATE_READING_POLICY || 'flag') as LateReadingPolicy
+  });
+
+  const ingestHandler = createIngestHandler({
+    ingestService,
+    environment: ENVIRONMENT,
+    idempotencyStore: new IdempotencyStore({
+      docClient: store,
+      tableName: TABLES.idempotency.tableName,
+      windowSeconds: Number(process.env.IDEMPOTENCY_WINDOW_SECONDS || 86400)
+    })
+  });
+
+  const server = createServer(async (request, response) => {
+    try {
+      const path = new URL(request.url || '/', 'http://localhost').pathname;
+
+      if (INGEST_ROUTES.includes(path)) {
+        const result = await ingestHandler(toProxyEvent(request, path, await readBody(request)));
+        send(response, result.statusCode, result.body, result.headers);
+        return;
+      }
+
+      const tableMatch = TABLE_ROUTE.exec(path);
+      if (tableMatch && request.method === 'GET') {
+        const items: Record<string, any>[] = [];
+        let lastEvaluatedKey: Record<string, any> | undefined;
+        do {
+          const result = await store.send(new ScanCommand({ TableName: decodeURIComponent(tableMatch[1]), ExclusiveStartKey: lastEvaluatedKey }));
+          items.push(...(result.Items || []));
+          lastEvaluatedKey = result.LastEvaluatedKey;
+        } while (lastEvaluatedKey);
+        send(response, 200, JSON.stringify({ items, count: items.length }, null, 2));
+        return;
+      }
+
+      send(response, 404, JSON.stringify({ error: 'Not found', message: `No local route for ${request.method} ${path}` }));
+    } catch (error: any) {
+      console.error('Error handling local request:', error);
+      const statusCode = error.name === 'ResourceNotFoundException' ? 404 : 500;
+      send(response, statusCode, JSON.stringify({ error: error.name || 'Error', message: error.message }));
+    }
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Local pipeline (${options.backend} backend) listening on http://localhost:${options.port}`);
+    console.log(`Tables: ${Object.values(TABLES).map(table => table.tableName).join(', ')}`);
+  });
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,146 @@
+/**
+ * Replays aggregate stream records that ended up in the dead-letter queue.
+ *
+ * Usage:
+ *   npm run redrive -- --queue-url <url> [--max-messages 100] [--dry-run]
+ *
+ * Reads the same environment variables as the aggregate Lambda:
+ * SENSOR_AGGREGATES_TABLE, SENSOR_EVENTS_TABLE, SECRET_ARN, ENVIRONMENT and
+ * AGGREGATE_RESOLUTIONS, plus GROUP_AGGREGATES_TABLE to update the location
+ * and type rollups. Readings are also scored for anomalies when
+ * ANOMALY_STATE_TABLE and ANOMALIES_TABLE are set (with ANOMALY_EWMA_ALPHA,
+ * ANOMALY_WARMUP_READINGS and ANOMALY_THRESHOLDS), and move sensor
+ * heartbeats forward when HEARTBEATS_TABLE and STATUS_TRANSITIONS_TABLE are
+ * set. Set APPLIED_RECORDS_TABLE too, so records that were already applied
+ * are skipped. The queue URL can also be given as AGGREGATE_DLQ_URL.
+ */
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBStreamsClient } from '@aws-sdk/client-dynamodb-streams';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { AggregateService } from '../lambda/aggregate/service';
+import { DlqRedriveService } from '../lambda/aggregate/redrive';
+import { AnomalyDetector } from '../lambda/aggregate/anomalies';
+import { HeartbeatTracker } from '../lambda/aggregate/heartbeats';
+import { RecordMarkers } from '../lambda/aggregate/markers';
+import { parseResolutions } from '../lambda/shared/buckets';
+import { parseAnomalyThresholds } from '../lambda/shared/anomaly-detection';
+
+interface RedriveOptions {
+  queueUrl: string;
+  maxMessages: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): RedriveOptions {
+  const options: RedriveOptions = {
+    queueUrl: process.env.AGGREGATE_DLQ_URL || '',
+    maxMessages: 100,
+    dryRun: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--queue-url':
+        options.queueUrl = argv[++i];
+        break;
+      case '--max-messages':
+        options.maxMessages = Number(argv[++i]);
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (!options.queueUrl) {
+    throw new Error('Missing --queue-url (or AGGREGATE_DLQ_URL)');
+  }
+  if (!Number.isInteger(options.maxMessages) || options.maxMessages < 1) {
+    throw new Error('--max-messages must be a positive integer');
+  }
+
+  return options;
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+  const aggregateService = new AggregateService({
+    docClient,
+    secretsClient: new SecretsManagerClient({}),
+    tableName: requireEnv('SENSOR_AGGREGATES_TABLE'),
+    eventsTableName: requireEnv('SENSOR_EVENTS_TABLE'),
+    secretArn: requireEnv('SECRET_ARN'),
+    environment: process.env.ENVIRONMENT || 'dev',
+    resolutions: parseResolutions(process.env.AGGREGATE_RESOLUTIONS),
+    groupsTableName: process.env.GROUP_AGGREGATES_TABLE,
+    markers: process.env.APPLIED_RECORDS_TABLE
+      ? new RecordMarkers({ docClient, tableName: process.env.APPLIED_RECORDS_TABLE })
+      : undefined
+  });
+
+  const anomalyDetector = process.env.ANOMALY_STATE_TABLE && process.env.ANOMALIES_TABLE
+    ? new AnomalyDetector({
+      docClient,
+      stateTableName: process.env.ANOMALY_STATE_TABLE,
+      anomaliesTableName: process.env.ANOMALIES_TABLE,
+      environment: process.env.ENVIRONMENT || 'dev',
+      settings: {
+        alpha: Number(process.env.ANOMALY_EWMA_ALPHA || 0.05),
+        warmup: Number(process.env.ANOMALY_WARMUP_READINGS || 30),
+        thresholds: parseAnomalyThresholds(process.env.ANOMALY_THRESHOLDS)
+      }
+    })
+    : undefined;
+
+  const heartbeatTracker = process.env.HEARTBEATS_TABLE && process.env.STATUS_TRANSITIONS_TABLE
+    ? new HeartbeatTracker({
+      docClient,
+      tableName: process.env.HEARTBEATS_TABLE,
+      transitionsTableName: process.env.STATUS_TRANSITIONS_TABLE,
+      environment: process.env.ENVIRONMENT || 'dev'
+    })
+    : undefined;
+
+  const redriveService = new DlqRedriveService({
+    sqsClient: new SQSClient({}),
+    streamsClient: new DynamoDBStreamsClient({}),
+    aggregateService,
+    anomalyDetector,
+    heartbeatTracker,
+    queueUrl: options.queueUrl
+  });
+
+  const result = await redriveService.redrive(options.maxMessages, options.dryRun);
+
+  for (const event of result.events) {
+    console.log(`${event.eventName}\t${event.sensor_id}\t${event.timestamp}\t${event.eventID}`);
+  }
+
+  console.log(
+    `${options.dryRun ? 'Dry run: ' : ''}${result.messagesProcessed} message(s) processed, ` +
+    `${result.messagesFailed} failed, ${result.recordsRedriven} record(s) redriven`
+  );
+
+  if (result.messagesFailed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+import * as cdk from 'aws-cdk-lib';
+import { addEnvironmentStacks } from '../lib/app';
+
+describe('addEnvironmentStacks', () => {
+  // Bundling the Lambdas is not needed to check the stacks
+  const createApp = (context: Record<string, any>) => new cdk.App({
+    context: { 'aws:cdk:bundling-stacks': [], ...context }
+  });
+
+  test('Synthesizes A Stack Per Environment In One Account And Region', () => {
+    const app = createApp({ environments: 'staging,prod' });
+
+    const stacks = addEnvironmentStacks(app);
+
+    expect(stacks.map(stack => stack.stackName)).toEqual(['IoTSensorAggregator-staging', 'IoTSensorAggregator-prod']);
+    const assembly = app.synth();
+    expect(assembly.getStackByName('IoTSensorAggregator-staging').tags).toMatchObject({ Environment: 'staging' });
+    expect(assembly.getStackByName('IoTSensorAggregator-prod').tags).toMatchObject({ Environment: 'prod' });
+  });
+
+  test('Rejects Two Environments With The Same Stack Name', () => {
+    const app = createApp({
+      environments: 'dev,staging',
+      stackConfig: { dev: { stackName: 'IoTSensorAggregatorStack' }, staging: { stackName: 'IoTSensorAggregatorStack' } }
+    });
+
+    expect(() => addEnvironmentStacks(app)).toThrow(
+      "Environments 'dev' and 'staging' would both deploy stack IoTSensorAggregatorStack"
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { STACK_CONFIG_PROFILES, getStackName, loadStackConfig } from '../lib/config';
+import { DEFAULT_MONITORING_THRESHOLDS } from '../lib/monitoring';
+
+describe('loadStackConfig', () => {
+  test('Uses The Profile Of The Environment', () => {
+    expect(loadStackConfig('dev')).toEqual(STACK_CONFIG_PROFILES.dev);
+    expect(loadStackConfig('staging')).toEqual(STACK_CONFIG_PROFILES.staging);
+
+    // Other environments get the prod profile under their own name
+    const qa = loadStackConfig('qa');
+    expect(qa).toEqual({ ...STACK_CONFIG_PROFILES.prod, environment: 'qa' });
+    expect(qa.removalPolicy).toBe('retain');
+  });
+
+  test('Merges Overrides Into The Profile', () => {
+    const config = loadStackConfig('prod', {
+      region: 'eu-west-1',
+      lambdaMemoryMb: { aggregate: 2048 },
+      ingest: { maxSignatureAgeSeconds: 60, maxClockSkewSeconds: 120 },
+      anomaly: { thresholds: { default: 4, humidity: 3.5 } },
+      heartbeat: { offlineAfterSeconds: { default: 600, co2: 3600 } },
+      monitoring: { thresholds: { iteratorAgeMs: 120000 }, alarmEmail: 'ops@example.com' }
+    });
+
+    expect(config.region).toBe('eu-west-1');
+    expect(config.lambdaMemoryMb).toEqual({ ...STACK_CONFIG_PROFILES.prod.lambdaMemoryMb, aggregate: 2048 });
+    expect(config.ingest).toEqual({ ...STACK_CONFIG_PROFILES.prod.ingest, maxSignatureAgeSeconds: 60, maxClockSkewSeconds: 120 });
+    expect(config.anomaly.thresholds).toEqual({ default: 4, humidity: 3.5 });
+    expect(config.heartbeat).toEqual({ checkIntervalMinutes: 5, offlineAfterSeconds: { default: 600, co2: 3600 } });
+    expect(config.monitoring).toEqual({
+      enabled: true,
+      thresholds: { ...DEFAULT_MONITORING_THRESHOLDS.prod, iteratorAgeMs: 120000 },
+      alarmEmail: 'ops@example.com'
+    });
+
+    // Profiles are not changed by overrides
+    expect(STACK_CONFIG_PROFILES.prod.lambdaMemoryMb.aggregate).toBe(1024);
+  });
+
+  test('Names The Stack After The Environment Unless One Is Set', () => {
+    expect(getStackName(loadStackConfig('prod'))).toBe('IoTSensorAggregator-prod');
+    expect(getStackName(loadStackConfig('staging', { stackName: 'IoTSensorAggregatorStack-staging' }))).toBe('IoTSensorAggregatorStack-staging');
+    expect(() => loadStackConfig('dev', { stackName: 'iot sensors' })).toThrow("'stackName' must be a CloudFormation stack name");
+  });
+
+  test('Rejects Invalid Settings', () => {
+    expect(() => loadStackConfig('Prod')).toThrow("Invalid environment 'Prod'");
+    expect(() => loadStackConfig('dev', { memory: 512 })).toThrow("Unknown setting 'memory'");
+    expect(() => loadStackConfig('dev', { api: 100 })).toThrow("'api' must be an object");
+    expect(() => loadStackConfig('dev', { removalPolicy: 'snapshot' })).toThrow("'removalPolicy' must be 'destroy' or 'retain'");
+    expect(() => loadStackConfig('dev', { logRetentionDays: 10 })).toThrow("'logRetentionDays' must be one of");
+    expect(() => loadStackConfig('dev', { lambdaMemoryMb: { ingest: 64 } })).toThrow("'lambdaMemoryMb.ingest' must be an integer from 128 to 10240");
+    expect(() => loadStackConfig('dev', { streams: { aggregate: { batchSize: 0 } } })).toThrow("'streams.aggregate.batchSize'");
+    expect(() => loadStackConfig('dev', { aggregateResolutions: ['week'] })).toThrow("'aggregateResolutions' must be");
+    expect(() => loadStackConfig('dev', { ingest: { lateReadingPolicy: 'drop' } })).toThrow("'ingest.lateReadingPolicy' must be 'flag' or 'reject'");
+    expect(() => loadStackConfig('dev', { ingest: { maxSignatureAgeSeconds: 0 } })).toThrow("'ingest.maxSignatureAgeSeconds' must be a positive integer");
+    expect(() => loadStackConfig('dev', { ingest: { maxClockSkewSeconds: 1.5 } })).toThrow("'ingest.maxClockSkewSeconds' must be a positive integer");
+    expect(() => loadStackConfig('dev', { ingest: { requireDeviceKeys: 'yes' } })).toThrow("'ingest.requireDeviceKeys' must be true or false");
+    expect(() => loadStackConfig('dev', { cacheTtlSeconds: { rules: 0 } })).toThrow("'cacheTtlSeconds.rules' must be a positive integer");
+    expect(() => loadStackConfig('dev', { anomaly: { ewmaAlpha: 2 } })).toThrow("'anomaly.ewmaAlpha'");
+    expect(() => loadStackConfig('dev', { heartbeat: { checkIntervalMinutes: 0.5 } })).toThrow(
+      "'heartbeat.checkIntervalMinutes' must be a positive integer"
+    );
+    expect(() => loadStackConfig('dev', { heartbeat: { offlineAfterSeconds: { co2: -1 } } })).toThrow("'heartbeat.offlineAfterSeconds.co2'");
+    expect(() => loadStackConfig('dev', { monitoring: { thresholds: { dlqDepth: 0 } } })).toThrow(
+      "Invalid stack configuration for 'dev'. 'monitoring.thresholds.dlqDepth' must be a positive number"
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import * as cdk from 'aws-cdk-lib';
-import { Template } from 'aws-cdk-lib/assertions';
+import { Match, Template } from 'aws-cdk-lib/assertions';
 import { IoTSensorAggregatorStack } from '../lib/iot-sensor-aggregator-stack';
+import { loadStackConfig } from '../lib/config';
 
 describe('IoTSensorAggregatorStack', () => {
   let app: cdk.App;
@@ -9,7 +10,7 @@ describe('IoTSensorAggregatorStack', () => {
 
   beforeEach(() => {
     app = new cdk.App();
-    stack = new IoTSensorAggregatorStack(app, 'TestStack');
+    stack = new IoTSensorAggregatorStack(app, 'TestStack', { config: loadStackConfig('dev') });
     template = Template.fromStack(stack);
   });
 
@@ -75,6 +76,121 @@ describe('IoTSensorAggregatorStack', () => {
     });
   });
 
+  test('Creates Batch Ingestion Route', () => {
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'batch'
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Model', {
+      Name: 'SensorDataBatchModel',
+      Schema: {
+        type: 'array',
+        maxItems: 500
+      }
+    });
+  });
+
+  test('Creates Aggregates And Events Read API', () => {
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'aggregates'
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'events'
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Method', {
+      HttpMethod: 'GET'
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-query-dev',
+      Environment: {
+        Variables: {
+          SENSOR_AGGREGATES_TABLE: {}
+        }
+      }
+    });
+  });
+
+  test('Creates Group Aggregates Table And Read API', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'GroupAggregates-dev',
+      KeySchema: [
+        { AttributeName: 'group_key', KeyType: 'HASH' },
+        { AttributeName: 'hour_bucket', KeyType: 'RANGE' }
+      ]
+    });
+
+    ['iot-sensor-aggregate-dev', 'iot-sensor-query-dev'].forEach(functionName => {
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: functionName,
+        Environment: {
+          Variables: Match.objectLike({
+            GROUP_AGGREGATES_TABLE: { Ref: Match.stringLikeRegexp('^GroupAggregatesTable') }
+          })
+        }
+      });
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: 'locations' });
+    template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: '{location}' });
+    template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: 'types' });
+    template.hasResourceProperties('AWS::ApiGateway::Resource', { PathPart: '{type}' });
+  });
+
+  test('Aggregate Read Routes Require IAM Authorization', () => {
+    const resources = template.findResources('AWS::ApiGateway::Resource');
+    const aggregateIds = Object.keys(resources).filter(id => resources[id].Properties.PathPart === 'aggregates');
+    const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+      .filter((method: any) => method.Properties.HttpMethod !== 'OPTIONS')
+      .filter((method: any) => aggregateIds.includes(method.Properties.ResourceId.Ref));
+
+    // GET /sensor/{sensor_id}/aggregates, /locations/{location}/aggregates, /types/{type}/aggregates
+    expect(methods).toHaveLength(3);
+    for (const method of methods) {
+      expect((method as any).Properties.AuthorizationType).toBe('AWS_IAM');
+    }
+
+    const [policy] = Object.values(template.findResources('AWS::IAM::ManagedPolicy', {
+      Properties: { ManagedPolicyName: 'iot-sensor-admin-dev' }
+    }));
+    const statement = JSON.stringify((policy as any).Properties.PolicyDocument);
+    ['/GET/sensor/*/aggregates', '/GET/locations/*', '/GET/types/*'].forEach(path => expect(statement).toContain(path));
+  });
+
+  test('Event And Anomaly Read Routes Require IAM Authorization', () => {
+    const resources = template.findResources('AWS::ApiGateway::Resource');
+    const historyIds = Object.keys(resources).filter(id => ['events', 'anomalies'].includes(resources[id].Properties.PathPart));
+    const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+      .filter((method: any) => method.Properties.HttpMethod !== 'OPTIONS')
+      .filter((method: any) => historyIds.includes(method.Properties.ResourceId.Ref));
+
+    // GET /sensor/{sensor_id}/events, /sensor/{sensor_id}/anomalies
+    expect(methods).toHaveLength(2);
+    for (const method of methods) {
+      expect((method as any).Properties.AuthorizationType).toBe('AWS_IAM');
+    }
+
+    const [policy] = Object.values(template.findResources('AWS::IAM::ManagedPolicy', {
+      Properties: { ManagedPolicyName: 'iot-sensor-admin-dev' }
+    }));
+    const statement = JSON.stringify((policy as any).Properties.PolicyDocument);
+    ['/GET/sensor/*/events', '/GET/sensor/*/anomalies'].forEach(path => expect(statement).toContain(path));
+  });
+
+  test('Query Lambda Has Read-Only Table Access', () => {
+    const policies = template.findResources('AWS::IAM::Policy');
+    const queryPolicy = Object.entries(policies).find(([id]) => id.startsWith('QueryLambda'));
+    expect(queryPolicy).toBeDefined();
+
+    const actions = (queryPolicy![1] as any).Properties.PolicyDocument.Statement
+      .flatMap((statement: any) => [].concat(statement.Action));
+    expect(actions).toContain('dynamodb:Query');
+    expect(actions).not.toContain('dynamodb:PutItem');
+    expect(actions).not.toContain('dynamodb:UpdateItem');
+  });
+
   test('Creates Secrets Manager Secret', () => {
     template.hasResourceProperties('AWS::SecretsManager::Secret', {
       Name: 'iot-sensor-aggregator-dev',
@@ -94,6 +210,45 @@ describe('IoTSensorAggregatorStack', () => {
     });
   });
 
+  test('Applies The Environment Profile', () => {
+    // dev tables are removed with the stack and have no backups
+    template.hasResource('AWS::DynamoDB::Table', {
+      DeletionPolicy: 'Delete',
+      Properties: Match.objectLike({ TableName: 'SensorEvents-dev', PointInTimeRecoverySpecification: { PointInTimeRecoveryEnabled: false } })
+    });
+
+    const prodStack = new IoTSensorAggregatorStack(new cdk.App(), 'ProdStack', {
+      config: loadStackConfig('prod', { lambdaMemoryMb: { query: 512 }, ingest: { maxSignatureAgeSeconds: 60, maxClockSkewSeconds: 120, requireDeviceKeys: true } })
+    });
+    const prod = Template.fromStack(prodStack);
+
+    prod.hasResource('AWS::DynamoDB::Table', {
+      DeletionPolicy: 'Retain',
+      Properties: Match.objectLike({
+        TableName: 'SensorEvents-prod',
+        PointInTimeRecoverySpecification: { PointInTimeRecoveryEnabled: true }
+      })
+    });
+    prod.hasResource('AWS::Logs::LogGroup', {
+      DeletionPolicy: 'Retain',
+      Properties: { LogGroupName: '/aws/lambda/iot-sensor-ingest-prod', RetentionInDays: 365 }
+    });
+    prod.hasResourceProperties('AWS::Lambda::Function', { FunctionName: 'iot-sensor-query-prod', MemorySize: 512 });
+    prod.hasResourceProperties('AWS::Lambda::Function', { FunctionName: 'iot-sensor-aggregate-prod', MemorySize: 1024 });
+    prod.hasResourceProperties('AWS::ApiGateway::Stage', {
+      MethodSettings: Match.arrayWith([Match.objectLike({ ThrottlingRateLimit: 1000, ThrottlingBurstLimit: 2000 })])
+    });
+    prod.hasResourceProperties('AWS::Lambda::EventSourceMapping', { BatchSize: 25, MaximumBatchingWindowInSeconds: 5 });
+    prod.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-ingest-prod',
+      Environment: { Variables: Match.objectLike({ MAX_SIGNATURE_AGE_SECONDS: '60', MAX_CLOCK_SKEW_SECONDS: '120' }) }
+    });
+    prod.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-mqtt-ingest-prod',
+      Environment: { Variables: Match.objectLike({ MAX_CLOCK_SKEW_SECONDS: '120' }) }
+    });
+  });
+
   test('Creates Event Source Mapping for DynamoDB Stream', () => {
     template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
       EventSourceArn: {
@@ -103,7 +258,566 @@ describe('IoTSensorAggregatorStack', () => {
         ]
       },
       StartingPosition: 'LATEST',
-      BatchSize: 10
+      BatchSize: 10,
+      FunctionResponseTypes: ['ReportBatchItemFailures'],
+      BisectBatchOnFunctionError: true,
+      DestinationConfig: {
+        OnFailure: {
+          Destination: {
+            'Fn::GetAtt': [
+              Match.stringLikeRegexp('AggregateDeadLetterQueue'),
+              'Arn'
+            ]
+          }
+        }
+      }
+    });
+  });
+
+  test('Creates Aggregate Dead-Letter Queue', () => {
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'iot-sensor-aggregate-dlq-dev',
+      MessageRetentionPeriod: 1209600
+    });
+  });
+
+  test('Dead-Letters Failed Alert Stream Records', () => {
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'iot-sensor-alerts-dlq-dev',
+      MessageRetentionPeriod: 1209600
+    });
+
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      FunctionName: { Ref: Match.stringLikeRegexp('^AlertsLambda') },
+      DestinationConfig: {
+        OnFailure: {
+          Destination: { 'Fn::GetAtt': [Match.stringLikeRegexp('^AlertsDeadLetterQueue'), 'Arn'] }
+        }
+      }
+    });
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-dev-AlertsQueueDepth',
+      Dimensions: [{ Name: 'QueueName', Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('^AlertsDeadLetterQueue'), 'QueueName'] } }]
+    });
+    template.hasOutput('AlertsDeadLetterQueueUrl', {});
+  });
+
+  test('Marks Applied Stream Records And Lets The Aggregate Lambda Dead-Letter Failed Ones', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'AppliedStreamRecords-dev',
+      KeySchema: [{ AttributeName: 'record_id', KeyType: 'HASH' }],
+      TimeToLiveSpecification: { AttributeName: 'expires_at', Enabled: true }
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-aggregate-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          APPLIED_RECORDS_TABLE: Match.anyValue(),
+          AGGREGATE_DLQ_URL: Match.anyValue(),
+          MAX_RECORD_ATTEMPTS: '3'
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: Match.arrayWith(['sqs:SendMessage']),
+            Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('AggregateDeadLetterQueue'), 'Arn'] }
+          })
+        ])
+      }
+    });
+  });
+
+  test('Creates Alerting Tables, Topic And Stream Consumer', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'AlertRules-dev',
+      GlobalSecondaryIndexes: [
+        Match.objectLike({
+          IndexName: 'scope-index',
+          KeySchema: [{ AttributeName: 'scope_key', KeyType: 'HASH' }]
+        })
+      ]
+    });
+
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'AlertRuleState-dev',
+      KeySchema: [
+        { AttributeName: 'rule_id', KeyType: 'HASH' },
+        { AttributeName: 'sensor_id', KeyType: 'RANGE' }
+      ]
+    });
+
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'Alerts-dev',
+      KeySchema: [
+        { AttributeName: 'sensor_id', KeyType: 'HASH' },
+        { AttributeName: 'alert_id', KeyType: 'RANGE' }
+      ]
+    });
+
+    template.hasResourceProperties('AWS::SNS::Topic', {
+      TopicName: 'iot-sensor-alerts-dev'
+    });
+
+    // Aggregation and alert evaluation both consume the events stream
+    const streamMappings = Object.values(template.findResources('AWS::Lambda::EventSourceMapping'))
+      .filter((mapping: any) => mapping.Properties.EventSourceArn?.['Fn::GetAtt']?.[0] === 'SensorEventsTableA10059AD');
+    expect(streamMappings).toHaveLength(2);
+  });
+
+  test('Creates Sensor Registry Table And CRUD API', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'Sensors-dev',
+      KeySchema: [{ AttributeName: 'sensor_id', KeyType: 'HASH' }]
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'sensors'
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Model', {
+      Name: 'SensorModel'
+    });
+
+    template.hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: '/aws/lambda/iot-sensor-sensors-dev'
+    });
+  });
+
+  test('Ingest Lambda Reads The Sensor Registry Once Enabled', () => {
+    // Unregistered sensors are accepted until the environment opts in
+    for (const name of ['iot-sensor-ingest-dev', 'iot-sensor-mqtt-ingest-dev']) {
+      template.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: name,
+        Environment: { Variables: Match.objectLike({ SENSORS_TABLE: Match.absent() }) }
+      });
+    }
+
+    const registered = Template.fromStack(new IoTSensorAggregatorStack(new cdk.App(), 'RegisteredStack', {
+      config: loadStackConfig('dev', { ingest: { requireRegisteredSensors: true } })
+    }));
+    for (const name of ['iot-sensor-ingest-dev', 'iot-sensor-mqtt-ingest-dev']) {
+      registered.hasResourceProperties('AWS::Lambda::Function', {
+        FunctionName: name,
+        Environment: {
+          Variables: Match.objectLike({
+            SENSORS_TABLE: { Ref: Match.stringLikeRegexp('^SensorsTable') }
+          })
+        }
+      });
+    }
+
+    template.hasResourceProperties('AWS::ApiGateway::Model', {
+      Name: 'SensorDataModel',
+      Schema: Match.objectLike({
+        required: ['sensor_id'],
+        oneOf: [{ required: ['value'] }, { required: ['readings'] }],
+        properties: Match.objectLike({ unit: { type: 'string' }, readings: { type: ['object', 'array'] } })
+      })
+    });
+  });
+
+  test('Creates Device Keys Table And Key Routes', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'DeviceKeys-dev',
+      GlobalSecondaryIndexes: [
+        Match.objectLike({
+          IndexName: 'sensor-index',
+          Projection: { ProjectionType: 'INCLUDE', NonKeyAttributes: ['status', 'created_at', 'revoked_at'] }
+        })
+      ]
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'keys'
+    });
+
+    // Ingest stays open until the environment opts in to device keys
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-ingest-dev',
+      Environment: {
+        Variables: Match.objectLike({ DEVICE_KEYS_TABLE: Match.absent(), DEVICE_SIGNATURES_TABLE: Match.absent() })
+      }
+    });
+
+    const authenticated = Template.fromStack(new IoTSensorAggregatorStack(new cdk.App(), 'AuthenticatedStack', {
+      config: loadStackConfig('dev', { ingest: { requireDeviceKeys: true } })
+    }));
+    authenticated.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-ingest-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          DEVICE_KEYS_TABLE: { Ref: Match.stringLikeRegexp('^DeviceKeysTable') },
+          DEVICE_SIGNATURES_TABLE: { Ref: Match.stringLikeRegexp('^DeviceSignaturesTable') }
+        })
+      }
+    });
+
+    // Accepted signatures, kept for the signature window
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'DeviceSignatures-dev',
+      KeySchema: [{ AttributeName: 'signature_id', KeyType: 'HASH' }],
+      TimeToLiveSpecification: { AttributeName: 'expires_at', Enabled: true }
+    });
+  });
+
+  test('Registry And Device Key Routes Require IAM Authorization', () => {
+    const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+      .filter((method: any) => method.Properties.HttpMethod !== 'OPTIONS')
+      .filter((method: any) => JSON.stringify(method.Properties.Integration).includes('SensorsLambda'));
+
+    // GET/POST /sensors, GET/PUT/DELETE /sensors/{sensor_id}, GET/POST keys, DELETE keys/{key_id}
+    expect(methods).toHaveLength(8);
+    for (const method of methods) {
+      expect((method as any).Properties.AuthorizationType).toBe('AWS_IAM');
+    }
+
+    template.hasResourceProperties('AWS::IAM::ManagedPolicy', {
+      ManagedPolicyName: 'iot-sensor-admin-dev',
+      PolicyDocument: {
+        Statement: [Match.objectLike({ Action: 'execute-api:Invoke', Effect: 'Allow' })]
+      }
+    });
+    template.hasOutput('SensorAdminPolicyArn', {});
+  });
+
+  test('Fleet Status Route Requires IAM Authorization', () => {
+    const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+      .filter((method: any) => method.Properties.HttpMethod !== 'OPTIONS')
+      .filter((method: any) => JSON.stringify(method.Properties.Integration).includes('StatusLambda'));
+
+    // GET /sensors/status
+    expect(methods).toHaveLength(1);
+    expect((methods[0] as any).Properties.AuthorizationType).toBe('AWS_IAM');
+  });
+
+  test('Export Routes Require IAM Authorization', () => {
+    const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+      .filter((method: any) => method.Properties.HttpMethod !== 'OPTIONS')
+      .filter((method: any) => JSON.stringify(method.Properties.Integration).includes('ExportsLambda'));
+
+    // POST /exports, GET /exports/{export_id}
+    expect(methods).toHaveLength(2);
+    for (const method of methods) {
+      expect((method as any).Properties.AuthorizationType).toBe('AWS_IAM');
+    }
+
+    const [policy] = Object.values(template.findResources('AWS::IAM::ManagedPolicy', {
+      Properties: { ManagedPolicyName: 'iot-sensor-admin-dev' }
+    }));
+    expect(JSON.stringify((policy as any).Properties.PolicyDocument)).toContain('/exports/*');
+  });
+
+  test('Alert Rule Routes Require IAM Authorization', () => {
+    const methods = Object.values(template.findResources('AWS::ApiGateway::Method'))
+      .filter((method: any) => method.Properties.HttpMethod !== 'OPTIONS')
+      .filter((method: any) => JSON.stringify(method.Properties.Integration).includes('RulesLambda'));
+
+    // GET/POST /rules, GET/PUT/DELETE /rules/{rule_id}
+    expect(methods).toHaveLength(5);
+    for (const method of methods) {
+      expect((method as any).Properties.AuthorizationType).toBe('AWS_IAM');
+    }
+
+    const [policy] = Object.values(template.findResources('AWS::IAM::ManagedPolicy', {
+      Properties: { ManagedPolicyName: 'iot-sensor-admin-dev' }
+    }));
+    expect(JSON.stringify((policy as any).Properties.PolicyDocument)).toContain('/rules/*');
+  });
+
+  test('API Execution Logs Leave Out Headers And Payloads', () => {
+    template.hasResourceProperties('AWS::ApiGateway::Stage', {
+      MethodSettings: Match.arrayWith([Match.objectLike({ LoggingLevel: 'INFO', DataTraceEnabled: false })])
+    });
+  });
+
+  test('CORS Preflight Allows The Correlation ID Header', () => {
+    const preflights = Object.values(template.findResources('AWS::ApiGateway::Method', {
+      Properties: { HttpMethod: 'OPTIONS' }
+    }));
+
+    expect(preflights.length).toBeGreaterThan(0);
+    for (const preflight of preflights) {
+      const [response] = (preflight as any).Properties.Integration.IntegrationResponses;
+      expect(response.ResponseParameters['method.response.header.Access-Control-Allow-Headers']).toContain('X-Correlation-Id');
+    }
+  });
+
+  test('Creates Ingest Idempotency Table With TTL', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'IngestIdempotency-dev',
+      KeySchema: [{ AttributeName: 'idempotency_key', KeyType: 'HASH' }],
+      TimeToLiveSpecification: { AttributeName: 'expires_at', Enabled: true }
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-ingest-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          IDEMPOTENCY_TABLE: { Ref: Match.stringLikeRegexp('^IngestIdempotencyTable') },
+          IDEMPOTENCY_WINDOW_SECONDS: '86400'
+        })
+      }
+    });
+  });
+
+  test('Creates Anomaly Tables And Scores Readings In The Aggregate Lambda', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'AnomalyState-dev',
+      KeySchema: [{ AttributeName: 'sensor_id', KeyType: 'HASH' }]
+    });
+
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'Anomalies-dev',
+      KeySchema: [
+        { AttributeName: 'sensor_id', KeyType: 'HASH' },
+        { AttributeName: 'timestamp', KeyType: 'RANGE' }
+      ]
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-aggregate-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          ANOMALY_STATE_TABLE: { Ref: Match.stringLikeRegexp('^AnomalyStateTable') },
+          ANOMALIES_TABLE: { Ref: Match.stringLikeRegexp('^AnomaliesTable') },
+          ANOMALY_EWMA_ALPHA: '0.05',
+          ANOMALY_WARMUP_READINGS: '30',
+          ANOMALY_THRESHOLDS: 'default=4'
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-query-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          ANOMALIES_TABLE: { Ref: Match.stringLikeRegexp('^AnomaliesTable') }
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'anomalies'
+    });
+  });
+
+  test('Creates Export Jobs Table, Bucket, Queue And Worker', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'ExportJobs-dev',
+      KeySchema: [{ AttributeName: 'export_id', KeyType: 'HASH' }],
+      TimeToLiveSpecification: { AttributeName: 'expires_at', Enabled: true }
+    });
+
+    template.hasResourceProperties('AWS::S3::Bucket', {
+      PublicAccessBlockConfiguration: {
+        BlockPublicAcls: true,
+        BlockPublicPolicy: true,
+        IgnorePublicAcls: true,
+        RestrictPublicBuckets: true
+      },
+      LifecycleConfiguration: {
+        Rules: [Match.objectLike({ Prefix: 'exports/', ExpirationInDays: 7, AbortIncompleteMultipartUpload: { DaysAfterInitiation: 1 }, Status: 'Enabled' })]
+      }
+    });
+
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'iot-sensor-export-dev',
+      RedrivePolicy: Match.objectLike({ maxReceiveCount: 3 })
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-exports-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          EXPORT_JOBS_TABLE: { Ref: Match.stringLikeRegexp('^ExportJobsTable') },
+          EXPORTS_BUCKET: { Ref: Match.stringLikeRegexp('^ExportsBucket') }
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-export-worker-dev',
+      Timeout: 900
+    });
+
+    template.hasResourceProperties('AWS::Lambda::EventSourceMapping', {
+      EventSourceArn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ExportQueue'), 'Arn'] },
+      BatchSize: 1,
+      FunctionResponseTypes: ['ReportBatchItemFailures']
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'exports'
+    });
+  });
+
+  test('Creates Backfill Lambda With Access To Events And Aggregates', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-backfill-dev',
+      Timeout: 900,
+      Environment: {
+        Variables: Match.objectLike({
+          SENSOR_EVENTS_TABLE: { Ref: Match.stringLikeRegexp('^SensorEventsTable') },
+          SENSOR_AGGREGATES_TABLE: { Ref: Match.stringLikeRegexp('^SensorAggregatesTable') },
+          SENSORS_TABLE: { Ref: Match.stringLikeRegexp('^SensorsTable') },
+          AGGREGATE_RESOLUTIONS: 'minute,hour,day,month'
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::Logs::LogGroup', {
+      LogGroupName: '/aws/lambda/iot-sensor-backfill-dev'
+    });
+  });
+
+  test('Creates Heartbeat Tables, Scheduled Monitor And Status Route', () => {
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'SensorHeartbeats-dev',
+      KeySchema: [{ AttributeName: 'sensor_id', KeyType: 'HASH' }]
+    });
+
+    template.hasResourceProperties('AWS::DynamoDB::Table', {
+      TableName: 'SensorStatusTransitions-dev',
+      KeySchema: [
+        { AttributeName: 'sensor_id', KeyType: 'HASH' },
+        { AttributeName: 'changed_at', KeyType: 'RANGE' }
+      ]
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-aggregate-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          HEARTBEATS_TABLE: { Ref: Match.stringLikeRegexp('^SensorHeartbeatsTable') },
+          STATUS_TRANSITIONS_TABLE: { Ref: Match.stringLikeRegexp('^SensorStatusTransitionsTable') }
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-heartbeat-monitor-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          SENSORS_TABLE: { Ref: Match.stringLikeRegexp('^SensorsTable') },
+          OFFLINE_THRESHOLDS: 'default=900'
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'rate(5 minutes)',
+      State: 'ENABLED',
+      Targets: [Match.objectLike({
+        Arn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^HeartbeatMonitorLambda'), 'Arn'] }
+      })]
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-status-dev'
+    });
+
+    const resources = template.findResources('AWS::ApiGateway::Resource');
+    const [sensorsId] = Object.entries(resources).find(([, resource]: [string, any]) => resource.Properties.PathPart === 'sensors')!;
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'status',
+      ParentId: { Ref: sensorsId }
+    });
+  });
+
+  test('Creates Monitoring Dashboard And Alarms', () => {
+    template.hasResourceProperties('AWS::CloudWatch::Dashboard', {
+      DashboardName: 'iot-sensor-aggregator-dev'
+    });
+
+    template.hasResourceProperties('AWS::SNS::Topic', {
+      TopicName: 'iot-sensor-alarms-dev'
+    });
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-dev-AggregateIteratorAge',
+      MetricName: 'IteratorAge',
+      Dimensions: [{ Name: 'FunctionName', Value: { Ref: Match.stringLikeRegexp('^AggregateLambda') } }]
+    });
+
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-dev-AggregateQueueDepth',
+      Dimensions: [{ Name: 'QueueName', Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('^AggregateDeadLetterQueue'), 'QueueName'] } }]
+    });
+  });
+
+  test('Creates Alert Rules CRUD API', () => {
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: 'rules'
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Resource', {
+      PathPart: '{rule_id}'
+    });
+
+    ['GET', 'POST', 'PUT', 'DELETE'].forEach(method => {
+      template.hasResourceProperties('AWS::ApiGateway::Method', {
+        HttpMethod: method
+      });
+    });
+
+    template.hasResourceProperties('AWS::ApiGateway::Model', {
+      Name: 'AlertRuleModel'
+    });
+  });
+
+  test('Alerts Lambda Can Publish To The Alerts Topic', () => {
+    const policies = template.findResources('AWS::IAM::Policy');
+    const canPublish = Object.values(policies).some((policy: any) =>
+      policy.Properties.PolicyDocument.Statement.some((statement: any) =>
+        statement.Action === 'sns:Publish' &&
+        statement.Resource?.Ref?.startsWith('AlertsTopic')
+      )
+    );
+
+    expect(canPublish).toBe(true);
+  });
+
+  test('Creates MQTT Topic Rule Invoking The MQTT Ingest Lambda', () => {
+    template.hasResourceProperties('AWS::IoT::TopicRule', {
+      TopicRulePayload: Match.objectLike({
+        Sql: "SELECT encode(*, 'base64') AS payload, topic() AS topic FROM 'sensors/+/data'",
+        Actions: [{ Lambda: { FunctionArn: Match.anyValue() } }],
+        ErrorAction: { Sqs: Match.objectLike({ QueueUrl: Match.anyValue() }) }
+      })
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      FunctionName: 'iot-sensor-mqtt-ingest-dev',
+      Environment: {
+        Variables: Match.objectLike({
+          SENSOR_EVENTS_TABLE: Match.anyValue(),
+          MQTT_ERROR_QUEUE_URL: Match.anyValue()
+        })
+      }
+    });
+
+    template.hasResourceProperties('AWS::SQS::Queue', {
+      QueueName: 'iot-sensor-mqtt-errors-dev'
+    });
+
+    template.hasResourceProperties('AWS::Lambda::Permission', {
+      Action: 'lambda:InvokeFunction',
+      Principal: 'iot.amazonaws.com'
+    });
+
+    template.hasResourceProperties('AWS::Lambda::EventInvokeConfig', {
+      MaximumRetryAttempts: 2,
+      DestinationConfig: { OnFailure: { Destination: Match.anyValue() } }
+    });
+
+    template.hasResourceProperties('AWS::IoT::Policy', {
+      PolicyName: 'iot-sensor-device-dev'
     });
   });
 
@@ -111,6 +825,23 @@ describe('IoTSensorAggregatorStack', () => {
     template.hasOutput('ApiEndpoint', {});
     template.hasOutput('SensorEventsTableName', {});
     template.hasOutput('SensorAggregatesTableName', {});
+    template.hasOutput('GroupAggregatesTableName', {});
+    template.hasOutput('AggregateDeadLetterQueueUrl', {});
+    template.hasOutput('SensorsTableName', {});
+    template.hasOutput('DeviceKeysTableName', {});
+    template.hasOutput('AlertRulesTableName', {});
+    template.hasOutput('AlertsTableName', {});
+    template.hasOutput('AnomaliesTableName', {});
+    template.hasOutput('ExportsBucketName', {});
+    template.hasOutput('ExportJobsTableName', {});
+    template.hasOutput('AlertsTopicArn', {});
+    template.hasOutput('MqttErrorQueueUrl', {});
+    template.hasOutput('SensorDevicePolicyName', {});
+    template.hasOutput('BackfillFunctionName', {});
+    template.hasOutput('SensorHeartbeatsTableName', {});
+    template.hasOutput('SensorStatusTransitionsTableName', {});
+    template.hasOutput('AlarmTopicArn', {});
+    template.hasOutput('DashboardName', {});
     template.hasOutput('SecretArn', {});
   });
 
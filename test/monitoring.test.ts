@@ -0,0 +1,83 @@
+import { Duration, Stack } from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { RestApi } from 'aws-cdk-lib/aws-apigateway';
+import { AttributeType, Table } from 'aws-cdk-lib/aws-dynamodb';
+import { Code, Function as LambdaFunction, Runtime } from 'aws-cdk-lib/aws-lambda';
+import { Queue } from 'aws-cdk-lib/aws-sqs';
+import { DEFAULT_MONITORING_THRESHOLDS, SensorMonitoring } from '../lib/monitoring';
+
+describe('SensorMonitoring', () => {
+  const createTemplate = (alarmEmail?: string) => {
+    const stack = new Stack();
+    const fn = (id: string) => new LambdaFunction(stack, id, {
+      runtime: Runtime.NODEJS_18_X,
+      handler: 'index.handler',
+      code: Code.fromInline('exports.handler = async () => {};'),
+      timeout: Duration.seconds(30)
+    });
+    const api = new RestApi(stack, 'Api');
+    api.root.addMethod('GET');
+
+    new SensorMonitoring(stack, 'Monitoring', {
+      environment: 'test',
+      api,
+      functions: { Ingest: fn('Ingest'), Aggregate: fn('Aggregate') },
+      streamConsumers: { Aggregate: fn('Consumer') },
+      tables: { SensorEvents: new Table(stack, 'Events', { partitionKey: { name: 'sensor_id', type: AttributeType.STRING } }) },
+      deadLetterQueues: { Aggregate: new Queue(stack, 'Dlq') },
+      thresholds: { ...DEFAULT_MONITORING_THRESHOLDS.prod, api5xxCount: 3 },
+      alarmEmail
+    });
+    return Template.fromStack(stack);
+  };
+
+  test('Creates Alarms For The API, Lambdas, Stream, Tables And Queues', () => {
+    const template = createTemplate();
+
+    // 3 API, 3 per function, 1 per stream consumer, table and queue
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 12);
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-test-Api5xx',
+      MetricName: '5XXError',
+      Threshold: 3,
+      ComparisonOperator: 'GreaterThanOrEqualToThreshold',
+      TreatMissingData: 'notBreaching'
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-test-IngestDuration',
+      ExtendedStatistic: 'p99',
+      Threshold: 24000
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-test-AggregateIteratorAge',
+      MetricName: 'IteratorAge',
+      Threshold: 60000
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-test-SensorEventsTableThrottles',
+      Metrics: Match.arrayWith([Match.objectLike({ Expression: 'reads0 + writes0' })])
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      AlarmName: 'iot-sensor-test-AggregateQueueDepth',
+      MetricName: 'ApproximateNumberOfMessagesVisible',
+      Threshold: 1
+    });
+  });
+
+  test('Notifies The Alarm Topic When Alarms Fire And Recover', () => {
+    const template = createTemplate('ops@example.com');
+
+    template.hasResourceProperties('AWS::SNS::Topic', { TopicName: 'iot-sensor-alarms-test' });
+    template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'ops@example.com' });
+
+    const topic = { Ref: expect.stringMatching(/^MonitoringAlarmTopic/) };
+    for (const alarm of Object.values(template.findResources('AWS::CloudWatch::Alarm'))) {
+      expect(alarm.Properties.AlarmActions).toEqual([topic]);
+      expect(alarm.Properties.OKActions).toEqual([topic]);
+    }
+  });
+
+  test('Creates A Dashboard', () => {
+    createTemplate().hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'iot-sensor-aggregator-test' });
+  });
+});
@@ -0,0 +1,485 @@
+import { AggregateService, SensorEvent } from '../../lambda/aggregate/service';
+import { RecordMarkers } from '../../lambda/aggregate/markers';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+// Commands of one type sent to the document client, in order
+const sentCommands = (name: string) => mockDocClient.send.mock.calls
+  .map((call: any) => call[0])
+  .filter((command: any) => command.constructor.name === name);
+
+const transactionInput = () => sentCommands('TransactWriteCommand')[0].input;
+
+describe('AggregateService', () => {
+  let aggregateService: AggregateService;
+  const mockConfig = {
+    docClient: mockDocClient,
+    secretsClient: mockSecretsClient,
+    tableName: 'test-aggregates',
+    eventsTableName: 'test-events',
+    secretArn: 'test-secret-arn',
+    environment: 'test',
+    resolutions: ['hour' as const, 'day' as const]
+  };
+
+  const sensorEvent: SensorEvent = {
+    sensor_id: 'sensor-123',
+    timestamp: '2023-07-13T10:42:00.000Z',
+    received_at: '2023-07-13T10:42:00.120Z',
+    type: 'temperature',
+    value: 21.7,
+    location: 'lab-1',
+    environment: 'test'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    mockDocClient.send.mockResolvedValue({});
+    aggregateService = new AggregateService(mockConfig);
+  });
+
+  describe('processSensorEvent', () => {
+    it('should add count and sum for every resolution in one transaction', async () => {
+      await aggregateService.processSensorEvent(sensorEvent);
+
+      const transaction = transactionInput();
+      expect(transaction.TransactItems).toHaveLength(2);
+      expect(transaction.TransactItems.map((item: any) => item.Update.Key.hour_bucket)).toEqual([
+        'hour#2023-07-13T10:00:00',
+        'day#2023-07-13'
+      ]);
+      expect(transaction.TransactItems[0].Update.UpdateExpression).toContain('ADD #count :count, #sum :sum');
+      expect(transaction.TransactItems[0].Update.ExpressionAttributeValues[':count']).toBe(1);
+      expect(transaction.TransactItems[0].Update.ExpressionAttributeValues[':sum']).toBe(21.7);
+      expect(transaction.TransactItems[0].Update.ConditionExpression).toBe('attribute_not_exists(#shift)');
+    });
+
+    it('should store the registered unit with the bucket metadata', async () => {
+      await aggregateService.processSensorEvent({ ...sensorEvent, unit: 'celsius' });
+
+      const update = transactionInput().TransactItems[0].Update;
+      expect(update.UpdateExpression).toContain('#unit = :unit');
+      expect(update.ExpressionAttributeValues[':unit']).toBe('celsius');
+    });
+
+    it('should maintain min and max with conditional updates', async () => {
+      await aggregateService.processSensorEvent(sensorEvent);
+
+      const extremes = sentCommands('UpdateCommand')
+        .map((command: any) => command.input)
+        .filter((input: any) => input.UpdateExpression === 'SET #attr = :value');
+      expect(extremes).toHaveLength(4);
+      expect(extremes[0].ConditionExpression).toBe('attribute_not_exists(#attr) OR #attr > :value');
+      expect(extremes[1].ConditionExpression).toBe('attribute_not_exists(#attr) OR #attr < :value');
+    });
+
+    it('should ignore extremes that already cover the value', async () => {
+      const conditionFailed = Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException'
+      });
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.input.UpdateExpression === 'SET #attr = :value') {
+          throw conditionFailed;
+        }
+        return {};
+      });
+
+      await expect(aggregateService.processSensorEvent(sensorEvent)).resolves.toBeUndefined();
+      expect(mockDocClient.send).toHaveBeenCalledTimes(7);
+    });
+
+    it('should propagate transaction failures without retrying', async () => {
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'TransactWriteCommand') {
+          throw Object.assign(new Error('cancelled'), { name: 'TransactionCanceledException' });
+        }
+        return {};
+      });
+
+      await expect(aggregateService.processSensorEvent(sensorEvent)).rejects.toThrow('cancelled');
+      expect(sentCommands('TransactWriteCommand')).toHaveLength(1);
+    });
+  });
+
+  describe('statistics', () => {
+    beforeEach(() => {
+      mockDocClient.send.mockImplementation(async (command: any) => (
+        command.constructor.name === 'GetCommand' ? { Item: { shift: 20 } } : {}
+      ));
+    });
+
+    it('should create the shift and sketch with the first reading of a bucket', async () => {
+      mockDocClient.send.mockResolvedValue({});
+
+      await aggregateService.processSensorEvent(sensorEvent);
+
+      const commands = mockDocClient.send.mock.calls.map((call: any) => call[0].constructor.name);
+      expect(commands.slice(0, 3)).toEqual(['GetCommand', 'GetCommand', 'TransactWriteCommand']);
+      const update = transactionInput().TransactItems[0].Update;
+      expect(update.UpdateExpression).toContain('SET #shift = :shift, #sketch = :sketch');
+      expect(update.ConditionExpression).toBe('attribute_not_exists(#shift)');
+      expect(update.ExpressionAttributeValues[':shift']).toBe(21.7);
+      expect(update.ExpressionAttributeValues[':sketch']).toEqual({ pos: { 154: 1 }, neg: {}, zero: 0 });
+      expect(update.ExpressionAttributeValues[':sum_dev']).toBe(0);
+    });
+
+    it('should add shifted moments and a sketch bin in the transaction', async () => {
+      await aggregateService.processSensorEvent(sensorEvent);
+
+      const update = transactionInput().TransactItems[0].Update;
+      expect(update.UpdateExpression).toContain('ADD #count :count, #sum :sum, #sum_dev :sum_dev, #sum_sq_dev :sum_sq_dev');
+      expect(update.UpdateExpression).toContain('#sketch.#pos.#bin0 = if_not_exists(#sketch.#pos.#bin0, :zero) + :bin0');
+      expect(update.ConditionExpression).toBe('#shift = :shift');
+      expect(update.ExpressionAttributeValues[':sum_dev']).toBeCloseTo(1.7);
+      expect(update.ExpressionAttributeValues[':sum_sq_dev']).toBeCloseTo(2.89);
+      expect(update.ExpressionAttributeValues[':bin0']).toBe(1);
+      expect(update.ExpressionAttributeNames['#bin0']).toBe('154');
+    });
+
+    it('should leave the sketch alone when a modify stays in the same bin', async () => {
+      await aggregateService.processRecord({
+        eventID: 'event-1',
+        eventName: 'MODIFY',
+        dynamodb: {
+          OldImage: marshall(sensorEvent) as any,
+          NewImage: marshall({ ...sensorEvent, value: 21.75 }) as any
+        }
+      });
+
+      const update = transactionInput().TransactItems[0].Update;
+      expect(update.UpdateExpression).not.toContain('#sketch');
+      expect(update.ExpressionAttributeValues[':zero']).toBeUndefined();
+      expect(update.ExpressionAttributeValues[':sum_dev']).toBeCloseTo(0.05);
+    });
+
+    it('should remove a reading from the statistics of an existing bucket', async () => {
+      await aggregateService.processRecord({
+        eventName: 'REMOVE',
+        dynamodb: { OldImage: marshall(sensorEvent) as any }
+      });
+
+      const update = transactionInput().TransactItems[0].Update;
+      expect(update.ConditionExpression).toBe('#shift = :shift AND #count >= :required');
+      expect(update.ExpressionAttributeValues[':bin0']).toBe(-1);
+    });
+
+    it('should retry against the shift of a bucket another writer created first', async () => {
+      let created = false;
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'GetCommand') {
+          return created ? { Item: { shift: 25 } } : {};
+        }
+        if (command.constructor.name === 'TransactWriteCommand' && !created) {
+          created = true;
+          throw Object.assign(new Error('cancelled'), {
+            name: 'TransactionCanceledException',
+            CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }]
+          });
+        }
+        return {};
+      });
+
+      await aggregateService.processSensorEvent(sensorEvent);
+
+      const [first, second] = sentCommands('TransactWriteCommand').map((command: any) => command.input);
+      expect(second.ClientRequestToken).not.toBe(first.ClientRequestToken);
+      expect(second.TransactItems[0].Update.ConditionExpression).toBe('#shift = :shift');
+      expect(second.TransactItems[0].Update.ExpressionAttributeValues[':shift']).toBe(25);
+      expect(second.TransactItems[0].Update.ExpressionAttributeValues[':sum_dev']).toBeCloseTo(-3.3);
+    });
+  });
+
+  describe('getRequestToken', () => {
+    it('should be stable for the same change and fit the token length limit', () => {
+      const token = aggregateService.getRequestToken([{ sensorEvent, sign: 1 }]);
+
+      expect(token).toBe(aggregateService.getRequestToken([{ sensorEvent: { ...sensorEvent }, sign: 1 }]));
+      expect(token).not.toBe(aggregateService.getRequestToken([{ sensorEvent: { ...sensorEvent, value: 22 }, sign: 1 }]));
+      expect(token).not.toBe(aggregateService.getRequestToken([{ sensorEvent, sign: -1 }]));
+      expect(token.length).toBeLessThanOrEqual(36);
+    });
+
+    it('should prefer the stream eventID', () => {
+      const changes = [{ sensorEvent, sign: 1 as const }];
+
+      expect(aggregateService.getRequestToken(changes, 'event-1')).not.toBe(aggregateService.getRequestToken(changes, 'event-2'));
+    });
+  });
+
+  describe('processRecord', () => {
+    it('should aggregate inserted events', async () => {
+      await aggregateService.processRecord({
+        eventName: 'INSERT',
+        dynamodb: { NewImage: marshall(sensorEvent) as any }
+      });
+
+      expect(mockDocClient.send).toHaveBeenCalled();
+    });
+
+    it('should mark the record applied in its transaction', async () => {
+      aggregateService = new AggregateService({
+        ...mockConfig,
+        markers: new RecordMarkers({ docClient: mockDocClient, tableName: 'test-applied' })
+      });
+
+      await aggregateService.processRecord({
+        eventID: 'event-1',
+        eventName: 'INSERT',
+        dynamodb: { NewImage: marshall(sensorEvent) as any }
+      });
+
+      const transaction = transactionInput();
+      expect(transaction.ClientRequestToken).toBeUndefined();
+      expect(transaction.TransactItems[2].Put).toMatchObject({
+        TableName: 'test-applied',
+        Item: { record_id: 'event-1' },
+        ConditionExpression: 'attribute_not_exists(record_id)'
+      });
+    });
+
+    it('should still widen the extremes of a record applied before', async () => {
+      aggregateService = new AggregateService({
+        ...mockConfig,
+        markers: new RecordMarkers({ docClient: mockDocClient, tableName: 'test-applied' })
+      });
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'TransactWriteCommand') {
+          throw Object.assign(new Error('Transaction cancelled'), {
+            name: 'TransactionCanceledException',
+            CancellationReasons: [{ Code: 'None' }, { Code: 'None' }, { Code: 'ConditionalCheckFailed' }]
+          });
+        }
+        return {};
+      });
+
+      await aggregateService.processRecord({
+        eventID: 'event-1',
+        eventName: 'INSERT',
+        dynamodb: { NewImage: marshall(sensorEvent) as any }
+      });
+
+      expect(sentCommands('TransactWriteCommand')).toHaveLength(1);
+      expect(sentCommands('UpdateCommand').filter((command: any) => command.input.UpdateExpression === 'SET #attr = :value')).toHaveLength(4);
+    });
+
+    it('should skip records without a valid image', async () => {
+      await aggregateService.processRecord({
+        eventName: 'INSERT',
+        dynamodb: { NewImage: marshall({ sensor_id: 'sensor-123' }) as any }
+      });
+
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should collapse a modify within the same bucket into one delta', async () => {
+      const updated = { ...sensorEvent, value: 25 };
+      mockDocClient.send.mockImplementation(async (command: any) => (
+        command.constructor.name === 'GetCommand'
+          ? { Item: { count: 3, min: 20, max: 30, shift: 20 } }
+          : {}
+      ));
+
+      await aggregateService.processRecord({
+        eventID: 'event-1',
+        eventName: 'MODIFY',
+        dynamodb: {
+          OldImage: marshall(sensorEvent) as any,
+          NewImage: marshall(updated) as any
+        }
+      });
+
+      const transaction = transactionInput();
+      expect(transaction.TransactItems).toHaveLength(2);
+      const values = transaction.TransactItems[0].Update.ExpressionAttributeValues;
+      expect(values[':count']).toBe(0);
+      expect(values[':sum']).toBeCloseTo(3.3);
+      expect(transaction.TransactItems[0].Update.ConditionExpression).toBe('#shift = :shift AND #count >= :required');
+    });
+
+    it('should skip a modify that does not change the reading', async () => {
+      await aggregateService.processRecord({
+        eventName: 'MODIFY',
+        dynamodb: {
+          OldImage: marshall(sensorEvent) as any,
+          NewImage: marshall({ ...sensorEvent, late: true }) as any
+        }
+      });
+
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should reverse a removed reading and recompute an extreme it held', async () => {
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        switch (command.constructor.name) {
+          case 'GetCommand':
+            return { Item: { count: 2, min: 21.7, max: 30 } };
+          case 'QueryCommand':
+            return command.input.TableName === 'test-events'
+              ? { Items: [{ value: 23 }, { value: 30 }] }
+              : { Items: [{ min: 23, max: 30 }] };
+          default:
+            return {};
+        }
+      });
+
+      await aggregateService.processRecord({
+        eventID: 'event-2',
+        eventName: 'REMOVE',
+        dynamodb: { OldImage: marshall(sensorEvent) as any }
+      });
+
+      const calls = mockDocClient.send.mock.calls.map((call: any) => call[0]);
+      const transaction = transactionInput();
+      expect(transaction.TransactItems[0].Update.ExpressionAttributeValues[':count']).toBe(-1);
+      expect(transaction.TransactItems[0].Update.ExpressionAttributeValues[':sum']).toBe(-21.7);
+
+      const recomputes = calls.filter((command: any) => command.input.UpdateExpression === 'SET #min = :min, #max = :max');
+      expect(recomputes).toHaveLength(2);
+      expect(recomputes[0].input.Key.hour_bucket).toBe('hour#2023-07-13T10:00:00');
+      expect(recomputes[0].input.ExpressionAttributeValues).toEqual({ ':min': 23, ':max': 30, ':count': 2 });
+
+      const dayQuery = calls.find((command: any) => command.constructor.name === 'QueryCommand' && command.input.TableName === 'test-aggregates');
+      expect(dayQuery.input.ExpressionAttributeValues[':from']).toBe('hour#2023-07-13T00:00:00');
+      expect(dayQuery.input.ExpressionAttributeValues[':to']).toBe('hour#2023-07-13T23:00:00');
+    });
+
+    it('should delete a bucket once its last reading is removed', async () => {
+      mockDocClient.send.mockImplementation(async (command: any) => (
+        command.constructor.name === 'GetCommand'
+          ? { Item: { count: 0, sum: 0, min: 21.7, max: 21.7 } }
+          : {}
+      ));
+
+      await aggregateService.processRecord({
+        eventName: 'REMOVE',
+        dynamodb: { OldImage: marshall(sensorEvent) as any }
+      });
+
+      const deletes = mockDocClient.send.mock.calls.filter((call: any) => call[0].constructor.name === 'DeleteCommand');
+      expect(deletes).toHaveLength(2);
+    });
+
+    it('should not reverse a reading that was never aggregated', async () => {
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'TransactWriteCommand') {
+          throw Object.assign(new Error('cancelled'), {
+            name: 'TransactionCanceledException',
+            CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }]
+          });
+        }
+        return {};
+      });
+
+      await aggregateService.processRecord({
+        eventName: 'REMOVE',
+        dynamodb: { OldImage: marshall(sensorEvent) as any }
+      });
+
+      // No bucket is repaired, only the statistics state is read
+      expect(sentCommands('TransactWriteCommand')).toHaveLength(1);
+      expect(sentCommands('GetCommand').filter((command: any) => command.input.ProjectionExpression !== '#shift')).toHaveLength(0);
+    });
+
+    it('should rethrow a removal that failed on a changed shift rather than its count', async () => {
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'GetCommand') {
+          return { Item: { shift: 20 } };
+        }
+        if (command.constructor.name === 'TransactWriteCommand') {
+          throw Object.assign(new Error('cancelled'), {
+            name: 'TransactionCanceledException',
+            CancellationReasons: [{ Code: 'ConditionalCheckFailed', Item: marshall({ count: 5, shift: 25 }) }, { Code: 'None' }]
+          });
+        }
+        return {};
+      });
+
+      await expect(aggregateService.processRecord({
+        eventName: 'REMOVE',
+        dynamodb: { OldImage: marshall(sensorEvent) as any }
+      })).rejects.toMatchObject({ name: 'TransactionCanceledException' });
+
+      const update = transactionInput().TransactItems[0].Update;
+      expect(update.ReturnValuesOnConditionCheckFailure).toBe('ALL_OLD');
+      // Retried against the statistics state, never applied as an addition
+      expect(sentCommands('TransactWriteCommand')).toHaveLength(1);
+    });
+  });
+
+  describe('multi-metric readings', () => {
+    const { type, value, ...reading } = sensorEvent;
+    const multiEvent = {
+      ...reading,
+      sensor_id: 'env-1',
+      readings: { temperature: { value: 21.7, unit: 'celsius' }, humidity: { value: 48, unit: 'percent' } }
+    };
+
+    it('should aggregate every metric into its own series', async () => {
+      await aggregateService.processRecord({
+        eventID: 'event-3',
+        eventName: 'INSERT',
+        dynamodb: { NewImage: marshall(multiEvent) as any }
+      });
+
+      const transactions = sentCommands('TransactWriteCommand').map((command: any) => command.input);
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0].ClientRequestToken).not.toBe(transactions[1].ClientRequestToken);
+
+      const [humidity, temperature] = transactions.map((transaction: any) => transaction.TransactItems[0].Update);
+      expect(humidity.Key).toEqual({ sensor_id: 'env-1#humidity', hour_bucket: 'hour#2023-07-13T10:00:00' });
+      expect(humidity.ExpressionAttributeValues).toMatchObject({ ':sum': 48, ':type': 'humidity', ':metric': 'humidity', ':unit': 'percent' });
+      expect(humidity.UpdateExpression).toContain('metric = :metric');
+      expect(temperature.Key.sensor_id).toBe('env-1#temperature');
+      expect(temperature.ExpressionAttributeValues[':sum']).toBe(21.7);
+    });
+
+    it('should only reapply the metrics a modify changed', async () => {
+      const updated = { ...multiEvent, readings: { ...multiEvent.readings, humidity: { value: 52, unit: 'percent' } } };
+
+      await aggregateService.processRecord({
+        eventName: 'MODIFY',
+        dynamodb: { OldImage: marshall(multiEvent) as any, NewImage: marshall(updated) as any }
+      });
+
+      const transactions = sentCommands('TransactWriteCommand');
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0].input.TransactItems[0].Update.Key.sensor_id).toBe('env-1#humidity');
+      expect(transactions[0].input.TransactItems[0].Update.ExpressionAttributeValues[':sum']).toBe(4);
+    });
+
+    it('should recompute extremes from the metric of the raw readings', async () => {
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        switch (command.constructor.name) {
+          case 'GetCommand':
+            return { Item: { count: 1, min: 48, max: 55 } };
+          case 'QueryCommand':
+            return command.input.TableName === 'test-events'
+              ? { Items: [{ readings: { humidity: { value: 55 }, temperature: { value: 19 } } }] }
+              : { Items: [{ min: 55, max: 55 }] };
+          default:
+            return {};
+        }
+      });
+
+      await aggregateService.processRecord({
+        eventName: 'REMOVE',
+        dynamodb: { OldImage: marshall({ ...multiEvent, readings: { humidity: multiEvent.readings.humidity } }) as any }
+      });
+
+      const eventsQuery = sentCommands('QueryCommand').find((command: any) => command.input.TableName === 'test-events');
+      expect(eventsQuery.input.ExpressionAttributeValues[':sensor_id']).toBe('env-1');
+      const recompute = sentCommands('UpdateCommand').find((command: any) => command.input.UpdateExpression === 'SET #min = :min, #max = :max');
+      expect(recompute.input.Key.sensor_id).toBe('env-1#humidity');
+      expect(recompute.input.ExpressionAttributeValues).toMatchObject({ ':min': 55, ':max': 55 });
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { AlertService, RuleState, SensorEvent } from '../../lambda/alerts/service';
+import { AlertRule, isCleared } from '../../lambda/shared/alert-rules';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+// Simple mocks for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+const mockSnsClient = {
+  send: jest.fn()
+} as any;
+
+describe('AlertService', () => {
+  let alertService: AlertService;
+  const mockConfig = {
+    docClient: mockDocClient,
+    secretsClient: mockSecretsClient,
+    snsClient: mockSnsClient,
+    rulesTableName: 'test-alert-rules',
+    stateTableName: 'test-alert-rule-state',
+    alertsTableName: 'test-alerts',
+    topicArn: 'arn:aws:sns:us-east-1:123456789012:alerts',
+    secretArn: 'test-secret-arn',
+    environment: 'test'
+  };
+
+  // Freezer above -15 for five minutes, resolving below -16
+  const rule: AlertRule = {
+    rule_id: 'rule-1',
+    name: 'Freezer too warm',
+    scope_type: 'type',
+    scope_value: 'freezer_temperature',
+    scope_key: 'type#freezer_temperature',
+    operator: '>',
+    threshold: -15,
+    duration_seconds: 300,
+    hysteresis: 1,
+    cooldown_seconds: 900,
+    enabled: true,
+    created_at: '2023-07-01T00:00:00.000Z',
+    updated_at: '2023-07-01T00:00:00.000Z'
+  };
+
+  const reading = (timestamp: string, value: number): SensorEvent => ({
+    sensor_id: 'freezer-1',
+    timestamp,
+    type: 'freezer_temperature',
+    value,
+    location: 'kitchen',
+    environment: 'test'
+  });
+
+  const okState: RuleState = { rule_id: 'rule-1', sensor_id: 'freezer-1', status: 'ok', last_timestamp: '', version: 0 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    mockDocClient.send.mockResolvedValue({});
+    mockSnsClient.send.mockResolvedValue({});
+    alertService = new AlertService(mockConfig);
+  });
+
+  describe('evaluate', () => {
+    it('should wait for the breach to last the configured duration', () => {
+      const pending = alertService.evaluate(rule, okState, reading('2023-07-13T10:00:00.000Z', -14));
+      expect(pending.action).toBeUndefined();
+      expect(pending.state).toMatchObject({ status: 'pending', breach_started_at: '2023-07-13T10:00:00.000Z' });
+
+      const stillPending = alertService.evaluate(rule, pending.state, reading('2023-07-13T10:04:00.000Z', -13));
+      expect(stillPending.state).toBe(pending.state);
+
+      const fired = alertService.evaluate(rule, pending.state, reading('2023-07-13T10:05:00.000Z', -12));
+      expect(fired.action).toBe('fired');
+      expect(fired.state).toMatchObject({
+        status: 'firing',
+        last_fired_at: '2023-07-13T10:05:00.000Z',
+        alert_id: '2023-07-13T10:05:00.000Z#rule-1'
+      });
+    });
+
+    it('should reset a pending breach that ends early', () => {
+      const pending = alertService.evaluate(rule, okState, reading('2023-07-13T10:00:00.000Z', -14));
+      const reset = alertService.evaluate(rule, pending.state, reading('2023-07-13T10:02:00.000Z', -15));
+
+      expect(reset.action).toBeUndefined();
+      expect(reset.state.status).toBe('ok');
+      expect(reset.state.breach_started_at).toBeUndefined();
+    });
+
+    it('should only resolve once the value clears the hysteresis band', () => {
+      const firing: RuleState = { ...okState, status: 'firing', alert_id: 'a-1', last_timestamp: '2023-07-13T10:05:00.000Z' };
+
+      expect(alertService.evaluate(rule, firing, reading('2023-07-13T10:06:00.000Z', -15.5)).state).toBe(firing);
+
+      const resolved = alertService.evaluate(rule, firing, reading('2023-07-13T10:07:00.000Z', -16));
+      expect(resolved.action).toBe('resolved');
+      expect(resolved.state).toMatchObject({ status: 'ok', alert_id: undefined });
+    });
+
+    it('should hold back a new firing during the cooldown', () => {
+      const instantRule = { ...rule, duration_seconds: 0 };
+      const cooled: RuleState = { ...okState, last_fired_at: '2023-07-13T10:00:00.000Z', last_timestamp: '2023-07-13T10:03:00.000Z' };
+
+      const suppressed = alertService.evaluate(instantRule, cooled, reading('2023-07-13T10:10:00.000Z', -10));
+      expect(suppressed.action).toBeUndefined();
+      expect(suppressed.state.status).toBe('pending');
+
+      const fired = alertService.evaluate(instantRule, suppressed.state, reading('2023-07-13T10:15:00.000Z', -10));
+      expect(fired.action).toBe('fired');
+      expect(fired.state.breach_started_at).toBe('2023-07-13T10:10:00.000Z');
+    });
+
+    it('should apply hysteresis in the direction of the operator', () => {
+      const lowRule = { operator: '<' as const, threshold: 10, hysteresis: 2 };
+
+      expect(isCleared(lowRule, 11)).toBe(false);
+      expect(isCleared(lowRule, 12)).toBe(true);
+    });
+  });
+
+  describe('processRecord', () => {
+    const insertRecord = (sensorEvent: SensorEvent) => ({
+      eventID: 'event-1',
+      eventName: 'INSERT' as const,
+      dynamodb: { NewImage: marshall(sensorEvent) as any }
+    });
+
+    it('should look up rules by sensor_id, type and location', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      await alertService.processRecord(insertRecord(reading('2023-07-13T10:00:00.000Z', -14)));
+
+      const scopeKeys = mockDocClient.send.mock.calls.map((call: any) => call[0].input.ExpressionAttributeValues[':scope_key']);
+      expect(scopeKeys).toEqual(['sensor_id#freezer-1', 'type#freezer_temperature', 'location#kitchen']);
+
+      // Rules are cached between records
+      await alertService.processRecord(insertRecord(reading('2023-07-13T10:01:00.000Z', -14)));
+      expect(mockDocClient.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should look up rules for each metric of a multi-metric reading', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      await alertService.processRecord({
+        eventID: 'event-2',
+        eventName: 'INSERT',
+        dynamodb: {
+          NewImage: marshall({
+            sensor_id: 'env-1',
+            timestamp: '2023-07-13T10:00:00.000Z',
+            location: 'kitchen',
+            readings: { humidity: { value: 48 }, temperature: { value: 4 } },
+            environment: 'test'
+          }) as any
+        }
+      });
+
+      const scopeKeys = mockDocClient.send.mock.calls.map((call: any) => call[0].input.ExpressionAttributeValues[':scope_key']);
+      expect(scopeKeys).toEqual([
+        'sensor_id#env-1#humidity', 'type#humidity', 'location#kitchen',
+        'sensor_id#env-1#temperature', 'type#temperature'
+      ]);
+    });
+
+    it('should publish and store a fired alert', async () => {
+      const instantRule = { ...rule, duration_seconds: 0 };
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'QueryCommand') {
+          return { Items: command.input.ExpressionAttributeValues[':scope_key'] === 'type#freezer_temperature' ? [instantRule] : [] };
+        }
+        return {};
+      });
+
+      await alertService.processRecord(insertRecord(reading('2023-07-13T10:00:00.000Z', -12)));
+
+      const publish = mockSnsClient.send.mock.calls[0][0].input;
+      expect(publish.TopicArn).toBe(mockConfig.topicArn);
+      expect(publish.Subject).toBe('[FIRING] Freezer too warm: freezer-1');
+      expect(JSON.parse(publish.Message)).toMatchObject({
+        event: 'ALERT_FIRED',
+        alert: { rule_id: 'rule-1', sensor_id: 'freezer-1', status: 'firing', fired_value: -12 }
+      });
+
+      const transaction = mockDocClient.send.mock.calls
+        .map((call: any) => call[0])
+        .find((command: any) => command.constructor.name === 'TransactWriteCommand').input;
+      expect(transaction.TransactItems[0].Put.ConditionExpression).toBe('attribute_not_exists(rule_id)');
+      expect(transaction.TransactItems[0].Put.Item).toMatchObject({ status: 'firing', version: 1 });
+      expect(transaction.TransactItems[1].Put.TableName).toBe('test-alerts');
+    });
+
+    it('should resolve the stored alert', async () => {
+      const state: RuleState = {
+        ...okState,
+        status: 'firing',
+        alert_id: '2023-07-13T10:00:00.000Z#rule-1',
+        last_timestamp: '2023-07-13T10:00:00.000Z',
+        version: 3
+      };
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'GetCommand') {
+          return command.input.TableName === 'test-alert-rule-state'
+            ? { Item: state }
+            : { Item: { sensor_id: 'freezer-1', alert_id: state.alert_id, rule_id: 'rule-1', rule_name: rule.name, status: 'firing' } };
+        }
+        return {};
+      });
+
+      const action = await alertService.evaluateRule(rule, reading('2023-07-13T10:20:00.000Z', -18));
+
+      expect(action).toBe('resolved');
+      expect(JSON.parse(mockSnsClient.send.mock.calls[0][0].input.Message).event).toBe('ALERT_RESOLVED');
+
+      const transaction = mockDocClient.send.mock.calls
+        .map((call: any) => call[0])
+        .find((command: any) => command.constructor.name === 'TransactWriteCommand').input;
+      expect(transaction.TransactItems[0].Put.ConditionExpression).toBe('version = :version');
+      expect(transaction.TransactItems[0].Put.Item).not.toHaveProperty('alert_id');
+      expect(transaction.TransactItems[1].Update.Key).toEqual({ sensor_id: 'freezer-1', alert_id: state.alert_id });
+      expect(transaction.TransactItems[1].Update.ExpressionAttributeValues[':resolved_value']).toBe(-18);
+    });
+
+    it('should ignore readings older than the last transition', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: { ...okState, status: 'firing', last_timestamp: '2023-07-13T10:05:00.000Z', version: 1 }
+      });
+
+      const action = await alertService.evaluateRule(rule, reading('2023-07-13T10:04:00.000Z', -20));
+
+      expect(action).toBeUndefined();
+      expect(mockDocClient.send).toHaveBeenCalledTimes(1);
+      expect(mockSnsClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should skip removals', async () => {
+      await alertService.processRecord({ eventName: 'REMOVE', dynamodb: {} });
+
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+  });
+});
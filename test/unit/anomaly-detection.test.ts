@@ -0,0 +1,205 @@
+import { AnomalyDetector, AnomalyState } from '../../lambda/aggregate/anomalies';
+import { SensorEvent } from '../../lambda/aggregate/service';
+import {
+  getThreshold,
+  parseAnomalyThresholds,
+  scoreReading,
+  updateBaseline
+} from '../../lambda/shared/anomaly-detection';
+import { marshall } from '@aws-sdk/util-dynamodb';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+describe('anomaly detection', () => {
+  describe('parseAnomalyThresholds', () => {
+    it('should default every type to the default threshold', () => {
+      expect(parseAnomalyThresholds(undefined)).toEqual({ default: 4 });
+    });
+
+    it('should parse per-type thresholds', () => {
+      expect(parseAnomalyThresholds('default=5, humidity=3.5')).toEqual({ default: 5, humidity: 3.5 });
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => parseAnomalyThresholds('humidity')).toThrow("Invalid anomaly threshold 'humidity'");
+      expect(() => parseAnomalyThresholds('humidity=-1')).toThrow('Invalid anomaly threshold');
+    });
+  });
+
+  describe('getThreshold', () => {
+    it('should fall back to the default threshold', () => {
+      const settings = { alpha: 0.1, warmup: 5, thresholds: { default: 4, humidity: 3 } };
+      expect(getThreshold(settings, 'humidity')).toBe(3);
+      expect(getThreshold(settings, 'temperature')).toBe(4);
+    });
+  });
+
+  describe('baseline', () => {
+    it('should start from the first reading and score it 0', () => {
+      expect(scoreReading(undefined, 21)).toBe(0);
+      expect(updateBaseline(undefined, 21, 0.1)).toEqual({ mean: 21, variance: 0, count: 1 });
+    });
+
+    it('should track the EWMA mean and variance', () => {
+      let baseline = updateBaseline(undefined, 10, 0.5);
+      baseline = updateBaseline(baseline, 20, 0.5);
+
+      expect(baseline.mean).toBe(15);
+      expect(baseline.variance).toBe(25);
+      expect(baseline.count).toBe(2);
+      expect(scoreReading(baseline, 30)).toBe(3);
+    });
+  });
+});
+
+describe('AnomalyDetector', () => {
+  let detector: AnomalyDetector;
+  const settings = { alpha: 0.1, warmup: 3, thresholds: { default: 4, humidity: 2 } };
+
+  const reading = (timestamp: string, value: number, type = 'temperature'): SensorEvent => ({
+    sensor_id: 'sensor-123',
+    timestamp,
+    type,
+    value,
+    location: 'warehouse-a',
+    unit: 'celsius',
+    environment: 'test'
+  });
+
+  const warmState: AnomalyState = {
+    sensor_id: 'sensor-123',
+    mean: 20,
+    variance: 1,
+    count: 10,
+    last_timestamp: '2023-07-13T10:00:00.000Z',
+    version: 7
+  };
+
+  const insertRecord = (sensorEvent: SensorEvent) => ({
+    eventID: 'event-1',
+    eventName: 'INSERT',
+    dynamodb: {
+      SequenceNumber: '100',
+      NewImage: marshall(sensorEvent) as any
+    }
+  }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    detector = new AnomalyDetector({
+      docClient: mockDocClient,
+      stateTableName: 'test-anomaly-state',
+      anomaliesTableName: 'test-anomalies',
+      environment: 'test',
+      settings
+    });
+  });
+
+  it('should not flag anything during warm-up', () => {
+    const result = detector.score({ ...warmState, count: 2 }, reading('2023-07-13T10:01:00.000Z', 40));
+
+    expect(result.score).toBe(20);
+    expect(result.anomalous).toBe(false);
+    expect(result.anomaly).toBeUndefined();
+    expect(result.state.count).toBe(3);
+  });
+
+  it('should flag readings at or above the threshold of their type', () => {
+    const now = new Date('2023-07-13T10:01:05.000Z');
+
+    expect(detector.score(warmState, reading('2023-07-13T10:01:00.000Z', 23)).anomalous).toBe(false);
+
+    const result = detector.score(warmState, reading('2023-07-13T10:01:00.000Z', 23, 'humidity'), now);
+    expect(result.anomalous).toBe(true);
+    expect(result.anomaly).toEqual({
+      sensor_id: 'sensor-123',
+      timestamp: '2023-07-13T10:01:00.000Z',
+      value: 23,
+      score: 3,
+      threshold: 2,
+      baseline_mean: 20,
+      baseline_stddev: 1,
+      type: 'humidity',
+      location: 'warehouse-a',
+      unit: 'celsius',
+      detected_at: '2023-07-13T10:01:05.000Z',
+      environment: 'test'
+    });
+  });
+
+  it('should save the baseline and the anomaly in one versioned transaction', async () => {
+    mockDocClient.send.mockImplementation((command: any) => {
+      if (command.constructor.name === 'GetCommand') {
+        return Promise.resolve({ Item: warmState });
+      }
+      return Promise.resolve({});
+    });
+
+    const [result] = await detector.processRecord(insertRecord(reading('2023-07-13T10:01:00.000Z', 30)));
+
+    expect(result?.anomalous).toBe(true);
+    const transaction = mockDocClient.send.mock.calls[1][0].input;
+    expect(transaction.TransactItems).toHaveLength(2);
+    expect(transaction.TransactItems[0].Put.TableName).toBe('test-anomaly-state');
+    expect(transaction.TransactItems[0].Put.Item).toMatchObject({ version: 8, count: 11, last_timestamp: '2023-07-13T10:01:00.000Z' });
+    expect(transaction.TransactItems[0].Put.ConditionExpression).toBe('version = :version');
+    expect(transaction.TransactItems[1].Put.TableName).toBe('test-anomalies');
+  });
+
+  it('should create the state of a new sensor conditionally', async () => {
+    mockDocClient.send.mockResolvedValue({});
+
+    const [result] = await detector.processRecord(insertRecord(reading('2023-07-13T10:01:00.000Z', 21)));
+
+    expect(result?.score).toBe(0);
+    const transaction = mockDocClient.send.mock.calls[1][0].input;
+    expect(transaction.TransactItems).toHaveLength(1);
+    expect(transaction.TransactItems[0].Put.ConditionExpression).toBe('attribute_not_exists(sensor_id)');
+  });
+
+  it('should skip removals, edits of older readings and the last reading scored', async () => {
+    mockDocClient.send.mockResolvedValue({ Item: warmState });
+
+    expect(await detector.processRecord({ eventName: 'REMOVE', dynamodb: {} } as any)).toEqual([]);
+    expect(await detector.processRecord(insertRecord(reading('2023-07-13T10:00:00.000Z', 40)))).toEqual([]);
+    expect(await detector.processRecord({ ...insertRecord(reading('2023-07-13T09:59:00.000Z', 40)), eventName: 'MODIFY' })).toEqual([]);
+    expect(mockDocClient.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should score out-of-order readings without folding them into the baseline', async () => {
+    mockDocClient.send.mockImplementation((command: any) => {
+      if (command.constructor.name === 'GetCommand') {
+        return Promise.resolve({ Item: warmState });
+      }
+      return Promise.resolve({});
+    });
+
+    const [result] = await detector.processRecord(insertRecord(reading('2023-07-13T09:30:00.000Z', 30)));
+
+    expect(result).toMatchObject({ score: 10, anomalous: true, out_of_order: true, state: warmState });
+    const commands = mockDocClient.send.mock.calls.map(([command]: any[]) => command);
+    expect(commands.map((command: any) => command.constructor.name)).toEqual(['GetCommand', 'PutCommand']);
+    expect(commands[1].input).toMatchObject({
+      TableName: 'test-anomalies',
+      Item: { sensor_id: 'sensor-123', timestamp: '2023-07-13T09:30:00.000Z', score: 10, baseline_mean: 20 },
+      ConditionExpression: 'attribute_not_exists(sensor_id)'
+    });
+  });
+
+  it('should keep the anomaly already stored for a reading scored out of order again', async () => {
+    mockDocClient.send.mockImplementation((command: any) => {
+      if (command.constructor.name === 'GetCommand') {
+        return Promise.resolve({ Item: warmState });
+      }
+      return Promise.reject(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }));
+    });
+
+    const [result] = await detector.processRecord(insertRecord(reading('2023-07-13T09:30:00.000Z', 30)));
+
+    expect(result.anomalous).toBe(true);
+    expect(mockDocClient.send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,226 @@
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { AggregateBackfill, parseBackfillRequest } from '../../lambda/aggregate/backfill';
+import { AggregateService } from '../../lambda/aggregate/service';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+import { StreamFeed } from '../../lambda/shared/stream-feed';
+import { StaticSecretStore } from '../../lambda/shared/storage';
+
+describe('AggregateBackfill', () => {
+  let store: InMemoryDocumentStore;
+  let stream: StreamFeed;
+  let backfill: AggregateBackfill;
+
+  const request = (overrides: Record<string, any> = {}) => parseBackfillRequest({
+    sensor_ids: ['temp-001'],
+    from: '2023-07-13T10:00:00.000Z',
+    to: '2023-07-13T11:00:00.000Z',
+    ...overrides
+  });
+
+  // Stored through the simulated stream, so aggregates are kept as in production
+  const ingest = (value: number, timestamp: string, sensor_id = 'temp-001') => stream.send(new PutCommand({
+    TableName: 'events',
+    Item: {
+      sensor_id,
+      timestamp,
+      type: 'temperature',
+      value,
+      location: 'lab-1',
+      received_at: timestamp,
+      environment: 'test'
+    }
+  }));
+
+  const getAggregate = async (hour_bucket: string, sensor_id = 'temp-001') => (await store.send(new GetCommand({
+    TableName: 'aggregates',
+    Key: { sensor_id, hour_bucket }
+  }))).Item;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    store = new InMemoryDocumentStore([
+      { tableName: 'events', partitionKey: 'sensor_id', sortKey: 'timestamp' },
+      { tableName: 'aggregates', partitionKey: 'sensor_id', sortKey: 'hour_bucket' },
+      { tableName: 'sensors', partitionKey: 'sensor_id' }
+    ]);
+    const aggregateService = new AggregateService({
+      docClient: store,
+      secretsClient: new StaticSecretStore({ local: {} }),
+      tableName: 'aggregates',
+      eventsTableName: 'events',
+      secretArn: 'local',
+      environment: 'test',
+      resolutions: ['hour', 'day']
+    });
+    stream = new StreamFeed({
+      store,
+      tableName: 'events',
+      keyAttributes: ['sensor_id', 'timestamp'],
+      onRecord: record => aggregateService.processRecord(record)
+    });
+    backfill = new AggregateBackfill({
+      docClient: store,
+      tableName: 'aggregates',
+      eventsTableName: 'events',
+      sensorsTableName: 'sensors',
+      resolutions: ['hour', 'day']
+    });
+
+    await ingest(20, '2023-07-13T10:05:00.000Z');
+    await ingest(-3.5, '2023-07-13T10:35:00.000Z');
+    await ingest(24, '2023-07-13T14:00:00.000Z');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseBackfillRequest', () => {
+    it('should normalize the range and default to a real run', () => {
+      expect(parseBackfillRequest({ from: '2023-07-13T10:00:00Z', to: '2023-07-14T00:00:00Z' })).toEqual({
+        sensor_ids: undefined,
+        from: '2023-07-13T10:00:00.000Z',
+        to: '2023-07-14T00:00:00.000Z',
+        dry_run: false
+      });
+    });
+
+    it('should reject invalid ranges and sensor lists', () => {
+      expect(() => parseBackfillRequest({ from: 'yesterday', to: '2023-07-14T00:00:00Z' })).toThrow('from and to must be ISO 8601 timestamps');
+      expect(() => parseBackfillRequest({ from: '2023-07-14T00:00:00Z', to: '2023-07-13T00:00:00Z' })).toThrow('from must be before to');
+      expect(() => parseBackfillRequest({ from: '2023-07-13T00:00:00Z', to: '2023-07-14T00:00:00Z', sensor_ids: [] })).toThrow('sensor_ids must be a non-empty list');
+    });
+  });
+
+  it('should find no differences in aggregates kept by the stream', async () => {
+    const report = await backfill.run(request({ dry_run: true }));
+
+    expect(report).toMatchObject({ sensors: 1, events: 3, buckets: 2, differences: [], written: 0, deleted: 0 });
+  });
+
+  it('should report drifted rows in a dry run without writing them', async () => {
+    await store.send(new UpdateCommand({
+      TableName: 'aggregates',
+      Key: { sensor_id: 'temp-001', hour_bucket: 'hour#2023-07-13T10:00:00' },
+      UpdateExpression: 'SET #count = :count, #sum = :sum',
+      ExpressionAttributeNames: { '#count': 'count', '#sum': 'sum' },
+      ExpressionAttributeValues: { ':count': 5, ':sum': 100 }
+    }));
+
+    const report = await backfill.run(request({ dry_run: true }));
+
+    expect(report.differences).toEqual([{
+      sensor_id: 'temp-001',
+      hour_bucket: 'hour#2023-07-13T10:00:00',
+      change: 'update',
+      fields: ['count', 'sum'],
+      stored: { count: 5, sum: 100, min: -3.5, max: 20 },
+      recomputed: { count: 2, sum: 16.5, min: -3.5, max: 20 }
+    }]);
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 5, sum: 100 });
+  });
+
+  it('should rebuild missing and drifted rows idempotently', async () => {
+    await store.send(new DeleteCommand({ TableName: 'aggregates', Key: { sensor_id: 'temp-001', hour_bucket: 'day#2023-07-13' } }));
+    await store.send(new UpdateCommand({
+      TableName: 'aggregates',
+      Key: { sensor_id: 'temp-001', hour_bucket: 'hour#2023-07-13T10:00:00' },
+      UpdateExpression: 'SET #max = :max',
+      ExpressionAttributeNames: { '#max': 'max' },
+      ExpressionAttributeValues: { ':max': 99 }
+    }));
+
+    const report = await backfill.run(request());
+
+    expect(report.differences.map(difference => [difference.hour_bucket, difference.change])).toEqual([
+      ['day#2023-07-13', 'create'],
+      ['hour#2023-07-13T10:00:00', 'update']
+    ]);
+    expect(report.written).toBe(2);
+    // The day bucket is rebuilt from all of its readings, not only the range's
+    expect(await getAggregate('day#2023-07-13')).toMatchObject({ count: 3, sum: 40.5, min: -3.5, max: 24 });
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 2, max: 20 });
+
+    const rerun = await backfill.run(request());
+    expect(rerun.differences).toEqual([]);
+    expect(rerun.written).toBe(0);
+  });
+
+  it('should delete rows of buckets without readings', async () => {
+    await store.send(new PutCommand({
+      TableName: 'aggregates',
+      Item: { sensor_id: 'temp-001', hour_bucket: 'hour#2023-07-13T10:00:00', count: 1, sum: 1, min: 1, max: 1, last_updated: '2023-07-13T10:00:00.000Z' }
+    }));
+    await store.send(new DeleteCommand({ TableName: 'events', Key: { sensor_id: 'temp-001', timestamp: '2023-07-13T10:05:00.000Z' } }));
+    await store.send(new DeleteCommand({ TableName: 'events', Key: { sensor_id: 'temp-001', timestamp: '2023-07-13T10:35:00.000Z' } }));
+
+    const report = await backfill.run(request());
+
+    expect(report.differences).toContainEqual(expect.objectContaining({ hour_bucket: 'hour#2023-07-13T10:00:00', change: 'delete' }));
+    expect(report.deleted).toBe(1);
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toBeUndefined();
+  });
+
+  it('should rebuild each metric series of a multi-metric sensor', async () => {
+    await stream.send(new PutCommand({
+      TableName: 'events',
+      Item: {
+        sensor_id: 'env-1',
+        timestamp: '2023-07-13T10:05:00.000Z',
+        location: 'lab-1',
+        readings: { temperature: { value: 21, unit: 'celsius' }, humidity: { value: 48, unit: 'percent' } },
+        received_at: '2023-07-13T10:05:00.000Z',
+        environment: 'test'
+      }
+    }));
+    await store.send(new DeleteCommand({ TableName: 'aggregates', Key: { sensor_id: 'env-1#humidity', hour_bucket: 'hour#2023-07-13T10:00:00' } }));
+
+    const report = await backfill.run(request({ sensor_ids: ['env-1'] }));
+
+    expect(report).toMatchObject({ events: 2, buckets: 4, written: 1 });
+    expect(report.differences).toEqual([
+      expect.objectContaining({ sensor_id: 'env-1#humidity', hour_bucket: 'hour#2023-07-13T10:00:00', change: 'create' })
+    ]);
+    expect(await getAggregate('hour#2023-07-13T10:00:00', 'env-1#humidity')).toMatchObject({ count: 1, sum: 48, metric: 'humidity' });
+    expect((await backfill.run(request({ sensor_ids: ['env-1'] }))).differences).toEqual([]);
+  });
+
+  it('should recompute a sensor whose rows change while it is rewritten', async () => {
+    await store.send(new DeleteCommand({ TableName: 'aggregates', Key: { sensor_id: 'temp-001', hour_bucket: 'hour#2023-07-13T10:00:00' } }));
+
+    // A reading lands between the backfill's read and its write
+    const send = store.send.bind(store);
+    let raced = false;
+    jest.spyOn(store, 'send').mockImplementation(async (command: any) => {
+      if (!raced && command instanceof PutCommand && command.input.TableName === 'aggregates') {
+        raced = true;
+        await ingest(22, '2023-07-13T10:50:00.000Z');
+      }
+      return send(command);
+    });
+
+    const report = await backfill.run(request());
+
+    expect(report.events).toBe(4);
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 3, sum: 38.5 });
+  });
+
+  it('should backfill every registered sensor when none are given', async () => {
+    await ingest(18, '2023-07-13T10:10:00.000Z', 'temp-002');
+    await store.send(new PutCommand({ TableName: 'sensors', Item: { sensor_id: 'temp-001' } }));
+    await store.send(new PutCommand({ TableName: 'sensors', Item: { sensor_id: 'temp-002' } }));
+
+    const report = await backfill.run(request({ sensor_ids: undefined, dry_run: true }));
+
+    expect(report).toMatchObject({ sensors: 2, events: 4, differences: [] });
+  });
+
+  it('should report the sensors left when told to stop', async () => {
+    let checks = 0;
+    const report = await backfill.run(request({ sensor_ids: ['temp-001', 'temp-002', 'temp-003'] }), () => checks++ >= 1);
+
+    expect(report.sensors).toBe(1);
+    expect(report.remaining_sensor_ids).toEqual(['temp-002', 'temp-003']);
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  chooseResolution,
+  getBucketEnd,
+  getBucketKey,
+  parseBucketKey,
+  parseResolutions
+} from '../../lambda/shared/buckets';
+
+describe('buckets', () => {
+  describe('getBucketKey', () => {
+    const timestamp = '2023-07-13T10:42:17.250Z';
+
+    it('should encode the resolution in the sort key', () => {
+      expect(getBucketKey(timestamp, 'minute')).toBe('minute#2023-07-13T10:42:00');
+      expect(getBucketKey(timestamp, 'hour')).toBe('hour#2023-07-13T10:00:00');
+      expect(getBucketKey(timestamp, 'day')).toBe('day#2023-07-13');
+      expect(getBucketKey(timestamp, 'month')).toBe('month#2023-07');
+    });
+
+    it('should round-trip through parseBucketKey', () => {
+      expect(parseBucketKey(getBucketKey(timestamp, 'day'))).toEqual({ resolution: 'day', bucket: '2023-07-13' });
+      expect(parseBucketKey('2023-07-13T10:00:00')).toBeNull();
+    });
+  });
+
+  describe('getBucketEnd', () => {
+    it('should handle month boundaries', () => {
+      const end = getBucketEnd(new Date('2023-01-01T00:00:00.000Z'), 'month');
+      expect(end.toISOString()).toBe('2023-02-01T00:00:00.000Z');
+    });
+  });
+
+  describe('parseResolutions', () => {
+    it('should return resolutions ordered finest first', () => {
+      expect(parseResolutions('month, hour,minute')).toEqual(['minute', 'hour', 'month']);
+    });
+
+    it('should fall back when unset', () => {
+      expect(parseResolutions(undefined)).toEqual(['hour']);
+    });
+
+    it('should reject unknown resolutions', () => {
+      expect(() => parseResolutions('hour,week')).toThrow('Unknown aggregate resolution(s): week');
+    });
+  });
+
+  describe('chooseResolution', () => {
+    const from = new Date('2023-07-01T00:00:00.000Z');
+
+    it('should pick the finest resolution that fits the range', () => {
+      const all = parseResolutions('minute,hour,day,month');
+      expect(chooseResolution(from, new Date('2023-07-01T04:00:00.000Z'), all)).toBe('minute');
+      expect(chooseResolution(from, new Date('2023-07-08T00:00:00.000Z'), all)).toBe('hour');
+      expect(chooseResolution(from, new Date('2024-07-01T00:00:00.000Z'), all)).toBe('day');
+      expect(chooseResolution(from, new Date('2033-07-01T00:00:00.000Z'), all)).toBe('month');
+    });
+
+    it('should fall back to the coarsest available resolution', () => {
+      expect(chooseResolution(from, new Date('2033-07-01T00:00:00.000Z'), ['minute', 'hour'])).toBe('hour');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DeviceAuthenticator, DeviceKey, signRequest } from '../../lambda/shared/device-keys';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+describe('DeviceAuthenticator', () => {
+  let authenticator: DeviceAuthenticator;
+
+  const key: DeviceKey = {
+    key_id: 'key-1',
+    sensor_id: 'sensor-123',
+    secret: 'device-secret',
+    status: 'active',
+    created_at: '2023-07-01T00:00:00.000Z'
+  };
+
+  const body = JSON.stringify({ sensor_id: 'sensor-123', value: 25.5 });
+  const now = Date.parse('2023-07-13T10:00:00.000Z');
+  const timestamp = String(now / 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDocClient.send.mockResolvedValue({ Item: key });
+    authenticator = new DeviceAuthenticator({ docClient: mockDocClient, tableName: 'test-device-keys' });
+  });
+
+  it('should accept the device key itself', async () => {
+    await expect(authenticator.authenticate({ 'X-Device-Key-Id': 'key-1', 'X-Device-Key': 'device-secret' }, body, now))
+      .resolves.toEqual(key);
+  });
+
+  it('should accept a fresh signature over the body', async () => {
+    const headers = {
+      'x-device-key-id': 'key-1',
+      'x-device-timestamp': timestamp,
+      'x-device-signature': signRequest('device-secret', timestamp, body)
+    };
+
+    await expect(authenticator.authenticate(headers, body, now)).resolves.toEqual(key);
+  });
+
+  it('should reject a tampered body or a replayed signature', async () => {
+    const headers = {
+      'x-device-key-id': 'key-1',
+      'x-device-timestamp': timestamp,
+      'x-device-signature': signRequest('device-secret', timestamp, body)
+    };
+
+    await expect(authenticator.authenticate(headers, body.replace('25.5', '99'), now))
+      .rejects.toThrow('Unauthorized. Invalid signature');
+    await expect(authenticator.authenticate(headers, body, now + 6 * 60 * 1000))
+      .rejects.toThrow('Unauthorized. Signature timestamp');
+  });
+
+  it('should accept each signature only once', async () => {
+    const docClient = new InMemoryDocumentStore([
+      { tableName: 'test-device-keys', partitionKey: 'key_id' },
+      { tableName: 'test-device-signatures', partitionKey: 'signature_id' }
+    ]);
+    await docClient.send(new PutCommand({ TableName: 'test-device-keys', Item: key }));
+    authenticator = new DeviceAuthenticator({
+      docClient,
+      tableName: 'test-device-keys',
+      signaturesTableName: 'test-device-signatures'
+    });
+    const sign = (signedAt: string) => ({
+      'x-device-key-id': 'key-1',
+      'x-device-timestamp': signedAt,
+      'x-device-signature': signRequest('device-secret', signedAt, body)
+    });
+
+    await expect(authenticator.authenticate(sign(timestamp), body, now)).resolves.toEqual(key);
+    await expect(authenticator.authenticate(sign(timestamp), body, now + 1000))
+      .rejects.toThrow('Unauthorized. Signature already used');
+
+    // The same body signed again is a new request
+    await expect(authenticator.authenticate(sign(String(now / 1000 + 1)), body, now + 1000)).resolves.toEqual(key);
+  });
+
+  it('should reject missing, wrong and revoked keys', async () => {
+    await expect(authenticator.authenticate({}, body, now)).rejects.toThrow('Missing x-device-key-id');
+    await expect(authenticator.authenticate({ 'x-device-key-id': 'key-1', 'x-device-key': 'guess' }, body, now))
+      .rejects.toThrow('Unauthorized. Invalid device key');
+
+    mockDocClient.send.mockResolvedValue({ Item: { ...key, status: 'revoked' } });
+    const fresh = new DeviceAuthenticator({ docClient: mockDocClient, tableName: 'test-device-keys' });
+    await expect(fresh.authenticate({ 'x-device-key-id': 'key-1', 'x-device-key': 'device-secret' }, body, now))
+      .rejects.toThrow('Unknown or revoked device key');
+  });
+
+  it('should cache key lookups', async () => {
+    const headers = { 'x-device-key-id': 'key-1', 'x-device-key': 'device-secret' };
+
+    await authenticator.authenticate(headers, body, now);
+    await authenticator.authenticate(headers, body, now);
+
+    expect(mockDocClient.send).toHaveBeenCalledTimes(1);
+  });
+});
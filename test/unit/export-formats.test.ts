@@ -0,0 +1,104 @@
+import { EXPORT_COLUMNS, FileEncoder, encodeRows, toCsv, toNdjson } from '../../lambda/exports/formats';
+import { ParquetWriter, writeParquet } from '../../lambda/exports/parquet';
+
+describe('export formats', () => {
+  const columns = [
+    { name: 'sensor_id', type: 'string' as const },
+    { name: 'value', type: 'double' as const },
+    { name: 'late', type: 'boolean' as const }
+  ];
+
+  const rows = [
+    { sensor_id: 'sensor-1', value: 21.5, late: true },
+    { sensor_id: 'lab, "north"', value: 19 }
+  ];
+
+  describe('toCsv', () => {
+    it('should write a header and quote fields that need it', () => {
+      expect(toCsv(columns, rows).toString()).toBe(
+        'sensor_id,value,late\r\n' +
+        'sensor-1,21.5,true\r\n' +
+        '"lab, ""north""",19,\r\n'
+      );
+    });
+  });
+
+  describe('toNdjson', () => {
+    it('should write one object per line without missing values', () => {
+      const lines = toNdjson(columns, rows).toString().trim().split('\n').map(line => JSON.parse(line));
+
+      expect(lines).toEqual([
+        { sensor_id: 'sensor-1', value: 21.5, late: true },
+        { sensor_id: 'lab, "north"', value: 19 }
+      ]);
+    });
+
+    it('should only write the dataset columns', () => {
+      const [line] = toNdjson(EXPORT_COLUMNS.events, [{ sensor_id: 'sensor-1', environment: 'test' }]).toString().trim().split('\n');
+      expect(JSON.parse(line)).toEqual({ sensor_id: 'sensor-1' });
+    });
+  });
+
+  describe('writeParquet', () => {
+    it('should frame the file with magic bytes and the footer length', () => {
+      const file = writeParquet(columns, rows);
+      const footerLength = file.readUInt32LE(file.length - 8);
+
+      expect(file.subarray(0, 4).toString()).toBe('PAR1');
+      expect(file.subarray(file.length - 4).toString()).toBe('PAR1');
+      expect(footerLength).toBeGreaterThan(0);
+      expect(footerLength).toBeLessThan(file.length - 12);
+
+      // Column names are stored in the footer schema
+      const footer = file.subarray(file.length - 8 - footerLength, file.length - 8).toString('latin1');
+      columns.forEach(column => expect(footer).toContain(column.name));
+    });
+
+    it('should store strings as PLAIN length-prefixed values', () => {
+      const file = writeParquet([{ name: 'sensor_id', type: 'string' }], [{ sensor_id: 'sensor-1' }]);
+      const encoded = Buffer.concat([Buffer.from([8, 0, 0, 0]), Buffer.from('sensor-1')]);
+
+      expect(file.includes(encoded)).toBe(true);
+    });
+
+    it('should write files without rows', () => {
+      const file = writeParquet(EXPORT_COLUMNS.aggregates, []);
+      expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    });
+  });
+
+  describe('ParquetWriter', () => {
+    it('should write a row group per call and count all rows in the footer', () => {
+      const writer = new ParquetWriter(columns);
+      const file = Buffer.concat([writer.writeRowGroup(rows.slice(0, 1)), writer.writeRowGroup(rows.slice(1)), writer.finish()]);
+      const single = writeParquet(columns, rows);
+
+      expect(file.subarray(0, 4).toString()).toBe('PAR1');
+      expect(file.subarray(file.length - 4).toString()).toBe('PAR1');
+      expect(file.length).toBeGreaterThan(single.length);
+    });
+  });
+
+  describe('FileEncoder', () => {
+    it('should encode chunks that add up to the whole file', () => {
+      for (const format of ['csv', 'ndjson'] as const) {
+        const encoder = new FileEncoder(format, columns);
+        const file = Buffer.concat([...rows.map(row => encoder.encode([row])), encoder.finish()]);
+
+        expect(file.toString()).toBe(encodeRows(format, columns, rows).toString());
+      }
+    });
+
+    it('should write the CSV header of files without rows', () => {
+      expect(new FileEncoder('csv', columns).finish().toString()).toBe('sensor_id,value,late\r\n');
+    });
+  });
+
+  describe('encodeRows', () => {
+    it('should encode in the requested format', () => {
+      expect(encodeRows('csv', columns, rows).toString()).toContain('sensor_id,value,late');
+      expect(encodeRows('ndjson', columns, rows).toString()).toContain('"sensor_id":"sensor-1"');
+      expect(encodeRows('parquet', columns, rows).subarray(0, 4).toString()).toBe('PAR1');
+    });
+  });
+});
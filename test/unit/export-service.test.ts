@@ -0,0 +1,468 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { ExportJob, ExportService, parseExportRequest } from '../../lambda/exports/service';
+import { ExportRunner } from '../../lambda/exports/runner';
+import { createS3Client } from '../../lambda/exports/storage';
+import { Resolution } from '../../lambda/shared/buckets';
+import { emptySketch, getSketchBin } from '../../lambda/shared/statistics';
+
+// Simple mocks for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+const mockSqsClient = {
+  send: jest.fn()
+} as any;
+
+// A real client pointed at a local S3-compatible stand-in, so download links
+// are signed as they would be for MinIO; only sending is mocked
+process.env.AWS_REGION = 'us-east-1';
+process.env.AWS_ACCESS_KEY_ID = 'test';
+process.env.AWS_SECRET_ACCESS_KEY = 'test';
+const s3Client: S3Client = createS3Client('http://localhost:9000');
+const s3Send = jest.spyOn(s3Client, 'send') as jest.Mock;
+
+const validRequest = {
+  dataset: 'events',
+  format: 'parquet',
+  from: '2023-07-13T00:00:00Z',
+  to: '2023-07-14T00:00:00Z'
+};
+
+const job = (overrides: Partial<ExportJob> = {}): ExportJob => ({
+  export_id: 'export-1',
+  dataset: 'events',
+  format: 'csv',
+  from: '2023-07-13T00:00:00.000Z',
+  to: '2023-07-14T00:00:00.000Z',
+  status: 'running',
+  created_at: '2023-07-14T08:00:00.000Z',
+  updated_at: '2023-07-14T08:00:00.000Z',
+  expires_at: 1689926400,
+  environment: 'test',
+  ...overrides
+});
+
+describe('parseExportRequest', () => {
+  it('should normalize the time range and default the aggregate resolution', () => {
+    expect(parseExportRequest(validRequest)).toEqual({
+      dataset: 'events',
+      format: 'parquet',
+      from: '2023-07-13T00:00:00.000Z',
+      to: '2023-07-14T00:00:00.000Z',
+      sensor_ids: undefined,
+      types: undefined,
+      locations: undefined,
+      resolution: undefined
+    });
+
+    expect(parseExportRequest({ ...validRequest, dataset: 'aggregates' }, ['hour', 'day']).resolution).toBe('hour');
+  });
+
+  it('should de-duplicate sensor ids', () => {
+    expect(parseExportRequest({ ...validRequest, sensor_ids: ['a', 'b', 'a'] }).sensor_ids).toEqual(['a', 'b']);
+  });
+
+  it('should reject invalid requests', () => {
+    const invalid = [
+      { ...validRequest, format: 'xlsx' },
+      { ...validRequest, dataset: 'alerts' },
+      { ...validRequest, from: 'yesterday' },
+      { ...validRequest, from: validRequest.to, to: validRequest.from },
+      { ...validRequest, sensor_ids: [] },
+      { ...validRequest, types: [42] },
+      { ...validRequest, resolution: 'hour' },
+      { ...validRequest, dataset: 'aggregates', resolution: 'minute' }
+    ];
+
+    invalid.forEach(input => {
+      expect(() => parseExportRequest(input, ['hour', 'day'])).toThrow('Invalid export request');
+    });
+  });
+});
+
+describe('ExportService', () => {
+  let exportService: ExportService;
+  const mockConfig = {
+    docClient: mockDocClient,
+    secretsClient: mockSecretsClient,
+    s3Client,
+    sqsClient: mockSqsClient,
+    tableName: 'test-export-jobs',
+    bucketName: 'test-exports',
+    queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/export',
+    secretArn: 'test-secret-arn',
+    environment: 'test',
+    resolutions: ['hour', 'day'] as Resolution[],
+    urlTtlSeconds: 600,
+    retentionDays: 7
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    s3Send.mockReset();
+    exportService = new ExportService(mockConfig);
+  });
+
+  describe('createExport', () => {
+    it('should record a pending job and queue it', async () => {
+      mockDocClient.send.mockResolvedValue({});
+      mockSqsClient.send.mockResolvedValue({});
+
+      const created = await exportService.createExport(validRequest, new Date('2023-07-14T08:00:00.000Z'));
+
+      expect(created.status).toBe('pending');
+      expect(created.expires_at).toBe(Math.floor(Date.parse('2023-07-21T08:00:00.000Z') / 1000));
+
+      const put = mockDocClient.send.mock.calls[0][0].input;
+      expect(put.TableName).toBe('test-export-jobs');
+      expect(put.Item).not.toHaveProperty('sensor_ids');
+      expect(JSON.parse(mockSqsClient.send.mock.calls[0][0].input.MessageBody)).toEqual({ export_id: created.export_id });
+    });
+
+    it('should mark the job failed when it cannot be queued', async () => {
+      mockDocClient.send.mockResolvedValue({});
+      mockSqsClient.send.mockRejectedValue(new Error('Throttled'));
+
+      await expect(exportService.createExport(validRequest)).rejects.toThrow('Throttled');
+
+      const update = mockDocClient.send.mock.calls[1][0].input;
+      expect(update.ExpressionAttributeValues[':failed']).toBe('failed');
+    });
+  });
+
+  describe('getExport', () => {
+    it('should reject unknown exports', async () => {
+      mockDocClient.send.mockResolvedValue({});
+      await expect(exportService.getExport('missing')).rejects.toThrow('Export not found: missing');
+    });
+
+    it('should return running jobs without links', async () => {
+      mockDocClient.send.mockResolvedValue({ Item: job() });
+
+      const view = await exportService.getExport('export-1');
+
+      expect(view.status).toBe('running');
+      expect(view.expires_at).toBe('2023-07-21T08:00:00.000Z');
+      expect(view.files).toBeUndefined();
+      expect(s3Send).not.toHaveBeenCalled();
+    });
+
+    it('should list the files of completed jobs with presigned links', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Item: job({ status: 'completed', manifest_key: 'exports/export-1/manifest.json', file_count: 1, row_count: 2 })
+      });
+      s3Send.mockResolvedValue({
+        Body: {
+          transformToString: async () => JSON.stringify({
+            export_id: 'export-1',
+            files: [{ key: 'exports/export-1/events/date=2023-07-13/sensor_type=temperature/part-00000.csv', rows: 2 }]
+          })
+        }
+      });
+
+      const view = await exportService.getExport('export-1');
+
+      expect(s3Send.mock.calls[0][0].input).toEqual({ Bucket: 'test-exports', Key: 'exports/export-1/manifest.json' });
+      expect(view.manifest_url).toMatch(/^http:\/\/localhost:9000\/test-exports\/exports\/export-1\/manifest\.json\?/);
+      expect(view.files![0].url).toContain('/test-exports/exports/export-1/events/date%3D2023-07-13/');
+      expect(view.files![0].url).toContain('X-Amz-Expires=600');
+    });
+  });
+});
+
+describe('ExportRunner', () => {
+  let exportRunner: ExportRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    s3Send.mockReset();
+    s3Send.mockResolvedValue({});
+    exportRunner = new ExportRunner({
+      docClient: mockDocClient,
+      s3Client,
+      tableName: 'test-export-jobs',
+      eventsTableName: 'test-events',
+      aggregatesTableName: 'test-aggregates',
+      bucketName: 'test-exports',
+      maxRowsPerFile: 2
+    });
+  });
+
+  const reading = (sensor_id: string, timestamp: string, type = 'temperature') => ({
+    sensor_id,
+    timestamp,
+    type,
+    value: 21.5,
+    location: 'warehouse-a',
+    environment: 'test'
+  });
+
+  describe('claim', () => {
+    it('should skip jobs that are no longer pending', async () => {
+      mockDocClient.send.mockRejectedValue(Object.assign(new Error('Condition failed'), { name: 'ConditionalCheckFailedException' }));
+
+      expect(await exportRunner.claim('export-1', 1)).toBeUndefined();
+    });
+  });
+
+  describe('readItems', () => {
+    it('should query listed sensors on their keys', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      for await (const items of exportRunner.readItems(job({ sensor_ids: ['a', 'b'], types: ['temperature'] }))) {
+        expect(items).toEqual([]);
+      }
+
+      expect(mockDocClient.send).toHaveBeenCalledTimes(2);
+      const input = mockDocClient.send.mock.calls[1][0].input;
+      expect(input.KeyConditionExpression).toBe('sensor_id = :sensor_id AND #ts BETWEEN :from AND :to');
+      expect(input.FilterExpression).toBe('(#type IN (:type0) OR attribute_exists(#readings))');
+      expect(input.ExpressionAttributeValues[':sensor_id']).toBe('b');
+    });
+
+    it('should scan aggregates of one resolution without sensor ids', async () => {
+      mockDocClient.send
+        .mockResolvedValueOnce({ Items: [], LastEvaluatedKey: { sensor_id: 'a', hour_bucket: 'hour#2023-07-13T10' } })
+        .mockResolvedValueOnce({ Items: [] });
+
+      const pages = [];
+      for await (const items of exportRunner.readItems(job({ dataset: 'aggregates', resolution: 'hour', locations: ['lab'] }))) {
+        pages.push(items);
+      }
+
+      expect(pages).toHaveLength(2);
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(mockDocClient.send.mock.calls[0][0].constructor.name).toBe('ScanCommand');
+      expect(input.FilterExpression).toBe('hour_bucket BETWEEN :from AND :to AND #location IN (:location0)');
+      expect(input.ExpressionAttributeValues[':from']).toBe('hour#2023-07-13T00:00:00');
+      expect(mockDocClient.send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ sensor_id: 'a', hour_bucket: 'hour#2023-07-13T10' });
+    });
+  });
+
+  describe('toAggregateRow', () => {
+    it('should derive the average and spread like the read API', () => {
+      const sketch = emptySketch();
+      [10, 20].forEach(value => {
+        const bin = getSketchBin(value);
+        if (bin.store !== 'zero') sketch[bin.store][bin.index] = (sketch[bin.store][bin.index] || 0) + 1;
+      });
+
+      const row = exportRunner.toAggregateRow({
+        sensor_id: 'a',
+        hour_bucket: 'hour#2023-07-13T10',
+        bucket_start: '2023-07-13T10:00:00.000Z',
+        sum: 30,
+        count: 2,
+        min: 10,
+        max: 20,
+        shift: 10,
+        sum_dev: 10,
+        sum_sq_dev: 100,
+        sketch
+      });
+
+      expect(row).toMatchObject({ resolution: 'hour', avg: 15, variance: 25, stddev: 5 });
+      expect(row.p50).toBeCloseTo(10, 0);
+    });
+  });
+
+  describe('exportData', () => {
+    it('should partition rows by date and type and split large partitions', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          reading('a', '2023-07-13T10:00:00.000Z'),
+          reading('a', '2023-07-13T11:00:00.000Z'),
+          reading('a', '2023-07-13T12:00:00.000Z'),
+          reading('b', '2023-07-13T10:00:00.000Z', 'humidity')
+        ]
+      });
+
+      const manifest = await exportRunner.exportData(job());
+
+      expect(manifest.row_count).toBe(4);
+      expect(manifest.files.map(file => [file.key, file.rows])).toEqual([
+        ['exports/export-1/events/date=2023-07-13/sensor_type=humidity/part-00000.csv', 1],
+        ['exports/export-1/events/date=2023-07-13/sensor_type=temperature/part-00000.csv', 2],
+        ['exports/export-1/events/date=2023-07-13/sensor_type=temperature/part-00001.csv', 1]
+      ]);
+
+      const puts = s3Send.mock.calls.map(call => call[0].input);
+      expect(puts[0]).toMatchObject({ Bucket: 'test-exports', ContentType: 'text/csv' });
+      expect(puts[puts.length - 1].Key).toBe('exports/export-1/manifest.json');
+    });
+
+    it('should export one row per metric of multi-metric readings, keeping the requested types', async () => {
+      const { type, value, ...event } = reading('env-001', '2023-07-13T10:00:00.000Z');
+      mockDocClient.send.mockResolvedValue({
+        Items: [{
+          ...event,
+          readings: {
+            temperature: { value: 21.5, unit: 'celsius' },
+            humidity: { value: 48, unit: '%' },
+            co2: { value: 600, unit: 'ppm' }
+          }
+        }]
+      });
+
+      const manifest = await exportRunner.exportData(job({ types: ['temperature', 'humidity'] }));
+
+      expect(manifest.row_count).toBe(2);
+      expect(manifest.files.map(file => file.sensor_type)).toEqual(['humidity', 'temperature']);
+      const humidity = s3Send.mock.calls.map(call => call[0].input).find(input => input.Key.includes('sensor_type=humidity'));
+      expect(humidity.Body.toString().split('\r\n')).toEqual([
+        'sensor_id,timestamp,type,metric,location,value,unit,raw_value,raw_unit,received_at,timestamp_source,late,out_of_range',
+        'env-001,2023-07-13T10:00:00.000Z,humidity,humidity,warehouse-a,48,%,,,,,,',
+        ''
+      ]);
+    });
+    it('should upload large files in parts', async () => {
+      s3Send.mockImplementation((command: any) => Promise.resolve(
+        command.constructor.name === 'CreateMultipartUploadCommand' ? { UploadId: 'upload-1' }
+          : command.constructor.name === 'UploadPartCommand' ? { ETag: `etag-${command.input.PartNumber}` } : {}
+      ));
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          reading('a', '2023-07-13T10:00:00.000Z'),
+          reading('a', '2023-07-13T11:00:00.000Z'),
+          reading('a', '2023-07-13T12:00:00.000Z')
+        ]
+      });
+      exportRunner = new ExportRunner({
+        docClient: mockDocClient,
+        s3Client,
+        tableName: 'test-export-jobs',
+        eventsTableName: 'test-events',
+        aggregatesTableName: 'test-aggregates',
+        bucketName: 'test-exports',
+        rowsPerChunk: 1,
+        partBytes: 1
+      });
+
+      const manifest = await exportRunner.exportData(job());
+
+      expect(manifest.files).toHaveLength(1);
+      const commands = s3Send.mock.calls.map(call => call[0]);
+      expect(commands.map(command => command.constructor.name)).toEqual([
+        'CreateMultipartUploadCommand',
+        'UploadPartCommand',
+        'UploadPartCommand',
+        'UploadPartCommand',
+        'CompleteMultipartUploadCommand',
+        'PutObjectCommand'
+      ]);
+      expect(commands[0].input).toMatchObject({ Key: manifest.files[0].key, ContentType: 'text/csv' });
+      expect(commands[4].input.MultipartUpload.Parts).toEqual([
+        { ETag: 'etag-1', PartNumber: 1 },
+        { ETag: 'etag-2', PartNumber: 2 },
+        { ETag: 'etag-3', PartNumber: 3 }
+      ]);
+      const body = Buffer.concat(commands.slice(1, 4).map(command => command.input.Body));
+      expect(body.length).toBe(manifest.files[0].bytes);
+      expect(body.toString().split('\r\n')).toHaveLength(5);
+    });
+
+    it('should close the least recently written file once too many are open', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          reading('a', '2023-07-13T10:00:00.000Z'),
+          reading('b', '2023-07-13T10:00:00.000Z', 'humidity'),
+          reading('a', '2023-07-13T11:00:00.000Z')
+        ]
+      });
+      exportRunner = new ExportRunner({
+        docClient: mockDocClient,
+        s3Client,
+        tableName: 'test-export-jobs',
+        eventsTableName: 'test-events',
+        aggregatesTableName: 'test-aggregates',
+        bucketName: 'test-exports',
+        maxOpenFiles: 1
+      });
+
+      const manifest = await exportRunner.exportData(job());
+
+      expect(manifest.files.map(file => [file.key, file.rows])).toEqual([
+        ['exports/export-1/events/date=2023-07-13/sensor_type=humidity/part-00000.csv', 1],
+        ['exports/export-1/events/date=2023-07-13/sensor_type=temperature/part-00000.csv', 1],
+        ['exports/export-1/events/date=2023-07-13/sensor_type=temperature/part-00001.csv', 1]
+      ]);
+    });
+
+    it('should abort the uploads of open files when an export fails', async () => {
+      s3Send.mockImplementation((command: any) => Promise.resolve(
+        command.constructor.name === 'CreateMultipartUploadCommand' ? { UploadId: 'upload-1' } : {}
+      ));
+      mockDocClient.send
+        .mockResolvedValueOnce({ Items: [reading('a', '2023-07-13T10:00:00.000Z')], LastEvaluatedKey: { sensor_id: 'a' } })
+        .mockRejectedValueOnce(new Error('Throttled'));
+      exportRunner = new ExportRunner({
+        docClient: mockDocClient,
+        s3Client,
+        tableName: 'test-export-jobs',
+        eventsTableName: 'test-events',
+        aggregatesTableName: 'test-aggregates',
+        bucketName: 'test-exports',
+        rowsPerChunk: 1,
+        partBytes: 1
+      });
+
+      await expect(exportRunner.exportData(job())).rejects.toThrow('Throttled');
+
+      const abort = s3Send.mock.calls.map(call => call[0]).find(command => command.constructor.name === 'AbortMultipartUploadCommand');
+      expect(abort.input).toEqual({
+        Bucket: 'test-exports',
+        Key: 'exports/export-1/events/date=2023-07-13/sensor_type=temperature/part-00000.csv',
+        UploadId: 'upload-1'
+      });
+    });
+  });
+
+  describe('run', () => {
+    it('should record the result of a completed export', async () => {
+      mockDocClient.send.mockImplementation((command: any) => {
+        if (command.constructor.name === 'UpdateCommand' && command.input.ReturnValues === 'ALL_NEW') {
+          return Promise.resolve({ Attributes: job() });
+        }
+        if (command.constructor.name === 'ScanCommand') {
+          return Promise.resolve({ Items: [reading('a', '2023-07-13T10:00:00.000Z')] });
+        }
+        return Promise.resolve({});
+      });
+
+      const result = await exportRunner.run('export-1');
+
+      expect(result?.status).toBe('completed');
+      const update = mockDocClient.send.mock.calls[mockDocClient.send.mock.calls.length - 1][0].input;
+      expect(update.ExpressionAttributeValues).toMatchObject({
+        ':completed': 'completed',
+        ':row_count': 1,
+        ':file_count': 1,
+        ':manifest_key': 'exports/export-1/manifest.json'
+      });
+    });
+
+    it('should rethrow failures until the last attempt, then mark the job failed', async () => {
+      mockDocClient.send.mockImplementation((command: any) => {
+        if (command.constructor.name === 'UpdateCommand' && command.input.ReturnValues === 'ALL_NEW') {
+          return Promise.resolve({ Attributes: job() });
+        }
+        if (command.constructor.name === 'ScanCommand') {
+          return Promise.reject(new Error('Throttled'));
+        }
+        return Promise.resolve({});
+      });
+
+      await expect(exportRunner.run('export-1', 1, 3)).rejects.toThrow('Throttled');
+
+      const result = await exportRunner.run('export-1', 3, 3);
+      expect(result).toMatchObject({ status: 'failed', error: 'Throttled' });
+      const update = mockDocClient.send.mock.calls[mockDocClient.send.mock.calls.length - 1][0].input;
+      expect(update.ExpressionAttributeValues[':failed']).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,354 @@
+import { AggregateService, SensorEvent } from '../../lambda/aggregate/service';
+import { GroupAggregator } from '../../lambda/aggregate/groups';
+import { getGroupKey, getGroups, getMemberKey } from '../../lambda/shared/groups';
+import { GetCommand } from '@aws-sdk/lib-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+import { StaticSecretStore } from '../../lambda/shared/storage';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+// Commands sent to one table, in order
+const sentTo = (tableName: string, name: string) => mockDocClient.send.mock.calls
+  .map((call: any) => call[0])
+  .filter((command: any) => command.constructor.name === name)
+  .filter((command: any) => command.input.TableName === tableName
+    || command.input.TransactItems?.[0]?.Update.TableName === tableName
+    || command.input.RequestItems?.[tableName]);
+
+const transactionCancelled = (code: string) => Object.assign(new Error('cancelled'), {
+  name: 'TransactionCanceledException',
+  CancellationReasons: [{ Code: code }]
+});
+
+describe('groups', () => {
+  it('should key a reading by location, type and both', () => {
+    expect(getGroups({ location: 'lab-1', type: 'temperature' }).map(group => group.group_key)).toEqual([
+      'location#lab-1',
+      'type#temperature',
+      'location_type#lab-1#temperature'
+    ]);
+    expect(getGroupKey('lab-1', 'temperature')).toBe('location_type#lab-1#temperature');
+  });
+
+  it('should key the membership of a sensor apart from its group bucket', () => {
+    expect(getMemberKey('location#lab-1', 'hour#2023-07-13T10:00:00', 'sensor-1')).toEqual({
+      group_key: 'member#location#lab-1',
+      hour_bucket: 'hour#2023-07-13T10:00:00#sensor-1'
+    });
+  });
+});
+
+describe('GroupAggregator', () => {
+  let aggregateService: AggregateService;
+
+  const sensorEvent: SensorEvent = {
+    sensor_id: 'sensor-123',
+    timestamp: '2023-07-13T10:42:00.000Z',
+    received_at: '2023-07-13T10:42:00.120Z',
+    type: 'temperature',
+    value: 21.7,
+    location: 'lab-1',
+    unit: 'celsius',
+    environment: 'test'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    mockDocClient.send.mockResolvedValue({});
+    aggregateService = new AggregateService({
+      docClient: mockDocClient,
+      secretsClient: mockSecretsClient,
+      tableName: 'test-aggregates',
+      eventsTableName: 'test-events',
+      secretArn: 'test-secret-arn',
+      environment: 'test',
+      resolutions: ['hour', 'day'],
+      groupsTableName: 'test-groups'
+    });
+  });
+
+  it('should roll a reading up into its location, type and location+type buckets', async () => {
+    await aggregateService.processSensorEvent(sensorEvent, 'event-1');
+
+    const [transaction] = sentTo('test-groups', 'TransactWriteCommand');
+    const items = transaction.input.TransactItems.map((item: any) => item.Update);
+    const updates = items.filter((update: any) => !update.Key.group_key.startsWith('member#'));
+    expect(updates.map((update: any) => `${update.Key.group_key} ${update.Key.hour_bucket}`)).toEqual([
+      'location#lab-1 hour#2023-07-13T10:00:00',
+      'location#lab-1 day#2023-07-13',
+      'type#temperature hour#2023-07-13T10:00:00',
+      'type#temperature day#2023-07-13',
+      'location_type#lab-1#temperature hour#2023-07-13T10:00:00',
+      'location_type#lab-1#temperature day#2023-07-13'
+    ]);
+    expect(updates[0].UpdateExpression).toContain('ADD #count :count, #sum :sum, sensor_count :joined');
+    expect(updates[0].ExpressionAttributeValues).toMatchObject({ ':count': 1, ':sum': 21.7, ':joined': 1, ':group_type': 'location' });
+
+    // The sensor's first reading in the bucket creates its membership
+    expect(items[1]).toMatchObject({
+      Key: { group_key: 'member#location#lab-1', hour_bucket: 'hour#2023-07-13T10:00:00#sensor-123' },
+      UpdateExpression: 'ADD #count :count SET sensor_id = :sensor_id, bucket_start = :bucket_start',
+      ConditionExpression: 'attribute_not_exists(#count)'
+    });
+
+    // A location mixes sensor types, so only type groups carry the unit
+    expect(updates[0].UpdateExpression).not.toContain('#unit');
+    expect(updates[2].ExpressionAttributeValues[':unit']).toBe('celsius');
+
+    // The group transaction must not reuse the per-sensor token
+    const [sensorTransaction] = sentTo('test-aggregates', 'TransactWriteCommand');
+    expect(transaction.input.ClientRequestToken).not.toBe(sensorTransaction.input.ClientRequestToken);
+    expect(transaction.input.ClientRequestToken).toHaveLength(36);
+  });
+
+  it('should read the membership counts and widen the group extremes', async () => {
+    mockDocClient.send.mockImplementation(async (command: any) => (
+      command.input.RequestItems?.['test-groups']
+        ? { Responses: { 'test-groups': [{ ...getMemberKey('location#lab-1', 'hour#2023-07-13T10:00:00', 'sensor-123'), count: 2 }] } }
+        : {}
+    ));
+
+    await aggregateService.processSensorEvent(sensorEvent);
+
+    const [batchGet] = sentTo('test-groups', 'BatchGetCommand');
+    expect(batchGet.input.RequestItems['test-groups']).toMatchObject({ ConsistentRead: true });
+    expect(batchGet.input.RequestItems['test-groups'].Keys).toHaveLength(6);
+
+    // A sensor already in the bucket does not change its sensor count
+    const [transaction] = sentTo('test-groups', 'TransactWriteCommand');
+    const [row, member] = transaction.input.TransactItems.map((item: any) => item.Update);
+    expect(row.ExpressionAttributeValues[':joined']).toBe(0);
+    expect(member.ConditionExpression).toBe('#count = :member');
+    expect(member.ExpressionAttributeValues[':member']).toBe(2);
+    expect(transaction.input.TransactItems[3].Update.ConditionExpression).toBe('attribute_not_exists(#count)');
+
+    const updates = sentTo('test-groups', 'UpdateCommand').map((command: any) => command.input);
+    expect(updates.filter((input: any) => input.UpdateExpression === 'SET #attr = :value')).toHaveLength(12);
+  });
+
+  it('should retry a transaction that conflicts with another sensor', async () => {
+    const groups = new GroupAggregator({
+      docClient: mockDocClient,
+      tableName: 'test-groups',
+      aggregatesTableName: 'test-aggregates',
+      resolutions: ['hour'],
+      conflictRetryBaseDelayMs: 0
+    });
+    mockDocClient.send
+      .mockRejectedValueOnce(transactionCancelled('TransactionConflict'))
+      .mockResolvedValue({});
+
+    const deltas = groups.buildGroupDeltas([{ sensorEvent, sign: 1 }]);
+    await groups.applyGroupDeltas(deltas, 'token');
+
+    expect(mockDocClient.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should condition removals on the sensor count and drop a sensor left without readings', async () => {
+    mockDocClient.send.mockImplementation(async (command: any) => {
+      if (command.constructor.name === 'GetCommand' && command.input.TableName === 'test-groups') {
+        return { Item: { count: 3, min: 21.7, max: 30, sensor_count: 1 } };
+      }
+      if (command.input.RequestItems?.['test-groups']) {
+        return {
+          Responses: {
+            'test-groups': command.input.RequestItems['test-groups'].Keys.map((key: any) => ({ ...key, count: 1 }))
+          }
+        };
+      }
+      if (command.constructor.name === 'QueryCommand' && command.input.TableName === 'test-groups') {
+        return { Items: [{ sensor_id: 'sensor-123', count: 0 }, { sensor_id: 'sensor-456', count: 3 }] };
+      }
+      if (command.constructor.name === 'BatchGetCommand') {
+        return { Responses: { 'test-aggregates': [{ min: 22.5, max: 30 }] } };
+      }
+      if (command.constructor.name === 'GetCommand') {
+        return { Item: { count: 1, min: 25, max: 25 } };
+      }
+      return { Items: [{ value: 25 }] };
+    });
+
+    await aggregateService.processRecord({
+      eventID: 'event-2',
+      eventName: 'REMOVE',
+      dynamodb: { OldImage: marshall(sensorEvent) as any }
+    });
+
+    const [transaction] = sentTo('test-groups', 'TransactWriteCommand');
+    const [row, member] = transaction.input.TransactItems.map((item: any) => item.Update);
+    expect(row.ExpressionAttributeValues).toMatchObject({ ':count': -1, ':joined': -1 });
+    expect(member.ConditionExpression).toBe('#count >= :required AND #count = :member');
+    expect(member.ExpressionAttributeValues).toMatchObject({ ':count': -1, ':required': 1, ':member': 1 });
+
+    // The membership is deleted once empty
+    const memberDeletes = sentTo('test-groups', 'DeleteCommand').map((command: any) => command.input);
+    expect(memberDeletes).toHaveLength(6);
+    expect(memberDeletes[0]).toMatchObject({
+      Key: { group_key: 'member#location#lab-1', hour_bucket: 'hour#2023-07-13T10:00:00#sensor-123' },
+      ConditionExpression: '#count <= :zero'
+    });
+
+    // Extremes are recomputed from the remaining member sensors' buckets
+    const [batchGet] = sentTo('test-aggregates', 'BatchGetCommand');
+    expect(batchGet.input.RequestItems['test-aggregates'].Keys).toEqual([
+      { sensor_id: 'sensor-456', hour_bucket: 'hour#2023-07-13T10:00:00' }
+    ]);
+
+    const repairs = sentTo('test-groups', 'UpdateCommand')
+      .map((command: any) => command.input)
+      .filter((input: any) => input.ConditionExpression === '#count = :count');
+    expect(repairs).toHaveLength(6);
+    expect(repairs[0].UpdateExpression).toBe('SET #min = :min, #max = :max');
+    expect(repairs[0].ExpressionAttributeValues).toEqual({ ':min': 22.5, ':max': 30, ':count': 3 });
+  });
+
+  it('should delete a group bucket once its last reading is removed', async () => {
+    mockDocClient.send.mockImplementation(async (command: any) => (
+      command.constructor.name === 'GetCommand'
+        ? { Item: { count: 0, sum: 0, min: 21.7, max: 21.7, sensor_count: 0 } }
+        : {}
+    ));
+
+    await aggregateService.processRecord({
+      eventName: 'REMOVE',
+      dynamodb: { OldImage: marshall(sensorEvent) as any }
+    });
+
+    const deletes = sentTo('test-groups', 'DeleteCommand').map((command: any) => command.input.Key.group_key);
+    expect(deletes.filter((group_key: string) => !group_key.startsWith('member#'))).toHaveLength(6);
+  });
+
+  it('should still add the new reading when the removed one was never rolled up', async () => {
+    mockDocClient.send.mockImplementation(async (command: any) => {
+      const updates = (command.input.TransactItems || []).map((item: any) => item.Update);
+      if (updates[0]?.TableName === 'test-groups' && updates.some((update: any) => update.ConditionExpression?.includes(':required'))) {
+        throw transactionCancelled('ConditionalCheckFailed');
+      }
+      return {};
+    });
+
+    await aggregateService.processRecord({
+      eventID: 'event-3',
+      eventName: 'MODIFY',
+      dynamodb: {
+        OldImage: marshall(sensorEvent) as any,
+        NewImage: marshall({ ...sensorEvent, timestamp: '2023-07-13T11:05:00.000Z' }) as any
+      }
+    });
+
+    const transactions = sentTo('test-groups', 'TransactWriteCommand');
+    expect(transactions).toHaveLength(2);
+    const retried = transactions[1].input.TransactItems.map((item: any) => item.Update);
+    expect(retried.every((update: any) => update.ExpressionAttributeValues[':count'] === 1)).toBe(true);
+    expect(retried.filter((update: any) => update.Key.group_key.startsWith('member#'))).toHaveLength(6);
+    expect(retried.map((update: any) => update.Key.hour_bucket)).toContain('hour#2023-07-13T11:00:00');
+    expect(sentTo('test-groups', 'GetCommand')).toHaveLength(0);
+  });
+});
+
+describe('GroupAggregator membership', () => {
+  let store: InMemoryDocumentStore;
+  let aggregateService: AggregateService;
+
+  const reading = (sensor_id: string, timestamp: string, value: number): SensorEvent => ({
+    sensor_id,
+    timestamp,
+    type: 'temperature',
+    value,
+    location: 'lab-1',
+    unit: 'celsius',
+    environment: 'test'
+  });
+
+  const getItem = async (key: Record<string, any>) => (await store.send(new GetCommand({ TableName: 'groups', Key: key }))).Item;
+  const bucket = { group_key: 'location#lab-1', hour_bucket: 'hour#2023-07-13T10:00:00' };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    store = new InMemoryDocumentStore([
+      { tableName: 'events', partitionKey: 'sensor_id', sortKey: 'timestamp' },
+      { tableName: 'aggregates', partitionKey: 'sensor_id', sortKey: 'hour_bucket' },
+      { tableName: 'groups', partitionKey: 'group_key', sortKey: 'hour_bucket' }
+    ]);
+    aggregateService = new AggregateService({
+      docClient: store,
+      secretsClient: new StaticSecretStore({ secret: {} }),
+      tableName: 'aggregates',
+      eventsTableName: 'events',
+      secretArn: 'secret',
+      environment: 'test',
+      groupsTableName: 'groups'
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should count sensors once and drop a sensor whose readings are all removed', async () => {
+    await aggregateService.processSensorEvent(reading('sensor-1', '2023-07-13T10:00:00.000Z', 20), 'event-1');
+    await aggregateService.processSensorEvent(reading('sensor-1', '2023-07-13T10:05:00.000Z', 22), 'event-2');
+    await aggregateService.processSensorEvent(reading('sensor-2', '2023-07-13T10:10:00.000Z', 30), 'event-3');
+
+    expect(await getItem(bucket)).toMatchObject({ count: 3, sensor_count: 2, min: 20, max: 30 });
+    expect(await getItem(getMemberKey(bucket.group_key, bucket.hour_bucket, 'sensor-1'))).toMatchObject({ count: 2 });
+
+    await aggregateService.processRecord({
+      eventID: 'event-4',
+      eventName: 'REMOVE',
+      dynamodb: { OldImage: marshall(reading('sensor-2', '2023-07-13T10:10:00.000Z', 30)) as any }
+    });
+
+    expect(await getItem(bucket)).toMatchObject({ count: 2, sensor_count: 1, min: 20, max: 22 });
+    expect(await getItem(getMemberKey(bucket.group_key, bucket.hour_bucket, 'sensor-2'))).toBeUndefined();
+  });
+
+  it('should count a multi-metric sensor once and recompute extremes from its series', async () => {
+    const multiReading = {
+      sensor_id: 'env-1',
+      timestamp: '2023-07-13T10:00:00.000Z',
+      location: 'lab-1',
+      environment: 'test',
+      readings: {
+        temperature: { value: 20, unit: 'celsius' },
+        humidity: { value: 40, unit: 'percent' },
+        co2: { value: 400, unit: 'ppm' }
+      }
+    };
+
+    await aggregateService.processRecord({
+      eventID: 'event-1',
+      eventName: 'INSERT',
+      dynamodb: { NewImage: marshall(multiReading) as any }
+    });
+
+    expect(await getItem(bucket)).toMatchObject({ count: 3, sensor_count: 1, min: 20, max: 400 });
+    expect(await getItem(getMemberKey(bucket.group_key, bucket.hour_bucket, 'env-1'))).toMatchObject({
+      count: 3,
+      sensor_id: 'env-1',
+      series_ids: new Set(['env-1#co2', 'env-1#humidity', 'env-1#temperature'])
+    });
+    expect(await getItem(getMemberKey(bucket.group_key, bucket.hour_bucket, 'env-1#temperature'))).toBeUndefined();
+    expect(await getItem({ group_key: 'type#temperature', hour_bucket: bucket.hour_bucket })).toMatchObject({ count: 1, sensor_count: 1 });
+
+    await aggregateService.processSensorEvent(reading('sensor-1', '2023-07-13T10:05:00.000Z', 500), 'event-2');
+    expect(await getItem(bucket)).toMatchObject({ count: 4, sensor_count: 2, max: 500 });
+
+    await aggregateService.processRecord({
+      eventID: 'event-3',
+      eventName: 'REMOVE',
+      dynamodb: { OldImage: marshall(reading('sensor-1', '2023-07-13T10:05:00.000Z', 500)) as any }
+    });
+
+    expect(await getItem(bucket)).toMatchObject({ count: 3, sensor_count: 1, min: 20, max: 400 });
+  });
+});
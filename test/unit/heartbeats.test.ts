@@ -0,0 +1,327 @@
+import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { HeartbeatTracker } from '../../lambda/aggregate/heartbeats';
+import { FleetStatusQuery, HeartbeatService, SensorHealth } from '../../lambda/heartbeat/service';
+import { getOfflineAfterSeconds, parseOfflineThresholds } from '../../lambda/shared/heartbeats';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+import { StreamFeed } from '../../lambda/shared/stream-feed';
+
+describe('Sensor heartbeats', () => {
+  let store: InMemoryDocumentStore;
+  let stream: StreamFeed;
+  let heartbeatService: HeartbeatService;
+
+  // Stored through the simulated stream, so heartbeats are kept as in production
+  const ingest = (received_at: string, sensor_id = 'temp-001', type = 'temperature') => stream.send(new PutCommand({
+    TableName: 'events',
+    Item: {
+      sensor_id,
+      timestamp: received_at,
+      type,
+      value: 21.5,
+      location: 'lab-1',
+      received_at,
+      environment: 'test'
+    }
+  }));
+
+  const register = (sensor_id: string, overrides: Record<string, any> = {}) => store.send(new PutCommand({
+    TableName: 'sensors',
+    Item: {
+      sensor_id,
+      type: 'temperature',
+      unit: 'celsius',
+      location: 'lab-1',
+      owner: 'facilities',
+      status: 'active',
+      created_at: '2023-07-13T00:00:00.000Z',
+      updated_at: '2023-07-13T00:00:00.000Z',
+      ...overrides
+    }
+  }));
+
+  const getHeartbeat = async (sensor_id = 'temp-001') => (await store.send(new GetCommand({
+    TableName: 'heartbeats',
+    Key: { sensor_id }
+  }))).Item;
+
+  const getTransitions = async (sensor_id = 'temp-001'): Promise<Record<string, any>[]> => (await store.send(new QueryCommand({
+    TableName: 'transitions',
+    KeyConditionExpression: 'sensor_id = :sensor_id',
+    ExpressionAttributeValues: { ':sensor_id': sensor_id }
+  }))).Items || [];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    store = new InMemoryDocumentStore([
+      { tableName: 'events', partitionKey: 'sensor_id', sortKey: 'timestamp' },
+      { tableName: 'heartbeats', partitionKey: 'sensor_id' },
+      { tableName: 'transitions', partitionKey: 'sensor_id', sortKey: 'changed_at' },
+      { tableName: 'sensors', partitionKey: 'sensor_id' }
+    ]);
+    const tracker = new HeartbeatTracker({
+      docClient: store,
+      tableName: 'heartbeats',
+      transitionsTableName: 'transitions',
+      environment: 'test'
+    });
+    stream = new StreamFeed({
+      store,
+      tableName: 'events',
+      keyAttributes: ['sensor_id', 'timestamp'],
+      onRecord: record => tracker.processRecord(record)
+    });
+    heartbeatService = new HeartbeatService({
+      docClient: store,
+      tableName: 'heartbeats',
+      transitionsTableName: 'transitions',
+      sensorsTableName: 'sensors',
+      environment: 'test',
+      offlineAfterSeconds: { default: 900, co2: 3600 }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('offline thresholds', () => {
+    it('should parse thresholds by type and fill in the default', () => {
+      expect(parseOfflineThresholds(undefined)).toEqual({ default: 900 });
+      expect(parseOfflineThresholds('default=600, co2=3600')).toEqual({ default: 600, co2: 3600 });
+      expect(() => parseOfflineThresholds('co2=1.5')).toThrow("Invalid offline threshold 'co2=1.5'");
+      expect(() => parseOfflineThresholds('co2')).toThrow('Expected <type>=<positive whole seconds>');
+    });
+
+    it('should prefer the sensor threshold, then the type, then the default', () => {
+      const thresholds = { default: 900, co2: 3600 };
+      expect(getOfflineAfterSeconds(thresholds, 'co2', 60)).toBe(60);
+      expect(getOfflineAfterSeconds(thresholds, 'co2')).toBe(3600);
+      expect(getOfflineAfterSeconds(thresholds, 'humidity')).toBe(900);
+      expect(getOfflineAfterSeconds(thresholds, undefined)).toBe(900);
+    });
+  });
+
+  describe('HeartbeatTracker', () => {
+    it('should bring a new sensor online and record the transition', async () => {
+      await ingest('2023-07-13T10:00:00.000Z');
+
+      expect(await getHeartbeat()).toEqual({
+        sensor_id: 'temp-001',
+        last_seen: '2023-07-13T10:00:00.000Z',
+        type: 'temperature',
+        location: 'lab-1',
+        status: 'online',
+        status_changed_at: '2023-07-13T10:00:00.000Z',
+        version: 1
+      });
+      expect(await getTransitions()).toEqual([{
+        sensor_id: 'temp-001',
+        changed_at: '2023-07-13T10:00:00.000Z',
+        status: 'online',
+        environment: 'test'
+      }]);
+    });
+
+    it('should move last_seen forward only', async () => {
+      await ingest('2023-07-13T10:00:00.000Z');
+      await ingest('2023-07-13T10:05:00.000Z');
+      await ingest('2023-07-13T10:02:00.000Z'); // Arrived out of order
+
+      expect(await getHeartbeat()).toMatchObject({ last_seen: '2023-07-13T10:05:00.000Z', status: 'online', version: 1 });
+      expect(await getTransitions()).toHaveLength(1);
+    });
+
+    it('should bring an offline sensor back online', async () => {
+      await ingest('2023-07-13T10:00:00.000Z');
+      await heartbeatService.checkSensors(new Date('2023-07-13T10:20:00.000Z'));
+      await ingest('2023-07-13T11:00:00.000Z');
+
+      expect(await getHeartbeat()).toMatchObject({
+        last_seen: '2023-07-13T11:00:00.000Z',
+        status: 'online',
+        status_changed_at: '2023-07-13T11:00:00.000Z',
+        version: 3
+      });
+      expect((await getTransitions()).map(transition => [transition.status, transition.previous_status])).toEqual([
+        ['online', undefined],
+        ['offline', 'online'],
+        ['online', 'offline']
+      ]);
+    });
+
+    it('should throw once every attempt lost to another reading', async () => {
+      await ingest('2023-07-13T10:00:00.000Z');
+      const tracker = new HeartbeatTracker({
+        docClient: store,
+        tableName: 'heartbeats',
+        transitionsTableName: 'transitions',
+        environment: 'test'
+      });
+      // Another reading moves last_seen forward between each update and read
+      const touch = jest.spyOn(tracker, 'touch').mockResolvedValue(false);
+
+      await expect(tracker.recordSighting({ sensor_id: 'temp-001', seen_at: '2023-07-13T10:05:00.000Z' })).rejects.toThrow(
+        'Heartbeat of temp-001 kept changing after 3 attempts'
+      );
+      expect(touch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('checkSensors', () => {
+    it('should mark sensors silent for longer than their threshold offline', async () => {
+      await ingest('2023-07-13T10:00:00.000Z', 'temp-001');
+      await ingest('2023-07-13T10:10:00.000Z', 'temp-002');
+      await ingest('2023-07-13T10:00:00.000Z', 'co2-001', 'co2');
+
+      const result = await heartbeatService.checkSensors(new Date('2023-07-13T10:20:00.000Z'));
+
+      expect(result).toEqual({ checked: 3, offline: ['temp-001'] });
+      expect(await getHeartbeat('temp-001')).toMatchObject({
+        status: 'offline',
+        status_changed_at: '2023-07-13T10:20:00.000Z',
+        last_seen: '2023-07-13T10:00:00.000Z',
+        version: 2
+      });
+      expect(await getHeartbeat('temp-002')).toMatchObject({ status: 'online' });
+      expect(await getHeartbeat('co2-001')).toMatchObject({ status: 'online' });
+      expect((await getTransitions('temp-001'))[1]).toEqual({
+        sensor_id: 'temp-001',
+        changed_at: '2023-07-13T10:20:00.000Z',
+        status: 'offline',
+        previous_status: 'online',
+        last_seen: '2023-07-13T10:00:00.000Z',
+        silence_seconds: 1200,
+        environment: 'test'
+      });
+    });
+
+    it('should not mark a sensor offline twice', async () => {
+      await ingest('2023-07-13T10:00:00.000Z');
+      await heartbeatService.checkSensors(new Date('2023-07-13T10:20:00.000Z'));
+
+      expect(await heartbeatService.checkSensors(new Date('2023-07-13T10:25:00.000Z'))).toEqual({ checked: 0, offline: [] });
+      expect(await getTransitions()).toHaveLength(2);
+    });
+
+    it('should use registered thresholds and skip decommissioned sensors', async () => {
+      await register('temp-001', { offline_after_seconds: 3600 });
+      await register('temp-002', { status: 'decommissioned' });
+      await ingest('2023-07-13T10:00:00.000Z', 'temp-001');
+      await ingest('2023-07-13T10:00:00.000Z', 'temp-002');
+
+      expect(await heartbeatService.checkSensors(new Date('2023-07-13T10:30:00.000Z'))).toEqual({ checked: 1, offline: [] });
+      expect(await heartbeatService.checkSensors(new Date('2023-07-13T11:30:00.000Z'))).toEqual({ checked: 1, offline: ['temp-001'] });
+    });
+
+    it('should leave a sensor online when a reading arrived since it was read', async () => {
+      await ingest('2023-07-13T10:00:00.000Z');
+      const [heartbeat] = await heartbeatService.getHeartbeats();
+      await ingest('2023-07-13T10:19:00.000Z');
+
+      expect(await heartbeatService.markOffline(heartbeat, new Date('2023-07-13T10:20:00.000Z'), 1200)).toBe(false);
+      expect(await getHeartbeat()).toMatchObject({ status: 'online', last_seen: '2023-07-13T10:19:00.000Z' });
+      expect(await getTransitions()).toHaveLength(1);
+    });
+  });
+
+  describe('getFleetStatus', () => {
+    beforeEach(async () => {
+      await register('temp-001');
+      await register('temp-003', { location: 'lab-2' });
+      await register('temp-004', { status: 'decommissioned' });
+      await ingest('2023-07-13T10:00:00.000Z', 'temp-001');
+      await ingest('2023-07-13T10:15:00.000Z', 'temp-002');
+      await ingest('2023-07-13T10:00:00.000Z', 'temp-004');
+      await heartbeatService.checkSensors(new Date('2023-07-13T10:20:00.000Z'));
+    });
+
+    // Every page of a fleet status query
+    const listFleet = async (query: FleetStatusQuery, now?: Date): Promise<SensorHealth[]> => {
+      const items: SensorHealth[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await heartbeatService.getFleetStatus({ ...query, cursor }, now);
+        items.push(...page.items);
+        cursor = page.next_cursor;
+      } while (cursor);
+      return items;
+    };
+
+    it('should report seen sensors, then never seen ones', async () => {
+      const first = await heartbeatService.getFleetStatus({}, new Date('2023-07-13T10:30:00.000Z'));
+
+      expect(first.checked_at).toBe('2023-07-13T10:30:00.000Z');
+      expect(first.items).toEqual([
+        {
+          sensor_id: 'temp-001',
+          type: 'temperature',
+          location: 'lab-1',
+          status: 'offline',
+          last_seen: '2023-07-13T10:00:00.000Z',
+          status_changed_at: '2023-07-13T10:20:00.000Z',
+          silence_seconds: 1800,
+          offline_after_seconds: 900
+        },
+        {
+          sensor_id: 'temp-002',
+          type: 'temperature',
+          location: 'lab-1',
+          status: 'online',
+          last_seen: '2023-07-13T10:15:00.000Z',
+          status_changed_at: '2023-07-13T10:15:00.000Z',
+          silence_seconds: 900,
+          offline_after_seconds: 900
+        }
+      ]);
+
+      const second = await heartbeatService.getFleetStatus({ cursor: first.next_cursor });
+      expect(second.items).toEqual([
+        {
+          sensor_id: 'temp-003',
+          type: 'temperature',
+          location: 'lab-2',
+          status: 'never_seen',
+          offline_after_seconds: 900
+        }
+      ]);
+      expect(second.next_cursor).toBeUndefined();
+    });
+
+    it('should filter by status, type and location', async () => {
+      expect((await listFleet({ status: 'offline' })).map(item => item.sensor_id)).toEqual(['temp-001']);
+      expect((await listFleet({ status: 'never_seen' })).map(item => item.sensor_id)).toEqual(['temp-003']);
+      expect((await listFleet({ location: 'lab-2' })).map(item => item.sensor_id)).toEqual(['temp-003']);
+      expect(await listFleet({ type: 'co2' })).toEqual([]);
+    });
+
+    it('should read a page of at most limit sensors per request', async () => {
+      const scans = jest.spyOn(store, 'send');
+
+      const page = await heartbeatService.getFleetStatus({ limit: 1 });
+      expect(page.items).toHaveLength(1);
+      expect(page.next_cursor).toBeDefined();
+      const scanned = scans.mock.calls.filter(([command]: any[]) => command.constructor.name === 'ScanCommand');
+      expect(scanned).toHaveLength(1);
+      expect((scanned[0][0] as any).input.Limit).toBe(1);
+
+      const all = await listFleet({ limit: 1 });
+      expect(all.map(item => item.sensor_id)).toEqual(['temp-001', 'temp-002', 'temp-003']);
+    });
+
+    it('should reject an invalid limit or cursor', async () => {
+      await expect(heartbeatService.getFleetStatus({ limit: 0 })).rejects.toThrow(
+        "Invalid query parameters. 'limit' must be an integer between 1 and 1000"
+      );
+      await expect(heartbeatService.getFleetStatus({ cursor: 'not-a-cursor' })).rejects.toThrow(
+        "Invalid query parameters. 'cursor' is malformed"
+      );
+    });
+
+    it('should reject an unknown status', async () => {
+      await expect(heartbeatService.getFleetStatus({ status: 'stale' })).rejects.toThrow(
+        "Invalid query parameters. 'status' must be one of online, offline, never_seen"
+      );
+    });
+  });
+});
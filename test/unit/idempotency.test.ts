@@ -0,0 +1,80 @@
+import { IdempotencyStore, hashRequest } from '../../lambda/ingest/idempotency';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const conditionalCheckFailed = () => Object.assign(new Error('The conditional request failed'), {
+  name: 'ConditionalCheckFailedException'
+});
+
+describe('IdempotencyStore', () => {
+  let store: IdempotencyStore;
+  const now = Date.parse('2023-07-13T10:00:00.000Z');
+  const requestHash = hashRequest('{"sensor_id":"sensor-123","value":25.5,"message_id":"m-1"}');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDocClient.send.mockResolvedValue({});
+    store = new IdempotencyStore({ docClient: mockDocClient, tableName: 'test-idempotency', windowSeconds: 3600 });
+  });
+
+  it('should claim a new key for a short lease', async () => {
+    await expect(store.claim('key-1', requestHash, now)).resolves.toEqual({ status: 'claimed' });
+
+    const input = mockDocClient.send.mock.calls[0][0].input;
+    expect(input.ConditionExpression).toBe('attribute_not_exists(idempotency_key) OR expires_at < :now');
+    expect(input.Item).toMatchObject({ status: 'in_progress', expires_at: now / 1000 + 60 });
+  });
+
+  it('should keep completed keys for the configured window', async () => {
+    const response = { statusCode: 201, body: '{}' };
+    await store.complete('key-1', response, now);
+
+    const input = mockDocClient.send.mock.calls[0][0].input;
+    expect(input.ExpressionAttributeValues).toEqual({ ':completed': 'completed', ':response': response, ':expires_at': now / 1000 + 3600 });
+  });
+
+  it('should let a retry reclaim the key of a request that died in progress', async () => {
+    const docClient = new InMemoryDocumentStore([{ tableName: 'test-idempotency', partitionKey: 'idempotency_key' }]);
+    store = new IdempotencyStore({ docClient, tableName: 'test-idempotency', windowSeconds: 3600, leaseSeconds: 30 });
+    const response = { statusCode: 201, body: '{}' };
+
+    await store.claim('key-1', requestHash, now);
+    await expect(store.claim('key-1', requestHash, now + 30000)).resolves.toEqual({ status: 'in_progress' });
+    await expect(store.claim('key-1', requestHash, now + 31000)).resolves.toEqual({ status: 'claimed' });
+
+    await store.complete('key-1', response, now + 32000);
+    await expect(store.claim('key-1', requestHash, now + 3000000)).resolves.toEqual({ status: 'completed', response });
+  });
+
+  it('should return the stored response for a repeated request', async () => {
+    const response = { statusCode: 201, body: '{"message":"Sensor data ingested successfully"}' };
+    mockDocClient.send
+      .mockRejectedValueOnce(conditionalCheckFailed())
+      .mockResolvedValueOnce({ Item: { idempotency_key: 'key-1', request_hash: requestHash, status: 'completed', response } });
+
+    await expect(store.claim('key-1', requestHash, now)).resolves.toEqual({ status: 'completed', response });
+    expect(mockDocClient.send.mock.calls[1][0].input.ConsistentRead).toBe(true);
+  });
+
+  it('should report a key that is in progress or reused for another request', async () => {
+    mockDocClient.send
+      .mockRejectedValueOnce(conditionalCheckFailed())
+      .mockResolvedValueOnce({ Item: { idempotency_key: 'key-1', request_hash: requestHash, status: 'in_progress' } })
+      .mockRejectedValueOnce(conditionalCheckFailed())
+      .mockResolvedValueOnce({ Item: { idempotency_key: 'key-1', request_hash: 'other', status: 'completed' } });
+
+    await expect(store.claim('key-1', requestHash, now)).resolves.toEqual({ status: 'in_progress' });
+    await expect(store.claim('key-1', requestHash, now)).resolves.toEqual({ status: 'mismatch' });
+  });
+
+  it('should only release keys that were never completed', async () => {
+    await store.release('key-1');
+
+    const input = mockDocClient.send.mock.calls[0][0].input;
+    expect(input.ConditionExpression).toBe('#status = :in_progress');
+  });
+});
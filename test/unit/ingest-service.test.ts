@@ -1,4 +1,8 @@
-import { IngestService, SensorData } from '../../lambda/ingest/service';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { IngestService, MultiSensorEvent, SensorData, SensorEvent } from '../../lambda/ingest/service';
+import { RegisteredSensor, SensorRegistry } from '../../lambda/shared/sensor-registry';
+import { Metrics } from '../../lambda/shared/observability';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
 
 // Simple mock for testing
 const mockDocClient = {
@@ -67,6 +71,10 @@ describe('IngestService', () => {
 
       expect(ingestService.validateSensorData(invalidData)).toBe(false);
     });
+
+    it('should reject sensor ids containing the series separator', () => {
+      expect(ingestService.validateSensorData({ sensor_id: 'env-1#humidity', type: 'temperature', value: 25.5, location: 'lab-1' })).toBe(false);
+    });
   });
 
   describe('createSensorEvent', () => {
@@ -84,10 +92,28 @@ describe('IngestService', () => {
       expect(result).toEqual({
         ...sensorData,
         timestamp,
+        received_at: timestamp,
+        timestamp_source: 'server',
         environment: 'test'
       });
     });
 
+    it('should key the event by the device timestamp when supplied', () => {
+      const sensorData: SensorData = {
+        sensor_id: 'sensor-123',
+        type: 'temperature',
+        value: 25.5,
+        location: 'lab-1',
+        timestamp: '2023-07-13T09:15:00Z'
+      };
+
+      const result = ingestService.createSensorEvent(sensorData, '2023-07-13T10:00:00.000Z');
+
+      expect(result.timestamp).toBe('2023-07-13T09:15:00.000Z');
+      expect(result.received_at).toBe('2023-07-13T10:00:00.000Z');
+      expect(result.timestamp_source).toBe('device');
+    });
+
     it('should create sensor event with current timestamp when not provided', () => {
       const sensorData: SensorData = {
         sensor_id: 'sensor-123',
@@ -107,6 +133,41 @@ describe('IngestService', () => {
     });
   });
 
+  describe('checkEventTime', () => {
+    const reading: SensorData = {
+      sensor_id: 'sensor-123',
+      type: 'temperature',
+      value: 25.5,
+      location: 'lab-1'
+    };
+    const receivedAt = '2023-07-13T10:00:00.000Z';
+
+    it('should reject readings too far in the future', () => {
+      const sensorEvent = ingestService.createSensorEvent({ ...reading, timestamp: '2023-07-13T10:10:00.000Z' }, receivedAt);
+
+      expect(() => ingestService.checkEventTime(sensorEvent)).toThrow('Invalid timestamp');
+    });
+
+    it('should accept delayed readings within the lateness window', () => {
+      const sensorEvent = ingestService.createSensorEvent({ ...reading, timestamp: '2023-07-13T09:00:00.000Z' }, receivedAt);
+
+      expect(ingestService.checkEventTime(sensorEvent).late).toBeUndefined();
+    });
+
+    it('should flag readings older than the lateness window by default', () => {
+      const sensorEvent = ingestService.createSensorEvent({ ...reading, timestamp: '2023-07-11T10:00:00.000Z' }, receivedAt);
+
+      expect(ingestService.checkEventTime(sensorEvent).late).toBe(true);
+    });
+
+    it('should reject late readings when configured to', () => {
+      ingestService = new IngestService({ ...mockConfig, lateWindowMs: 60 * 60 * 1000, lateReadingPolicy: 'reject' });
+      const sensorEvent = ingestService.createSensorEvent({ ...reading, timestamp: '2023-07-13T08:00:00.000Z' }, receivedAt);
+
+      expect(() => ingestService.checkEventTime(sensorEvent)).toThrow('lateness window');
+    });
+  });
+
   describe('getSecrets', () => {
     it('should retrieve and cache secrets', async () => {
       const mockSecrets = { apiKey: 'test-key' };
@@ -139,6 +200,8 @@ describe('IngestService', () => {
         value: 25.5,
         location: 'lab-1',
         timestamp: '2023-07-13T10:00:00.000Z',
+        received_at: '2023-07-13T10:00:00.000Z',
+        timestamp_source: 'server' as const,
         environment: 'test'
       };
 
@@ -156,6 +219,8 @@ describe('IngestService', () => {
         value: 25.5,
         location: 'lab-1',
         timestamp: '2023-07-13T10:00:00.000Z',
+        received_at: '2023-07-13T10:00:00.000Z',
+        timestamp_source: 'server' as const,
         environment: 'test'
       };
 
@@ -179,7 +244,7 @@ describe('IngestService', () => {
       });
       mockDocClient.send.mockResolvedValue({});
 
-      const result = await ingestService.processSensorData(sensorData);
+      const result = await ingestService.processSensorData(sensorData) as SensorEvent;
 
       expect(result.sensor_id).toBe(sensorData.sensor_id);
       expect(result.type).toBe(sensorData.type);
@@ -196,7 +261,7 @@ describe('IngestService', () => {
       };
 
       await expect(ingestService.processSensorData(invalidData)).rejects.toThrow(
-        'Invalid sensor data format. Required fields: sensor_id, type, value, location'
+        "Invalid sensor data format. Required fields: sensor_id (without '#'), type, value, location"
       );
     });
 
@@ -216,4 +281,423 @@ describe('IngestService', () => {
       await expect(ingestService.processSensorData(sensorData)).rejects.toThrow('Storage failed');
     });
   });
+
+  describe('processSensorDataBatch', () => {
+    const reading: SensorData = {
+      sensor_id: 'sensor-123',
+      type: 'temperature',
+      value: 25.5,
+      location: 'lab-1'
+    };
+
+    beforeEach(() => {
+      ingestService = new IngestService({ ...mockConfig, batchRetryBaseDelayMs: 0 });
+      mockSecretsClient.send.mockResolvedValue({
+        SecretString: JSON.stringify({})
+      });
+    });
+
+    it('should store every reading with a conditional put', async () => {
+      mockDocClient.send.mockResolvedValue({});
+      const readings = [
+        { ...reading, timestamp: '2023-07-13T10:00:00.000Z' },
+        reading,
+        { ...reading, timestamp: '2023-07-13T10:01:00.000Z' }
+      ];
+
+      const results = await ingestService.processSensorDataBatch(readings);
+
+      const commands = mockDocClient.send.mock.calls.map(([command]: any[]) => command);
+      expect(commands.map((command: any) => command.constructor.name)).toEqual(['PutCommand', 'PutCommand', 'PutCommand']);
+      commands.forEach((command: any) => {
+        expect(command.input.ConditionExpression).toBe('attribute_not_exists(sensor_id) AND attribute_not_exists(#ts)');
+      });
+      expect(results.every(result => result.status === 'success')).toBe(true);
+    });
+
+    it('should timestamp readings of one sensor 1ms apart, ending at the receive time', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2023-07-13T10:00:00.000Z'));
+      mockDocClient.send.mockResolvedValue({});
+
+      try {
+        const results = await ingestService.processSensorDataBatch([
+          reading,
+          { ...reading, sensor_id: 'sensor-456' },
+          { ...reading, timestamp: '2023-07-13T09:00:00.000Z' },
+          reading,
+          reading
+        ]);
+
+        expect(results.map(result => result.timestamp)).toEqual([
+          '2023-07-13T09:59:59.998Z',
+          '2023-07-13T10:00:00.000Z',
+          '2023-07-13T09:00:00.000Z',
+          '2023-07-13T09:59:59.999Z',
+          '2023-07-13T10:00:00.000Z'
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not overwrite a reading stored in the same millisecond', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2023-07-13T10:00:00.000Z'));
+      const docClient = new InMemoryDocumentStore([{ tableName: 'test-table', partitionKey: 'sensor_id', sortKey: 'timestamp' }]);
+      const metrics = new Metrics();
+      const count = jest.spyOn(metrics, 'count');
+      ingestService = new IngestService({ ...mockConfig, docClient, metrics });
+
+      try {
+        await ingestService.processSensorData({ ...reading, value: 1 });
+        const results = await ingestService.processSensorDataBatch([{ ...reading, value: 2 }, { ...reading, value: 3 }]);
+
+        expect(results[0]).toMatchObject({ status: 'success', timestamp: '2023-07-13T09:59:59.999Z' });
+        expect(results[1]).toMatchObject({ status: 'failed', timestamp: '2023-07-13T10:00:00.000Z' });
+        expect(results[1].error).toContain('Conflict');
+        expect(count).toHaveBeenCalledWith('Conflicts');
+        const stored = await docClient.send(new QueryCommand({
+          TableName: 'test-table',
+          KeyConditionExpression: 'sensor_id = :sensor_id',
+          ExpressionAttributeValues: { ':sensor_id': 'sensor-123' }
+        }));
+        expect(stored.Items!.map((item: any) => [item.timestamp, item.value])).toEqual([
+          ['2023-07-13T09:59:59.999Z', 2],
+          ['2023-07-13T10:00:00.000Z', 1]
+        ]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should report invalid readings per item', async () => {
+      mockDocClient.send.mockResolvedValue({});
+
+      const results = await ingestService.processSensorDataBatch([reading, { sensor_id: 'sensor-456' }]);
+
+      expect(results[0].status).toBe('success');
+      expect(results[1]).toEqual(expect.objectContaining({
+        index: 1,
+        status: 'failed',
+        sensor_id: 'sensor-456'
+      }));
+    });
+
+    it('should report readings already stored as duplicates without overwriting them', async () => {
+      const metrics = new Metrics();
+      const count = jest.spyOn(metrics, 'count');
+      ingestService = new IngestService({ ...mockConfig, batchRetryBaseDelayMs: 0, metrics });
+      mockDocClient.send
+        .mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }))
+        .mockResolvedValueOnce({});
+      const stamped = { ...reading, timestamp: '2023-07-13T10:00:00.000Z' };
+
+      const results = await ingestService.processSensorDataBatch([stamped, { ...stamped, timestamp: '2023-07-13T10:01:00.000Z' }]);
+
+      expect(results.map(result => result.status)).toEqual(['duplicate', 'success']);
+      expect(results[0]).toMatchObject({ sensor_id: 'sensor-123', timestamp: '2023-07-13T10:00:00.000Z' });
+      expect(results[0].error).toBeUndefined();
+      expect(count.mock.calls[0]).toEqual(['Conflicts']);
+      expect(count).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry throttled conditional puts', async () => {
+      mockDocClient.send
+        .mockRejectedValueOnce(Object.assign(new Error('Throughput exceeded'), { name: 'ProvisionedThroughputExceededException' }))
+        .mockResolvedValueOnce({});
+
+      const results = await ingestService.processSensorDataBatch([{ ...reading, timestamp: '2023-07-13T10:00:00.000Z' }]);
+
+      expect(mockDocClient.send).toHaveBeenCalledTimes(2);
+      expect(results[0].status).toBe('success');
+    });
+
+    it('should mark items failed when retries are exhausted', async () => {
+      mockDocClient.send.mockRejectedValue(Object.assign(new Error('Throughput exceeded'), { name: 'ProvisionedThroughputExceededException' }));
+
+      const results = await ingestService.processSensorDataBatch([{ ...reading, timestamp: '2023-07-13T10:00:00.000Z' }, reading]);
+
+      expect(mockDocClient.send).toHaveBeenCalledTimes(8);
+      expect(results.map(result => result.error)).toEqual(['Write throttled: retries exhausted', 'Write throttled: retries exhausted']);
+    });
+
+    it('should reject duplicate device timestamps within a batch', async () => {
+      mockDocClient.send.mockResolvedValue({});
+      const stamped = { ...reading, timestamp: new Date().toISOString() };
+
+      const results = await ingestService.processSensorDataBatch([stamped, stamped]);
+
+      expect(results[0].status).toBe('success');
+      expect(results[1].status).toBe('failed');
+      expect(results[1].error).toContain('Duplicate reading');
+    });
+
+    it('should count ingested, rejected and duplicate readings', async () => {
+      const metrics = new Metrics();
+      const count = jest.spyOn(metrics, 'count');
+      ingestService = new IngestService({ ...mockConfig, batchRetryBaseDelayMs: 0, metrics });
+      mockDocClient.send.mockResolvedValue({});
+      const stamped = { ...reading, timestamp: new Date().toISOString() };
+
+      await ingestService.processSensorDataBatch([stamped, stamped, { sensor_id: 'sensor-456' }]);
+
+      expect(count.mock.calls).toEqual([
+        ['Conflicts'],
+        ['ValidationRejects'],
+        ['ReadingsIngested', 1, { SensorType: 'temperature' }]
+      ]);
+    });
+
+    it('should reject an empty or oversized batch', async () => {
+      await expect(ingestService.processSensorDataBatch([])).rejects.toThrow('Invalid batch format');
+      await expect(ingestService.processSensorDataBatch(Array(501).fill(reading))).rejects.toThrow('Invalid batch format');
+    });
+  });
+
+  describe('unit normalization', () => {
+    beforeEach(() => {
+      mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+      mockDocClient.send.mockResolvedValue({});
+    });
+
+    it('should store readings in the canonical unit of their type', async () => {
+      const sensorEvent = await ingestService.processSensorData({
+        sensor_id: 'sensor-123',
+        type: 'temperature',
+        value: 77,
+        unit: '°F',
+        location: 'lab-1'
+      }) as SensorEvent;
+
+      expect(sensorEvent.value).toBeCloseTo(25);
+      expect(sensorEvent).toMatchObject({ unit: 'celsius', raw_value: 77, raw_unit: 'fahrenheit' });
+      expect(mockDocClient.send.mock.calls[0][0].input.Item).toEqual(sensorEvent);
+    });
+
+    it('should reject physically impossible values', async () => {
+      await expect(ingestService.processSensorData({
+        sensor_id: 'sensor-123',
+        type: 'humidity',
+        value: 250,
+        location: 'lab-1'
+      })).rejects.toThrow('Invalid value');
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-metric readings', () => {
+    beforeEach(() => {
+      mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+      mockDocClient.send.mockResolvedValue({});
+    });
+
+    it('should store every metric of a readings map in one event', async () => {
+      const sensorEvent = await ingestService.processSensorData({
+        sensor_id: 'env-1',
+        location: 'lab-1',
+        timestamp: '2023-07-13T10:42:00Z',
+        readings: { temperature: { value: 77, unit: '°F' }, humidity: 48, pressure: { value: 101.3, unit: 'kPa' } }
+      }) as MultiSensorEvent;
+
+      expect(sensorEvent.readings).toEqual({
+        temperature: { value: expect.closeTo(25), unit: 'celsius', raw_value: 77, raw_unit: 'fahrenheit' },
+        humidity: { value: 48, unit: 'percent' },
+        pressure: { value: expect.closeTo(1013), unit: 'hpa', raw_value: 101.3, raw_unit: 'kpa' }
+      });
+      expect(sensorEvent).toMatchObject({ sensor_id: 'env-1', timestamp: '2023-07-13T10:42:00.000Z', timestamp_source: 'device' });
+      expect(sensorEvent).not.toHaveProperty('type');
+      expect(mockDocClient.send).toHaveBeenCalledTimes(1);
+      expect(mockDocClient.send.mock.calls[0][0].input.Item).toEqual(sensorEvent);
+    });
+
+    it('should accept readings as a list of types', async () => {
+      const sensorEvent = await ingestService.processSensorData({
+        sensor_id: 'env-1',
+        location: 'lab-1',
+        readings: [{ type: 'co2', value: 640 }, { type: 'humidity', value: 48, unit: '%' }]
+      }) as MultiSensorEvent;
+
+      expect(sensorEvent.readings).toEqual({ co2: { value: 640, unit: 'ppm' }, humidity: { value: 48, unit: 'percent' } });
+    });
+
+    it('should reject malformed readings', async () => {
+      const message = { sensor_id: 'env-1', location: 'lab-1' };
+      const invalid = [
+        { ...message, readings: {} },
+        { ...message, readings: [] },
+        { ...message, readings: { temperature: '21' } },
+        { ...message, readings: [{ type: 'humidity', value: 48 }, { type: 'humidity', value: 49 }] },
+        { ...message, readings: [{ value: 48 }] },
+        { ...message, readings: [48, 'humidity'] },
+        { ...message, readings: { humidity: null } },
+        { ...message, readings: { humidity: { value: 48, unit: 1 } } },
+        { ...message, type: 'temperature', value: 21, readings: { humidity: 48 } },
+        { sensor_id: 'env-1', readings: { humidity: 48 } },
+        { ...message, sensor_id: 'env#1', readings: { humidity: 48 } },
+        { ...message, readings: { 'humidity#2': 48 } },
+        { ...message, readings: Object.fromEntries(Array.from({ length: 21 }, (_, index) => [`metric-${index}`, index])) }
+      ];
+
+      for (const sensorData of invalid) {
+        await expect(ingestService.processSensorData(sensorData)).rejects.toThrow('Invalid sensor data format. Multi-metric readings');
+      }
+      await expect(ingestService.processSensorData({ ...message, readings: { temperature: 21, humidity: 250 } }))
+        .rejects.toThrow('Invalid value');
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should count each ingested metric by type', async () => {
+      const metrics = { count: jest.fn() } as unknown as Metrics;
+      ingestService = new IngestService({ ...mockConfig, metrics });
+
+      await ingestService.processSensorDataBatch([
+        { sensor_id: 'env-1', location: 'lab-1', readings: { temperature: 21, humidity: 48 } },
+        { sensor_id: 'sensor-123', type: 'temperature', value: 22, location: 'lab-1' }
+      ]);
+
+      expect(metrics.count).toHaveBeenCalledWith('ReadingsIngested', 1, { SensorType: 'temperature' });
+      expect(metrics.count).toHaveBeenCalledWith('ReadingsIngested', 1, { SensorType: 'humidity' });
+      expect(metrics.count).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('with a sensor registry', () => {
+    const registered: RegisteredSensor = {
+      sensor_id: 'sensor-123',
+      type: 'temperature',
+      unit: 'celsius',
+      location: 'lab-1',
+      owner: 'facilities',
+      expected_min: -20,
+      expected_max: 60,
+      status: 'active',
+      created_at: '2023-07-01T00:00:00.000Z',
+      updated_at: '2023-07-01T00:00:00.000Z'
+    };
+
+    const respondWith = (sensors: RegisteredSensor[]) => {
+      mockDocClient.send.mockImplementation(async (command: any) => {
+        if (command.constructor.name === 'BatchGetCommand') {
+          return { Responses: { 'test-sensors': sensors } };
+        }
+        return {};
+      });
+    };
+
+    beforeEach(() => {
+      ingestService = new IngestService({
+        ...mockConfig,
+        sensorRegistry: new SensorRegistry({ docClient: mockDocClient, tableName: 'test-sensors' })
+      });
+      mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    });
+
+    it('should fill in metadata from the registry', async () => {
+      respondWith([registered]);
+
+      const sensorEvent = await ingestService.processSensorData({ sensor_id: 'sensor-123', value: 25.5 }) as SensorEvent;
+
+      expect(sensorEvent).toMatchObject({ type: 'temperature', location: 'lab-1', unit: 'celsius' });
+      expect(sensorEvent.out_of_range).toBeUndefined();
+    });
+
+    it('should reject unknown and decommissioned sensors', async () => {
+      respondWith([{ ...registered, sensor_id: 'sensor-old', status: 'decommissioned' }]);
+
+      await expect(ingestService.processSensorData({ sensor_id: 'sensor-123', value: 1 }))
+        .rejects.toThrow('Sensor not accepted. sensor-123 is not registered');
+      await expect(ingestService.processSensorData({ sensor_id: 'sensor-old', value: 1 }))
+        .rejects.toThrow('Sensor not accepted. sensor-old is decommissioned');
+    });
+
+    it('should reject metadata that disagrees with the registry', async () => {
+      respondWith([registered]);
+
+      await expect(ingestService.processSensorData({ sensor_id: 'sensor-123', value: 1, location: 'lab-2' }))
+        .rejects.toThrow('Sensor metadata mismatch');
+    });
+
+    it('should convert readings sent in another unit than the registered one', async () => {
+      respondWith([registered]);
+
+      const sensorEvent = await ingestService.processSensorData({ sensor_id: 'sensor-123', value: 300, unit: 'kelvin' }) as SensorEvent;
+
+      expect(sensorEvent.value).toBeCloseTo(26.85);
+      expect(sensorEvent.unit).toBe('celsius');
+    });
+
+    it('should flag readings outside the expected range', async () => {
+      respondWith([registered]);
+
+      const sensorEvent = await ingestService.processSensorData({ sensor_id: 'sensor-123', value: 75 }) as SensorEvent;
+
+      expect(sensorEvent.out_of_range).toBe(true);
+    });
+
+    it('should check the location of multi-metric readings and the range of the registered type', async () => {
+      respondWith([registered]);
+
+      const sensorEvent = await ingestService.processSensorData({
+        sensor_id: 'sensor-123',
+        readings: { temperature: 75, humidity: 48 }
+      }) as MultiSensorEvent;
+
+      expect(sensorEvent.location).toBe('lab-1');
+      expect(sensorEvent.readings.temperature.out_of_range).toBe(true);
+      expect(sensorEvent.readings.humidity.out_of_range).toBeUndefined();
+      await expect(ingestService.processSensorData({ sensor_id: 'sensor-123', location: 'lab-2', readings: { humidity: 48 } }))
+        .rejects.toThrow('Sensor metadata mismatch');
+    });
+
+    it('should look up each batch sensor once and fail unknown ones per item', async () => {
+      respondWith([registered]);
+
+      const results = await ingestService.processSensorDataBatch([
+        { sensor_id: 'sensor-123', value: 1 },
+        { sensor_id: 'sensor-123', value: 2 },
+        { sensor_id: 'sensor-999', value: 3 }
+      ]);
+
+      const batchGets = mockDocClient.send.mock.calls.filter((call: any) => call[0].constructor.name === 'BatchGetCommand');
+      expect(batchGets).toHaveLength(1);
+      expect(batchGets[0][0].input.RequestItems['test-sensors'].Keys).toEqual([
+        { sensor_id: 'sensor-123' },
+        { sensor_id: 'sensor-999' }
+      ]);
+      expect(results.map(result => result.status)).toEqual(['success', 'success', 'failed']);
+      expect(results[2].error).toContain('not registered');
+    });
+  });
+
+  describe('with an authenticated device', () => {
+    const device = {
+      key_id: 'key-1',
+      sensor_id: 'sensor-123',
+      secret: 'device-secret',
+      status: 'active' as const,
+      created_at: '2023-07-01T00:00:00.000Z'
+    };
+
+    beforeEach(() => {
+      ingestService = new IngestService({ ...mockConfig, batchRetryBaseDelayMs: 0 });
+      mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+      mockDocClient.send.mockResolvedValue({});
+    });
+
+    it('should reject readings for another sensor', async () => {
+      const reading = { sensor_id: 'sensor-456', type: 'temperature', value: 1, location: 'lab-1' };
+
+      await expect(ingestService.processSensorData(reading, device)).rejects.toThrow('Device not authorized');
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should fail batch readings for another sensor per item', async () => {
+      const results = await ingestService.processSensorDataBatch([
+        { sensor_id: 'sensor-123', type: 'temperature', value: 1, location: 'lab-1' },
+        { sensor_id: 'sensor-456', type: 'temperature', value: 2, location: 'lab-1' }
+      ], device);
+
+      expect(results.map(result => result.status)).toEqual(['success', 'failed']);
+      expect(results[1].error).toContain('Device not authorized');
+    });
+  });
 });
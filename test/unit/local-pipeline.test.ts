@@ -0,0 +1,238 @@
+import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { IngestService } from '../../lambda/ingest/service';
+import { createIngestHandler } from '../../lambda/ingest/handler';
+import { IdempotencyStore } from '../../lambda/ingest/idempotency';
+import { AggregateService } from '../../lambda/aggregate/service';
+import { AnomalyDetector } from '../../lambda/aggregate/anomalies';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+import { getMemberKey } from '../../lambda/shared/groups';
+import { StreamFeed } from '../../lambda/shared/stream-feed';
+import { StaticSecretStore } from '../../lambda/shared/storage';
+
+// The pieces scripts/local-server.ts wires together, on the in-memory backend
+describe('Local pipeline', () => {
+  let store: InMemoryDocumentStore;
+  let handler: ReturnType<typeof createIngestHandler>;
+  let aggregateService: AggregateService;
+
+  const request = (body: any, headers: Record<string, string> = {}): APIGatewayProxyEvent => ({
+    resource: '/sensor/data',
+    path: '/sensor/data',
+    httpMethod: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  } as any);
+
+  const reading = (value: number, timestamp: string) => ({
+    sensor_id: 'temp-001',
+    type: 'temperature',
+    value,
+    location: 'lab-1',
+    timestamp
+  });
+
+  const getAggregate = async (hour_bucket: string) => (await store.send(new GetCommand({
+    TableName: 'aggregates',
+    Key: { sensor_id: 'temp-001', hour_bucket }
+  }))).Item;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.useFakeTimers({ doNotFake: ['setTimeout', 'setImmediate', 'nextTick'] }).setSystemTime(new Date('2023-07-13T11:00:00.000Z'));
+
+    store = new InMemoryDocumentStore([
+      { tableName: 'events', partitionKey: 'sensor_id', sortKey: 'timestamp' },
+      { tableName: 'aggregates', partitionKey: 'sensor_id', sortKey: 'hour_bucket' },
+      { tableName: 'groups', partitionKey: 'group_key', sortKey: 'hour_bucket' },
+      { tableName: 'idempotency', partitionKey: 'idempotency_key' },
+      { tableName: 'anomaly-state', partitionKey: 'sensor_id' },
+      { tableName: 'anomalies', partitionKey: 'sensor_id', sortKey: 'timestamp' }
+    ]);
+    const secretsClient = new StaticSecretStore({ local: {} });
+
+    aggregateService = new AggregateService({
+      docClient: store,
+      secretsClient,
+      tableName: 'aggregates',
+      eventsTableName: 'events',
+      secretArn: 'local',
+      environment: 'test',
+      resolutions: ['hour', 'day'],
+      groupsTableName: 'groups'
+    });
+    const anomalyDetector = new AnomalyDetector({
+      docClient: store,
+      stateTableName: 'anomaly-state',
+      anomaliesTableName: 'anomalies',
+      environment: 'test',
+      settings: { alpha: 0.1, warmup: 3, thresholds: { default: 4 } }
+    });
+
+    const eventsStore = new StreamFeed({
+      store,
+      tableName: 'events',
+      keyAttributes: ['sensor_id', 'timestamp'],
+      onRecord: async record => {
+        await aggregateService.processRecord(record);
+        await anomalyDetector.processRecord(record);
+      }
+    });
+
+    handler = createIngestHandler({
+      ingestService: new IngestService({
+        docClient: eventsStore,
+        secretsClient,
+        tableName: 'events',
+        secretArn: 'local',
+        environment: 'test'
+      }),
+      environment: 'test',
+      idempotencyStore: new IdempotencyStore({ docClient: store, tableName: 'idempotency', windowSeconds: 86400 })
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should aggregate readings before the request returns', async () => {
+    expect((await handler(request(reading(20, '2023-07-13T10:05:00.000Z')))).statusCode).toBe(201);
+    expect((await handler(request(reading(24, '2023-07-13T10:35:00.000Z')))).statusCode).toBe(201);
+
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({
+      count: 2,
+      sum: 44,
+      min: 20,
+      max: 24,
+      sensor_type: 'temperature',
+      location: 'lab-1'
+    });
+    expect(await getAggregate('day#2023-07-13')).toMatchObject({ count: 2, sum: 44 });
+
+    const group = await store.send(new GetCommand({
+      TableName: 'groups',
+      Key: { group_key: 'location#lab-1', hour_bucket: 'hour#2023-07-13T10:00:00' }
+    }));
+    expect(group.Item).toMatchObject({ count: 2, sum: 44, sensor_count: 1 });
+    const member = await store.send(new GetCommand({
+      TableName: 'groups',
+      Key: getMemberKey('location#lab-1', 'hour#2023-07-13T10:00:00', 'temp-001')
+    }));
+    expect(member.Item).toMatchObject({ count: 2 });
+
+    const state = await store.send(new GetCommand({ TableName: 'anomaly-state', Key: { sensor_id: 'temp-001' } }));
+    expect(state.Item).toMatchObject({ count: 2, last_value: 24 });
+  });
+
+  it('should not aggregate the readings of a replayed batch again', async () => {
+    const batch = { ...request([reading(20, '2023-07-13T10:05:00.000Z'), reading(24, '2023-07-13T10:35:00.000Z')]), resource: '/sensor/batch', path: '/sensor/batch' };
+
+    expect((await handler(batch)).statusCode).toBe(201);
+    const replay = await handler({ ...batch, body: JSON.stringify([reading(20, '2023-07-13T10:05:00.000Z'), reading(22, '2023-07-13T10:50:00.000Z')]) });
+
+    expect(replay.statusCode).toBe(201);
+    expect(JSON.parse(replay.body).results.map((result: any) => result.status)).toEqual(['duplicate', 'success']);
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 3, sum: 66 });
+  });
+
+  it('should carry the correlation ID from the request into the aggregation logs', async () => {
+    const response = await handler(request(reading(20, '2023-07-13T10:05:00.000Z'), { 'X-Correlation-Id': 'trace-7' }));
+
+    expect(response.headers?.['X-Correlation-Id']).toBe('trace-7');
+    const events = await store.send(new QueryCommand({
+      TableName: 'events',
+      KeyConditionExpression: 'sensor_id = :sensor_id',
+      ExpressionAttributeValues: { ':sensor_id': 'temp-001' }
+    }));
+    expect(events.Items![0].correlation_id).toBe('trace-7');
+
+    const lines = (console.log as jest.Mock).mock.calls.map(([line]) => JSON.parse(line));
+    expect(lines).toContainEqual(expect.objectContaining({ message: 'Updated aggregates', correlation_id: 'trace-7' }));
+  });
+
+  it('should reject a repeated reading without counting it twice', async () => {
+    await handler(request(reading(20, '2023-07-13T10:05:00.000Z')));
+    const repeated = await handler(request(reading(20, '2023-07-13T10:05:00.000Z')));
+
+    expect(repeated.statusCode).toBe(409);
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 1, sum: 20 });
+  });
+
+  it('should replay a retried request with the same idempotency key', async () => {
+    const first = await handler(request(reading(20, '2023-07-13T10:05:00.000Z'), { 'Idempotency-Key': 'retry-1' }));
+    const retry = await handler(request(reading(20, '2023-07-13T10:05:00.000Z'), { 'Idempotency-Key': 'retry-1' }));
+
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers?.['Idempotent-Replayed']).toBe('true');
+    expect(retry.body).toBe(first.body);
+  });
+
+  it('should let a retry with the same idempotency key write the failed readings of a batch', async () => {
+    const batch = (readings: any[]) => ({
+      ...request(readings, { 'Idempotency-Key': 'batch-1' }),
+      resource: '/sensor/batch',
+      path: '/sensor/batch'
+    });
+
+    const first = await handler(batch([reading(20, '2023-07-13T10:05:00.000Z'), { ...reading(24, '2023-07-13T10:35:00.000Z'), value: 'x' }]));
+    const retry = await handler(batch([reading(20, '2023-07-13T10:05:00.000Z'), reading(24, '2023-07-13T10:35:00.000Z')]));
+
+    expect(first.statusCode).toBe(207);
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers?.['Idempotent-Replayed']).toBeUndefined();
+    expect(JSON.parse(retry.body).results.map((result: any) => result.status)).toEqual(['duplicate', 'success']);
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 2, sum: 44 });
+  });
+
+  it('should aggregate each metric of a multi-metric reading as its own series', async () => {
+    const multiReading = (temperature: number, humidity: number, timestamp: string) => ({
+      sensor_id: 'env-1',
+      location: 'lab-1',
+      timestamp,
+      readings: { temperature, humidity: { value: humidity, unit: '%' } }
+    });
+
+    const response = await handler(request(multiReading(20, 40, '2023-07-13T10:05:00.000Z')));
+    await handler(request(multiReading(22, 50, '2023-07-13T10:35:00.000Z')));
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).data.readings).toEqual({
+      temperature: { value: 20, unit: 'celsius' },
+      humidity: { value: 40, unit: 'percent' }
+    });
+
+    const series = async (sensor_id: string) => (await store.send(new GetCommand({
+      TableName: 'aggregates',
+      Key: { sensor_id, hour_bucket: 'hour#2023-07-13T10:00:00' }
+    }))).Item;
+    expect(await series('env-1#temperature')).toMatchObject({ count: 2, sum: 42, min: 20, max: 22, sensor_type: 'temperature', metric: 'temperature' });
+    expect(await series('env-1#humidity')).toMatchObject({ count: 2, sum: 90, unit: 'percent', metric: 'humidity' });
+    expect(await series('env-1')).toBeUndefined();
+
+    const state = await store.send(new GetCommand({ TableName: 'anomaly-state', Key: { sensor_id: 'env-1#humidity' } }));
+    expect(state.Item).toMatchObject({ count: 2, last_value: 50 });
+  });
+
+  it('should take a corrected reading out of the old bucket', async () => {
+    await handler(request(reading(20, '2023-07-13T10:05:00.000Z')));
+    const events = await store.send(new QueryCommand({
+      TableName: 'events',
+      KeyConditionExpression: 'sensor_id = :sensor_id',
+      ExpressionAttributeValues: { ':sensor_id': 'temp-001' }
+    }));
+    expect(events.Items).toHaveLength(1);
+
+    // Correct the stored row in place
+    const stream = new StreamFeed({
+      store,
+      tableName: 'events',
+      keyAttributes: ['sensor_id', 'timestamp'],
+      onRecord: record => aggregateService.processRecord(record)
+    });
+    await stream.send(new PutCommand({ TableName: 'events', Item: { ...events.Items![0], value: 26 } }));
+
+    expect(await getAggregate('hour#2023-07-13T10:00:00')).toMatchObject({ count: 1, sum: 26, min: 26, max: 26 });
+  });
+});
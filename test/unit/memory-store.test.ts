@@ -0,0 +1,338 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+import { StaticSecretStore } from '../../lambda/shared/storage';
+import { StreamFeed } from '../../lambda/shared/stream-feed';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+
+describe('InMemoryDocumentStore', () => {
+  let store: InMemoryDocumentStore;
+
+  const get = async (hour_bucket: string) => (await store.send(new GetCommand({
+    TableName: 'aggregates',
+    Key: { sensor_id: 'sensor-1', hour_bucket }
+  }))).Item;
+
+  beforeEach(() => {
+    store = new InMemoryDocumentStore([
+      { tableName: 'aggregates', partitionKey: 'sensor_id', sortKey: 'hour_bucket' },
+      {
+        tableName: 'keys',
+        partitionKey: 'key_id',
+        indexes: [{ indexName: 'sensor-index', partitionKey: 'sensor_id', sortKey: 'created_at' }]
+      }
+    ]);
+  });
+
+  describe('conditional writes', () => {
+    it('should only put an item that does not exist yet', async () => {
+      const put = new PutCommand({
+        TableName: 'aggregates',
+        Item: { sensor_id: 'sensor-1', hour_bucket: 'hour#1', count: 1 },
+        ConditionExpression: 'attribute_not_exists(sensor_id)'
+      });
+
+      await store.send(put);
+      await expect(store.send(put)).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+
+    it('should compare, combine and negate conditions', async () => {
+      await store.send(new PutCommand({ TableName: 'aggregates', Item: { sensor_id: 'sensor-1', hour_bucket: 'hour#1', min: 5, status: 'open' } }));
+
+      const update = (condition: string, values: Record<string, any>) => store.send(new UpdateCommand({
+        TableName: 'aggregates',
+        Key: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' },
+        UpdateExpression: 'SET #min = :value',
+        ConditionExpression: condition,
+        ExpressionAttributeNames: { '#min': 'min' },
+        ExpressionAttributeValues: { ':value': 3, ...values }
+      }));
+
+      await expect(update('attribute_not_exists(#min) OR #min > :value', {})).resolves.toBeDefined();
+      await expect(update('attribute_not_exists(#min) OR #min > :value', {})).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+      await expect(update('#min BETWEEN :low AND :value AND NOT (status IN (:closed))', { ':low': 1, ':closed': 'closed' })).resolves.toBeDefined();
+      await expect(update('begins_with(status, :prefix) AND size(status) = :four AND #min <> :value', { ':prefix': 'op', ':four': 4 }))
+        .rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+    });
+
+    it('should reject expression names or values that are not used', async () => {
+      await expect(store.send(new PutCommand({
+        TableName: 'aggregates',
+        Item: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' },
+        ConditionExpression: 'attribute_not_exists(sensor_id)',
+        ExpressionAttributeNames: { '#ts': 'timestamp' }
+      }))).rejects.toThrow('Value provided in ExpressionAttributeNames unused in expressions: keys: {#ts}');
+    });
+
+    it('should refuse undefined attribute values like the document client', async () => {
+      await expect(store.send(new PutCommand({
+        TableName: 'aggregates',
+        Item: { sensor_id: 'sensor-1', hour_bucket: 'hour#1', unit: undefined }
+      }))).rejects.toThrow('removeUndefinedValues');
+    });
+  });
+
+  describe('updates', () => {
+    it('should add to counters and fill missing attributes', async () => {
+      const update = () => store.send(new UpdateCommand({
+        TableName: 'aggregates',
+        Key: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' },
+        UpdateExpression: 'ADD #count :one, #sum :value SET #shift = if_not_exists(#shift, :value), #sketch = if_not_exists(#sketch, :sketch)',
+        ExpressionAttributeNames: { '#count': 'count', '#sum': 'sum', '#shift': 'shift', '#sketch': 'sketch' },
+        ExpressionAttributeValues: { ':one': 1, ':value': 21.5, ':sketch': { pos: {} } },
+        ReturnValues: 'ALL_NEW'
+      }));
+
+      await update();
+      const result = await update();
+
+      expect(result.Attributes).toEqual({
+        sensor_id: 'sensor-1',
+        hour_bucket: 'hour#1',
+        count: 2,
+        sum: 43,
+        shift: 21.5,
+        sketch: { pos: {} }
+      });
+    });
+
+    it('should only update nested paths whose parent map exists', async () => {
+      const updateBin = () => store.send(new UpdateCommand({
+        TableName: 'aggregates',
+        Key: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' },
+        UpdateExpression: 'SET #sketch.#pos.#bin = if_not_exists(#sketch.#pos.#bin, :zero) + :one',
+        ExpressionAttributeNames: { '#sketch': 'sketch', '#pos': 'pos', '#bin': '42' },
+        ExpressionAttributeValues: { ':zero': 0, ':one': 1 }
+      }));
+
+      await expect(updateBin()).rejects.toThrow('The document path provided in the update expression is invalid for update');
+
+      await store.send(new PutCommand({ TableName: 'aggregates', Item: { sensor_id: 'sensor-1', hour_bucket: 'hour#1', sketch: { pos: {} } } }));
+      await updateBin();
+      await updateBin();
+      expect((await get('hour#1'))?.sketch).toEqual({ pos: { 42: 2 } });
+    });
+
+    it('should remove map entries and refuse to change the key', async () => {
+      await store.send(new PutCommand({ TableName: 'aggregates', Item: { sensor_id: 'sensor-1', hour_bucket: 'hour#1', sensors: { a: 1, b: 2 } } }));
+
+      await store.send(new UpdateCommand({
+        TableName: 'aggregates',
+        Key: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' },
+        UpdateExpression: 'REMOVE #sensors.#sensor',
+        ExpressionAttributeNames: { '#sensors': 'sensors', '#sensor': 'a' }
+      }));
+      expect((await get('hour#1'))?.sensors).toEqual({ b: 2 });
+
+      await expect(store.send(new UpdateCommand({
+        TableName: 'aggregates',
+        Key: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' },
+        UpdateExpression: 'SET hour_bucket = :bucket',
+        ExpressionAttributeValues: { ':bucket': 'hour#2' }
+      }))).rejects.toThrow('This attribute is part of the key');
+    });
+  });
+
+  describe('transactions', () => {
+    const increment = (hour_bucket: string, count: number, required?: number) => ({
+      Update: {
+        TableName: 'aggregates',
+        Key: { sensor_id: 'sensor-1', hour_bucket },
+        UpdateExpression: 'ADD #count :count',
+        ConditionExpression: required !== undefined ? '#count >= :required' : undefined,
+        ExpressionAttributeNames: { '#count': 'count' },
+        ExpressionAttributeValues: required !== undefined ? { ':count': count, ':required': required } : { ':count': count }
+      }
+    });
+
+    it('should apply nothing when any condition fails and report why', async () => {
+      const error = await store.send(new TransactWriteCommand({
+        TransactItems: [increment('hour#1', 1), increment('hour#2', -1, 1)]
+      })).catch(caught => caught);
+
+      expect(error).toMatchObject({
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' }]
+      });
+      expect(await get('hour#1')).toBeUndefined();
+    });
+
+    it('should return the item whose condition failed when asked to', async () => {
+      await store.send(new TransactWriteCommand({ TransactItems: [increment('hour#1', 1)] }));
+      const removal = increment('hour#1', -2, 2);
+
+      const error = await store.send(new TransactWriteCommand({
+        TransactItems: [{ Update: { ...removal.Update, ReturnValuesOnConditionCheckFailure: 'ALL_OLD' } }]
+      })).catch(caught => caught);
+
+      expect(error.CancellationReasons[0].Item).toEqual({
+        sensor_id: { S: 'sensor-1' },
+        hour_bucket: { S: 'hour#1' },
+        count: { N: '1' }
+      });
+    });
+
+    it('should apply a transaction only once per client request token', async () => {
+      const transaction = new TransactWriteCommand({ ClientRequestToken: 'token-1', TransactItems: [increment('hour#1', 1)] });
+
+      await store.send(transaction);
+      await store.send(transaction);
+      expect((await get('hour#1'))?.count).toBe(1);
+
+      await expect(store.send(new TransactWriteCommand({ ClientRequestToken: 'token-1', TransactItems: [increment('hour#1', 2)] })))
+        .rejects.toMatchObject({ name: 'IdempotentParameterMismatchException' });
+    });
+
+    it('should refuse two operations on one item', async () => {
+      await expect(store.send(new TransactWriteCommand({ TransactItems: [increment('hour#1', 1), increment('hour#1', 1)] })))
+        .rejects.toThrow('multiple operations on one item');
+    });
+  });
+
+  describe('reads', () => {
+    beforeEach(async () => {
+      await store.send(new BatchWriteCommand({
+        RequestItems: {
+          aggregates: ['hour#3', 'hour#1', 'hour#2', 'day#1'].map((hour_bucket, i) => ({
+            PutRequest: { Item: { sensor_id: 'sensor-1', hour_bucket, count: i } }
+          }))
+        }
+      }));
+    });
+
+    it('should query a partition in sort key order, a page at a time', async () => {
+      const query = (ExclusiveStartKey?: Record<string, any>) => store.send(new QueryCommand({
+        TableName: 'aggregates',
+        KeyConditionExpression: 'sensor_id = :sensor_id AND begins_with(hour_bucket, :prefix)',
+        ExpressionAttributeValues: { ':sensor_id': 'sensor-1', ':prefix': 'hour#' },
+        ProjectionExpression: 'hour_bucket',
+        ScanIndexForward: false,
+        Limit: 2,
+        ExclusiveStartKey
+      }));
+
+      const first = await query();
+      expect(first.Items).toEqual([{ hour_bucket: 'hour#3' }, { hour_bucket: 'hour#2' }]);
+      expect(first.LastEvaluatedKey).toEqual({ sensor_id: 'sensor-1', hour_bucket: 'hour#2' });
+
+      const second = await query(first.LastEvaluatedKey);
+      expect(second.Items).toEqual([{ hour_bucket: 'hour#1' }]);
+      expect(second.LastEvaluatedKey).toBeUndefined();
+    });
+
+    it('should filter after the limit is applied', async () => {
+      const result = await store.send(new ScanCommand({
+        TableName: 'aggregates',
+        FilterExpression: '#count > :count',
+        ExpressionAttributeNames: { '#count': 'count' },
+        ExpressionAttributeValues: { ':count': 1 },
+        Limit: 3
+      }));
+
+      expect(result).toMatchObject({ Count: 2, ScannedCount: 3 });
+      expect(result.LastEvaluatedKey).toBeDefined();
+    });
+
+    it('should query a sparse index', async () => {
+      await store.send(new PutCommand({ TableName: 'keys', Item: { key_id: 'k2', sensor_id: 'sensor-1', created_at: '2023-02' } }));
+      await store.send(new PutCommand({ TableName: 'keys', Item: { key_id: 'k1', sensor_id: 'sensor-1', created_at: '2023-01' } }));
+      await store.send(new PutCommand({ TableName: 'keys', Item: { key_id: 'k3' } }));
+
+      const result = await store.send(new QueryCommand({
+        TableName: 'keys',
+        IndexName: 'sensor-index',
+        KeyConditionExpression: 'sensor_id = :sensor_id',
+        ExpressionAttributeValues: { ':sensor_id': 'sensor-1' }
+      }));
+
+      expect(result.Items?.map((item: any) => item.key_id)).toEqual(['k1', 'k2']);
+    });
+
+    it('should batch get existing items and delete them', async () => {
+      const result = await store.send(new BatchGetCommand({
+        RequestItems: {
+          aggregates: { Keys: [{ sensor_id: 'sensor-1', hour_bucket: 'hour#1' }, { sensor_id: 'sensor-1', hour_bucket: 'hour#9' }] }
+        }
+      }));
+      expect(result.Responses?.aggregates).toHaveLength(1);
+
+      await store.send(new DeleteCommand({ TableName: 'aggregates', Key: { sensor_id: 'sensor-1', hour_bucket: 'hour#1' } }));
+      expect(await get('hour#1')).toBeUndefined();
+    });
+  });
+
+  it('should fail like DynamoDB for an unknown table', async () => {
+    await expect(store.send(new GetCommand({ TableName: 'missing', Key: { id: '1' } })))
+      .rejects.toMatchObject({ name: 'ResourceNotFoundException' });
+  });
+});
+
+describe('StreamFeed', () => {
+  let store: InMemoryDocumentStore;
+  let records: any[];
+  let feed: StreamFeed;
+
+  beforeEach(() => {
+    store = new InMemoryDocumentStore([{ tableName: 'events', partitionKey: 'sensor_id', sortKey: 'timestamp' }]);
+    records = [];
+    feed = new StreamFeed({
+      store,
+      tableName: 'events',
+      keyAttributes: ['sensor_id', 'timestamp'],
+      onRecord: async record => {
+        records.push(record);
+      }
+    });
+  });
+
+  it('should emit insert, modify and remove records with both images', async () => {
+    const key = { sensor_id: 'sensor-1', timestamp: '2023-07-13T10:00:00.000Z' };
+
+    await feed.send(new PutCommand({ TableName: 'events', Item: { ...key, value: 1 } }));
+    await feed.send(new PutCommand({ TableName: 'events', Item: { ...key, value: 2 } }));
+    await feed.send(new DeleteCommand({ TableName: 'events', Key: key }));
+
+    expect(records.map(record => record.eventName)).toEqual(['INSERT', 'MODIFY', 'REMOVE']);
+    expect(records[1].dynamodb).toMatchObject({
+      Keys: { sensor_id: { S: 'sensor-1' }, timestamp: { S: key.timestamp } },
+      OldImage: { value: { N: '1' } },
+      NewImage: { value: { N: '2' } },
+      StreamViewType: 'NEW_AND_OLD_IMAGES'
+    });
+    expect(new Set(records.map(record => record.eventID)).size).toBe(3);
+  });
+
+  it('should not emit records for failed or unchanged writes', async () => {
+    const put = new PutCommand({
+      TableName: 'events',
+      Item: { sensor_id: 'sensor-1', timestamp: '2023-07-13T10:00:00.000Z', value: 1 }
+    });
+
+    await feed.send(put);
+    await feed.send(put);
+    await expect(feed.send(new PutCommand({ ...put.input, ConditionExpression: 'attribute_not_exists(sensor_id)' })))
+      .rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+
+    expect(records).toHaveLength(1);
+  });
+});
+
+describe('StaticSecretStore', () => {
+  it('should return the secret as a JSON string', async () => {
+    const secrets = new StaticSecretStore({ local: { apiKey: 'abc' } });
+
+    const response = await secrets.send(new GetSecretValueCommand({ SecretId: 'local' }));
+
+    expect(JSON.parse(response.SecretString!)).toEqual({ apiKey: 'abc' });
+    await expect(secrets.send(new GetSecretValueCommand({ SecretId: 'other' }))).rejects.toMatchObject({ name: 'ResourceNotFoundException' });
+  });
+});
@@ -0,0 +1,166 @@
+import { IngestService } from '../../lambda/ingest/service';
+import { MqttIngestor, MqttMessage } from '../../lambda/ingest/mqtt';
+import { IdempotencyStore } from '../../lambda/ingest/idempotency';
+
+// Simple mocks for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+const mockSqsClient = {
+  send: jest.fn()
+} as any;
+
+const message = (topic: string, payload: any): MqttMessage => ({
+  topic,
+  payload: Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)).toString('base64')
+});
+
+const reading = {
+  type: 'temperature',
+  value: 21.5,
+  location: 'warehouse-a',
+  timestamp: '2023-07-13T10:41:58.000Z'
+};
+
+describe('MqttIngestor', () => {
+  let ingestService: IngestService;
+  let mqttIngestor: MqttIngestor;
+
+  const storedItems = () => mockDocClient.send.mock.calls
+    .map((call: any) => call[0])
+    .filter((command: any) => command.constructor.name === 'PutCommand' && command.input.TableName === 'test-table')
+    .map((command: any) => command.input.Item);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2023-07-13T10:42:00.000Z'));
+    mockDocClient.send.mockResolvedValue({});
+    mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    mockSqsClient.send.mockResolvedValue({});
+
+    ingestService = new IngestService({
+      docClient: mockDocClient,
+      secretsClient: mockSecretsClient,
+      tableName: 'test-table',
+      secretArn: 'test-secret-arn',
+      environment: 'test'
+    });
+    mqttIngestor = new MqttIngestor({
+      ingestService,
+      sqsClient: mockSqsClient,
+      errorQueueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/mqtt-errors'
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should take the sensor id from the topic', () => {
+    expect(mqttIngestor.parseTopic('sensors/temp-001/data')).toBe('temp-001');
+    expect(() => mqttIngestor.parseTopic('sensors/temp-001/status')).toThrow('Invalid topic');
+    expect(() => mqttIngestor.parseTopic('sensors//data')).toThrow('Invalid topic');
+  });
+
+  it('should store the same row as the HTTP path', async () => {
+    await ingestService.processSensorData({ ...reading, sensor_id: 'temp-001' });
+    const result = await mqttIngestor.ingest(message('sensors/temp-001/data', reading));
+
+    expect(result.status).toBe('stored');
+    const [viaHttp, viaMqtt] = storedItems();
+    expect(viaMqtt).toEqual(viaHttp);
+    expect(viaMqtt).toMatchObject({ sensor_id: 'temp-001', timestamp_source: 'device', received_at: '2023-07-13T10:42:00.000Z' });
+  });
+
+  it('should reject a payload naming another sensor', async () => {
+    const result = await mqttIngestor.ingest(message('sensors/temp-001/data', { ...reading, sensor_id: 'temp-002' }));
+
+    expect(result).toMatchObject({ status: 'rejected', error: expect.stringContaining('Sensor metadata mismatch') });
+    expect(storedItems()).toHaveLength(0);
+  });
+
+  it('should send invalid readings to the error queue with the reason', async () => {
+    const invalid = [
+      message('sensors/temp-001/data', 'not json'),
+      message('sensors/temp-001/data', [reading]),
+      message('sensors/temp-001/data', { ...reading, value: 'warm' })
+    ];
+
+    for (const invalidMessage of invalid) {
+      expect((await mqttIngestor.ingest(invalidMessage)).status).toBe('rejected');
+    }
+
+    expect(mockSqsClient.send).toHaveBeenCalledTimes(3);
+    const body = JSON.parse(mockSqsClient.send.mock.calls[0][0].input.MessageBody);
+    expect(body).toMatchObject({ source: 'mqtt-ingest', topic: 'sensors/temp-001/data', payload: 'not json' });
+    expect(body.error).toContain('Invalid message payload');
+  });
+
+  it('should skip a redelivered reading that is already stored', async () => {
+    mockDocClient.send.mockRejectedValue(Object.assign(new Error('The conditional request failed'), {
+      name: 'ConditionalCheckFailedException'
+    }));
+
+    const result = await mqttIngestor.ingest(message('sensors/temp-001/data', reading));
+
+    expect(result).toEqual({ status: 'duplicate', sensor_id: 'temp-001' });
+    expect(mockSqsClient.send).not.toHaveBeenCalled();
+  });
+
+  it('should throw other failures so the invocation is retried', async () => {
+    mockDocClient.send.mockRejectedValue(Object.assign(new Error('Rate exceeded'), {
+      name: 'ProvisionedThroughputExceededException'
+    }));
+
+    await expect(mqttIngestor.ingest(message('sensors/temp-001/data', reading))).rejects.toThrow('Rate exceeded');
+    expect(mockSqsClient.send).not.toHaveBeenCalled();
+  });
+
+  describe('with an idempotency store', () => {
+    let idempotencyStore: IdempotencyStore;
+
+    beforeEach(() => {
+      idempotencyStore = new IdempotencyStore({ docClient: mockDocClient, tableName: 'test-idempotency', windowSeconds: 86400 });
+      mqttIngestor = new MqttIngestor({
+        ingestService,
+        sqsClient: mockSqsClient,
+        errorQueueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/mqtt-errors',
+        idempotencyStore
+      });
+    });
+
+    it('should claim the message id per sensor and complete it once stored', async () => {
+      const claim = jest.spyOn(idempotencyStore, 'claim').mockResolvedValue({ status: 'claimed' });
+      const complete = jest.spyOn(idempotencyStore, 'complete').mockResolvedValue();
+
+      await mqttIngestor.ingest(message('sensors/temp-001/data', { ...reading, message_id: 'm-1' }));
+
+      expect(claim.mock.calls[0][0]).toBe('mqtt#temp-001#m-1');
+      expect(complete.mock.calls[0][0]).toBe('mqtt#temp-001#m-1');
+      expect(storedItems()).toHaveLength(1);
+    });
+
+    it('should skip a message id that was already ingested', async () => {
+      jest.spyOn(idempotencyStore, 'claim').mockResolvedValue({ status: 'completed', response: { statusCode: 201, body: '{}' } });
+
+      const result = await mqttIngestor.ingest(message('sensors/temp-001/data', { ...reading, message_id: 'm-1' }));
+
+      expect(result.status).toBe('duplicate');
+      expect(storedItems()).toHaveLength(0);
+    });
+
+    it('should release the claim when storing fails', async () => {
+      jest.spyOn(idempotencyStore, 'claim').mockResolvedValue({ status: 'claimed' });
+      const release = jest.spyOn(idempotencyStore, 'release').mockResolvedValue();
+      mockDocClient.send.mockRejectedValue(new Error('Service unavailable'));
+
+      await expect(mqttIngestor.ingest(message('sensors/temp-001/data', { ...reading, message_id: 'm-1' }))).rejects.toThrow();
+      expect(release).toHaveBeenCalledWith('mqtt#temp-001#m-1');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { Logger, Metrics, getCorrelationId, getLogContext, withLogContext } from '../../lambda/shared/observability';
+
+describe('Observability', () => {
+  let logSpy: jest.SpyInstance;
+
+  const logged = (spy: jest.SpyInstance = logSpy) => spy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Logger', () => {
+    it('should write one JSON object per line with the context fields', () => {
+      withLogContext({ correlation_id: 'req-1' }, () => {
+        new Logger().info('Stored sensor event', { sensor_id: 'temp-001' });
+      });
+
+      expect(logged()).toEqual([expect.objectContaining({
+        level: 'info',
+        message: 'Stored sensor event',
+        correlation_id: 'req-1',
+        sensor_id: 'temp-001'
+      })]);
+    });
+
+    it('should keep the context of concurrent callbacks apart', async () => {
+      const logger = new Logger();
+      const handle = (correlation_id: string, delayMs: number) => withLogContext({ correlation_id }, async () => {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        logger.info('Processed record');
+      });
+
+      await Promise.all([handle('first', 20), handle('second', 0)]);
+
+      expect(logged().map(line => line.correlation_id)).toEqual(['second', 'first']);
+      expect(getLogContext()).toEqual({});
+    });
+
+    it('should serialize errors and skip lines below the level', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const logger = new Logger('warn');
+
+      logger.info('Not written');
+      logger.error('Error processing record', { error: new Error('Throttled') });
+
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(logged(errorSpy)[0].error).toMatchObject({ name: 'Error', message: 'Throttled' });
+    });
+  });
+
+  describe('getCorrelationId', () => {
+    it('should prefer a usable X-Correlation-Id header over the request ID', () => {
+      expect(getCorrelationId({ 'x-correlation-id': 'client-42' }, 'api-req')).toBe('client-42');
+      expect(getCorrelationId({ 'X-Correlation-Id': 'not safe\n{}' }, 'api-req')).toBe('api-req');
+      expect(getCorrelationId(null)).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('Metrics', () => {
+    it('should write an EMF document per dimension set', () => {
+      const metrics = new Metrics({ dimensions: { Environment: 'test' } });
+
+      metrics.count('ReadingsIngested', 1, { SensorType: 'temperature' });
+      metrics.count('ReadingsIngested', 2, { SensorType: 'temperature' });
+      metrics.count('ValidationRejects');
+      metrics.duration('AggregationLatency', 120);
+      metrics.duration('AggregationLatency', 80);
+      metrics.flush();
+
+      const documents = logged();
+      expect(documents).toHaveLength(2);
+      expect(documents[0]).toMatchObject({
+        _aws: {
+          CloudWatchMetrics: [{
+            Namespace: 'IoTSensorAggregator',
+            Dimensions: [['Environment', 'SensorType']],
+            Metrics: [{ Name: 'ReadingsIngested', Unit: 'Count' }]
+          }]
+        },
+        Environment: 'test',
+        SensorType: 'temperature',
+        ReadingsIngested: 3
+      });
+      expect(documents[1]).toMatchObject({
+        _aws: { CloudWatchMetrics: [{ Dimensions: [['Environment']] }] },
+        ValidationRejects: 1,
+        AggregationLatency: [120, 80]
+      });
+
+      metrics.flush();
+      expect(logSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should split more than 100 values of a metric across documents', () => {
+      const metrics = new Metrics();
+      for (let i = 0; i < 150; i++) {
+        metrics.duration('AggregationLatency', i);
+      }
+      metrics.flush();
+
+      expect(logged().map(document => document.AggregationLatency.length)).toEqual([100, 50]);
+    });
+  });
+});
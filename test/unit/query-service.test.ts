@@ -0,0 +1,491 @@
+import { QueryService } from '../../lambda/query/service';
+import { Resolution } from '../../lambda/shared/buckets';
+import { emptySketch, getSketchBin, mergeSketches } from '../../lambda/shared/statistics';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+describe('QueryService', () => {
+  let queryService: QueryService;
+  const mockConfig = {
+    docClient: mockDocClient,
+    secretsClient: mockSecretsClient,
+    aggregatesTableName: 'test-aggregates',
+    eventsTableName: 'test-events',
+    anomaliesTableName: 'test-anomalies',
+    groupAggregatesTableName: 'test-groups',
+    secretArn: 'test-secret-arn',
+    environment: 'test',
+    resolutions: ['minute', 'hour', 'day'] as Resolution[]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryService = new QueryService(mockConfig);
+  });
+
+  describe('getAggregates', () => {
+    const aggregateRow = {
+      sensor_id: 'sensor-123',
+      hour_bucket: 'hour#2023-07-13T10:00:00',
+      resolution: 'hour',
+      bucket_start: '2023-07-13T10:00:00.000Z',
+      sum: 102,
+      min: 20,
+      max: 30,
+      count: 4,
+      sensor_type: 'temperature',
+      location: 'lab-1',
+      last_updated: '2023-07-13T10:59:00.000Z'
+    };
+
+    it('should query buckets with a key condition', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [aggregateRow] });
+
+      const result = await queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-07-13T10:15:00.000Z',
+        to: '2023-07-13T12:30:00.000Z',
+        resolution: 'hour'
+      });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-aggregates');
+      expect(input.KeyConditionExpression).toBe('sensor_id = :sensor_id AND hour_bucket BETWEEN :from AND :to');
+      expect(input.ExpressionAttributeValues).toEqual({
+        ':sensor_id': 'sensor-123',
+        ':from': 'hour#2023-07-13T10:00:00',
+        ':to': 'hour#2023-07-13T12:00:00'
+      });
+      expect(result.resolution).toBe('hour');
+      expect(result.items).toEqual([{
+        bucket: '2023-07-13T10:00:00',
+        bucket_start: '2023-07-13T10:00:00.000Z',
+        avg: 25.5,
+        min: 20,
+        max: 30,
+        count: 4,
+        variance: null,
+        stddev: null,
+        p50: null,
+        p95: null,
+        p99: null,
+        sensor_type: 'temperature',
+        location: 'lab-1',
+        last_updated: '2023-07-13T10:59:00.000Z'
+      }]);
+      expect(result.next_cursor).toBeUndefined();
+    });
+
+    it('should leave out rows without readings', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [{ ...aggregateRow, hour_bucket: 'hour#2023-07-13T09:00:00', count: 0, sum: 0 }, aggregateRow, { sensor_id: 'sensor-123', hour_bucket: 'hour#2023-07-13T11:00:00', min: 21 }]
+      });
+
+      const result = await queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-07-13T09:00:00.000Z',
+        to: '2023-07-13T12:00:00.000Z',
+        resolution: 'hour'
+      });
+
+      expect(result.items.map(item => item.bucket)).toEqual(['2023-07-13T10:00:00']);
+    });
+
+    it('should query the series of a metric', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [{ ...aggregateRow, sensor_id: 'env-1#humidity', metric: 'humidity' }] });
+
+      const result = await queryService.getAggregates({
+        sensor_id: 'env-1',
+        metric: 'humidity',
+        from: '2023-07-13T10:15:00.000Z',
+        to: '2023-07-13T12:30:00.000Z',
+        resolution: 'hour'
+      });
+
+      expect(mockDocClient.send.mock.calls[0][0].input.ExpressionAttributeValues[':sensor_id']).toBe('env-1#humidity');
+      expect(result).toMatchObject({ sensor_id: 'env-1', metric: 'humidity' });
+      expect(result.items).toHaveLength(1);
+    });
+
+    it('should pick a resolution suited to the requested range', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      const live = await queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-07-13T10:00:00.000Z',
+        to: '2023-07-13T12:00:00.000Z'
+      });
+      const longRange = await queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-01-01T00:00:00.000Z',
+        to: '2023-07-01T00:00:00.000Z'
+      });
+
+      expect(live.resolution).toBe('minute');
+      expect(longRange.resolution).toBe('day');
+      expect(mockDocClient.send.mock.calls[1][0].input.ExpressionAttributeValues[':from']).toBe('day#2023-01-01');
+    });
+
+    it('should reject a resolution that is finer than any configured one', async () => {
+      const hourly = new QueryService({ ...mockConfig, resolutions: ['hour', 'day'] });
+
+      await expect(hourly.getAggregates({ sensor_id: 'sensor-123', resolution: 'minute' })).rejects.toThrow("'resolution'");
+      await expect(hourly.getAggregates({ sensor_id: 'sensor-123', resolution: 'week' })).rejects.toThrow("'resolution'");
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should report spread and percentiles for rows that track them', async () => {
+      // Readings 20, 22, 24, 36 with shift 20
+      const sketch = [20, 22, 24, 36].map(value => getSketchBin(value)).reduce((current, bin) => (
+        bin.store === 'zero'
+          ? current
+          : mergeSketches(current, { ...emptySketch(), [bin.store]: { [bin.index]: 1 } })
+      ), emptySketch());
+      mockDocClient.send.mockResolvedValue({
+        Items: [{ ...aggregateRow, sum: 102, shift: 20, sum_dev: 22, sum_sq_dev: 276, sketch }]
+      });
+
+      const result = await queryService.getAggregates({ sensor_id: 'sensor-123', resolution: 'hour' });
+
+      const bucket = result.items[0];
+      expect(bucket.variance).toBeCloseTo(38.75);
+      expect(bucket.stddev).toBeCloseTo(Math.sqrt(38.75));
+      expect(Math.abs(bucket.p50! - 22) / 22).toBeLessThanOrEqual(0.01);
+      expect(Math.abs(bucket.p99! - 36) / 36).toBeLessThanOrEqual(0.01);
+    });
+
+    it('should roll finer rows up to a resolution that is not stored', async () => {
+      const dayRow = (day: string, values: number[]) => ({
+        sensor_id: 'sensor-123',
+        hour_bucket: `day#${day}`,
+        bucket_start: `${day}T00:00:00.000Z`,
+        sum: values.reduce((total, value) => total + value, 0),
+        count: values.length,
+        min: Math.min(...values),
+        max: Math.max(...values),
+        shift: values[0],
+        sum_dev: values.reduce((total, value) => total + value - values[0], 0),
+        sum_sq_dev: values.reduce((total, value) => total + (value - values[0]) ** 2, 0),
+        sketch: values.map(value => getSketchBin(value)).reduce((current, bin) => (
+          bin.store === 'zero' ? current : mergeSketches(current, { ...emptySketch(), [bin.store]: { [bin.index]: 1 } })
+        ), emptySketch()),
+        sensor_type: 'temperature',
+        location: 'lab-1',
+        last_updated: `${day}T12:00:00.000Z`
+      });
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          dayRow('2023-06-30', [15]),
+          dayRow('2023-07-01', [10, 12]),
+          dayRow('2023-07-02', [14, 30])
+        ]
+      });
+
+      const result = await queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-06-15T00:00:00.000Z',
+        to: '2023-07-13T00:00:00.000Z',
+        resolution: 'month'
+      });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.ExpressionAttributeValues[':from']).toBe('day#2023-06-01');
+      expect(input.ExpressionAttributeValues[':to']).toBe('day#2023-07-31');
+      expect(result.resolution).toBe('month');
+      expect(result.items.map(item => item.bucket)).toEqual(['2023-06', '2023-07']);
+
+      // July holds 10, 12, 14, 30: mean 16.5, population variance 62.75
+      const july = result.items[1];
+      expect(july).toMatchObject({ count: 4, min: 10, max: 30, avg: 16.5, bucket_start: '2023-07-01T00:00:00.000Z' });
+      expect(july.variance).toBeCloseTo(62.75);
+      expect(Math.abs(july.p99! - 30) / 30).toBeLessThanOrEqual(0.01);
+      expect(july.last_updated).toBe('2023-07-02T12:00:00.000Z');
+    });
+
+    it('should page rolled-up buckets on whole bucket boundaries', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          { ...aggregateRow, hour_bucket: 'day#2023-06-30', bucket_start: '2023-06-30T00:00:00.000Z' },
+          { ...aggregateRow, hour_bucket: 'day#2023-07-01', bucket_start: '2023-07-01T00:00:00.000Z' }
+        ]
+      });
+
+      const result = await queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-06-15T00:00:00.000Z',
+        to: '2023-07-13T00:00:00.000Z',
+        resolution: 'month',
+        limit: 1
+      });
+
+      expect(result.items).toHaveLength(1);
+      expect(queryService.decodeCursor(result.next_cursor!, 'sensor-123')).toEqual({
+        sensor_id: 'sensor-123',
+        hour_bucket: 'day#2023-06-30'
+      });
+    });
+
+    it('should round-trip the pagination cursor', async () => {
+      const lastKey = { sensor_id: 'sensor-123', hour_bucket: 'hour#2023-07-13T10:00:00' };
+      mockDocClient.send.mockResolvedValueOnce({ Items: [aggregateRow], LastEvaluatedKey: lastKey });
+      mockDocClient.send.mockResolvedValueOnce({ Items: [] });
+
+      const page1 = await queryService.getAggregates({ sensor_id: 'sensor-123', limit: 1 });
+      await queryService.getAggregates({ sensor_id: 'sensor-123', cursor: page1.next_cursor });
+
+      expect(page1.next_cursor).toBeDefined();
+      expect(mockDocClient.send.mock.calls[1][0].input.ExclusiveStartKey).toEqual(lastKey);
+    });
+
+    it('should reject a cursor issued for another sensor', async () => {
+      const cursor = queryService.encodeCursor({ sensor_id: 'sensor-999', hour_bucket: 'hour#2023-07-13T10:00:00' });
+
+      await expect(queryService.getAggregates({ sensor_id: 'sensor-123', cursor })).rejects.toThrow('Invalid query parameters');
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid parameters', async () => {
+      await expect(queryService.getAggregates({ sensor_id: 'sensor-123', from: 'yesterday' })).rejects.toThrow("'from' must be an ISO 8601 timestamp");
+      await expect(queryService.getAggregates({
+        sensor_id: 'sensor-123',
+        from: '2023-07-14T00:00:00.000Z',
+        to: '2023-07-13T00:00:00.000Z'
+      })).rejects.toThrow("'from' must not be after 'to'");
+      await expect(queryService.getAggregates({ sensor_id: 'sensor-123', limit: 0 })).rejects.toThrow("'limit'");
+    });
+  });
+
+  describe('getGroupAggregates', () => {
+    const groupRow = (hour_bucket: string, bucket_start: string, sensor_count: number, values: number[]) => ({
+      group_key: 'location_type#lab-1#temperature',
+      hour_bucket,
+      bucket_start,
+      sum: values.reduce((total, value) => total + value, 0),
+      count: values.length,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      sensor_count,
+      unit: 'celsius',
+      last_updated: bucket_start
+    });
+
+    it('should query a type within a location with sensor counts', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          groupRow('hour#2023-07-13T10:00:00', '2023-07-13T10:00:00.000Z', 2, [20, 22, 27]),
+          { group_key: 'location_type#lab-1#temperature', hour_bucket: 'hour#2023-07-13T11:00:00', count: 0, sensor_count: 0 }
+        ]
+      });
+
+      const result = await queryService.getGroupAggregates({
+        location: 'lab-1',
+        type: 'temperature',
+        from: '2023-07-13T10:00:00.000Z',
+        to: '2023-07-13T12:00:00.000Z',
+        resolution: 'hour'
+      });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-groups');
+      expect(input.KeyConditionExpression).toBe('group_key = :group_key AND hour_bucket BETWEEN :from AND :to');
+      expect(input.ExpressionAttributeValues[':group_key']).toBe('location_type#lab-1#temperature');
+      expect(result).toMatchObject({ location: 'lab-1', type: 'temperature', resolution: 'hour' });
+      expect(result.items).toEqual([{
+        bucket: '2023-07-13T10:00:00',
+        bucket_start: '2023-07-13T10:00:00.000Z',
+        avg: 23,
+        min: 20,
+        max: 27,
+        count: 3,
+        sensor_count: 2,
+        unit: 'celsius',
+        last_updated: '2023-07-13T10:00:00.000Z'
+      }]);
+    });
+
+    it('should key location and type groups on their own', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      await queryService.getGroupAggregates({ location: 'lab-1', resolution: 'hour' });
+      await queryService.getGroupAggregates({ type: 'humidity', resolution: 'hour' });
+
+      expect(mockDocClient.send.mock.calls[0][0].input.ExpressionAttributeValues[':group_key']).toBe('location#lab-1');
+      expect(mockDocClient.send.mock.calls[1][0].input.ExpressionAttributeValues[':group_key']).toBe('type#humidity');
+    });
+
+    it('should count each sensor once when rolling up', async () => {
+      const member = (day: string, sensor_id: string, count: number) => ({
+        group_key: 'member#location_type#lab-1#temperature',
+        hour_bucket: `day#${day}#${sensor_id}`,
+        sensor_id,
+        bucket_start: `${day}T00:00:00.000Z`,
+        count
+      });
+      mockDocClient.send
+        .mockResolvedValueOnce({
+          Items: [
+            groupRow('day#2023-07-01', '2023-07-01T00:00:00.000Z', 1, [10]),
+            groupRow('day#2023-07-02', '2023-07-02T00:00:00.000Z', 2, [14, 30])
+          ]
+        })
+        .mockResolvedValueOnce({
+          Items: [
+            member('2023-07-01', 'sensor-1', 1),
+            member('2023-07-01', 'sensor-3', 0),
+            member('2023-07-02', 'sensor-1', 1),
+            member('2023-07-02', 'sensor-2', 1)
+          ]
+        });
+
+      const result = await queryService.getGroupAggregates({
+        location: 'lab-1',
+        type: 'temperature',
+        from: '2023-07-01T00:00:00.000Z',
+        to: '2023-07-31T00:00:00.000Z',
+        resolution: 'month'
+      });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0]).toMatchObject({ bucket: '2023-07', count: 3, avg: 18, min: 10, max: 30, sensor_count: 2 });
+      expect(mockDocClient.send.mock.calls[1][0].input.ExpressionAttributeValues).toEqual({
+        ':group_key': 'member#location_type#lab-1#temperature',
+        ':from': 'day#2023-07-01#',
+        ':to': 'day#2023-07-31#\uffff'
+      });
+    });
+
+    it('should page with cursors bound to the group', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [],
+        LastEvaluatedKey: { group_key: 'location#lab-1', hour_bucket: 'hour#2023-07-13T10:00:00' }
+      });
+
+      const page = await queryService.getGroupAggregates({ location: 'lab-1', resolution: 'hour', limit: 1 });
+
+      await expect(queryService.getGroupAggregates({ type: 'temperature', cursor: page.next_cursor })).rejects.toThrow("'cursor'");
+    });
+
+    it('should require a location or a type', async () => {
+      await expect(queryService.getGroupAggregates({})).rejects.toThrow("'location' or 'type' is required");
+      await expect(queryService.getGroupAggregates({ location: ' ' })).rejects.toThrow('Invalid query parameters');
+    });
+  });
+
+  describe('getEvents', () => {
+    it('should query newest first within a timestamp range by default', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      const result = await queryService.getEvents({
+        sensor_id: 'sensor-123',
+        from: '2023-07-13T10:00:00Z',
+        to: '2023-07-13T11:00:00Z'
+      });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-events');
+      expect(input.KeyConditionExpression).toBe('sensor_id = :sensor_id AND #ts BETWEEN :from AND :to');
+      expect(input.ExpressionAttributeValues[':from']).toBe('2023-07-13T10:00:00.000Z');
+      expect(input.ScanIndexForward).toBe(false);
+      expect(input.FilterExpression).toBeUndefined();
+      expect(result.order).toBe('desc');
+    });
+
+    it('should support oldest-first order, an open range and a value filter', async () => {
+      mockDocClient.send.mockResolvedValue({ Items: [] });
+
+      await queryService.getEvents({
+        sensor_id: 'sensor-123',
+        from: '2023-07-13T10:00:00.000Z',
+        order: 'asc',
+        min_value: -5,
+        max_value: 40
+      });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.KeyConditionExpression).toBe('sensor_id = :sensor_id AND #ts >= :from');
+      expect(input.FilterExpression).toBe('(#value >= :min_value AND #value <= :max_value) OR attribute_exists(#readings)');
+      expect(input.ExpressionAttributeNames).toEqual({ '#ts': 'timestamp', '#value': 'value', '#readings': 'readings' });
+      expect(input.ScanIndexForward).toBe(true);
+    });
+
+    it('should return one item per metric of multi-metric events and filter their values', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [
+          {
+            sensor_id: 'env-001',
+            timestamp: '2023-07-13T10:00:00.000Z',
+            location: 'lab',
+            readings: {
+              temperature: { value: 21.5, unit: 'celsius' },
+              humidity: { value: 48, unit: '%' }
+            }
+          },
+          { sensor_id: 'env-001', timestamp: '2023-07-13T09:00:00.000Z', type: 'temperature', value: 22, location: 'lab' }
+        ]
+      });
+
+      const result = await queryService.getEvents({ sensor_id: 'env-001', min_value: 20, max_value: 30 });
+
+      expect(result.items).toEqual([
+        { sensor_id: 'env-001', timestamp: '2023-07-13T10:00:00.000Z', location: 'lab', type: 'temperature', metric: 'temperature', value: 21.5, unit: 'celsius' },
+        { sensor_id: 'env-001', timestamp: '2023-07-13T09:00:00.000Z', type: 'temperature', value: 22, location: 'lab' }
+      ]);
+    });
+
+    it('should reject invalid order and value range', async () => {
+      await expect(queryService.getEvents({ sensor_id: 'sensor-123', order: 'newest' })).rejects.toThrow("'order'");
+      await expect(queryService.getEvents({ sensor_id: 'sensor-123', min_value: 10, max_value: 5 })).rejects.toThrow("'min_value'");
+      await expect(queryService.getEvents({ sensor_id: 'sensor-123', min_value: NaN })).rejects.toThrow("'min_value' must be a number");
+    });
+  });
+
+  describe('getAnomalies', () => {
+    it('should query the anomalies table newest first with a score filter', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [{ sensor_id: 'sensor-123', timestamp: '2023-07-13T10:42:00.000Z', value: 41, score: 6.2 }],
+        LastEvaluatedKey: { sensor_id: 'sensor-123', timestamp: '2023-07-13T10:42:00.000Z' }
+      });
+
+      const result = await queryService.getAnomalies({
+        sensor_id: 'sensor-123',
+        to: '2023-07-13T11:00:00Z',
+        min_score: 5
+      });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-anomalies');
+      expect(input.KeyConditionExpression).toBe('sensor_id = :sensor_id AND #ts <= :to');
+      expect(input.FilterExpression).toBe('score >= :min_score');
+      expect(input.ExpressionAttributeValues[':min_score']).toBe(5);
+      expect(input.ScanIndexForward).toBe(false);
+      expect(result.items).toHaveLength(1);
+      expect(result.next_cursor).toBeDefined();
+    });
+
+    it('should query the anomalies of a metric', async () => {
+      mockDocClient.send.mockResolvedValue({
+        Items: [{ sensor_id: 'env-1#co2', timestamp: '2023-07-13T10:42:00.000Z', value: 2400, score: 5.1, type: 'co2' }]
+      });
+
+      const result = await queryService.getAnomalies({ sensor_id: 'env-1', metric: 'co2' });
+
+      expect(mockDocClient.send.mock.calls[0][0].input.ExpressionAttributeValues[':sensor_id']).toBe('env-1#co2');
+      expect(result).toMatchObject({ sensor_id: 'env-1', metric: 'co2' });
+      expect(result.items).toEqual([expect.objectContaining({ sensor_id: 'env-1', metric: 'co2', value: 2400 })]);
+    });
+
+    it('should reject invalid parameters', async () => {
+      await expect(queryService.getAnomalies({ sensor_id: '' })).rejects.toThrow("'sensor_id' is required");
+      await expect(queryService.getAnomalies({ sensor_id: 'env-1', metric: '' })).rejects.toThrow("'metric' must not be empty");
+      await expect(queryService.getAnomalies({ sensor_id: 'sensor-123', order: 'newest' })).rejects.toThrow("'order'");
+      await expect(queryService.getAnomalies({ sensor_id: 'sensor-123', min_score: NaN })).rejects.toThrow("'min_score' must be a number");
+    });
+  });
+});
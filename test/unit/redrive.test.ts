@@ -0,0 +1,259 @@
+import { DynamoDBRecord } from 'aws-lambda';
+import { GetCommand } from '@aws-sdk/lib-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { DlqRedriveService, createFailedRecordMessage } from '../../lambda/aggregate/redrive';
+import { AggregateService } from '../../lambda/aggregate/service';
+import { RecordMarkers } from '../../lambda/aggregate/markers';
+import { InMemoryDocumentStore } from '../../lambda/shared/memory-store';
+import { getGroupKey } from '../../lambda/shared/groups';
+import { StaticSecretStore } from '../../lambda/shared/storage';
+
+// Simple mocks for testing
+const mockSqsClient = {
+  send: jest.fn()
+} as any;
+
+const mockStreamsClient = {
+  send: jest.fn()
+} as any;
+
+const mockAggregateService = {
+  processRecord: jest.fn()
+} as any;
+
+const streamRecord = (sequenceNumber: string, sensorId = 'sensor-123') => ({
+  eventID: `event-${sequenceNumber}`,
+  eventName: 'INSERT',
+  dynamodb: {
+    SequenceNumber: sequenceNumber,
+    Keys: {
+      sensor_id: { S: sensorId },
+      timestamp: { S: '2023-07-13T10:42:00.000Z' }
+    }
+  }
+});
+
+const dlqMessage = (messageId: string) => ({
+  MessageId: messageId,
+  ReceiptHandle: `receipt-${messageId}`,
+  Body: JSON.stringify({
+    requestContext: { condition: 'RetryAttemptsExhausted' },
+    DDBStreamBatchInfo: {
+      shardId: 'shardId-0001',
+      startSequenceNumber: '100',
+      endSequenceNumber: '200',
+      streamArn: 'arn:aws:dynamodb:us-east-1:123456789012:table/SensorEvents/stream/2023',
+      batchSize: 2
+    }
+  })
+});
+
+describe('DlqRedriveService', () => {
+  let redriveService: DlqRedriveService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAggregateService.processRecord.mockResolvedValue(undefined);
+    mockSqsClient.send.mockImplementation((command: any) => {
+      if (command.constructor.name === 'ReceiveMessageCommand') {
+        return Promise.resolve({ Messages: [] });
+      }
+      return Promise.resolve({});
+    });
+    mockStreamsClient.send.mockImplementation((command: any) => {
+      if (command.constructor.name === 'GetShardIteratorCommand') {
+        return Promise.resolve({ ShardIterator: 'iterator-1' });
+      }
+      return Promise.resolve({
+        Records: [streamRecord('100'), streamRecord('200', 'sensor-456'), streamRecord('300')],
+        NextShardIterator: 'iterator-2'
+      });
+    });
+
+    redriveService = new DlqRedriveService({
+      sqsClient: mockSqsClient,
+      streamsClient: mockStreamsClient,
+      aggregateService: mockAggregateService,
+      queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/aggregate-dlq'
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseBatchInfo', () => {
+    it('should read the stream batch info from the message body', () => {
+      const batchInfo = redriveService.parseBatchInfo(dlqMessage('m-1'));
+
+      expect(batchInfo.shardId).toBe('shardId-0001');
+      expect(batchInfo.startSequenceNumber).toBe('100');
+      expect(batchInfo.endSequenceNumber).toBe('200');
+    });
+
+    it('should reject messages without stream batch info', () => {
+      expect(() => redriveService.parseBatchInfo({ MessageId: 'm-1', Body: '{}' }))
+        .toThrow('does not contain DDBStreamBatchInfo');
+    });
+  });
+
+  describe('fetchRecords', () => {
+    it('should read records from the start sequence number up to the end sequence number', async () => {
+      const records = await redriveService.fetchRecords(redriveService.parseBatchInfo(dlqMessage('m-1')));
+
+      expect(records.map(record => record.dynamodb?.SequenceNumber)).toEqual(['100', '200']);
+      expect(mockStreamsClient.send.mock.calls[0][0].input).toMatchObject({
+        ShardId: 'shardId-0001',
+        ShardIteratorType: 'AT_SEQUENCE_NUMBER',
+        SequenceNumber: '100'
+      });
+    });
+  });
+
+  describe('redrive', () => {
+    it('should reprocess failed records and delete the message', async () => {
+      mockSqsClient.send.mockImplementationOnce(() => Promise.resolve({ Messages: [dlqMessage('m-1')] }));
+
+      const result = await redriveService.redrive();
+
+      expect(mockAggregateService.processRecord).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ messagesProcessed: 1, messagesFailed: 0, recordsRedriven: 2 });
+      expect(result.events.map(event => event.sensor_id)).toEqual(['sensor-123', 'sensor-456']);
+
+      const deleteCall = mockSqsClient.send.mock.calls.find(
+        (call: any[]) => call[0].constructor.name === 'DeleteMessageCommand'
+      );
+      expect(deleteCall[0].input.ReceiptHandle).toBe('receipt-m-1');
+    });
+
+    it('should also score redriven records when an anomaly detector is configured', async () => {
+      const mockAnomalyDetector = { processRecord: jest.fn().mockResolvedValue(undefined) } as any;
+      redriveService = new DlqRedriveService({
+        sqsClient: mockSqsClient,
+        streamsClient: mockStreamsClient,
+        aggregateService: mockAggregateService,
+        anomalyDetector: mockAnomalyDetector,
+        queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/aggregate-dlq'
+      });
+      mockSqsClient.send.mockImplementationOnce(() => Promise.resolve({ Messages: [dlqMessage('m-1')] }));
+
+      await redriveService.redrive();
+
+      expect(mockAnomalyDetector.processRecord).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only list failed events on a dry run', async () => {
+      mockSqsClient.send.mockImplementationOnce(() => Promise.resolve({ Messages: [dlqMessage('m-1')] }));
+
+      const result = await redriveService.redrive(100, true);
+
+      expect(mockAggregateService.processRecord).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ messagesProcessed: 1, recordsRedriven: 0 });
+      expect(result.events).toHaveLength(2);
+      expect(mockSqsClient.send.mock.calls.some(
+        (call: any[]) => call[0].constructor.name === 'DeleteMessageCommand'
+      )).toBe(false);
+    });
+
+    it('should replay the record of a message sent by the aggregate Lambda without reading the stream', async () => {
+      const record = streamRecord('150') as DynamoDBRecord;
+      mockSqsClient.send.mockImplementationOnce(() => Promise.resolve({
+        Messages: [{ MessageId: 'm-2', ReceiptHandle: 'receipt-m-2', Body: JSON.stringify(createFailedRecordMessage(record, 3, new Error('Throttled'))) }]
+      }));
+
+      const result = await redriveService.redrive();
+
+      expect(mockStreamsClient.send).not.toHaveBeenCalled();
+      expect(mockAggregateService.processRecord).toHaveBeenCalledWith(record);
+      expect(result).toMatchObject({ messagesProcessed: 1, recordsRedriven: 1 });
+      expect(result.events).toEqual([{
+        eventID: 'event-150',
+        eventName: 'INSERT',
+        sensor_id: 'sensor-123',
+        timestamp: '2023-07-13T10:42:00.000Z',
+        sequenceNumber: '150'
+      }]);
+    });
+
+    it('should keep the message when a record still fails', async () => {
+      mockSqsClient.send.mockImplementationOnce(() => Promise.resolve({ Messages: [dlqMessage('m-1')] }));
+      mockAggregateService.processRecord.mockRejectedValueOnce(new Error('Throttled'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await redriveService.redrive();
+
+      expect(result).toMatchObject({ messagesProcessed: 0, messagesFailed: 1 });
+      expect(mockSqsClient.send.mock.calls.some(
+        (call: any[]) => call[0].constructor.name === 'DeleteMessageCommand'
+      )).toBe(false);
+    });
+  });
+
+  describe('with applied record markers', () => {
+    let store: InMemoryDocumentStore;
+
+    const insert = (eventID: string, sensor_id: string, value: number): DynamoDBRecord => ({
+      eventID,
+      eventName: 'INSERT',
+      dynamodb: {
+        Keys: marshall({ sensor_id, timestamp: '2023-07-13T10:42:00.000Z' }) as any,
+        NewImage: marshall({
+          sensor_id,
+          timestamp: '2023-07-13T10:42:00.000Z',
+          type: 'temperature',
+          value,
+          location: 'lab-1',
+          environment: 'test'
+        }) as any
+      }
+    });
+
+    const getCount = async (sensor_id: string) => (await store.send(new GetCommand({
+      TableName: 'aggregates',
+      Key: { sensor_id, hour_bucket: 'hour#2023-07-13T10:00:00' }
+    }))).Item?.count;
+
+    beforeEach(() => {
+      store = new InMemoryDocumentStore([
+        { tableName: 'events', partitionKey: 'sensor_id', sortKey: 'timestamp' },
+        { tableName: 'aggregates', partitionKey: 'sensor_id', sortKey: 'hour_bucket' },
+        { tableName: 'groups', partitionKey: 'group_key', sortKey: 'hour_bucket' },
+        { tableName: 'applied', partitionKey: 'record_id' }
+      ]);
+      redriveService = new DlqRedriveService({
+        sqsClient: mockSqsClient,
+        streamsClient: mockStreamsClient,
+        aggregateService: new AggregateService({
+          docClient: store,
+          secretsClient: new StaticSecretStore({ secret: {} }),
+          tableName: 'aggregates',
+          eventsTableName: 'events',
+          secretArn: 'secret',
+          environment: 'test',
+          groupsTableName: 'groups',
+          markers: new RecordMarkers({ docClient: store, tableName: 'applied' })
+        }),
+        queueUrl: 'https://sqs.us-east-1.amazonaws.com/123456789012/aggregate-dlq'
+      });
+    });
+
+    it('should only apply the records of a batch that were not applied before', async () => {
+      const applied = insert('event-100', 'sensor-123', 21);
+      const failed = insert('event-200', 'sensor-456', 22);
+      await redriveService.redriveMessage({ MessageId: 'm-0', Body: JSON.stringify(createFailedRecordMessage(applied, 3, 'Throttled')) });
+      mockStreamsClient.send.mockImplementation((command: any) => Promise.resolve(
+        command.constructor.name === 'GetShardIteratorCommand'
+          ? { ShardIterator: 'iterator-1' }
+          : { Records: [{ ...applied, dynamodb: { ...applied.dynamodb, SequenceNumber: '100' } }, { ...failed, dynamodb: { ...failed.dynamodb, SequenceNumber: '200' } }] }
+      ));
+
+      await redriveService.redriveMessage(dlqMessage('m-1'));
+      await redriveService.redriveMessage(dlqMessage('m-1'));
+
+      expect(await getCount('sensor-123')).toBe(1);
+      expect(await getCount('sensor-456')).toBe(1);
+      expect((await store.send(new GetCommand({ TableName: 'groups', Key: { group_key: getGroupKey('lab-1'), hour_bucket: 'hour#2023-07-13T10:00:00' } }))).Item)
+        .toMatchObject({ count: 2, sensor_count: 2 });
+    });
+  });
+});
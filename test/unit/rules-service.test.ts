@@ -0,0 +1,127 @@
+import { RulesService } from '../../lambda/rules/service';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+describe('RulesService', () => {
+  let rulesService: RulesService;
+  const mockConfig = {
+    docClient: mockDocClient,
+    secretsClient: mockSecretsClient,
+    tableName: 'test-alert-rules',
+    secretArn: 'test-secret-arn',
+    environment: 'test'
+  };
+
+  const freezerRule = {
+    name: 'Freezer too warm',
+    type: 'freezer_temperature',
+    operator: '>',
+    threshold: -15,
+    duration_seconds: 300,
+    hysteresis: 1,
+    cooldown_seconds: 900
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    mockDocClient.send.mockResolvedValue({});
+    rulesService = new RulesService(mockConfig);
+  });
+
+  describe('validateRule', () => {
+    it('should accept a rule with exactly one scope', () => {
+      expect(rulesService.validateRule(freezerRule)).toBe(true);
+      expect(rulesService.validateRule({ name: 'x', sensor_id: 's-1', operator: '<=', threshold: 0 })).toBe(true);
+    });
+
+    it('should reject missing, multiple or malformed fields', () => {
+      expect(rulesService.validateRule({ ...freezerRule, type: undefined })).toBe(false);
+      expect(rulesService.validateRule({ ...freezerRule, location: 'lab-1' })).toBe(false);
+      expect(rulesService.validateRule({ ...freezerRule, operator: '!=' })).toBe(false);
+      expect(rulesService.validateRule({ ...freezerRule, threshold: '-15' })).toBe(false);
+      expect(rulesService.validateRule({ ...freezerRule, duration_seconds: -1 })).toBe(false);
+      expect(rulesService.validateRule({ ...freezerRule, name: ' ' })).toBe(false);
+      expect(rulesService.validateRule([freezerRule])).toBe(false);
+    });
+  });
+
+  describe('createRule', () => {
+    it('should store the rule with its scope key and defaults', async () => {
+      const rule = await rulesService.createRule({ name: 'Lab humidity', location: 'lab-1', operator: '>=', threshold: 70 });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-alert-rules');
+      expect(input.ConditionExpression).toBe('attribute_not_exists(rule_id)');
+      expect(input.Item).toEqual(rule);
+      expect(rule).toMatchObject({
+        scope_type: 'location',
+        scope_value: 'lab-1',
+        scope_key: 'location#lab-1',
+        duration_seconds: 0,
+        hysteresis: 0,
+        cooldown_seconds: 0,
+        enabled: true
+      });
+      expect(rule.rule_id).toBeDefined();
+    });
+
+    it('should reject an invalid rule', async () => {
+      await expect(rulesService.createRule({ name: 'x' })).rejects.toThrow('Invalid rule');
+      expect(mockDocClient.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRule', () => {
+    it('should keep the id and creation time', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: { rule_id: 'rule-1', created_at: '2023-07-01T00:00:00.000Z' }
+      });
+
+      const rule = await rulesService.updateRule('rule-1', { ...freezerRule, threshold: -18 });
+
+      expect(rule).toMatchObject({ rule_id: 'rule-1', created_at: '2023-07-01T00:00:00.000Z', threshold: -18 });
+      expect(mockDocClient.send.mock.calls[1][0].input.ConditionExpression).toBe('attribute_exists(rule_id)');
+    });
+
+    it('should report a missing rule', async () => {
+      mockDocClient.send.mockResolvedValueOnce({});
+
+      await expect(rulesService.updateRule('rule-404', freezerRule)).rejects.toThrow('Rule not found');
+    });
+  });
+
+  describe('deleteRule', () => {
+    it('should map a failed existence check to not found', async () => {
+      mockDocClient.send.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException'
+      }));
+
+      await expect(rulesService.deleteRule('rule-404')).rejects.toThrow('Rule not found: rule-404');
+    });
+  });
+
+  describe('listRules', () => {
+    it('should query the scope index when filtering by scope', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Items: [], LastEvaluatedKey: { rule_id: 'rule-1' } });
+
+      const result = await rulesService.listRules({ sensor_id: 'sensor-123' });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.IndexName).toBe('scope-index');
+      expect(input.ExpressionAttributeValues).toEqual({ ':scope_key': 'sensor_id#sensor-123' });
+      expect(result.next_cursor).toBeDefined();
+    });
+
+    it('should reject more than one scope filter', async () => {
+      await expect(rulesService.listRules({ type: 'temperature', location: 'lab-1' })).rejects.toThrow('Invalid rule query');
+    });
+  });
+});
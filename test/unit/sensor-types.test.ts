@@ -0,0 +1,41 @@
+import { isAllowedUnit, normalizeReading, normalizeUnitName } from '../../lambda/shared/sensor-types';
+
+describe('sensor type schemas', () => {
+  describe('normalizeReading', () => {
+    it('should convert to the canonical unit and keep the raw reading', () => {
+      const reading = normalizeReading('temperature', 77, 'fahrenheit');
+      expect(reading.value).toBeCloseTo(25);
+      expect(reading).toMatchObject({ unit: 'celsius', raw_value: 77, raw_unit: 'fahrenheit' });
+
+      expect(normalizeReading('pressure', 101.325, 'kPa').value).toBeCloseTo(1013.25);
+      expect(normalizeReading('temperature', 300, 'K').value).toBeCloseTo(26.85);
+    });
+
+    it('should treat a missing unit as the canonical unit', () => {
+      expect(normalizeReading('humidity', 45)).toEqual({ value: 45, unit: 'percent' });
+      expect(normalizeReading('humidity', 45, '%')).toEqual({ value: 45, unit: 'percent' });
+    });
+
+    it('should reject units of another type', () => {
+      expect(() => normalizeReading('temperature', 20, 'hpa')).toThrow("Invalid unit. 'hpa' is not a temperature unit");
+    });
+
+    it('should reject values outside the physical range', () => {
+      expect(() => normalizeReading('humidity', 250)).toThrow('Invalid value. 250 percent is outside the physical range of humidity');
+      expect(() => normalizeReading('temperature', -500, 'fahrenheit')).toThrow('Invalid value');
+    });
+
+    it('should pass readings of unknown types through', () => {
+      expect(normalizeReading('vibration', 3.2, 'mm/s')).toEqual({ value: 3.2, unit: 'mm/s' });
+      expect(normalizeReading('vibration', 3.2)).toEqual({ value: 3.2 });
+    });
+  });
+
+  it('should resolve unit aliases', () => {
+    expect(normalizeUnitName(' °F ')).toBe('fahrenheit');
+    expect(normalizeUnitName('mbar')).toBe('hpa');
+    expect(isAllowedUnit('pressure', 'psi')).toBe(true);
+    expect(isAllowedUnit('pressure', 'celsius')).toBe(false);
+    expect(isAllowedUnit('vibration', 'mm/s')).toBe(true);
+  });
+});
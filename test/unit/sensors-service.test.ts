@@ -0,0 +1,166 @@
+import { SensorsService } from '../../lambda/sensors/service';
+
+// Simple mock for testing
+const mockDocClient = {
+  send: jest.fn()
+} as any;
+
+const mockSecretsClient = {
+  send: jest.fn()
+} as any;
+
+describe('SensorsService', () => {
+  let sensorsService: SensorsService;
+  const mockConfig = {
+    docClient: mockDocClient,
+    secretsClient: mockSecretsClient,
+    tableName: 'test-sensors',
+    deviceKeysTableName: 'test-device-keys',
+    secretArn: 'test-secret-arn',
+    environment: 'test'
+  };
+
+  const freezerSensor = {
+    sensor_id: 'freezer-1',
+    type: 'freezer_temperature',
+    unit: 'celsius',
+    location: 'kitchen',
+    owner: 'facilities',
+    expected_min: -30,
+    expected_max: -10
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecretsClient.send.mockResolvedValue({ SecretString: '{}' });
+    mockDocClient.send.mockResolvedValue({});
+    sensorsService = new SensorsService(mockConfig);
+  });
+
+  describe('validateSensor', () => {
+    it('should accept a complete sensor definition', () => {
+      expect(sensorsService.validateSensor(freezerSensor)).toBe(true);
+      expect(sensorsService.validateSensor({ ...freezerSensor, expected_min: undefined, status: 'decommissioned' })).toBe(true);
+      expect(sensorsService.validateSensor({ ...freezerSensor, offline_after_seconds: 3600 })).toBe(true);
+    });
+
+    it('should reject missing or malformed fields', () => {
+      expect(sensorsService.validateSensor({ ...freezerSensor, unit: undefined })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, owner: ' ' })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, sensor_id: 'freezer-1#temperature' })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, sensor_id: 'status' })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, expected_min: 0 })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, expected_max: '10' })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, status: 'retired' })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, offline_after_seconds: 0 })).toBe(false);
+      expect(sensorsService.validateSensor({ ...freezerSensor, offline_after_seconds: 90.5 })).toBe(false);
+      expect(sensorsService.validateSensor([freezerSensor])).toBe(false);
+    });
+  });
+
+  describe('registerSensor', () => {
+    it('should store an active sensor once', async () => {
+      const sensor = await sensorsService.registerSensor(freezerSensor);
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.TableName).toBe('test-sensors');
+      expect(input.ConditionExpression).toBe('attribute_not_exists(sensor_id)');
+      expect(input.Item).toEqual(sensor);
+      expect(sensor).toMatchObject({ ...freezerSensor, status: 'active' });
+    });
+
+    it('should report an already registered sensor', async () => {
+      mockDocClient.send.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException'
+      }));
+
+      await expect(sensorsService.registerSensor(freezerSensor)).rejects.toThrow('Sensor already registered: freezer-1');
+    });
+  });
+
+  describe('updateSensor', () => {
+    it('should take the id from the path and keep the creation time', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: { ...freezerSensor, status: 'active', created_at: '2023-07-01T00:00:00.000Z' }
+      });
+
+      const { sensor_id, ...definition } = freezerSensor;
+      const sensor = await sensorsService.updateSensor(sensor_id, { ...definition, status: 'decommissioned' });
+
+      expect(sensor).toMatchObject({ sensor_id: 'freezer-1', status: 'decommissioned', created_at: '2023-07-01T00:00:00.000Z' });
+      expect(mockDocClient.send.mock.calls[1][0].input.ConditionExpression).toBe('attribute_exists(sensor_id)');
+    });
+
+    it('should keep the stored status when the update leaves it out', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Item: { ...freezerSensor, status: 'decommissioned', created_at: '2023-07-01T00:00:00.000Z' }
+      });
+
+      const { sensor_id, ...definition } = freezerSensor;
+      const sensor = await sensorsService.updateSensor(sensor_id, { ...definition, location: 'kitchen-2' });
+
+      expect(sensor).toMatchObject({ location: 'kitchen-2', status: 'decommissioned' });
+      expect(mockDocClient.send.mock.calls[1][0].input.Item.status).toBe('decommissioned');
+    });
+
+    it('should report a missing sensor', async () => {
+      await expect(sensorsService.updateSensor('sensor-404', freezerSensor)).rejects.toThrow('Sensor not found: sensor-404');
+    });
+  });
+
+  describe('listSensors', () => {
+    it('should filter by status and return a cursor', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Items: [], LastEvaluatedKey: { sensor_id: 'freezer-1' } });
+
+      const result = await sensorsService.listSensors({ status: 'active' });
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.FilterExpression).toBe('#status = :status');
+      expect(input.ExpressionAttributeValues).toEqual({ ':status': 'active' });
+      expect(result.next_cursor).toBeDefined();
+    });
+
+    it('should reject an unknown status filter', async () => {
+      await expect(sensorsService.listSensors({ status: 'retired' })).rejects.toThrow('Invalid sensor query');
+    });
+  });
+
+  describe('device keys', () => {
+    it('should issue a key with a secret for a registered sensor', async () => {
+      mockDocClient.send.mockResolvedValueOnce({ Item: { ...freezerSensor, status: 'active' } });
+
+      const key = await sensorsService.issueDeviceKey('freezer-1');
+
+      const input = mockDocClient.send.mock.calls[1][0].input;
+      expect(input.TableName).toBe('test-device-keys');
+      expect(input.ConditionExpression).toBe('attribute_not_exists(key_id)');
+      expect(key).toMatchObject({ sensor_id: 'freezer-1', status: 'active' });
+      expect(key.secret.length).toBeGreaterThanOrEqual(43);
+    });
+
+    it('should not issue keys for unknown sensors', async () => {
+      await expect(sensorsService.issueDeviceKey('sensor-404')).rejects.toThrow('Sensor not found');
+    });
+
+    it('should revoke a key of the given sensor without returning its secret', async () => {
+      mockDocClient.send.mockResolvedValueOnce({
+        Attributes: { key_id: 'key-1', sensor_id: 'freezer-1', secret: 's3cret', status: 'revoked', created_at: 'x', revoked_at: 'y' }
+      });
+
+      const key = await sensorsService.revokeDeviceKey('freezer-1', 'key-1');
+
+      const input = mockDocClient.send.mock.calls[0][0].input;
+      expect(input.ConditionExpression).toBe('sensor_id = :sensor_id');
+      expect(input.ExpressionAttributeValues[':sensor_id']).toBe('freezer-1');
+      expect(key).toEqual({ key_id: 'key-1', sensor_id: 'freezer-1', status: 'revoked', created_at: 'x', revoked_at: 'y' });
+    });
+
+    it('should report a key of another sensor as not found', async () => {
+      mockDocClient.send.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), {
+        name: 'ConditionalCheckFailedException'
+      }));
+
+      await expect(sensorsService.revokeDeviceKey('freezer-2', 'key-1')).rejects.toThrow('Device key not found: key-1');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  Moments,
+  Sketch,
+  SKETCH_RELATIVE_ACCURACY,
+  emptySketch,
+  getSketchBin,
+  getSketchCount,
+  getSketchQuantile,
+  getVariance,
+  mergeMoments,
+  mergeSketches
+} from '../../lambda/shared/statistics';
+
+const toSketch = (values: number[]): Sketch => values.reduce((sketch, value) => {
+  const bin = getSketchBin(value);
+  if (bin.store === 'zero') {
+    return { ...sketch, zero: sketch.zero + 1 };
+  }
+  return mergeSketches(sketch, { ...emptySketch(), [bin.store]: { [bin.index]: 1 } });
+}, emptySketch());
+
+const toMoments = (values: number[]): Moments => ({
+  count: values.length,
+  shift: values[0],
+  sum_dev: values.reduce((total, value) => total + value - values[0], 0),
+  sum_sq_dev: values.reduce((total, value) => total + (value - values[0]) ** 2, 0)
+});
+
+const exactQuantile = (values: number[], q: number) => [...values].sort((a, b) => a - b)[Math.max(1, Math.ceil(q * values.length)) - 1];
+
+describe('statistics', () => {
+  describe('sketch', () => {
+    const values = Array.from({ length: 1000 }, (_, index) => -50 + index * 0.173);
+
+    it('should estimate quantiles within the relative accuracy', () => {
+      const sketch = toSketch(values);
+
+      expect(getSketchCount(sketch)).toBe(1000);
+      for (const q of [0.01, 0.5, 0.95, 0.99]) {
+        const exact = exactQuantile(values, q);
+        const estimate = getSketchQuantile(sketch, q)!;
+        expect(Math.abs(estimate - exact)).toBeLessThanOrEqual(Math.abs(exact) * SKETCH_RELATIVE_ACCURACY + 1e-9);
+      }
+    });
+
+    it('should give the same quantiles after merging partial sketches', () => {
+      const merged = mergeSketches(toSketch(values.slice(0, 400)), toSketch(values.slice(400)));
+
+      expect(getSketchQuantile(merged, 0.95)).toBe(getSketchQuantile(toSketch(values), 0.95));
+    });
+
+    it('should ignore bins emptied by removals', () => {
+      const sketch = mergeSketches(toSketch([10, 20, 30]), { ...emptySketch(), pos: { [(getSketchBin(30) as any).index]: -1 } });
+
+      expect(getSketchCount(sketch)).toBe(2);
+      expect(getSketchQuantile(sketch, 1)).toBeCloseTo(20, 0);
+      expect(getSketchQuantile(emptySketch(), 0.5)).toBeNull();
+    });
+  });
+
+  describe('moments', () => {
+    it('should keep precision for large values with a small spread', () => {
+      const values = [1e9 + 4, 1e9 + 7, 1e9 + 13, 1e9 + 16];
+
+      expect(getVariance(toMoments(values))).toBeCloseTo(22.5, 10);
+    });
+
+    it('should merge sets with different shifts', () => {
+      const merged = mergeMoments(toMoments([10, 12]), toMoments([14, 30]));
+
+      expect(merged.count).toBe(4);
+      expect(merged.shift).toBe(10);
+      expect(getVariance(merged)).toBeCloseTo(62.75);
+      expect(getVariance(mergeMoments(toMoments([]), toMoments([5, 7])))).toBeCloseTo(1);
+    });
+  });
+});